@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Product_createdAt_id_idx" ON "Product"("createdAt", "id");
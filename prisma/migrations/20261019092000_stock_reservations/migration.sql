@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderReference" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "StockReservationItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "reservationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    CONSTRAINT "StockReservationItem_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "StockReservation" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "StockReservationItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "StockReservation"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_orderReference_idx" ON "StockReservation"("orderReference");
+
+-- CreateIndex
+CREATE INDEX "StockReservationItem_reservationId_idx" ON "StockReservationItem"("reservationId");
@@ -0,0 +1,25 @@
+-- Convert the floating point price into integer minor units plus an ISO 4217 currency.
+-- Existing rows have no currency recorded; they are assumed to be USD (2 decimal places).
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Product" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "priceAmount" INTEGER NOT NULL,
+    "priceCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "available" BOOLEAN NOT NULL DEFAULT true,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_Product" ("id", "name", "priceAmount", "priceCurrency", "available", "stock", "createdAt", "updatedAt")
+SELECT "id", "name", CAST(ROUND("price" * 100) AS INTEGER), 'USD', "available", "stock", "createdAt", "updatedAt" FROM "Product";
+DROP TABLE "Product";
+ALTER TABLE "new_Product" RENAME TO "Product";
+CREATE INDEX "Product_available_idx" ON "Product"("available");
+CREATE INDEX "Product_createdAt_id_idx" ON "Product"("createdAt", "id");
+CREATE INDEX "Product_priceCurrency_priceAmount_idx" ON "Product"("priceCurrency", "priceAmount");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
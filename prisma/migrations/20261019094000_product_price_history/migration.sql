@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ProductPrice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL,
+    "appliedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProductPrice_productId_effectiveFrom_idx" ON "ProductPrice"("productId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "ProductPrice_appliedAt_effectiveFrom_idx" ON "ProductPrice"("appliedAt", "effectiveFrom");
+
+-- Backfill: the current price of every product has been effective since it was created
+INSERT INTO "ProductPrice" ("id", "productId", "amount", "currency", "effectiveFrom", "appliedAt", "createdAt")
+SELECT
+    lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6))),
+    "id", "priceAmount", "priceCurrency", "createdAt", "createdAt", CURRENT_TIMESTAMP
+FROM "Product";
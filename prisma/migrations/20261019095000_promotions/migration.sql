@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "percentOff" INTEGER,
+    "amountOff" INTEGER,
+    "amountOffCurrency" TEXT,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "PromotionTarget" (
+    "promotionId" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+
+    PRIMARY KEY ("promotionId", "targetType", "targetId"),
+    CONSTRAINT "PromotionTarget_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Promotion_active_startsAt_endsAt_idx" ON "Promotion"("active", "startsAt", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "PromotionTarget_targetType_targetId_idx" ON "PromotionTarget"("targetType", "targetId");
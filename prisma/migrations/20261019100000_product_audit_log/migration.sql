@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ProductAuditEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT,
+    "correlationId" TEXT,
+    "changes" TEXT NOT NULL,
+    "occurredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProductAuditEntry_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProductAuditEntry_productId_occurredAt_idx" ON "ProductAuditEntry"("productId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "ProductAuditEntry_actor_occurredAt_idx" ON "ProductAuditEntry"("actor", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "ProductAuditEntry_action_occurredAt_idx" ON "ProductAuditEntry"("action", "occurredAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "attributeSchema" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "attributes" TEXT NOT NULL DEFAULT '{}';
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "description" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "tags" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateVirtualTable
+-- Full-text index over the available products, kept in sync by the product repository
+CREATE VIRTUAL TABLE "ProductSearchIndex" USING fts5(
+    "productId" UNINDEXED,
+    "name",
+    "description",
+    "tags",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill
+INSERT INTO "ProductSearchIndex" ("productId", "name", "description", "tags")
+SELECT "id", "name", '', '' FROM "Product" WHERE "available" = true;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "StockReservation" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "Promotion" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- DropIndex
+DROP INDEX "Product_sku_key";
+
+-- DropIndex
+DROP INDEX "ProductVariant_sku_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_tenantId_sku_key" ON "Product"("tenantId", "sku");
+
+-- CreateIndex
+CREATE INDEX "Product_tenantId_available_idx" ON "Product"("tenantId", "available");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductVariant_tenantId_sku_key" ON "ProductVariant"("tenantId", "sku");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_tenantId_idx" ON "StockReservation"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Category_tenantId_idx" ON "Category"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Promotion_tenantId_idx" ON "Promotion"("tenantId");
+
+-- RecreateVirtualTable
+-- The search index gains the tenant so that matches can be filtered by it
+DROP TABLE "ProductSearchIndex";
+
+CREATE VIRTUAL TABLE "ProductSearchIndex" USING fts5(
+    "productId" UNINDEXED,
+    "tenantId" UNINDEXED,
+    "name",
+    "description",
+    "tags",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO "ProductSearchIndex" ("productId", "tenantId", "name", "description", "tags")
+SELECT "id", "tenantId", "name", coalesce("description", ''),
+    (SELECT coalesce(group_concat("value", ', '), '') FROM json_each("Product"."tags"))
+FROM "Product" WHERE "available" = true;
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "ProductTranslation" (
+    "productId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT,
+    "description" TEXT,
+
+    PRIMARY KEY ("productId", "locale"),
+    CONSTRAINT "ProductTranslation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ProductMedia" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "productId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "storageKey" TEXT,
+    "altText" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "primary" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "ProductMedia_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProductMedia_productId_position_idx" ON "ProductMedia"("productId", "position");
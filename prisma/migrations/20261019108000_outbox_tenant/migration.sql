@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "OutboxEvent" ADD COLUMN "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- Backfill
+-- Envelopes recorded since tenants were introduced carry theirs; older ones belong to "default"
+UPDATE "OutboxEvent" SET "tenantId" = coalesce(json_extract("payload", '$.tenantId'), 'default');
+
+-- CreateIndex
+CREATE INDEX "OutboxEvent_tenantId_status_idx" ON "OutboxEvent"("tenantId", "status");
@@ -7,7 +7,14 @@
 
 import { Module } from '@nestjs/common';
 import { ProductsModule } from './products/products.module';
+import { PromotionsModule } from './promotions/promotions.module';
+import { CategoriesModule } from './categories/categories.module';
+import { OutboxModule } from './outbox/outbox.module';
 import { PrismaModule } from './shared/infrastructure/prisma/prisma.module';
+import { IdempotencyModule } from './shared/infrastructure/idempotency/idempotency.module';
+import { RequestContextModule } from './shared/infrastructure/request-context/request-context.module';
+import { JsonSchemaModule } from './shared/infrastructure/json-schema/json-schema.module';
+import { AuthModule } from './shared/infrastructure/auth/auth.module';
 
 /**
  * @module AppModule
@@ -16,7 +23,14 @@ import { PrismaModule } from './shared/infrastructure/prisma/prisma.module';
 @Module({
   imports: [
       PrismaModule, // Provides PrismaService globally
+      IdempotencyModule, // Provides the @Idempotent() interceptor globally
+      RequestContextModule, // Tracks the actor and correlation ID of each message
+      JsonSchemaModule, // Validates product attributes against category schemas
+      AuthModule, // Verifies caller tokens for the AuthGuard
       ProductsModule,
+      PromotionsModule,
+      CategoriesModule,
+      OutboxModule,
     ],
   controllers: [],
   providers: [],
@@ -0,0 +1,75 @@
+/**
+ * @file Command handler for creating a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { Category, CategoryDomainError, CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../domain';
+import { JsonSchemaValidator, JSON_SCHEMA_VALIDATOR } from '../../../../shared/application';
+import { assertValidAttributeSchema } from '../../utils';
+import { CreateCategoryCommand } from '../impl';
+
+/**
+ * @class CreateCategoryHandler
+ * @description Handles the execution of the CreateCategoryCommand.
+ */
+@CommandHandler(CreateCategoryCommand)
+export class CreateCategoryHandler implements ICommandHandler<CreateCategoryCommand, Category> {
+  private readonly logger = new Logger(CreateCategoryHandler.name);
+
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   * @param {JsonSchemaValidator} schemaValidator - Checks the attribute schema.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+    @Inject(JSON_SCHEMA_VALIDATOR)
+    private readonly schemaValidator: JsonSchemaValidator,
+  ) {}
+
+  /**
+   * Executes the create category command.
+   * @async
+   * @param {CreateCategoryCommand} command - The command object.
+   * @returns {Promise<Category>} The created category.
+   * @throws {RpcException} If the parent is not found, the name or attribute schema is invalid or an error occurs
+   * during creation.
+   */
+  async execute(command: CreateCategoryCommand): Promise<Category> {
+    const { name, parentId, attributeSchema } = command.createCategoryDto;
+    this.logger.log(`Attempting to create category: ${name}`);
+
+    try {
+      assertValidAttributeSchema(this.schemaValidator, attributeSchema);
+      if (parentId && !(await this.categoryRepository.findById(parentId))) {
+        throw new RpcException({
+          message: `Parent category with id #${parentId} not found`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      const created = await this.categoryRepository.create(new Category(randomUUID(), name, parentId ?? null, attributeSchema ?? null));
+      this.logger.log(`Successfully created category with ID: ${created.id}`);
+      return created;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof CategoryDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to create category: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to create category.',
+      });
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @file Command handler for deleting a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandBus, CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Category, CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { DeleteCategoryCommand, ReassignCategoryProductsCommand } from '../impl';
+
+/**
+ * @class DeleteCategoryHandler
+ * @description Handles the execution of the DeleteCategoryCommand. A category with subcategories cannot
+ * be deleted; one that still has products can only be deleted by moving them to another category, which
+ * ReassignCategoryProductsCommand does in the same unit of work.
+ */
+@CommandHandler(DeleteCategoryCommand)
+export class DeleteCategoryHandler implements ICommandHandler<DeleteCategoryCommand, Category> {
+  private readonly logger = new Logger(DeleteCategoryHandler.name);
+
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {CommandBus} commandBus - Moves the products to the target category.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly commandBus: CommandBus,
+  ) {}
+
+  /**
+   * Executes the delete category command.
+   * @async
+   * @param {DeleteCategoryCommand} command - The command object.
+   * @returns {Promise<Category>} The deleted category.
+   * @throws {RpcException} If either category is not found, the category still has subcategories or
+   * unassigned products, a product cannot move to the target category (409), or an error occurs.
+   */
+  async execute(command: DeleteCategoryCommand): Promise<Category> {
+    const { id, reassignToId } = command;
+    this.logger.log(`Attempting to delete category with ID: ${id}`);
+
+    try {
+      const category = await this.unitOfWork.run(async () => {
+        const existing = await this.categoryRepository.findById(id);
+        if (!existing) {
+          throw new RpcException({
+            message: `Category with id #${id} not found`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+
+        const hierarchy = await this.categoryRepository.findHierarchy();
+        const subcategories = hierarchy.childrenOf(id).length;
+        if (subcategories > 0) {
+          throw new RpcException({
+            message: `Category #${id} has ${subcategories} subcategories; move or delete them first`,
+            status: HttpStatus.CONFLICT,
+          });
+        }
+
+        if (reassignToId !== undefined) {
+          if (reassignToId === id) {
+            throw new RpcException({
+              message: 'Products cannot be reassigned to the category being deleted',
+              status: HttpStatus.BAD_REQUEST,
+            });
+          }
+          if (!hierarchy.has(reassignToId)) {
+            throw new RpcException({
+              message: `Category with id #${reassignToId} not found`,
+              status: HttpStatus.NOT_FOUND,
+            });
+          }
+          const productIds = await this.categoryRepository.findProductIds(id);
+          if (productIds.length > 0) {
+            const moved = await this.commandBus.execute<ReassignCategoryProductsCommand, number>(
+              new ReassignCategoryProductsCommand(id, reassignToId, productIds),
+            );
+            this.logger.log(`Moved ${moved} products from category ${id} to ${reassignToId}`);
+          }
+        } else {
+          const productCount = await this.categoryRepository.countProducts(id);
+          if (productCount > 0) {
+            throw new RpcException({
+              message: `Category #${id} still has ${productCount} products; give reassignToId to move them`,
+              status: HttpStatus.CONFLICT,
+              details: { productCount },
+            });
+          }
+        }
+
+        await this.categoryRepository.delete(id);
+        return existing;
+      });
+      this.logger.log(`Successfully deleted category with ID: ${id}`);
+      return category;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      this.logger.error(`Failed to delete category ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to delete category.',
+      });
+    }
+  }
+}
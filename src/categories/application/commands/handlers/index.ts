@@ -0,0 +1,3 @@
+export * from './create-category.handler';
+export * from './update-category.handler';
+export * from './delete-category.handler';
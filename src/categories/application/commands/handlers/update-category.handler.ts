@@ -0,0 +1,101 @@
+/**
+ * @file Command handler for updating a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Category, CategoryDomainError, CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../domain';
+import { JsonSchemaValidator, JSON_SCHEMA_VALIDATOR, UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { assertValidAttributeSchema } from '../../utils';
+import { UpdateCategoryCommand } from '../impl';
+
+/**
+ * @class UpdateCategoryHandler
+ * @description Handles the execution of the UpdateCategoryCommand. A move is checked against the tree
+ * read in the same unit of work, so two concurrent moves cannot build a cycle.
+ */
+@CommandHandler(UpdateCategoryCommand)
+export class UpdateCategoryHandler implements ICommandHandler<UpdateCategoryCommand, Category> {
+  private readonly logger = new Logger(UpdateCategoryHandler.name);
+
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {JsonSchemaValidator} schemaValidator - Checks a new attribute schema.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    @Inject(JSON_SCHEMA_VALIDATOR)
+    private readonly schemaValidator: JsonSchemaValidator,
+  ) {}
+
+  /**
+   * Executes the update category command.
+   * @async
+   * @param {UpdateCategoryCommand} command - The command object.
+   * @returns {Promise<Category>} The updated category.
+   * @throws {RpcException} If the category or new parent is not found, the move would create a cycle, the attribute
+   * schema is invalid or an error occurs.
+   */
+  async execute(command: UpdateCategoryCommand): Promise<Category> {
+    const { id, updateCategoryData } = command;
+    const { name, parentId, attributeSchema } = updateCategoryData;
+    this.logger.log(`Attempting to update category with ID: ${id}`);
+
+    try {
+      assertValidAttributeSchema(this.schemaValidator, attributeSchema);
+      const updated = await this.unitOfWork.run(async () => {
+        const category = await this.categoryRepository.findById(id);
+        if (!category) {
+          throw new RpcException({
+            message: `Category with id #${id} not found`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+
+        if (name !== undefined) {
+          category.rename(name);
+        }
+        // undefined leaves the parent alone; null moves the category to the root
+        if (parentId !== undefined) {
+          const hierarchy = await this.categoryRepository.findHierarchy();
+          if (parentId !== null && !hierarchy.has(parentId)) {
+            throw new RpcException({
+              message: `Parent category with id #${parentId} not found`,
+              status: HttpStatus.NOT_FOUND,
+            });
+          }
+          category.moveTo(parentId, hierarchy);
+        }
+        // undefined leaves the schema alone; null removes it
+        if (attributeSchema !== undefined) {
+          category.defineAttributes(attributeSchema);
+        }
+
+        return this.categoryRepository.save(category);
+      });
+      this.logger.log(`Successfully updated category with ID: ${id}`);
+      return updated;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof CategoryDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to update category ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to update category.',
+      });
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the command for creating a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CreateCategoryDto } from '../../dto/create-category.dto';
+
+/**
+ * @class CreateCategoryCommand
+ * @description Represents the intent to create a category, optionally below an existing one.
+ */
+export class CreateCategoryCommand {
+  /**
+   * @constructor
+   * @param {CreateCategoryDto} createCategoryDto - Name and parent of the category.
+   */
+  constructor(public readonly createCategoryDto: CreateCategoryDto) {}
+}
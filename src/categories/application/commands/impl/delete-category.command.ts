@@ -0,0 +1,22 @@
+/**
+ * @file Defines the command for deleting a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class DeleteCategoryCommand
+ * @description Represents the intent to delete a category, moving its products to another one if given.
+ */
+export class DeleteCategoryCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the category to delete.
+   * @param {string} [reassignToId] - The category that takes over its products.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly reassignToId?: string,
+  ) {}
+}
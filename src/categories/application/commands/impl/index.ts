@@ -0,0 +1,4 @@
+export * from './create-category.command';
+export * from './update-category.command';
+export * from './delete-category.command';
+export * from './reassign-category-products.command';
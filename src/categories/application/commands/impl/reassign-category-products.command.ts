@@ -0,0 +1,26 @@
+/**
+ * @file Defines the command for moving the products of a category to another one.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ReassignCategoryProductsCommand
+ * @description Represents the intent to move products out of a category being deleted and into another one.
+ * It is handled by the products module, which owns product writes, so the move is checked, audited and
+ * announced like any other product change. Its result is the number of products moved.
+ */
+export class ReassignCategoryProductsCommand {
+  /**
+   * @constructor
+   * @param {string} fromCategoryId - The category being deleted.
+   * @param {string} toCategoryId - The category that takes over the products.
+   * @param {string[]} productIds - The products assigned to the category being deleted.
+   */
+  constructor(
+    public readonly fromCategoryId: string,
+    public readonly toCategoryId: string,
+    public readonly productIds: string[],
+  ) {}
+}
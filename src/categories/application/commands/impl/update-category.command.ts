@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for updating a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { UpdateCategoryData } from '../../dto/update-category.dto';
+
+/**
+ * @class UpdateCategoryCommand
+ * @description Represents the intent to rename and/or move a category.
+ */
+export class UpdateCategoryCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the category to update.
+   * @param {UpdateCategoryData} updateCategoryData - The data to update the category with.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly updateCategoryData: UpdateCategoryData,
+  ) {}
+}
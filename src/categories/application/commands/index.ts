@@ -0,0 +1,12 @@
+import { CreateCategoryHandler } from './handlers/create-category.handler';
+import { UpdateCategoryHandler } from './handlers/update-category.handler';
+import { DeleteCategoryHandler } from './handlers/delete-category.handler';
+
+export * from './impl';
+export * from './handlers';
+
+export const CommandHandlers = [
+  CreateCategoryHandler,
+  UpdateCategoryHandler,
+  DeleteCategoryHandler,
+];
@@ -0,0 +1,35 @@
+/**
+ * @file Response shapes of the category queries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { AttributeSchema, Category } from '../../domain/model/category.entity';
+
+/**
+ * @class CategoryTreeNodeDto
+ * @description A category with its subcategories, recursively, ordered by name.
+ */
+export class CategoryTreeNodeDto {
+  id: string;
+  name: string;
+  parentId: string | null;
+  children: CategoryTreeNodeDto[];
+}
+
+/**
+ * @class CategoryDetailsDto
+ * @description A category with the path from the root down to its parent, its direct subcategories
+ * and the number of products assigned directly to it. Products must satisfy its attribute schema and
+ * those of the categories on its path.
+ */
+export class CategoryDetailsDto {
+  id: string;
+  name: string;
+  parentId: string | null;
+  attributeSchema: AttributeSchema | null;
+  path: Category[];
+  children: Category[];
+  productCount: number;
+}
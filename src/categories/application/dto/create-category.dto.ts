@@ -0,0 +1,45 @@
+/**
+ * @file Data Transfer Object for creating a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsNotEmpty, IsObject, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { AttributeSchema } from '../../domain/model/category.entity';
+
+/**
+ * @class CreateCategoryDto
+ * @description Defines the shape of data for a new category.
+ */
+export class CreateCategoryDto {
+  /**
+   * @property {string} name - Display name of the category.
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  public name: string;
+
+  /**
+   * @property {string} [parentId] - The parent category; omitted for a root category.
+   * @decorator IsOptional
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsUUID()
+  public parentId?: string;
+
+  /**
+   * @property {AttributeSchema} [attributeSchema] - JSON Schema (draft-07) of the `attributes` of the products
+   * in this category and its subcategories. Its `type` must be "object".
+   * @decorator IsOptional
+   * @decorator IsObject
+   */
+  @IsOptional()
+  @IsObject()
+  public attributeSchema?: AttributeSchema;
+}
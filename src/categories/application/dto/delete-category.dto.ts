@@ -0,0 +1,33 @@
+/**
+ * @file Data Transfer Object for deleting a category.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+
+/**
+ * @class DeleteCategoryDto
+ * @description Identifies the category to delete and, if it still has products, the category that takes
+ * them over.
+ */
+export class DeleteCategoryDto {
+  /**
+   * @property {string} id - The ID of the category to delete.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {string} [reassignToId] - Category the products are moved to.
+   * @decorator IsOptional
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsUUID()
+  reassignToId?: string;
+}
@@ -0,0 +1,4 @@
+export * from './create-category.dto';
+export * from './update-category.dto';
+export * from './delete-category.dto';
+export * from './category-response.dto';
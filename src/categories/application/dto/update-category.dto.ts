@@ -0,0 +1,33 @@
+/**
+ * @file Data Transfer Object for updating a category. Includes the ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PartialType } from '@nestjs/mapped-types';
+import { IsString, IsUUID } from 'class-validator';
+import { CreateCategoryDto } from './create-category.dto';
+
+/**
+ * @class UpdateCategoryDto
+ * @extends PartialType(CreateCategoryDto)
+ * @description Defines the shape for update payloads. A `parentId` of null moves the category to the root;
+ * an `attributeSchema` of null removes the schema.
+ */
+export class UpdateCategoryDto extends PartialType(CreateCategoryDto) {
+  /**
+   * @property {string} id - The ID of the category to update.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+}
+
+/**
+ * @type UpdateCategoryData
+ * @description Represents the data part of the update, excluding the ID.
+ */
+export type UpdateCategoryData = Omit<UpdateCategoryDto, 'id'>;
@@ -0,0 +1,51 @@
+/**
+ * @file Query handler for reading the category tree.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../domain';
+import { CategoryTreeNodeDto } from '../../dto';
+import { FindAllCategoriesQuery } from '../impl/find-all-categories.query';
+
+/**
+ * @class FindAllCategoriesHandler
+ * @description Handles the execution of the FindAllCategoriesQuery. Builds the tree from one read of
+ * every category; siblings keep the repository's name order.
+ */
+@QueryHandler(FindAllCategoriesQuery)
+export class FindAllCategoriesHandler implements IQueryHandler<FindAllCategoriesQuery, CategoryTreeNodeDto[]> {
+  private readonly logger = new Logger(FindAllCategoriesHandler.name);
+
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find all categories query.
+   * @async
+   * @returns {Promise<CategoryTreeNodeDto[]>} The root categories with their subcategories.
+   */
+  async execute(): Promise<CategoryTreeNodeDto[]> {
+    this.logger.log('Reading the category tree');
+
+    const categories = await this.categoryRepository.findAll();
+    const nodes = new Map<string, CategoryTreeNodeDto>(categories.map(({ id, name, parentId }) =>
+      [id, { id, name, parentId, children: [] }]));
+
+    const roots: CategoryTreeNodeDto[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+}
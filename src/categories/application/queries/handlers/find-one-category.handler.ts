@@ -0,0 +1,70 @@
+/**
+ * @file Query handler for finding a single category by ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../domain';
+import { CategoryDetailsDto } from '../../dto';
+import { FindOneCategoryQuery } from '../impl/find-one-category.query';
+
+/**
+ * @class FindOneCategoryHandler
+ * @description Handles the execution of the FindOneCategoryQuery.
+ */
+@QueryHandler(FindOneCategoryQuery)
+export class FindOneCategoryHandler implements IQueryHandler<FindOneCategoryQuery, CategoryDetailsDto> {
+  private readonly logger = new Logger(FindOneCategoryHandler.name);
+
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find one category query.
+   * @async
+   * @param {FindOneCategoryQuery} query - The query object containing the category ID.
+   * @returns {Promise<CategoryDetailsDto>} The category with its path, subcategories and product count.
+   * @throws {RpcException} If the category is not found.
+   */
+  async execute(query: FindOneCategoryQuery): Promise<CategoryDetailsDto> {
+    const { id } = query;
+    this.logger.log(`Finding category with ID: ${id}`);
+
+    const category = await this.categoryRepository.findById(id);
+    if (!category) {
+      throw new RpcException({
+        message: `Category with id #${id} not found`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+
+    const hierarchy = await this.categoryRepository.findHierarchy();
+    const ancestorIds = hierarchy.ancestorsOf(id).reverse();
+    const [ancestors, children, productCount] = await Promise.all([
+      this.categoryRepository.findByIds(ancestorIds),
+      this.categoryRepository.findByIds(hierarchy.childrenOf(id)),
+      this.categoryRepository.countProducts(id),
+    ]);
+    const ancestorsById = new Map(ancestors.map(ancestor => [ancestor.id, ancestor]));
+
+    return {
+      id: category.id,
+      name: category.name,
+      parentId: category.parentId,
+      attributeSchema: category.attributeSchema,
+      path: ancestorIds.map(ancestorId => ancestorsById.get(ancestorId)).filter(ancestor => ancestor),
+      children: children.sort((a, b) => a.name.localeCompare(b.name)),
+      productCount,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * @file Defines the query for reading the category tree.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindAllCategoriesQuery
+ * @description Represents the intent to read every category, nested under its parent.
+ */
+export class FindAllCategoriesQuery {}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the query for finding a single category by ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindOneCategoryQuery
+ * @description Represents the intent to find a category with its path and subcategories.
+ */
+export class FindOneCategoryQuery {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the category to find.
+   */
+  constructor(public readonly id: string) {}
+}
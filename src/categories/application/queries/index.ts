@@ -0,0 +1,10 @@
+import { FindAllCategoriesHandler } from './handlers/find-all-categories.handler';
+import { FindOneCategoryHandler } from './handlers/find-one-category.handler';
+
+export * from './impl/find-all-categories.query';
+export * from './impl/find-one-category.query';
+
+export const QueryHandlers = [
+  FindAllCategoriesHandler,
+  FindOneCategoryHandler,
+];
@@ -0,0 +1,26 @@
+/**
+ * @file Checks attribute schemas sent to the category commands.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { AttributeSchema, CategoryDomainError } from '../../domain';
+import { JsonSchemaValidator } from '../../../shared/application';
+
+/**
+ * Checks that an attribute schema is valid JSON Schema. Whether it describes an object is a rule of the
+ * Category entity.
+ * @param {JsonSchemaValidator} validator - The schema validator.
+ * @param {AttributeSchema | null | undefined} schema - The requested schema; nothing to check if absent.
+ * @throws {CategoryDomainError} If the schema is invalid.
+ */
+export function assertValidAttributeSchema(validator: JsonSchemaValidator, schema: AttributeSchema | null | undefined): void {
+  if (schema === undefined || schema === null) {
+    return;
+  }
+  const errors = validator.schemaErrors(schema);
+  if (errors.length > 0) {
+    throw new CategoryDomainError(`Invalid attribute schema: ${errors.join('; ')}`);
+  }
+}
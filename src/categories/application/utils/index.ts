@@ -0,0 +1 @@
+export * from './attribute-schema';
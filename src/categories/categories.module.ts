@@ -0,0 +1,56 @@
+/**
+ * @file Categories module definition.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Module, Provider } from '@nestjs/common';
+import { CqrsModule } from '@nestjs/cqrs';
+
+// Application Layer
+import { CommandHandlers } from './application/commands';
+import { QueryHandlers } from './application/queries';
+
+// Domain Layer (Ports)
+import { CATEGORY_REPOSITORY_PORT } from './domain';
+
+// Infrastructure Layer (Adapters & Controller)
+import { PrismaCategoryRepository } from './infrastructure/adapters/prisma-category.repository';
+import { CategoriesController } from './infrastructure/controllers/categories.controller';
+
+/**
+ * @const {Provider[]} infrastructureProviders
+ * @description Provides the implementation for the category repository port.
+ */
+const infrastructureProviders: Provider[] = [
+  {
+    provide: CATEGORY_REPOSITORY_PORT,
+    useClass: PrismaCategoryRepository,
+  },
+];
+
+/**
+ * @const {Provider[]} applicationProviders
+ * @description Registers command and query handlers with CQRS.
+ */
+const applicationProviders: Provider[] = [
+    ...CommandHandlers,
+    ...QueryHandlers,
+];
+
+/**
+ * @module CategoriesModule
+ * @description Encapsulates the category tree. Exports the repository port so products can validate
+ * their categories and filter by a category's subtree.
+ */
+@Module({
+  imports: [CqrsModule],
+  controllers: [CategoriesController],
+  providers: [
+    ...applicationProviders,
+    ...infrastructureProviders,
+  ],
+  exports: [CATEGORY_REPOSITORY_PORT],
+})
+export class CategoriesModule {}
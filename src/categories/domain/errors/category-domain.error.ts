@@ -0,0 +1,23 @@
+/**
+ * @file Defines the error raised when a Category invariant is violated.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class CategoryDomainError
+ * @extends Error
+ * @description Signals that a category change would break the tree, e.g. a category moved under itself.
+ * Application handlers translate it into a client error.
+ */
+export class CategoryDomainError extends Error {
+  /**
+   * @constructor
+   * @param {string} message - Description of the violated rule.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = CategoryDomainError.name;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './errors';
+export * from './model/category.entity';
+export * from './model/category-hierarchy';
+export * from './ports/category.repository.port';
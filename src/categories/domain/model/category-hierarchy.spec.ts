@@ -0,0 +1,48 @@
+/**
+ * @file Tests of CategoryHierarchy.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CategoryHierarchy } from './category-hierarchy';
+
+describe('CategoryHierarchy', () => {
+  // apparel > shoes > running, apparel > hats; home
+  const hierarchy = new CategoryHierarchy([
+    { id: 'apparel', parentId: null },
+    { id: 'shoes', parentId: 'apparel' },
+    { id: 'running', parentId: 'shoes' },
+    { id: 'hats', parentId: 'apparel' },
+    { id: 'home', parentId: null },
+  ]);
+
+  it('lists ancestors nearest first and descendants level by level', () => {
+    expect(hierarchy.ancestorsOf('running')).toEqual(['shoes', 'apparel']);
+    expect(hierarchy.ancestorsOf('home')).toEqual([]);
+    expect(hierarchy.descendantsOf('apparel')).toEqual(['shoes', 'hats', 'running']);
+    expect(hierarchy.childrenOf('running')).toEqual([]);
+  });
+
+  it('counts every ancestor in a lineage, once', () => {
+    expect(hierarchy.lineageOf(['running', 'hats', 'home'])).toEqual(['running', 'shoes', 'apparel', 'hats', 'home']);
+  });
+
+  it('answers for unknown categories without failing', () => {
+    expect(hierarchy.has('garden')).toBe(false);
+    expect(hierarchy.ancestorsOf('garden')).toEqual([]);
+    expect(hierarchy.descendantsOf('garden')).toEqual([]);
+  });
+
+  it('terminates on parent links that already form a cycle', () => {
+    const cyclic = new CategoryHierarchy([
+      { id: 'a', parentId: 'c' },
+      { id: 'b', parentId: 'a' },
+      { id: 'c', parentId: 'b' },
+    ]);
+
+    expect(cyclic.ancestorsOf('a')).toEqual(['c', 'b', 'a']);
+    expect(cyclic.descendantsOf('a')).toEqual(['b', 'c']);
+    expect(cyclic.lineageOf(['b'])).toEqual(['b', 'a', 'c']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @file Defines the CategoryHierarchy, a read model of the whole category tree.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface CategoryNode
+ * @description The position of one category in the tree.
+ */
+export interface CategoryNode {
+  id: string;
+  parentId: string | null;
+}
+
+/**
+ * @class CategoryHierarchy
+ * @description Answers ancestor and descendant questions over the parent links of every category, so
+ * callers walk the tree in memory instead of one query per level.
+ */
+export class CategoryHierarchy {
+  private readonly parentOf = new Map<string, string | null>();
+  private readonly childIds = new Map<string, string[]>();
+
+  /**
+   * @constructor
+   * @param {CategoryNode[]} nodes - Every category with its parent.
+   */
+  constructor(nodes: CategoryNode[]) {
+    for (const { id, parentId } of nodes) {
+      this.parentOf.set(id, parentId);
+      if (parentId !== null) {
+        this.childIds.set(parentId, [...(this.childIds.get(parentId) ?? []), id]);
+      }
+    }
+  }
+
+  /**
+   * @method has
+   * @param {string} id - A category ID.
+   * @returns {boolean} True if the category exists.
+   */
+  public has(id: string): boolean {
+    return this.parentOf.has(id);
+  }
+
+  /**
+   * @method childrenOf
+   * @param {string} id - A category ID.
+   * @returns {string[]} The IDs of its direct subcategories.
+   */
+  public childrenOf(id: string): string[] {
+    return this.childIds.get(id) ?? [];
+  }
+
+  /**
+   * @method ancestorsOf
+   * @param {string} id - A category ID.
+   * @returns {string[]} The IDs of its parent, grandparent and so on up to the root, nearest first.
+   */
+  public ancestorsOf(id: string): string[] {
+    const ancestors: string[] = [];
+    let parentId = this.parentOf.get(id) ?? null;
+    while (parentId !== null && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = this.parentOf.get(parentId) ?? null;
+    }
+    return ancestors;
+  }
+
+  /**
+   * @method descendantsOf
+   * @param {string} id - A category ID.
+   * @returns {string[]} The IDs of every category below it, level by level.
+   */
+  public descendantsOf(id: string): string[] {
+    const descendants: string[] = [];
+    const pending = [...this.childrenOf(id)];
+    while (pending.length > 0) {
+      const next = pending.shift()!;
+      if (next !== id && !descendants.includes(next)) {
+        descendants.push(next);
+        pending.push(...this.childrenOf(next));
+      }
+    }
+    return descendants;
+  }
+
+  /**
+   * @method lineageOf
+   * @description The categories a product in the given categories belongs to, counting every ancestor:
+   * a product in "Shoes" under "Apparel" is also in "Apparel".
+   * @param {string[]} ids - Category IDs.
+   * @returns {string[]} The IDs and all their ancestors, without duplicates.
+   */
+  public lineageOf(ids: string[]): string[] {
+    return Array.from(new Set(ids.flatMap(id => [id, ...this.ancestorsOf(id)])));
+  }
+}
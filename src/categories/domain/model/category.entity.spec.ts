@@ -0,0 +1,43 @@
+/**
+ * @file Tests of the Category entity.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Category } from './category.entity';
+import { CategoryHierarchy } from './category-hierarchy';
+import { CategoryDomainError } from '../errors/category-domain.error';
+
+describe('Category', () => {
+  describe('moveTo', () => {
+    // apparel > shoes > running
+    const hierarchy = new CategoryHierarchy([
+      { id: 'apparel', parentId: null },
+      { id: 'shoes', parentId: 'apparel' },
+      { id: 'running', parentId: 'shoes' },
+      { id: 'home', parentId: null },
+    ]);
+
+    it('re-parents the category or makes it a root', () => {
+      const shoes = new Category('shoes', 'Shoes', 'apparel');
+
+      shoes.moveTo('home', hierarchy);
+      expect(shoes.parentId).toBe('home');
+      shoes.moveTo(null, hierarchy);
+      expect(shoes.parentId).toBeNull();
+    });
+
+    it.each(['apparel', 'shoes', 'running'])('rejects moving apparel below %s', (parentId) => {
+      const apparel = new Category('apparel', 'Apparel');
+
+      expect(() => apparel.moveTo(parentId, hierarchy)).toThrow(CategoryDomainError);
+      expect(apparel.parentId).toBeNull();
+    });
+  });
+
+  it('rejects a blank name and a schema that does not describe an object', () => {
+    expect(() => new Category('c', '  ')).toThrow('Category name must not be empty.');
+    expect(() => new Category('c', 'Shoes', null, { type: 'array' } as any)).toThrow(CategoryDomainError);
+  });
+});
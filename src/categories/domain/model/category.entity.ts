@@ -0,0 +1,83 @@
+/**
+ * @file Defines the Category entity, a node of the catalog's category tree.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CategoryDomainError } from '../errors/category-domain.error';
+import { CategoryHierarchy } from './category-hierarchy';
+
+/**
+ * @type AttributeSchema
+ * @description A JSON Schema describing the `attributes` map of the products in a category.
+ */
+export type AttributeSchema = Record<string, unknown>;
+
+/**
+ * @class Category
+ * @description A named grouping of products. Categories nest: a category with no parent is a root, and
+ * a category may not be moved below itself. A category may define which custom attributes its products
+ * carry; products in its subcategories must satisfy it too.
+ */
+export class Category {
+  public name: string;
+  public attributeSchema: AttributeSchema | null = null;
+
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the category (UUID).
+   * @param {string} name - Display name.
+   * @param {string | null} [parentId=null] - The parent category, or null for a root category.
+   * @param {AttributeSchema | null} [attributeSchema=null] - Schema of its products' attributes, if any.
+   * @throws {CategoryDomainError} If the name is blank or the schema does not describe an object.
+   */
+  constructor(
+    public readonly id: string,
+    name: string,
+    public parentId: string | null = null,
+    attributeSchema: AttributeSchema | null = null,
+  ) {
+    this.rename(name);
+    this.defineAttributes(attributeSchema);
+  }
+
+  /**
+   * @method rename
+   * @param {string} name - The new display name.
+   * @throws {CategoryDomainError} If the name is blank.
+   */
+  public rename(name: string): void {
+    if (!name || name.trim().length === 0) {
+      throw new CategoryDomainError('Category name must not be empty.');
+    }
+    this.name = name.trim();
+  }
+
+  /**
+   * @method moveTo
+   * @description Re-parents the category, taking its subcategories along.
+   * @param {string | null} parentId - The new parent, or null to make it a root category.
+   * @param {CategoryHierarchy} hierarchy - The current tree.
+   * @throws {CategoryDomainError} If the new parent is the category itself or one of its descendants.
+   */
+  public moveTo(parentId: string | null, hierarchy: CategoryHierarchy): void {
+    if (parentId === this.id || (parentId !== null && hierarchy.descendantsOf(this.id).includes(parentId))) {
+      throw new CategoryDomainError(`Category #${this.id} cannot be moved below itself.`);
+    }
+    this.parentId = parentId;
+  }
+
+  /**
+   * @method defineAttributes
+   * @description Replaces the attribute schema. The caller checks that it is valid JSON Schema.
+   * @param {AttributeSchema | null} schema - The new schema, or null to let products carry no attributes.
+   * @throws {CategoryDomainError} If the schema does not describe an object.
+   */
+  public defineAttributes(schema: AttributeSchema | null): void {
+    if (schema !== null && (typeof schema !== 'object' || Array.isArray(schema) || schema.type !== 'object')) {
+      throw new CategoryDomainError('An attribute schema must describe an object (type "object").');
+    }
+    this.attributeSchema = schema;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @file Defines the port (interface) for category repository operations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Category } from '../model/category.entity';
+import { CategoryHierarchy } from '../model/category-hierarchy';
+
+/**
+ * @interface CategoryRepositoryPort
+ * @description Defines the contract for category repository adapters.
+ */
+export interface CategoryRepositoryPort {
+  /**
+   * Stores a new category.
+   * @async
+   * @param {Category} category - The category to create.
+   * @returns {Promise<Category>} The created category.
+   */
+  create(category: Category): Promise<Category>;
+
+  /**
+   * Finds a category by its ID.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<Category | null>} The category or null if not found.
+   */
+  findById(id: string): Promise<Category | null>;
+
+  /**
+   * Finds categories by their IDs. Unknown IDs are skipped.
+   * @async
+   * @param {string[]} ids - Category IDs.
+   * @returns {Promise<Category[]>} The categories found.
+   */
+  findByIds(ids: string[]): Promise<Category[]>;
+
+  /**
+   * Finds every category, ordered by name.
+   * @async
+   * @returns {Promise<Category[]>} All categories.
+   */
+  findAll(): Promise<Category[]>;
+
+  /**
+   * Loads the parent links of every category.
+   * @async
+   * @returns {Promise<CategoryHierarchy>} The current tree.
+   */
+  findHierarchy(): Promise<CategoryHierarchy>;
+
+  /**
+   * Counts the products assigned directly to a category, available or not.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<number>} The number of products.
+   */
+  countProducts(id: string): Promise<number>;
+
+  /**
+   * Lists the products assigned directly to a category, available or not.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<string[]>} The product IDs.
+   */
+  findProductIds(id: string): Promise<string[]>;
+
+  /**
+   * Persists the name and parent of a category.
+   * @async
+   * @param {Category} category - The category to save.
+   * @returns {Promise<Category>} The saved category.
+   */
+  save(category: Category): Promise<Category>;
+
+  /**
+   * Deletes a category and whatever product assignments it still has. Products are moved out beforehand
+   * through the product commands, which check and audit the change.
+   * @async
+   * @param {string} id - The category to delete.
+   * @returns {Promise<void>}
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * @const {string} CATEGORY_REPOSITORY_PORT
+ * @description Injection token for the CategoryRepositoryPort.
+ */
+export const CATEGORY_REPOSITORY_PORT = 'CategoryRepositoryPort';
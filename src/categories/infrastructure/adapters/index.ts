@@ -0,0 +1 @@
+export * from './prisma-category.repository';
@@ -0,0 +1,244 @@
+/**
+ * @file Prisma adapter implementing the CategoryRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Category } from '../../domain/model/category.entity';
+import { CategoryHierarchy } from '../../domain/model/category-hierarchy';
+import { CategoryRepositoryPort } from '../../domain/ports/category.repository.port';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { requireTenant, tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+
+/**
+ * @class PrismaCategoryRepository
+ * @implements CategoryRepositoryPort
+ * @description Implements category persistence logic using Prisma ORM with SQLite. Product assignments
+ * live in the ProductCategory join table. Calls made inside a UnitOfWork run in its transaction. Each tenant
+ * has its own category tree; every call is restricted to the tenant of the current request.
+ */
+@Injectable()
+export class PrismaCategoryRepository implements CategoryRepositoryPort {
+  private readonly logger = new Logger(PrismaCategoryRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
+
+  /**
+   * Maps a Prisma Category model to a domain Category entity.
+   * @private
+   * @param {any} prismaCategory - The category object retrieved from Prisma.
+   * @returns {Category | null} The domain entity, or null if input is null/undefined.
+   */
+  private mapToDomain(prismaCategory: any): Category | null {
+    if (!prismaCategory) {
+      return null;
+    }
+    return new Category(
+      prismaCategory.id,
+      prismaCategory.name,
+      prismaCategory.parentId,
+      prismaCategory.attributeSchema ? JSON.parse(prismaCategory.attributeSchema) : null,
+    );
+  }
+
+  /**
+   * Encodes the attribute schema of a category for its TEXT column.
+   * @private
+   * @param {Category} category - The category.
+   * @returns {string | null} The JSON text, or null if the category has no schema.
+   */
+  private serializeSchema(category: Category): string | null {
+    return category.attributeSchema ? JSON.stringify(category.attributeSchema) : null;
+  }
+
+  /**
+   * Stores a new category.
+   * @async
+   * @param {Category} category - The category to create.
+   * @returns {Promise<Category>} The created category.
+   */
+  async create(category: Category): Promise<Category> {
+    try {
+      const created = await this.prisma.client.category.create({
+        data: {
+          id: category.id,
+          tenantId: requireTenant(this.requestContext),
+          name: category.name,
+          parentId: category.parentId,
+          attributeSchema: this.serializeSchema(category),
+        },
+      });
+      return this.mapToDomain(created);
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Error creating category: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error creating category.' });
+    }
+  }
+
+  /**
+   * Finds a category by its ID.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<Category | null>} The category or null.
+   */
+  async findById(id: string): Promise<Category | null> {
+    try {
+      const category = await this.prisma.client.category.findFirst({ where: { id, ...this.scope() } });
+      return this.mapToDomain(category);
+    } catch (error: any) {
+      this.logger.error(`Error finding category by ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding category.' });
+    }
+  }
+
+  /**
+   * Finds categories by their IDs.
+   * @async
+   * @param {string[]} ids - Category IDs.
+   * @returns {Promise<Category[]>} The categories found.
+   */
+  async findByIds(ids: string[]): Promise<Category[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    try {
+      const categories = await this.prisma.client.category.findMany({ where: { id: { in: ids }, ...this.scope() } });
+      return categories.map(c => this.mapToDomain(c));
+    } catch (error: any) {
+      this.logger.error(`Error finding categories by IDs: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding categories.' });
+    }
+  }
+
+  /**
+   * Finds every category, ordered by name.
+   * @async
+   * @returns {Promise<Category[]>} All categories.
+   */
+  async findAll(): Promise<Category[]> {
+    try {
+      const categories = await this.prisma.client.category.findMany({
+        where: this.scope(),
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      });
+      return categories.map(c => this.mapToDomain(c));
+    } catch (error: any) {
+      this.logger.error(`Error finding categories: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding categories.' });
+    }
+  }
+
+  /**
+   * Loads the parent links of every category.
+   * @async
+   * @returns {Promise<CategoryHierarchy>} The current tree.
+   */
+  async findHierarchy(): Promise<CategoryHierarchy> {
+    try {
+      const nodes = await this.prisma.client.category.findMany({ where: this.scope(), select: { id: true, parentId: true } });
+      return new CategoryHierarchy(nodes);
+    } catch (error: any) {
+      this.logger.error(`Error loading category hierarchy: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error loading categories.' });
+    }
+  }
+
+  /**
+   * Counts the products assigned directly to a category.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<number>} The number of products.
+   */
+  async countProducts(id: string): Promise<number> {
+    try {
+      return await this.prisma.client.productCategory.count({
+        where: { categoryId: id, category: this.scope(), product: this.scope() },
+      });
+    } catch (error: any) {
+      this.logger.error(`Error counting products of category ${id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error counting category products.' });
+    }
+  }
+
+  /**
+   * Persists the name and parent of a category.
+   * @async
+   * @param {Category} category - The category to save.
+   * @returns {Promise<Category>} The saved category.
+   */
+  async save(category: Category): Promise<Category> {
+    try {
+      const saved = await this.prisma.client.category.update({
+        where: { id: category.id, ...this.scope() },
+        data: { name: category.name, parentId: category.parentId, attributeSchema: this.serializeSchema(category) },
+      });
+      return this.mapToDomain(saved);
+    } catch (error: any) {
+      this.logger.error(`Error saving category ${category.id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error saving category.' });
+    }
+  }
+
+  /**
+   * Lists the products assigned directly to a category.
+   * @async
+   * @param {string} id - The category ID.
+   * @returns {Promise<string[]>} The product IDs.
+   */
+  async findProductIds(id: string): Promise<string[]> {
+    try {
+      const assignments = await this.prisma.client.productCategory.findMany({
+        where: { categoryId: id, category: this.scope(), product: this.scope() },
+        select: { productId: true },
+      });
+      return assignments.map((a: any) => a.productId);
+    } catch (error: any) {
+      this.logger.error(`Error listing products of category ${id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error listing category products.' });
+    }
+  }
+
+  /**
+   * Deletes a category and its remaining product assignments inside one Prisma transaction (joining the
+   * current UnitOfWork, if any).
+   * @async
+   * @param {string} id - The category to delete.
+   * @returns {Promise<void>}
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.transaction(async tx => {
+        await tx.productCategory.deleteMany({ where: { categoryId: id, category: this.scope() } });
+        await tx.category.delete({ where: { id, ...this.scope() } });
+      });
+    } catch (error: any) {
+      this.logger.error(`Error deleting category ${id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error deleting category.' });
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @file NATS controller for handling category-related requests.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Controller, ParseUUIDPipe, Logger, UseGuards } from '@nestjs/common';
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+
+import {
+  CategoryDetailsDto, CategoryTreeNodeDto, CreateCategoryDto, DeleteCategoryDto, UpdateCategoryDto, UpdateCategoryData,
+} from '../../application/dto';
+import { Category } from '../../domain';
+import { CreateCategoryCommand, UpdateCategoryCommand, DeleteCategoryCommand } from '../../application/commands/impl';
+import { FindAllCategoriesQuery, FindOneCategoryQuery } from '../../application/queries';
+import { Idempotent } from '../../../shared/infrastructure/idempotency';
+import { AuthGuard, CATALOG_READ, CATALOG_WRITE, Roles } from '../../../shared/infrastructure/auth';
+
+/**
+ * @class CategoriesController
+ * @description Handles incoming NATS messages for category CRUD operations.
+ * Uses CommandBus and QueryBus to delegate tasks. Every pattern requires a token granting `catalog:read`
+ * (queries) or `catalog:write` (commands).
+ */
+@Controller()
+@UseGuards(AuthGuard)
+export class CategoriesController {
+  private readonly logger = new Logger(CategoriesController.name);
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   * @param {QueryBus} queryBus - Injected QueryBus.
+   */
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /**
+   * Handles 'create_category' message.
+   * @param {CreateCategoryDto} createCategoryDto - Name and optional parent.
+   * @returns {Promise<Category>} The created category.
+   */
+  @MessagePattern({ cmd: 'create_category' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async create(@Payload() createCategoryDto: CreateCategoryDto): Promise<Category> {
+    this.logger.log(`Received create_category request: ${JSON.stringify(createCategoryDto)}`);
+    return this.commandBus.execute<CreateCategoryCommand, Category>(
+      new CreateCategoryCommand(createCategoryDto),
+    );
+  }
+
+  /**
+   * Handles 'find_all_categories' message.
+   * @returns {Promise<CategoryTreeNodeDto[]>} The category tree.
+   */
+  @MessagePattern({ cmd: 'find_all_categories' })
+  @Roles(CATALOG_READ)
+  async findAll(): Promise<CategoryTreeNodeDto[]> {
+    this.logger.log('Received find_all_categories request');
+    return this.queryBus.execute<FindAllCategoriesQuery, CategoryTreeNodeDto[]>(
+      new FindAllCategoriesQuery(),
+    );
+  }
+
+  /**
+   * Handles 'find_one_category' message.
+   * @param {string} id - Category ID extracted from payload.
+   * @returns {Promise<CategoryDetailsDto>} The category with its path and subcategories.
+   */
+  @MessagePattern({ cmd: 'find_one_category' })
+  @Roles(CATALOG_READ)
+  async findOne(@Payload('id', ParseUUIDPipe) id: string): Promise<CategoryDetailsDto> {
+    this.logger.log(`Received find_one_category request for ID: ${id}`);
+    return this.queryBus.execute<FindOneCategoryQuery, CategoryDetailsDto>(
+      new FindOneCategoryQuery(id),
+    );
+  }
+
+  /**
+   * Handles 'update_category' message.
+   * @param {UpdateCategoryDto} updateCategoryDto - Update payload containing ID and data.
+   * @returns {Promise<Category>} The updated category.
+   */
+  @MessagePattern({ cmd: 'update_category' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async update(@Payload() updateCategoryDto: UpdateCategoryDto): Promise<Category> {
+    this.logger.log(`Received update_category request for ID: ${updateCategoryDto.id}`);
+    const { id, ...updateData } = updateCategoryDto;
+    return this.commandBus.execute<UpdateCategoryCommand, Category>(
+      new UpdateCategoryCommand(id, updateData as UpdateCategoryData),
+    );
+  }
+
+  /**
+   * Handles 'delete_category' message.
+   * @param {DeleteCategoryDto} deleteCategoryDto - Category ID and optional reassignment target.
+   * @returns {Promise<Category>} The deleted category.
+   */
+  @MessagePattern({ cmd: 'delete_category' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async remove(@Payload() deleteCategoryDto: DeleteCategoryDto): Promise<Category> {
+    this.logger.log(`Received delete_category request: ${JSON.stringify(deleteCategoryDto)}`);
+    return this.commandBus.execute<DeleteCategoryCommand, Category>(
+      new DeleteCategoryCommand(deleteCategoryDto.id, deleteCategoryDto.reassignToId),
+    );
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * @file Environment defaults for the catalog CLI. Imported before the configuration is loaded.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+// A one-shot CLI run must not sweep reservations, activate prices, relay the outbox or purge idempotency
+// records; the running microservice does that, including relaying the events the import records.
+process.env.BACKGROUND_WORKERS_ENABLED ??= 'false';
@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+/**
+ * @file Command line entry point for importing and exporting the product catalog.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import './cli-environment';
+import { NestFactory } from '@nestjs/core';
+import { CommandBus } from '@nestjs/cqrs';
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { createWriteStream, WriteStream } from 'fs';
+import { writeFile } from 'fs/promises';
+import { userInfo } from 'os';
+import { finished } from 'stream/promises';
+import { parseArgs } from 'util';
+import { AppModule } from './app.module';
+import { RebuildSearchIndexCommand } from './products/application/commands/impl';
+import {
+  CATALOG_FILE_FORMATS, CatalogExporter, CatalogFileFormat, CatalogImporter, readCatalogRows,
+} from './products/infrastructure/cli';
+import { AsyncLocalRequestContext, TENANT_ID_PATTERN } from './shared/infrastructure/request-context';
+
+const USAGE = `Usage:
+  products-cli import <file.csv|file.json> --tenant <id> [--dry-run] [--upsert] [--report <file.json>]
+  products-cli export --tenant <id> [--format csv|json] [--include-unavailable] [--output <file>]
+  products-cli reindex
+
+CSV files need a header row; columns are name, description, tags, price, currency, sku, categoryIds and
+attributes, with tags, categoryIds and attributes written as JSON. The id, available, stock and version
+columns written by export are ignored on import.`;
+
+/**
+ * @class UsageError
+ * @description Invalid command line arguments.
+ */
+class UsageError extends Error {}
+
+/**
+ * Runs work for one tenant: the catalog it reads and writes is that tenant's.
+ * @param {INestApplicationContext} app - The application context.
+ * @param {string | undefined} tenantId - The --tenant option.
+ * @param {() => Promise<T>} work - The work.
+ * @returns {Promise<T>} The work's result.
+ * @throws {UsageError} If --tenant is missing or not a valid tenant ID.
+ */
+function forTenant<T>(app: INestApplicationContext, tenantId: string | undefined, work: () => Promise<T>): Promise<T> {
+  if (tenantId === undefined) {
+    throw new UsageError('--tenant is required');
+  }
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new UsageError('--tenant must be 1 to 64 letters, digits, dots, dashes or underscores');
+  }
+  const requestContext = app.get(AsyncLocalRequestContext);
+  return requestContext.run({ ...requestContext.current(), tenantId }, work);
+}
+
+/**
+ * Runs the import command. Prints one line per failed row and a summary; the full report is written
+ * to --report when given.
+ * @async
+ * @param {INestApplicationContext} app - The application context.
+ * @param {string[]} args - Arguments after the command name.
+ * @returns {Promise<number>} The exit code: 1 if any row failed.
+ */
+async function runImport(app: INestApplicationContext, args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      tenant: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      upsert: { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new UsageError('import expects exactly one file');
+  }
+
+  const report = await forTenant(app, values.tenant, () => app.get(CatalogImporter).import(readCatalogRows(positionals[0]), {
+    dryRun: values['dry-run'],
+    upsert: values.upsert,
+  }));
+
+  for (const row of report.rows.filter(result => result.action === 'failed')) {
+    process.stderr.write(`row ${row.row}${row.sku ? ` (sku ${row.sku})` : ''}: ${row.errors!.join('; ')}\n`);
+  }
+  if (values.report) {
+    await writeFile(values.report, `${JSON.stringify(report, null, 2)}\n`);
+  }
+  const verb = report.dryRun ? 'would be ' : '';
+  process.stdout.write(
+    `${report.created} ${verb}created, ${report.updated} ${verb}updated, ${report.failed} failed\n`,
+  );
+  return report.failed > 0 ? 1 : 0;
+}
+
+/**
+ * Opens the --output file, waiting until it is open so that a bad path fails before anything is exported.
+ * @async
+ * @param {string} path - The file path.
+ * @returns {Promise<WriteStream>} The open stream.
+ * @throws {Error} If the file cannot be opened.
+ */
+async function openOutput(path: string): Promise<WriteStream> {
+  const output = createWriteStream(path);
+  await once(output, 'open');
+  return output;
+}
+
+/**
+ * Runs the export command, writing to --output or standard output.
+ * @async
+ * @param {INestApplicationContext} app - The application context.
+ * @param {string[]} args - Arguments after the command name.
+ * @returns {Promise<number>} The exit code.
+ */
+async function runExport(app: INestApplicationContext, args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      tenant: { type: 'string' },
+      format: { type: 'string', default: 'csv' },
+      'include-unavailable': { type: 'boolean', default: false },
+      output: { type: 'string' },
+    },
+  });
+  if (!(CATALOG_FILE_FORMATS as readonly string[]).includes(values.format)) {
+    throw new UsageError(`--format must be one of: ${CATALOG_FILE_FORMATS.join(', ')}`);
+  }
+  if (values.tenant === undefined) {
+    throw new UsageError('--tenant is required');
+  }
+
+  const output = values.output ? await openOutput(values.output) : process.stdout;
+  const count = await forTenant(app, values.tenant, () => app.get(CatalogExporter).export(output, {
+    format: values.format as CatalogFileFormat,
+    includeUnavailable: values['include-unavailable'],
+  }));
+  if (output !== process.stdout) {
+    output.end();
+    await finished(output);
+    process.stderr.write(`Exported ${count} products to ${values.output}\n`);
+  }
+  return 0;
+}
+
+/**
+ * Runs the reindex command, rebuilding the full-text search index of every tenant.
+ * @async
+ * @param {INestApplicationContext} app - The application context.
+ * @param {string[]} args - Arguments after the command name; none are accepted.
+ * @returns {Promise<number>} The exit code.
+ */
+async function runReindex(app: INestApplicationContext, args: string[]): Promise<number> {
+  parseArgs({ args, options: {} });
+  const { indexed } = await app.get(CommandBus).execute<RebuildSearchIndexCommand, { indexed: number }>(
+    new RebuildSearchIndexCommand(),
+  );
+  process.stdout.write(`Indexed ${indexed} products\n`);
+  return 0;
+}
+
+/**
+ * Names the operator in the audit log, as `cli:<os user>`.
+ * @returns {string} The actor.
+ */
+function cliActor(): string {
+  try {
+    return `cli:${userInfo().username}`;
+  } catch {
+    return 'cli';
+  }
+}
+
+/**
+ * @function bootstrap
+ * @description Boots the application without the NATS transport and runs one CLI command. Every change
+ * it makes is audited under the same correlation ID.
+ * @async
+ */
+async function bootstrap() {
+  const logger = new Logger('Cli-ProductsMS');
+  const [command, ...args] = process.argv.slice(2);
+  const commands: Record<string, typeof runImport> = {
+    import: runImport, export: runExport, reindex: runReindex,
+  };
+
+  if (!commands[command]) {
+    process.stderr.write(`${USAGE}\n`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+  try {
+    const context = { actor: cliActor(), correlationId: randomUUID(), tenantId: null, roles: null };
+    process.exitCode = await app.get(AsyncLocalRequestContext).run(context, () => commands[command](app, args));
+  } catch (error: any) {
+    if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      process.exitCode = 2;
+    } else {
+      logger.error(`${command} failed: ${error.message}`, error.stack);
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+bootstrap();
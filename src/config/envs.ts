@@ -16,6 +16,27 @@ interface EnvVars {
   PORT: number;
   DATABASE_URL: string;
   NATS_SERVERS: string[];
+  RESERVATION_TTL_SECONDS: number;
+  RESERVATION_SWEEP_INTERVAL_SECONDS: number;
+  DEFAULT_CURRENCY: string;
+  PRICE_ACTIVATION_INTERVAL_SECONDS: number;
+  TAX_RATE_PERCENT: number;
+  OUTBOX_RELAY_INTERVAL_MS: number;
+  OUTBOX_RELAY_BATCH_SIZE: number;
+  OUTBOX_MAX_ATTEMPTS: number;
+  OUTBOX_RETRY_BASE_DELAY_MS: number;
+  OUTBOX_RETRY_MAX_DELAY_MS: number;
+  IDEMPOTENCY_KEY_TTL_SECONDS: number;
+  IDEMPOTENCY_LOCK_TIMEOUT_SECONDS: number;
+  IDEMPOTENCY_PURGE_INTERVAL_SECONDS: number;
+  BULK_MAX_BATCH_SIZE: number;
+  BACKGROUND_WORKERS_ENABLED: boolean;
+  AUTH_JWT_SECRET: string;
+  AUTH_JWT_ISSUER?: string;
+  AUTH_JWT_AUDIENCE?: string;
+  AUTH_CLOCK_SKEW_SECONDS: number;
+  DEFAULT_LOCALE: string;
+  SUPPORTED_LOCALES: string[];
 }
 
 // Define the validation schema using Joi
@@ -23,6 +44,27 @@ const envsSchema = joi.object({
   PORT: joi.number().required(),
   DATABASE_URL: joi.string().required(),
   NATS_SERVERS: joi.array().items(joi.string()).required(),
+  RESERVATION_TTL_SECONDS: joi.number().integer().positive().default(900),
+  RESERVATION_SWEEP_INTERVAL_SECONDS: joi.number().integer().positive().default(60),
+  DEFAULT_CURRENCY: joi.string().length(3).uppercase().default('USD'),
+  PRICE_ACTIVATION_INTERVAL_SECONDS: joi.number().integer().positive().default(60),
+  TAX_RATE_PERCENT: joi.number().min(0).max(100).default(0),
+  OUTBOX_RELAY_INTERVAL_MS: joi.number().integer().positive().default(1000),
+  OUTBOX_RELAY_BATCH_SIZE: joi.number().integer().positive().default(50),
+  OUTBOX_MAX_ATTEMPTS: joi.number().integer().positive().default(10),
+  OUTBOX_RETRY_BASE_DELAY_MS: joi.number().integer().positive().default(1000),
+  OUTBOX_RETRY_MAX_DELAY_MS: joi.number().integer().positive().default(300000),
+  IDEMPOTENCY_KEY_TTL_SECONDS: joi.number().integer().positive().default(86400),
+  IDEMPOTENCY_LOCK_TIMEOUT_SECONDS: joi.number().integer().positive().default(60),
+  IDEMPOTENCY_PURGE_INTERVAL_SECONDS: joi.number().integer().positive().default(3600),
+  BULK_MAX_BATCH_SIZE: joi.number().integer().positive().default(500),
+  BACKGROUND_WORKERS_ENABLED: joi.boolean().default(true),
+  AUTH_JWT_SECRET: joi.string().min(32).required(),
+  AUTH_JWT_ISSUER: joi.string().allow('').optional(),
+  AUTH_JWT_AUDIENCE: joi.string().allow('').optional(),
+  AUTH_CLOCK_SKEW_SECONDS: joi.number().integer().min(0).default(30),
+  DEFAULT_LOCALE: joi.string().default('en'),
+  SUPPORTED_LOCALES: joi.array().items(joi.string()).min(1).default(['en', 'es', 'pt']),
 })
 .unknown(true);
 
@@ -30,6 +72,7 @@ const envsSchema = joi.object({
 const { error, value } = envsSchema.validate({
   ...process.env,
   NATS_SERVERS: process.env.NATS_SERVERS?.split(','),
+  SUPPORTED_LOCALES: process.env.SUPPORTED_LOCALES?.split(','),
 });
 
 if (error) {
@@ -47,4 +90,25 @@ export const envs = {
   port: envVars.PORT,
   databaseUrl: envVars.DATABASE_URL,
   natsServers: envVars.NATS_SERVERS,
+  reservationTtlSeconds: envVars.RESERVATION_TTL_SECONDS,
+  reservationSweepIntervalSeconds: envVars.RESERVATION_SWEEP_INTERVAL_SECONDS,
+  defaultCurrency: envVars.DEFAULT_CURRENCY,
+  priceActivationIntervalSeconds: envVars.PRICE_ACTIVATION_INTERVAL_SECONDS,
+  taxRatePercent: envVars.TAX_RATE_PERCENT,
+  outboxRelayIntervalMs: envVars.OUTBOX_RELAY_INTERVAL_MS,
+  outboxRelayBatchSize: envVars.OUTBOX_RELAY_BATCH_SIZE,
+  outboxMaxAttempts: envVars.OUTBOX_MAX_ATTEMPTS,
+  outboxRetryBaseDelayMs: envVars.OUTBOX_RETRY_BASE_DELAY_MS,
+  outboxRetryMaxDelayMs: envVars.OUTBOX_RETRY_MAX_DELAY_MS,
+  idempotencyKeyTtlSeconds: envVars.IDEMPOTENCY_KEY_TTL_SECONDS,
+  idempotencyLockTimeoutSeconds: envVars.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS,
+  idempotencyPurgeIntervalSeconds: envVars.IDEMPOTENCY_PURGE_INTERVAL_SECONDS,
+  bulkMaxBatchSize: envVars.BULK_MAX_BATCH_SIZE,
+  backgroundWorkersEnabled: envVars.BACKGROUND_WORKERS_ENABLED,
+  authJwtSecret: envVars.AUTH_JWT_SECRET,
+  authJwtIssuer: envVars.AUTH_JWT_ISSUER,
+  authJwtAudience: envVars.AUTH_JWT_AUDIENCE,
+  authClockSkewSeconds: envVars.AUTH_CLOCK_SKEW_SECONDS,
+  defaultLocale: envVars.DEFAULT_LOCALE,
+  supportedLocales: envVars.SUPPORTED_LOCALES,
 };
\ No newline at end of file
@@ -1 +1 @@
-export * from './envs';
\ No newline at end of file
+export * from './envs';export * from './services';
@@ -0,0 +1,12 @@
+/**
+ * @file Injection tokens for clients of external services.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @const {string} NATS_SERVICE
+ * @description Injection token for the NATS ClientProxy used to emit events.
+ */
+export const NATS_SERVICE = 'NATS_SERVICE';
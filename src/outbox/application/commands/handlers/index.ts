@@ -0,0 +1,2 @@
+export * from './relay-outbox-events.handler';
+export * from './replay-outbox-events.handler';
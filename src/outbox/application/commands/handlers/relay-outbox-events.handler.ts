@@ -0,0 +1,75 @@
+/**
+ * @file Command handler for publishing due outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import {
+  MessagePublisherPort, MESSAGE_PUBLISHER_PORT, OutboxRepositoryPort, OUTBOX_REPOSITORY_PORT, RetryPolicy,
+} from '../../../domain';
+import { envs } from '../../../../config';
+import { RelayOutboxEventsCommand } from '../impl';
+
+/**
+ * @class RelayOutboxEventsHandler
+ * @description Handles the execution of the RelayOutboxEventsCommand. Delivery is at-least-once:
+ * an entry published but not yet marked is sent again, so consumers deduplicate by event ID.
+ */
+@CommandHandler(RelayOutboxEventsCommand)
+export class RelayOutboxEventsHandler implements ICommandHandler<RelayOutboxEventsCommand, number> {
+  private readonly logger = new Logger(RelayOutboxEventsHandler.name);
+  private readonly retryPolicy: RetryPolicy = {
+    maxAttempts: envs.outboxMaxAttempts,
+    baseDelayMs: envs.outboxRetryBaseDelayMs,
+    maxDelayMs: envs.outboxRetryMaxDelayMs,
+  };
+
+  /**
+   * @constructor
+   * @param {OutboxRepositoryPort} outboxRepository - Injected outbox repository.
+   * @param {MessagePublisherPort} publisher - Injected message publisher.
+   */
+  constructor(
+    @Inject(OUTBOX_REPOSITORY_PORT)
+    private readonly outboxRepository: OutboxRepositoryPort,
+    @Inject(MESSAGE_PUBLISHER_PORT)
+    private readonly publisher: MessagePublisherPort,
+  ) {}
+
+  /**
+   * Executes the relay command. Entries are published in creation order; a failed entry is
+   * rescheduled or dead-lettered without stopping the rest of the batch.
+   * @async
+   * @param {RelayOutboxEventsCommand} command - The command object.
+   * @returns {Promise<number>} The number of entries published.
+   */
+  async execute(command: RelayOutboxEventsCommand): Promise<number> {
+    const due = await this.outboxRepository.findDue(new Date(), command.batchSize);
+    if (due.length === 0) {
+      return 0;
+    }
+
+    let published = 0;
+    for (const event of due) {
+      try {
+        await this.publisher.publish(event.subject, event.payload);
+        event.markPublished(new Date());
+        published++;
+      } catch (error: any) {
+        event.recordFailure(error.message ?? String(error), new Date(), this.retryPolicy);
+        if (event.status === 'DEAD_LETTER') {
+          this.logger.error(`Outbox event ${event.id} (${event.eventType}) dead-lettered after ${event.attempts} attempts: ${event.lastError}`);
+        } else {
+          this.logger.warn(`Failed to publish outbox event ${event.id} (attempt ${event.attempts}): ${event.lastError}`);
+        }
+      }
+      await this.outboxRepository.save(event);
+    }
+
+    this.logger.log(`Published ${published} of ${due.length} due outbox events.`);
+    return published;
+  }
+}
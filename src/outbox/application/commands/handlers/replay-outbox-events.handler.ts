@@ -0,0 +1,69 @@
+/**
+ * @file Command handler for replaying dead-lettered outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { OutboxDomainError, OutboxEvent, OutboxRepositoryPort, OUTBOX_REPOSITORY_PORT } from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { ReplayOutboxEventsCommand } from '../impl';
+
+/**
+ * @class ReplayOutboxEventsHandler
+ * @description Handles the execution of the ReplayOutboxEventsCommand.
+ */
+@CommandHandler(ReplayOutboxEventsCommand)
+export class ReplayOutboxEventsHandler implements ICommandHandler<ReplayOutboxEventsCommand, OutboxEvent[]> {
+  private readonly logger = new Logger(ReplayOutboxEventsHandler.name);
+
+  /**
+   * @constructor
+   * @param {OutboxRepositoryPort} outboxRepository - Injected outbox repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   */
+  constructor(
+    @Inject(OUTBOX_REPOSITORY_PORT)
+    private readonly outboxRepository: OutboxRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Executes the replay command. All entries are requeued or none is.
+   * @async
+   * @param {ReplayOutboxEventsCommand} command - The command object.
+   * @returns {Promise<OutboxEvent[]>} The requeued entries.
+   * @throws {RpcException} 404 if an entry does not exist, 409 if one is not dead-lettered.
+   */
+  async execute(command: ReplayOutboxEventsCommand): Promise<OutboxEvent[]> {
+    const ids = [...new Set(command.ids)];
+    this.logger.log(`Replaying outbox events: ${ids.join(', ')}`);
+
+    return this.unitOfWork.run(async () => {
+      const events = await this.outboxRepository.findByIds(ids);
+      const missing = ids.filter(id => !events.some(e => e.id === id));
+      if (missing.length > 0) {
+        throw new RpcException({ status: 404, message: `Outbox events not found: ${missing.join(', ')}.` });
+      }
+
+      const now = new Date();
+      const replayed: OutboxEvent[] = [];
+      for (const event of events) {
+        try {
+          event.replay(now);
+        } catch (error: any) {
+          if (error instanceof OutboxDomainError) {
+            throw new RpcException({ status: 409, message: error.message });
+          }
+          throw error;
+        }
+        replayed.push(await this.outboxRepository.save(event));
+      }
+      return replayed;
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export * from './relay-outbox-events.command';
+export * from './replay-outbox-events.command';
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for publishing due outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class RelayOutboxEventsCommand
+ * @description Represents the intent to publish pending outbox entries whose next attempt is due.
+ */
+export class RelayOutboxEventsCommand {
+  /**
+   * @constructor
+   * @param {number} [batchSize=50] - Maximum number of entries to publish in one run.
+   */
+  constructor(public readonly batchSize: number = 50) {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for replaying dead-lettered outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ReplayOutboxEventsCommand
+ * @description Represents the intent to queue dead-lettered entries for publication again.
+ */
+export class ReplayOutboxEventsCommand {
+  /**
+   * @constructor
+   * @param {string[]} ids - IDs of the dead-lettered entries.
+   */
+  constructor(public readonly ids: string[]) {}
+}
@@ -0,0 +1,10 @@
+import { RelayOutboxEventsHandler } from './handlers/relay-outbox-events.handler';
+import { ReplayOutboxEventsHandler } from './handlers/replay-outbox-events.handler';
+
+export * from './impl';
+export * from './handlers';
+
+export const CommandHandlers = [
+  RelayOutboxEventsHandler,
+  ReplayOutboxEventsHandler,
+];
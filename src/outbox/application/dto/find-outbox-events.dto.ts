@@ -0,0 +1,49 @@
+/**
+ * @file Data Transfer Objects for listing outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { OutboxEvent, OutboxStatus, OUTBOX_STATUSES } from '../../domain/model/outbox-event.entity';
+
+/**
+ * @class FindOutboxEventsDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus the status to list.
+ */
+export class FindOutboxEventsDto extends PaginationDto {
+  /**
+   * @property {OutboxStatus} [status='DEAD_LETTER'] - Status of the entries to list.
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(OUTBOX_STATUSES)
+  status?: OutboxStatus = 'DEAD_LETTER';
+}
+
+/**
+ * @class FindOutboxEventsResponseDto
+ * @description Structure of the paginated outbox entries response.
+ */
+export class FindOutboxEventsResponseDto {
+  /**
+   * @property {OutboxEvent[]} data - Entries for the current page, newest first.
+   */
+  data: OutboxEvent[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of entries in the status.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
@@ -0,0 +1,2 @@
+export * from './find-outbox-events.dto';
+export * from './replay-outbox-events.dto';
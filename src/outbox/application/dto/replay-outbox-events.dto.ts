@@ -0,0 +1,25 @@
+/**
+ * @file Data Transfer Object for replaying dead-lettered outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+/**
+ * @class ReplayOutboxEventsDto
+ * @description Defines the entries to requeue.
+ */
+export class ReplayOutboxEventsDto {
+  /**
+   * @property {string[]} ids - IDs of dead-lettered entries.
+   * @decorator IsArray
+   * @decorator ArrayNotEmpty
+   * @decorator IsUUID
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('4', { each: true })
+  ids: string[];
+}
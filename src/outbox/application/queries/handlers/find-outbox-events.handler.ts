@@ -0,0 +1,53 @@
+/**
+ * @file Query handler for listing outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { OutboxRepositoryPort, OUTBOX_REPOSITORY_PORT } from '../../../domain';
+import { FindOutboxEventsQuery } from '../impl/find-outbox-events.query';
+import { FindOutboxEventsResponseDto } from '../../dto/find-outbox-events.dto';
+
+/**
+ * @class FindOutboxEventsHandler
+ * @description Handles the execution of the FindOutboxEventsQuery.
+ */
+@QueryHandler(FindOutboxEventsQuery)
+export class FindOutboxEventsHandler implements IQueryHandler<FindOutboxEventsQuery, FindOutboxEventsResponseDto> {
+  private readonly logger = new Logger(FindOutboxEventsHandler.name);
+
+  /**
+   * @constructor
+   * @param {OutboxRepositoryPort} outboxRepository - Injected outbox repository.
+   */
+  constructor(
+    @Inject(OUTBOX_REPOSITORY_PORT)
+    private readonly outboxRepository: OutboxRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find outbox events query.
+   * @async
+   * @param {FindOutboxEventsQuery} query - The query object.
+   * @returns {Promise<FindOutboxEventsResponseDto>} Paginated entries.
+   * @throws {RpcException} If an error occurs during retrieval.
+   */
+  async execute(query: FindOutboxEventsQuery): Promise<FindOutboxEventsResponseDto> {
+    const { status = 'DEAD_LETTER', ...pagination } = query.findOutboxEventsDto;
+    this.logger.log(`Finding outbox events with criteria: ${JSON.stringify(query.findOutboxEventsDto)}`);
+
+    try {
+      return await this.outboxRepository.findByStatus(status, pagination);
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Failed to find outbox events: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding outbox events.' });
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the query for listing outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { FindOutboxEventsDto } from '../../dto/find-outbox-events.dto';
+
+/**
+ * @class FindOutboxEventsQuery
+ * @description Represents the intent to list outbox entries in a status.
+ */
+export class FindOutboxEventsQuery {
+  /**
+   * @constructor
+   * @param {FindOutboxEventsDto} findOutboxEventsDto - Status and pagination.
+   */
+  constructor(public readonly findOutboxEventsDto: FindOutboxEventsDto) {}
+}
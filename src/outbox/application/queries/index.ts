@@ -0,0 +1,7 @@
+import { FindOutboxEventsHandler } from './handlers/find-outbox-events.handler';
+
+export * from './impl/find-outbox-events.query';
+
+export const QueryHandlers = [
+  FindOutboxEventsHandler,
+];
@@ -0,0 +1 @@
+export * from './outbox-domain.error';
@@ -0,0 +1,22 @@
+/**
+ * @file Defines the error raised when an OutboxEvent invariant is violated.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class OutboxDomainError
+ * @extends Error
+ * @description Signals an invalid outbox state transition. Application handlers translate it into a client error.
+ */
+export class OutboxDomainError extends Error {
+  /**
+   * @constructor
+   * @param {string} message - Description of the violated rule.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = OutboxDomainError.name;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './errors';
+export * from './model/outbox-event.entity';
+export * from './ports/outbox.repository.port';
+export * from './ports/message-publisher.port';
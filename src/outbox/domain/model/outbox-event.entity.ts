@@ -0,0 +1,112 @@
+/**
+ * @file Defines the OutboxEvent entity, a message waiting to be published.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { OutboxDomainError } from '../errors/outbox-domain.error';
+
+/**
+ * @const {string[]} OUTBOX_STATUSES
+ * @description Lifecycle of an outbox entry. DEAD_LETTER entries exhausted their retries and wait for a replay.
+ */
+export const OUTBOX_STATUSES = ['PENDING', 'PUBLISHED', 'DEAD_LETTER'] as const;
+
+/**
+ * @type OutboxStatus
+ * @description A lifecycle state of an outbox entry.
+ */
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+/**
+ * @interface RetryPolicy
+ * @description How failed publications are retried: the delay doubles from `baseDelayMs` up to `maxDelayMs`,
+ * and the entry is dead-lettered after `maxAttempts` failures.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * @class OutboxEvent
+ * @description A message recorded in the same transaction as the change it describes, published later by the relay.
+ */
+export class OutboxEvent {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier (UUID); equals the envelope's event ID.
+   * @param {string} tenantId - The storefront the event is about.
+   * @param {string} subject - NATS subject to publish on.
+   * @param {unknown} payload - The message body.
+   * @param {string} aggregateType - Type of the aggregate the event is about, e.g. 'Product'.
+   * @param {string} aggregateId - ID of that aggregate.
+   * @param {string} eventType - Name of the event, e.g. 'ProductCreated'.
+   * @param {OutboxStatus} status - Lifecycle state.
+   * @param {number} attempts - Failed publication attempts so far.
+   * @param {Date} nextAttemptAt - Earliest time of the next attempt.
+   * @param {string | null} lastError - Error of the last failed attempt.
+   * @param {Date} createdAt - When the entry was recorded.
+   * @param {Date | null} publishedAt - When it was published.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly subject: string,
+    public readonly payload: unknown,
+    public readonly aggregateType: string,
+    public readonly aggregateId: string,
+    public readonly eventType: string,
+    public status: OutboxStatus,
+    public attempts: number,
+    public nextAttemptAt: Date,
+    public lastError: string | null,
+    public readonly createdAt: Date,
+    public publishedAt: Date | null,
+  ) {}
+
+  /**
+   * @method markPublished
+   * @param {Date} at - When the message was published.
+   */
+  public markPublished(at: Date): void {
+    this.status = 'PUBLISHED';
+    this.publishedAt = at;
+    this.lastError = null;
+  }
+
+  /**
+   * @method recordFailure
+   * @description Schedules a retry with exponential backoff, or dead-letters the entry once the attempts run out.
+   * @param {string} error - Why the publication failed.
+   * @param {Date} now - Reference time.
+   * @param {RetryPolicy} policy - Retry settings.
+   */
+  public recordFailure(error: string, now: Date, policy: RetryPolicy): void {
+    this.attempts += 1;
+    this.lastError = error;
+    if (this.attempts >= policy.maxAttempts) {
+      this.status = 'DEAD_LETTER';
+      return;
+    }
+    const delayMs = Math.min(policy.baseDelayMs * 2 ** (this.attempts - 1), policy.maxDelayMs);
+    this.nextAttemptAt = new Date(now.getTime() + delayMs);
+  }
+
+  /**
+   * @method replay
+   * @description Puts a dead-lettered entry back in the queue with a fresh retry budget.
+   * @param {Date} now - Reference time.
+   * @throws {OutboxDomainError} If the entry is not dead-lettered.
+   */
+  public replay(now: Date): void {
+    if (this.status !== 'DEAD_LETTER') {
+      throw new OutboxDomainError(`Outbox event #${this.id} is ${this.status} and cannot be replayed.`);
+    }
+    this.status = 'PENDING';
+    this.attempts = 0;
+    this.nextAttemptAt = now;
+  }
+}
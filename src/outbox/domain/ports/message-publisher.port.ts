@@ -0,0 +1,28 @@
+/**
+ * @file Defines the port (interface) for publishing messages to the broker.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface MessagePublisherPort
+ * @description Defines the contract for broker adapters.
+ */
+export interface MessagePublisherPort {
+  /**
+   * Publishes a message and resolves once the broker accepted it.
+   * @async
+   * @param {string} subject - Subject to publish on.
+   * @param {unknown} payload - The message body.
+   * @returns {Promise<void>}
+   * @throws {Error} If the message could not be published.
+   */
+  publish(subject: string, payload: unknown): Promise<void>;
+}
+
+/**
+ * @const {string} MESSAGE_PUBLISHER_PORT
+ * @description Injection token for the MessagePublisherPort.
+ */
+export const MESSAGE_PUBLISHER_PORT = 'MessagePublisherPort';
@@ -0,0 +1,91 @@
+/**
+ * @file Defines the port (interface) for outbox repository operations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { OutboxEvent, OutboxStatus } from '../model/outbox-event.entity';
+import { PaginationDto } from '../../../common';
+
+/**
+ * @interface OutboxMessage
+ * @description A message to record. `id` becomes the outbox entry ID; `tenantId` is the storefront the
+ * message is about, which alone may list and replay it.
+ */
+export interface OutboxMessage {
+  id: string;
+  tenantId: string;
+  subject: string;
+  payload: unknown;
+  aggregateType: string;
+  aggregateId: string;
+  eventType: string;
+}
+
+/**
+ * @interface PaginatedOutboxEventResult
+ * @description Structure for returning paginated outbox entries.
+ */
+export interface PaginatedOutboxEventResult {
+  data: OutboxEvent[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface OutboxRepositoryPort
+ * @description Defines the contract for outbox repository adapters.
+ */
+export interface OutboxRepositoryPort {
+  /**
+   * Records messages as PENDING. Inside a UnitOfWork they commit together with the caller's changes.
+   * @async
+   * @param {OutboxMessage[]} messages - Messages to record.
+   * @returns {Promise<void>}
+   */
+  add(messages: OutboxMessage[]): Promise<void>;
+
+  /**
+   * Finds PENDING entries whose next attempt is due, oldest first.
+   * @async
+   * @param {Date} now - Reference time.
+   * @param {number} limit - Maximum number of entries.
+   * @returns {Promise<OutboxEvent[]>} Due entries.
+   */
+  findDue(now: Date, limit: number): Promise<OutboxEvent[]>;
+
+  /**
+   * Finds entries by ID, among those of the current tenant.
+   * @async
+   * @param {string[]} ids - Entry IDs.
+   * @returns {Promise<OutboxEvent[]>} The entries that exist.
+   */
+  findByIds(ids: string[]): Promise<OutboxEvent[]>;
+
+  /**
+   * Finds entries of the current tenant in a status with pagination, newest first.
+   * @async
+   * @param {OutboxStatus} status - Status to list.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @returns {Promise<PaginatedOutboxEventResult>} Paginated entries.
+   */
+  findByStatus(status: OutboxStatus, paginationDto: PaginationDto): Promise<PaginatedOutboxEventResult>;
+
+  /**
+   * Persists the delivery state of an entry (status, attempts, schedule, error, publishedAt).
+   * @async
+   * @param {OutboxEvent} event - The entry to save.
+   * @returns {Promise<OutboxEvent>} The saved entry.
+   */
+  save(event: OutboxEvent): Promise<OutboxEvent>;
+}
+
+/**
+ * @const {string} OUTBOX_REPOSITORY_PORT
+ * @description Injection token for the OutboxRepositoryPort.
+ */
+export const OUTBOX_REPOSITORY_PORT = 'OutboxRepositoryPort';
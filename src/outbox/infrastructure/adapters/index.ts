@@ -0,0 +1,2 @@
+export * from './prisma-outbox.repository';
+export * from './nats-message.publisher';
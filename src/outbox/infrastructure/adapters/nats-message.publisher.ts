@@ -0,0 +1,38 @@
+/**
+ * @file NATS adapter implementing the MessagePublisherPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+import { MessagePublisherPort } from '../../domain/ports/message-publisher.port';
+import { NATS_SERVICE } from '../../../config';
+
+/**
+ * @class NatsMessagePublisher
+ * @implements MessagePublisherPort
+ * @description Emits messages through the NATS client and waits for the emit to complete,
+ * so a broker failure surfaces as a rejected promise.
+ */
+@Injectable()
+export class NatsMessagePublisher implements MessagePublisherPort {
+  /**
+   * @constructor
+   * @param {ClientProxy} client - Injected NATS client.
+   */
+  constructor(@Inject(NATS_SERVICE) private readonly client: ClientProxy) {}
+
+  /**
+   * Publishes a message on a subject.
+   * @async
+   * @param {string} subject - Subject to publish on.
+   * @param {unknown} payload - The message body.
+   * @returns {Promise<void>}
+   */
+  async publish(subject: string, payload: unknown): Promise<void> {
+    await lastValueFrom(this.client.emit(subject, payload), { defaultValue: undefined });
+  }
+}
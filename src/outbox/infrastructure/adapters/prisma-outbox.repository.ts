@@ -0,0 +1,201 @@
+/**
+ * @file Prisma adapter implementing the OutboxRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { OutboxEvent, OutboxStatus } from '../../domain/model/outbox-event.entity';
+import {
+  OutboxMessage, OutboxRepositoryPort, PaginatedOutboxEventResult,
+} from '../../domain/ports/outbox.repository.port';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+/**
+ * @class PrismaOutboxRepository
+ * @implements OutboxRepositoryPort
+ * @description Implements outbox persistence logic using Prisma ORM with SQLite.
+ * Payloads are stored JSON-encoded. Calls made inside a UnitOfWork run in its transaction. Entries are
+ * looked up within the tenant of the current request; the relay, running outside of one, sees them all.
+ */
+@Injectable()
+export class PrismaOutboxRepository implements OutboxRepositoryPort {
+  private readonly logger = new Logger(PrismaOutboxRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
+
+  /**
+   * Maps a Prisma OutboxEvent model to a domain OutboxEvent entity.
+   * @private
+   * @param {any} prismaEvent - The outbox row retrieved from Prisma.
+   * @returns {OutboxEvent} The domain entity.
+   */
+  private mapToDomain(prismaEvent: any): OutboxEvent {
+    return new OutboxEvent(
+      prismaEvent.id,
+      prismaEvent.tenantId,
+      prismaEvent.subject,
+      JSON.parse(prismaEvent.payload),
+      prismaEvent.aggregateType,
+      prismaEvent.aggregateId,
+      prismaEvent.eventType,
+      prismaEvent.status as OutboxStatus,
+      prismaEvent.attempts,
+      prismaEvent.nextAttemptAt,
+      prismaEvent.lastError,
+      prismaEvent.createdAt,
+      prismaEvent.publishedAt,
+    );
+  }
+
+  /**
+   * Records messages as PENDING, due immediately.
+   * @async
+   * @param {OutboxMessage[]} messages - Messages to record.
+   * @returns {Promise<void>}
+   */
+  async add(messages: OutboxMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+    const now = new Date();
+    try {
+      await this.prisma.client.outboxEvent.createMany({
+        data: messages.map(message => ({
+          id: message.id,
+          tenantId: message.tenantId,
+          subject: message.subject,
+          payload: JSON.stringify(message.payload),
+          aggregateType: message.aggregateType,
+          aggregateId: message.aggregateId,
+          eventType: message.eventType,
+          nextAttemptAt: now,
+          createdAt: now,
+        })),
+      });
+    } catch (error: any) {
+      this.logger.error(`Error recording outbox messages: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error recording outbox messages.' });
+    }
+  }
+
+  /**
+   * Finds PENDING entries whose next attempt is due, oldest first.
+   * @async
+   * @param {Date} now - Reference time.
+   * @param {number} limit - Maximum number of entries.
+   * @returns {Promise<OutboxEvent[]>} Due entries.
+   */
+  async findDue(now: Date, limit: number): Promise<OutboxEvent[]> {
+    try {
+      const events = await this.prisma.client.outboxEvent.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+      });
+      return events.map(e => this.mapToDomain(e));
+    } catch (error: any) {
+      this.logger.error(`Error finding due outbox events: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding outbox events.' });
+    }
+  }
+
+  /**
+   * Finds entries by ID, among those of the current tenant.
+   * @async
+   * @param {string[]} ids - Entry IDs.
+   * @returns {Promise<OutboxEvent[]>} The entries that exist.
+   */
+  async findByIds(ids: string[]): Promise<OutboxEvent[]> {
+    try {
+      const events = await this.prisma.client.outboxEvent.findMany({ where: { id: { in: ids }, ...this.scope() } });
+      return events.map(e => this.mapToDomain(e));
+    } catch (error: any) {
+      this.logger.error(`Error finding outbox events by IDs: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding outbox events.' });
+    }
+  }
+
+  /**
+   * Finds entries of the current tenant in a status with pagination, newest first.
+   * @async
+   * @param {OutboxStatus} status - Status to list.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @returns {Promise<PaginatedOutboxEventResult>} Paginated entries.
+   */
+  async findByStatus(status: OutboxStatus, paginationDto: PaginationDto): Promise<PaginatedOutboxEventResult> {
+    const { page = 1, limit = 10 } = paginationDto;
+    const where = { status, ...this.scope() };
+
+    try {
+      const [total, events] = await this.prisma.$transaction([
+        this.prisma.outboxEvent.count({ where }),
+        this.prisma.outboxEvent.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        }),
+      ]);
+
+      return {
+        data: events.map(e => this.mapToDomain(e)),
+        meta: { total, page, lastPage: Math.ceil(total / limit) },
+      };
+    } catch (error: any) {
+      this.logger.error(`Error finding ${status} outbox events: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding outbox events.' });
+    }
+  }
+
+  /**
+   * Persists the delivery state of an entry.
+   * @async
+   * @param {OutboxEvent} event - The entry to save.
+   * @returns {Promise<OutboxEvent>} The saved entry.
+   */
+  async save(event: OutboxEvent): Promise<OutboxEvent> {
+    try {
+      const saved = await this.prisma.client.outboxEvent.update({
+        where: { id: event.id, ...this.scope() },
+        data: {
+          status: event.status,
+          attempts: event.attempts,
+          nextAttemptAt: event.nextAttemptAt,
+          lastError: event.lastError,
+          publishedAt: event.publishedAt,
+        },
+      });
+      return this.mapToDomain(saved);
+    } catch (error: any) {
+      this.logger.error(`Error saving outbox event ${event.id}: ${error.message}`, error.stack);
+      if (error.code === 'P2025') {
+        throw new RpcException({ status: 404, message: `Outbox event with ID ${event.id} not found.` });
+      }
+      throw new RpcException({ status: 500, message: 'Database error saving outbox event.' });
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * @file NATS controller for outbox administration.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Controller, Logger, UseGuards } from '@nestjs/common';
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+
+import { FindOutboxEventsDto, FindOutboxEventsResponseDto, ReplayOutboxEventsDto } from '../../application/dto';
+import { OutboxEvent } from '../../domain';
+import { ReplayOutboxEventsCommand } from '../../application/commands/impl';
+import { FindOutboxEventsQuery } from '../../application/queries';
+import { AuthGuard, OUTBOX_ADMIN, Roles } from '../../../shared/infrastructure/auth';
+
+/**
+ * @class OutboxController
+ * @description Handles incoming NATS messages for inspecting and replaying outbox entries. Every pattern
+ * requires a token granting `outbox:admin`.
+ */
+@Controller()
+@UseGuards(AuthGuard)
+export class OutboxController {
+  private readonly logger = new Logger(OutboxController.name);
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   * @param {QueryBus} queryBus - Injected QueryBus.
+   */
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /**
+   * Handles 'find_outbox_events' message.
+   * @param {FindOutboxEventsDto} findOutboxEventsDto - Status (default DEAD_LETTER) and pagination.
+   * @returns {Promise<FindOutboxEventsResponseDto>} Paginated entries.
+   */
+  @MessagePattern({ cmd: 'find_outbox_events' })
+  @Roles(OUTBOX_ADMIN)
+  async findAll(@Payload() findOutboxEventsDto: FindOutboxEventsDto): Promise<FindOutboxEventsResponseDto> {
+    this.logger.log(`Received find_outbox_events request: ${JSON.stringify(findOutboxEventsDto)}`);
+    return this.queryBus.execute<FindOutboxEventsQuery, FindOutboxEventsResponseDto>(
+      new FindOutboxEventsQuery(findOutboxEventsDto),
+    );
+  }
+
+  /**
+   * Handles 'replay_outbox_events' message.
+   * @param {ReplayOutboxEventsDto} replayOutboxEventsDto - IDs of dead-lettered entries.
+   * @returns {Promise<OutboxEvent[]>} The requeued entries.
+   */
+  @MessagePattern({ cmd: 'replay_outbox_events' })
+  @Roles(OUTBOX_ADMIN)
+  async replay(@Payload() replayOutboxEventsDto: ReplayOutboxEventsDto): Promise<OutboxEvent[]> {
+    this.logger.log(`Received replay_outbox_events request: ${JSON.stringify(replayOutboxEventsDto)}`);
+    return this.commandBus.execute<ReplayOutboxEventsCommand, OutboxEvent[]>(
+      new ReplayOutboxEventsCommand(replayOutboxEventsDto.ids),
+    );
+  }
+}
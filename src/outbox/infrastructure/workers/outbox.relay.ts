@@ -0,0 +1,72 @@
+/**
+ * @file Background worker that publishes outbox entries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { envs } from '../../../config';
+import { RelayOutboxEventsCommand } from '../../application/commands/impl';
+
+/**
+ * @class OutboxRelay
+ * @implements OnModuleInit
+ * @implements OnModuleDestroy
+ * @description Periodically dispatches RelayOutboxEventsCommand so that committed events reach NATS.
+ * The interval is OUTBOX_RELAY_INTERVAL_MS and the batch size OUTBOX_RELAY_BATCH_SIZE.
+ */
+@Injectable()
+export class OutboxRelay implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelay.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   */
+  constructor(private readonly commandBus: CommandBus) {}
+
+  /**
+   * @method onModuleInit
+   * @description Starts the relay timer, unless background workers are disabled.
+   */
+  onModuleInit() {
+    if (!envs.backgroundWorkersEnabled) {
+      return;
+    }
+    this.timer = setInterval(() => void this.relay(), envs.outboxRelayIntervalMs);
+    this.timer.unref();
+    this.logger.log(`Outbox relay started (every ${envs.outboxRelayIntervalMs}ms).`);
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description Stops the relay timer.
+   */
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Runs one relay pass, skipping if the previous one is still in progress.
+   * @async
+   */
+  async relay(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.commandBus.execute(new RelayOutboxEventsCommand(envs.outboxRelayBatchSize));
+    } catch (error: any) {
+      this.logger.error(`Outbox relay failed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
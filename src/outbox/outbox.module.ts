@@ -0,0 +1,70 @@
+/**
+ * @file Outbox module definition.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Module, Provider } from '@nestjs/common';
+import { CqrsModule } from '@nestjs/cqrs';
+import { ClientsModule, Transport } from '@nestjs/microservices';
+import { envs, NATS_SERVICE } from '../config';
+
+// Application Layer
+import { CommandHandlers } from './application/commands';
+import { QueryHandlers } from './application/queries';
+
+// Domain Layer (Ports)
+import { MESSAGE_PUBLISHER_PORT, OUTBOX_REPOSITORY_PORT } from './domain';
+
+// Infrastructure Layer (Adapters, Controller & Worker)
+import { PrismaOutboxRepository } from './infrastructure/adapters/prisma-outbox.repository';
+import { NatsMessagePublisher } from './infrastructure/adapters/nats-message.publisher';
+import { OutboxController } from './infrastructure/controllers/outbox.controller';
+import { OutboxRelay } from './infrastructure/workers/outbox.relay';
+
+/**
+ * @const {Provider[]} infrastructureProviders
+ * @description Provides the outbox repository, the NATS publisher and the relay worker.
+ */
+const infrastructureProviders: Provider[] = [
+  {
+    provide: OUTBOX_REPOSITORY_PORT,
+    useClass: PrismaOutboxRepository,
+  },
+  {
+    provide: MESSAGE_PUBLISHER_PORT,
+    useClass: NatsMessagePublisher,
+  },
+  OutboxRelay,
+];
+
+/**
+ * @const {Provider[]} applicationProviders
+ * @description Registers command and query handlers with CQRS.
+ */
+const applicationProviders: Provider[] = [
+    ...CommandHandlers,
+    ...QueryHandlers,
+];
+
+/**
+ * @module OutboxModule
+ * @description Owns outgoing messages: features record them through the exported repository port inside
+ * their own transaction, and the relay publishes them to NATS with retries and dead-lettering.
+ */
+@Module({
+  imports: [
+    CqrsModule,
+    ClientsModule.register([
+      { name: NATS_SERVICE, transport: Transport.NATS, options: { servers: envs.natsServers } },
+    ]),
+  ],
+  controllers: [OutboxController],
+  providers: [
+    ...applicationProviders,
+    ...infrastructureProviders,
+  ],
+  exports: [OUTBOX_REPOSITORY_PORT],
+})
+export class OutboxModule {}
@@ -0,0 +1,101 @@
+/**
+ * @file Command handler for adding an image or video to a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductMedia, ProductRepositoryPort, ProductUpdatedEvent,
+  ProductVersionConflictError, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { AddProductMediaCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { toVersionConflictException } from '../../utils';
+
+/**
+ * @class AddProductMediaHandler
+ * @description Handles the execution of the AddProductMediaCommand. Media are part of the product, so a
+ * change bumps its version and is published as a ProductUpdated event.
+ */
+@CommandHandler(AddProductMediaCommand)
+export class AddProductMediaHandler implements ICommandHandler<AddProductMediaCommand, Product> {
+  private readonly logger = new Logger(AddProductMediaHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the add product media command.
+   * @async
+   * @param {AddProductMediaCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its media; the new one has a generated `id`.
+   * @throws {RpcException} 404 if the product does not exist, 400 if the metadata or position are invalid,
+   * 409 if its version is not the expected one.
+   */
+  async execute(command: AddProductMediaCommand): Promise<Product> {
+    const {
+      id, type, url, storageKey, altText, width, height, primary, position, expectedVersion,
+    } = command.addProductMediaDto;
+    this.logger.log(`Adding ${type} media to product ID: ${id}`);
+
+    try {
+      const existingProduct = await this.productRepository.findById(id);
+      if (!existingProduct) {
+        throw new RpcException({
+          message: `Product with id #${id} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      existingProduct.assertVersion(expectedVersion);
+      const previous = existingProduct.media;
+      const media = new ProductMedia(
+        randomUUID(), type, url ?? null, storageKey ?? null, altText?.trim() || null, width ?? null, height ?? null,
+        primary ?? false,
+      );
+      existingProduct.addMedia(media, position);
+
+      const updatedProduct = await this.auditTrail.track('add_product_media', [id], async () => {
+        const product = await this.productRepository.update(id, { media: existingProduct.media }, expectedVersion);
+        await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+          media: { previous, current: product.media },
+        })]);
+        return product;
+      });
+      this.logger.log(`Successfully added media ${media.id} to product ID: ${id}`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductVersionConflictError) {
+        throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to add media to product ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+        status: error.status || error.response?.status || 500,
+        message: error.message || error.response?.message || 'Failed to add product media.',
+      });
+    }
+  }
+}
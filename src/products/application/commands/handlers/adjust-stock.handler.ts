@@ -0,0 +1,91 @@
+/**
+ * @file Command handler for adjusting a product's stock.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { AdjustStockCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { stockUpdateEvents } from '../../utils';
+
+/**
+ * @class AdjustStockHandler
+ * @description Handles the execution of the AdjustStockCommand.
+ */
+@CommandHandler(AdjustStockCommand)
+export class AdjustStockHandler implements ICommandHandler<AdjustStockCommand, Product> {
+  private readonly logger = new Logger(AdjustStockHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the adjust stock command.
+   * @async
+   * @param {AdjustStockCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its updated stock level.
+   * @throws {RpcException} If the product is not found, the adjustment is invalid or an error occurs.
+   */
+  async execute(command: AdjustStockCommand): Promise<Product> {
+    const { productId, delta, reason } = command;
+    this.logger.log(`Attempting to adjust stock of product ${productId} by ${delta} (${reason})`);
+
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      // Enforce the domain invariants before touching the database
+      product.adjustStock(delta);
+
+      const { product: updatedProduct, movement } = await this.auditTrail.track('adjust_stock', [productId], async () => {
+        const change = await this.productRepository.adjustStock({
+          productId,
+          movementId: randomUUID(),
+          delta,
+          reason,
+        });
+        await this.eventOutbox.append(stockUpdateEvents([change.product], new Map([[productId, change.movement.delta]])));
+        return change;
+      });
+      this.logger.log(`Recorded stock movement ${movement.id}; product ${productId} now has ${updatedProduct.stock} units`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to adjust stock of product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to adjust stock.',
+      });
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @file Command handler for activating scheduled prices that have come into effect.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import {
+  ProductEventOutboxPort, ProductPriceChangedEvent, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT,
+  PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { ApplyScheduledPricesCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class ApplyScheduledPricesHandler
+ * @description Handles the execution of the ApplyScheduledPricesCommand.
+ */
+@CommandHandler(ApplyScheduledPricesCommand)
+export class ApplyScheduledPricesHandler implements ICommandHandler<ApplyScheduledPricesCommand, number> {
+  private readonly logger = new Logger(ApplyScheduledPricesHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the apply scheduled prices command.
+   * @async
+   * @returns {Promise<number>} The number of products whose price changed.
+   */
+  async execute(): Promise<number> {
+    const changes = await this.unitOfWork.run(async () => {
+      const applied = await this.productRepository.applyDuePrices(new Date());
+      await this.eventOutbox.append(applied.map(({ product, previousPrice }) =>
+        new ProductPriceChangedEvent(product.tenantId, product.id, product.version, previousPrice, product.price)));
+      await this.auditTrail.record('apply_scheduled_price', applied.map(({ product, previousPrice }) => ({
+        productId: product.id,
+        changes: { price: { previous: previousPrice, current: product.price } },
+      })));
+      return applied;
+    });
+    if (changes.length > 0) {
+      this.logger.log(`Activated scheduled prices for ${changes.length} products.`);
+    }
+    return changes.length;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @file Tests of BulkCreateProductsHandler.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { BulkCreateProductsHandler } from './bulk-create-products.handler';
+import { BulkCreateProductsCommand } from '../impl';
+import {
+  Money, Product, ProductCreateData, ProductEventOutboxPort, ProductRepositoryPort,
+} from '../../../domain';
+import { NOT_APPLIED_MESSAGE } from '../../utils';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+import { SkuRegistry } from '../../services/sku-registry.service';
+import { ProductAttributesService } from '../../services/product-attributes.service';
+
+jest.mock('../../../../config', () => ({
+  envs: { defaultCurrency: 'USD', bulkMaxBatchSize: 100 },
+}));
+
+describe('BulkCreateProductsHandler', () => {
+  const takenSku = 'TAKEN-1';
+  let stored: ProductCreateData[][];
+  let handler: BulkCreateProductsHandler;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    stored = [];
+    const productRepository = { createMany: jest.fn() } as unknown as jest.Mocked<ProductRepositoryPort>;
+    productRepository.createMany.mockImplementation(async (data: ProductCreateData[]) => {
+      // Stands in for a unique constraint violation on a SKU taken after the checks
+      if (data.some(d => d.sku === takenSku)) {
+        throw new RpcException({ status: 409, message: `SKU ${takenSku} is already in use.` });
+      }
+      stored.push(data);
+      return data.map(d => new Product(d.id, d.name, d.price, true, 0, 1, d.sku ?? null));
+    });
+    const eventOutbox: jest.Mocked<ProductEventOutboxPort> = { append: jest.fn() };
+    const auditTrail = { track: jest.fn() } as unknown as jest.Mocked<ProductAuditTrail>;
+    auditTrail.track.mockImplementation((_action, _ids, work) => work());
+    const productCategories = {
+      hierarchy: jest.fn(), assertExist: jest.fn(),
+    } as unknown as jest.Mocked<ProductCategoriesService>;
+    const skuRegistry = { holderOf: jest.fn() } as unknown as jest.Mocked<SkuRegistry>;
+    skuRegistry.holderOf.mockResolvedValue(null);
+    const productAttributes = { assertValid: jest.fn() } as unknown as jest.Mocked<ProductAttributesService>;
+    handler = new BulkCreateProductsHandler(
+      productRepository, eventOutbox, auditTrail, productCategories, skuRegistry, productAttributes,
+    );
+  });
+
+  const items = [
+    { name: 'Lamp', price: 10, sku: 'LAMP-1' },
+    { name: 'Chair', price: 20, sku: takenSku },
+    { name: 'Desk', price: 30 },
+    { name: 'Stool', price: 'free' },
+  ];
+
+  it('writes each best-effort item on its own and reports the ones failing at write time', async () => {
+    const result = await handler.execute(new BulkCreateProductsCommand(items, 'best_effort'));
+
+    expect(stored.map(batch => batch.map(d => d.name))).toEqual([['Lamp'], ['Desk']]);
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(2);
+    expect(result.items.map(item => item.success)).toEqual([true, false, true, false]);
+    expect(result.items[1].errors).toEqual([`SKU ${takenSku} is already in use.`]);
+    expect(result.items[0].product.price).toEqual(Money.of(1000, 'USD'));
+  });
+
+  it('writes nothing in transactional mode when an item is invalid', async () => {
+    const result = await handler.execute(new BulkCreateProductsCommand([items[0], items[3]], 'transactional'));
+
+    expect(stored).toEqual([]);
+    expect(result.items[0]).toEqual({ index: 0, success: false, errors: [NOT_APPLIED_MESSAGE] });
+    expect(result.items[1].success).toBe(false);
+  });
+});
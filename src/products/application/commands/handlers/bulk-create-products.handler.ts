@@ -0,0 +1,149 @@
+/**
+ * @file Command handler for creating products in bulk.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  Money, Product, ProductCreateData, ProductCreatedEvent, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { envs } from '../../../../config';
+import { BulkItemResultDto, BulkOperationResultDto, CreateProductDto } from '../../dto';
+import { applyEach, shouldApplyBatch, toBulkResult, validateItem } from '../../utils';
+import { BulkCreateProductsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+import { SkuRegistry } from '../../services/sku-registry.service';
+import { ProductAttributesService } from '../../services/product-attributes.service';
+
+/**
+ * @class BulkCreateProductsHandler
+ * @description Handles the execution of the BulkCreateProductsCommand.
+ */
+@CommandHandler(BulkCreateProductsCommand)
+export class BulkCreateProductsHandler implements ICommandHandler<BulkCreateProductsCommand, BulkOperationResultDto> {
+  private readonly logger = new Logger(BulkCreateProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductCategoriesService} productCategories - Checks the categories being assigned.
+   * @param {SkuRegistry} skuRegistry - Finds the product or variant already using a SKU.
+   * @param {ProductAttributesService} productAttributes - Checks the attributes against the category schemas.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly productCategories: ProductCategoriesService,
+    private readonly skuRegistry: SkuRegistry,
+    private readonly productAttributes: ProductAttributesService,
+  ) {}
+
+  /**
+   * Executes the bulk create command. Every item is validated like a single `create_product` payload;
+   * the accepted ones are stored in one transaction, or each in its own in best-effort mode.
+   * @async
+   * @param {BulkCreateProductsCommand} command - The command object.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results with the generated IDs.
+   */
+  async execute(command: BulkCreateProductsCommand): Promise<BulkOperationResultDto> {
+    const { items, mode } = command;
+    this.logger.log(`Attempting to create ${items.length} products (${mode})`);
+
+    const results: BulkItemResultDto[] = [];
+    const accepted: { index: number; data: ProductCreateData }[] = [];
+    const firstIndexBySku = new Map<string, number>();
+    const categories = await this.productCategories.hierarchy();
+    for (const [index, item] of items.entries()) {
+      const validation = validateItem(CreateProductDto, item);
+      if (validation.errors) {
+        results[index] = { index, success: false, errors: validation.errors };
+        continue;
+      }
+      const {
+        name, description, tags, price, currency = envs.defaultCurrency, sku, categoryIds, attributes,
+      } = validation.value;
+      const skuError = await this.checkSku(sku, index, firstIndexBySku);
+      if (skuError) {
+        results[index] = { index, success: false, errors: [skuError] };
+        continue;
+      }
+      try {
+        await this.productCategories.assertExist(categoryIds, categories);
+        await this.productAttributes.assertValid(attributes ?? {}, categoryIds ?? [], categories);
+        accepted.push({
+          index,
+          data: {
+            id: randomUUID(), sku, name, description, tags: tags && Product.normalizeTags(tags),
+            price: Money.fromMajor(price, currency), categoryIds, attributes,
+          },
+        });
+      } catch (error: any) {
+        if (!(error instanceof ProductDomainError)) {
+          throw error;
+        }
+        results[index] = { index, success: false, errors: [error.message] };
+      }
+    }
+
+    if (mode === 'best_effort') {
+      await applyEach(accepted, results, async ({ data }) => (await this.store([data]))[0], this.logger);
+    } else if (shouldApplyBatch(mode, accepted.length, items.length)) {
+      const created = await this.store(accepted.map(a => a.data));
+      created.forEach((product, i) => {
+        const { index } = accepted[i];
+        results[index] = { index, success: true, id: product.id, product };
+      });
+    }
+
+    const result = toBulkResult(mode, items.length, results);
+    this.logger.log(`Bulk create finished: ${result.succeeded} created, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Stores products in one unit of work, auditing them and recording their events.
+   * @private
+   * @async
+   * @param {ProductCreateData[]} data - The products to create.
+   * @returns {Promise<Product[]>} The created products, in input order.
+   */
+  private async store(data: ProductCreateData[]): Promise<Product[]> {
+    return this.auditTrail.track('bulk_create_products', data.map(d => d.id), async () => {
+      const products = await this.productRepository.createMany(data);
+      await this.eventOutbox.append(products.map(product => new ProductCreatedEvent(product)));
+      return products;
+    });
+  }
+
+  /**
+   * Checks that an item's SKU is neither repeated in the batch nor taken by a stored product or variant.
+   * @private
+   * @async
+   * @param {string} [sku] - The item's SKU, if any.
+   * @param {number} index - The item's position.
+   * @param {Map<string, number>} firstIndexBySku - SKUs seen so far in the batch.
+   * @returns {Promise<string | null>} Why the SKU is rejected, or null.
+   */
+  private async checkSku(sku: string | undefined, index: number, firstIndexBySku: Map<string, number>): Promise<string | null> {
+    if (sku === undefined || sku === null) {
+      return null;
+    }
+    if (firstIndexBySku.has(sku)) {
+      return `Duplicate sku ${sku}, already at index ${firstIndexBySku.get(sku)}.`;
+    }
+    firstIndexBySku.set(sku, index);
+    const holder = await this.skuRegistry.holderOf(sku);
+    return holder ? `SKU ${sku} is already used by ${holder}.` : null;
+  }
+}
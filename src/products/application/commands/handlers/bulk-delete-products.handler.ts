@@ -0,0 +1,127 @@
+/**
+ * @file Command handler for soft deleting products in bulk.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import {
+  Product, ProductBatchDelete, ProductDeletedEvent, ProductEventOutboxPort, ProductRepositoryPort, ProductVersionConflictError,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { BulkItemResultDto, BulkOperationResultDto, DeleteProductDto } from '../../dto';
+import { applyEach, shouldApplyBatch, toBulkResult, toVersionConflictException, validateItem } from '../../utils';
+import { BulkDeleteProductsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class BulkDeleteProductsHandler
+ * @description Handles the execution of the BulkDeleteProductsCommand (soft delete).
+ */
+@CommandHandler(BulkDeleteProductsCommand)
+export class BulkDeleteProductsHandler implements ICommandHandler<BulkDeleteProductsCommand, BulkOperationResultDto> {
+  private readonly logger = new Logger(BulkDeleteProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the bulk delete command. Every item is checked like a single `delete_product` request;
+   * the accepted ones are soft deleted in one transaction, or each in its own in best-effort mode.
+   * @async
+   * @param {BulkDeleteProductsCommand} command - The command object.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results.
+   * @throws {RpcException} 409 if a product changed between the checks and the write of a transactional batch.
+   */
+  async execute(command: BulkDeleteProductsCommand): Promise<BulkOperationResultDto> {
+    const { items, mode } = command;
+    this.logger.log(`Attempting to soft delete ${items.length} products (${mode})`);
+
+    const results: BulkItemResultDto[] = [];
+    const valid: { index: number; dto: DeleteProductDto }[] = [];
+    const firstIndexById = new Map<string, number>();
+    items.forEach((item, index) => {
+      const validation = validateItem(DeleteProductDto, item);
+      if (validation.errors) {
+        results[index] = { index, success: false, errors: validation.errors };
+        return;
+      }
+      const { id } = validation.value;
+      if (firstIndexById.has(id)) {
+        results[index] = { index, success: false, errors: [`Duplicate id ${id}, already at index ${firstIndexById.get(id)}.`] };
+        return;
+      }
+      firstIndexById.set(id, index);
+      valid.push({ index, dto: validation.value });
+    });
+
+    const existing = await this.productRepository.findByIds(valid.map(v => v.dto.id));
+    const accepted: { index: number; delete: ProductBatchDelete }[] = [];
+    for (const { index, dto: { id, expectedVersion } } of valid) {
+      const product = existing.find(p => p.id === id && p.available);
+      if (!product) {
+        results[index] = { index, success: false, errors: [`Product with id #${id} not found or already unavailable`] };
+        continue;
+      }
+      try {
+        product.assertVersion(expectedVersion);
+        accepted.push({ index, delete: { id, expectedVersion } });
+      } catch (error: any) {
+        if (!(error instanceof ProductVersionConflictError)) {
+          throw error;
+        }
+        results[index] = { index, success: false, errors: [error.message] };
+      }
+    }
+
+    if (mode === 'best_effort') {
+      await applyEach(accepted, results, async (item) => (await this.store([item.delete]))[0], this.logger);
+    } else if (shouldApplyBatch(mode, accepted.length, items.length)) {
+      try {
+        const deleted = await this.store(accepted.map(a => a.delete));
+        deleted.forEach((product, i) => {
+          const { index } = accepted[i];
+          results[index] = { index, success: true, id: product.id, product };
+        });
+      } catch (error: any) {
+        if (error instanceof ProductVersionConflictError) {
+          throw toVersionConflictException(error);
+        }
+        throw error;
+      }
+    }
+
+    const result = toBulkResult(mode, items.length, results);
+    this.logger.log(`Bulk delete finished: ${result.succeeded} deleted, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Soft deletes products in one unit of work, auditing them and recording their events.
+   * @private
+   * @async
+   * @param {ProductBatchDelete[]} deletes - The products and optional expected versions.
+   * @returns {Promise<Product[]>} The deleted products, in input order.
+   * @throws {ProductVersionConflictError} If a product changed since it was checked.
+   */
+  private async store(deletes: ProductBatchDelete[]): Promise<Product[]> {
+    return this.auditTrail.track('bulk_delete_products', deletes.map(d => d.id), async () => {
+      const products = await this.productRepository.softDeleteMany(deletes);
+      await this.eventOutbox.append(products.map(product => new ProductDeletedEvent(product.tenantId, product.id, product.version)));
+      return products;
+    });
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @file Command handler for updating products in bulk.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import {
+  Product, ProductBatchUpdate, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductVersionConflictError,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { BulkItemResultDto, BulkOperationResultDto, UpdateProductDto } from '../../dto';
+import {
+  applyEach, planProductUpdate, productUpdateEvents, ProductUpdatePlan, shouldApplyBatch, toBulkResult,
+  toVersionConflictException, validateItem,
+} from '../../utils';
+import { BulkUpdateProductsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+import { SkuRegistry } from '../../services/sku-registry.service';
+import { ProductAttributesService } from '../../services/product-attributes.service';
+
+/**
+ * @class BulkUpdateProductsHandler
+ * @description Handles the execution of the BulkUpdateProductsCommand.
+ */
+@CommandHandler(BulkUpdateProductsCommand)
+export class BulkUpdateProductsHandler implements ICommandHandler<BulkUpdateProductsCommand, BulkOperationResultDto> {
+  private readonly logger = new Logger(BulkUpdateProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductCategoriesService} productCategories - Checks the categories being assigned.
+   * @param {SkuRegistry} skuRegistry - Finds the product or variant already using a new SKU.
+   * @param {ProductAttributesService} productAttributes - Checks the attributes against the category schemas.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly productCategories: ProductCategoriesService,
+    private readonly skuRegistry: SkuRegistry,
+    private readonly productAttributes: ProductAttributesService,
+  ) {}
+
+  /**
+   * Executes the bulk update command. Every item is checked like a single `update_product` request
+   * (validation, existence, expected version, domain rules); the accepted ones are written in one transaction,
+   * or each in its own in best-effort mode.
+   * @async
+   * @param {BulkUpdateProductsCommand} command - The command object.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results.
+   * @throws {RpcException} 409 if a product changed between the checks and the write of a transactional batch.
+   */
+  async execute(command: BulkUpdateProductsCommand): Promise<BulkOperationResultDto> {
+    const { items, mode } = command;
+    this.logger.log(`Attempting to update ${items.length} products (${mode})`);
+
+    const results: BulkItemResultDto[] = [];
+    const valid: { index: number; dto: UpdateProductDto }[] = [];
+    const firstIndexById = new Map<string, number>();
+    items.forEach((item, index) => {
+      const validation = validateItem(UpdateProductDto, item);
+      if (validation.errors) {
+        results[index] = { index, success: false, errors: validation.errors };
+        return;
+      }
+      const { id } = validation.value;
+      if (firstIndexById.has(id)) {
+        results[index] = { index, success: false, errors: [`Duplicate id ${id}, already at index ${firstIndexById.get(id)}.`] };
+        return;
+      }
+      firstIndexById.set(id, index);
+      valid.push({ index, dto: validation.value });
+    });
+
+    const existing = await this.productRepository.findByIds(valid.map(v => v.dto.id));
+    const categories = await this.productCategories.hierarchy();
+    const accepted: { index: number; update: ProductBatchUpdate; plan: ProductUpdatePlan }[] = [];
+    for (const { index, dto } of valid) {
+      const { id, expectedVersion, ...updateData } = dto;
+      const product = existing.find(p => p.id === id && p.available);
+      if (!product) {
+        results[index] = { index, success: false, errors: [`Product with id #${id} not found or not available`] };
+        continue;
+      }
+      try {
+        product.assertVersion(expectedVersion);
+        await this.productCategories.assertExist(updateData.categoryIds, categories);
+        const plan = planProductUpdate(product, updateData);
+        if (plan.changes.attributes !== undefined || plan.changes.categoryIds !== undefined) {
+          await this.productAttributes.assertValid(product.attributes, product.categoryIds, categories);
+        }
+        const skuHolder = plan.changes.sku === undefined ? null : await this.skuRegistry.holderOf(plan.changes.sku, id);
+        if (skuHolder) {
+          results[index] = { index, success: false, errors: [`SKU ${plan.changes.sku} is already used by ${skuHolder}.`] };
+          continue;
+        }
+        accepted.push({ index, update: { id, data: plan.changes, expectedVersion }, plan });
+      } catch (error: any) {
+        if (!(error instanceof ProductDomainError || error instanceof ProductVersionConflictError)) {
+          throw error;
+        }
+        results[index] = { index, success: false, errors: [error.message] };
+      }
+    }
+
+    if (mode === 'best_effort') {
+      await applyEach(accepted, results, async (item) => (await this.store([item]))[0], this.logger);
+    } else if (shouldApplyBatch(mode, accepted.length, items.length)) {
+      try {
+        const updated = await this.store(accepted);
+        updated.forEach((product, i) => {
+          const { index } = accepted[i];
+          results[index] = { index, success: true, id: product.id, product };
+        });
+      } catch (error: any) {
+        if (error instanceof ProductVersionConflictError) {
+          throw toVersionConflictException(error);
+        }
+        throw error;
+      }
+    }
+
+    const result = toBulkResult(mode, items.length, results);
+    this.logger.log(`Bulk update finished: ${result.succeeded} updated, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Writes updates in one unit of work, auditing them and recording their events.
+   * @private
+   * @async
+   * @param {{ update: ProductBatchUpdate, plan: ProductUpdatePlan }[]} accepted - The updates and their plans.
+   * @returns {Promise<Product[]>} The updated products, in input order.
+   * @throws {ProductVersionConflictError} If a product changed since it was checked.
+   */
+  private async store(accepted: { update: ProductBatchUpdate; plan: ProductUpdatePlan }[]): Promise<Product[]> {
+    return this.auditTrail.track('bulk_update_products', accepted.map(a => a.update.id), async () => {
+      const products = await this.productRepository.updateMany(accepted.map(a => a.update));
+      await this.eventOutbox.append(products.flatMap((product, i) => productUpdateEvents(product, accepted[i].plan)));
+      return products;
+    });
+  }
+}
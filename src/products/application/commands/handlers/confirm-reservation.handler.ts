@@ -0,0 +1,83 @@
+/**
+ * @file Command handler for confirming a stock reservation.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductDomainError, StockReservation, StockReservationRepositoryPort, STOCK_RESERVATION_REPOSITORY_PORT,
+} from '../../../domain';
+import { ConfirmReservationCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class ConfirmReservationHandler
+ * @description Handles the execution of the ConfirmReservationCommand. Confirming twice is a no-op.
+ */
+@CommandHandler(ConfirmReservationCommand)
+export class ConfirmReservationHandler implements ICommandHandler<ConfirmReservationCommand, StockReservation> {
+  private readonly logger = new Logger(ConfirmReservationHandler.name);
+
+  /**
+   * @constructor
+   * @param {StockReservationRepositoryPort} reservationRepository - Injected stock reservation repository.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(STOCK_RESERVATION_REPOSITORY_PORT)
+    private readonly reservationRepository: StockReservationRepositoryPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the confirm reservation command.
+   * @async
+   * @param {ConfirmReservationCommand} command - The command object.
+   * @returns {Promise<StockReservation>} The confirmed reservation.
+   * @throws {RpcException} If the reservation is not found, not pending, expired, or an error occurs.
+   */
+  async execute(command: ConfirmReservationCommand): Promise<StockReservation> {
+    const { id } = command;
+    this.logger.log(`Attempting to confirm reservation ${id}`);
+
+    try {
+      const reservation = await this.reservationRepository.findById(id);
+      if (!reservation) {
+        throw new RpcException({
+          message: `Reservation with id #${id} not found`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+      if (reservation.status === 'CONFIRMED') {
+        return reservation;
+      }
+
+      reservation.confirm();
+
+      const confirmed = await this.auditTrail.track(
+        'confirm_reservation',
+        reservation.items.map(item => item.productId),
+        () => this.reservationRepository.confirm(id),
+      );
+      this.logger.log(`Successfully confirmed reservation ${id}`);
+      return confirmed;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.CONFLICT, message: error.message });
+      }
+      this.logger.error(`Failed to confirm reservation ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to confirm reservation.',
+      });
+    }
+  }
+}
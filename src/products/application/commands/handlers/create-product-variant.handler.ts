@@ -0,0 +1,103 @@
+/**
+ * @file Command handler for creating a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  Money, ProductDomainError, ProductRepositoryPort, ProductVariant, ProductVariantRepositoryPort,
+  PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { snapshotVariant } from '../../utils';
+import { CreateProductVariantCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { SkuRegistry } from '../../services/sku-registry.service';
+
+/**
+ * @class CreateProductVariantHandler
+ * @description Handles the execution of the CreateProductVariantCommand. The product must define its
+ * options first; the variant picks one value of each.
+ */
+@CommandHandler(CreateProductVariantCommand)
+export class CreateProductVariantHandler implements ICommandHandler<CreateProductVariantCommand, ProductVariant> {
+  private readonly logger = new Logger(CreateProductVariantHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Records the change in the product's audit log.
+   * @param {SkuRegistry} skuRegistry - Checks the SKU is not used by a product or another variant.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly skuRegistry: SkuRegistry,
+  ) {}
+
+  /**
+   * Executes the create product variant command.
+   * @async
+   * @param {CreateProductVariantCommand} command - The command object.
+   * @returns {Promise<ProductVariant>} The created variant.
+   * @throws {RpcException} If the product is not found, the options do not fit the product (400), the SKU
+   * or option combination is taken (409) or an error occurs.
+   */
+  async execute(command: CreateProductVariantCommand): Promise<ProductVariant> {
+    const { productId, sku, options, price, available = true } = command.createProductVariantDto;
+    this.logger.log(`Attempting to create variant ${sku} of product with ID: ${productId}`);
+
+    try {
+      const created = await this.unitOfWork.run(async () => {
+        const product = await this.productRepository.findById(productId);
+        if (!product) {
+          throw new RpcException({
+            message: `Product with id #${productId} not found or not available`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+        const definitions = await this.variantRepository.findOptions(productId);
+        if (definitions.length === 0) {
+          throw new ProductDomainError(`Product #${productId} has no options; set them before adding variants.`);
+        }
+        await this.skuRegistry.assertFree(sku);
+
+        const priceOverride = price === undefined ? null : Money.fromMajor(price, product.price.currency);
+        const variant = new ProductVariant(randomUUID(), productId, sku, {}, priceOverride, available);
+        variant.changeOptions(options, definitions);
+
+        const stored = await this.variantRepository.create(variant);
+        await this.auditTrail.record('create_product_variant', [
+          { productId, changes: { variant: { previous: null, current: snapshotVariant(stored) } } },
+        ]);
+        return stored;
+      });
+      this.logger.log(`Successfully created variant with ID: ${created.id}`);
+      return created;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to create variant ${sku}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to create product variant.',
+      });
+    }
+  }
+}
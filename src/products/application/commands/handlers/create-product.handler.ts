@@ -6,11 +6,17 @@
  */
 
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
-import { Inject, Logger } from '@nestjs/common';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
 import { randomUUID } from 'crypto';
-import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import {
+  Money, Product, ProductCreatedEvent, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { envs } from '../../../../config';
 import { CreateProductCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductWriteChecks } from '../../services/product-write-checks.service';
 
 /**
  * @class CreateProductHandler
@@ -23,10 +29,17 @@ export class CreateProductHandler implements ICommandHandler<CreateProductComman
   /**
    * @constructor
    * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductWriteChecks} writeChecks - Checks the categories, SKU and attributes.
    */
   constructor(
     @Inject(PRODUCT_REPOSITORY_PORT)
     private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly writeChecks: ProductWriteChecks,
   ) {}
 
   /**
@@ -34,22 +47,39 @@ export class CreateProductHandler implements ICommandHandler<CreateProductComman
    * @async
    * @param {CreateProductCommand} command - The command object.
    * @returns {Promise<Product>} The created product entity.
-   * @throws {RpcException} If an error occurs during creation.
+   * @throws {RpcException} If the SKU is taken (409) or an error occurs during creation.
    */
   async execute(command: CreateProductCommand): Promise<Product> {
-    const { name, price } = command.createProductDto;
+    const {
+      name, description, tags, price, currency = envs.defaultCurrency, sku, categoryIds, attributes,
+    } = command.createProductDto;
     this.logger.log(`Attempting to create product: ${name}`);
 
     try {
+      await this.writeChecks.assertCreatable(command.createProductDto);
+
       // Generate UUID externally
       const id = randomUUID();
       this.logger.log(`Generated product UUID: ${id}`);
       
       // Pass the ID along with the other data
-      const newProduct = await this.productRepository.create({ id, name, price });
+      const newProduct = await this.auditTrail.track('create_product', [id], async () => {
+        const product = await this.productRepository.create({
+          id, sku, name, description, tags: tags && Product.normalizeTags(tags), price: Money.fromMajor(price, currency),
+          categoryIds, attributes,
+        });
+        await this.eventOutbox.append([new ProductCreatedEvent(product)]);
+        return product;
+      });
       this.logger.log(`Successfully created product with ID: ${newProduct.id}`);
       return newProduct;
     } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
       this.logger.error(`Failed to create product "${name}": ${error.message}`, error.stack);
       throw new RpcException({
           status: error.status || error.response?.status || 500,
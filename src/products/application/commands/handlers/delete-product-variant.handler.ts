@@ -0,0 +1,78 @@
+/**
+ * @file Command handler for deleting a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductVariant, ProductVariantRepositoryPort, PRODUCT_VARIANT_REPOSITORY_PORT } from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { snapshotVariant } from '../../utils';
+import { DeleteProductVariantCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class DeleteProductVariantHandler
+ * @description Handles the execution of the DeleteProductVariantCommand.
+ */
+@CommandHandler(DeleteProductVariantCommand)
+export class DeleteProductVariantHandler implements ICommandHandler<DeleteProductVariantCommand, ProductVariant> {
+  private readonly logger = new Logger(DeleteProductVariantHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Records the change in the product's audit log.
+   */
+  constructor(
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the delete product variant command.
+   * @async
+   * @param {DeleteProductVariantCommand} command - The command object.
+   * @returns {Promise<ProductVariant>} The deleted variant.
+   * @throws {RpcException} If the variant is not found or an error occurs.
+   */
+  async execute(command: DeleteProductVariantCommand): Promise<ProductVariant> {
+    const { id } = command;
+    this.logger.log(`Attempting to delete variant with ID: ${id}`);
+
+    try {
+      const deleted = await this.unitOfWork.run(async () => {
+        const variant = await this.variantRepository.findById(id);
+        if (!variant) {
+          throw new RpcException({
+            message: `Variant with id #${id} not found`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+        await this.variantRepository.delete(id);
+        await this.auditTrail.record('delete_product_variant', [
+          { productId: variant.productId, changes: { variant: { previous: snapshotVariant(variant), current: null } } },
+        ]);
+        return variant;
+      });
+      this.logger.log(`Successfully deleted variant with ID: ${id}`);
+      return deleted;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      this.logger.error(`Failed to delete variant ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to delete product variant.',
+      });
+    }
+  }
+}
@@ -8,8 +8,13 @@
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
-import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import {
+  Product, ProductDeletedEvent, ProductEventOutboxPort, ProductRepositoryPort, ProductVersionConflictError,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { toVersionConflictException } from '../../utils';
 import { DeleteProductCommand } from '../impl/delete-product.command';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
 
 /**
  * @class DeleteProductHandler
@@ -22,10 +27,15 @@ export class DeleteProductHandler implements ICommandHandler<DeleteProductComman
   /**
    * @constructor
    * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
    */
   constructor(
     @Inject(PRODUCT_REPOSITORY_PORT)
     private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
   ) {}
 
   /**
@@ -33,10 +43,10 @@ export class DeleteProductHandler implements ICommandHandler<DeleteProductComman
    * @async
    * @param {DeleteProductCommand} command - The command object.
    * @returns {Promise<Product>} The product entity marked as unavailable.
-   * @throws {RpcException} If the product is not found or an error occurs.
+   * @throws {RpcException} If the product is not found, its version is not the expected one (409) or an error occurs.
    */
   async execute(command: DeleteProductCommand): Promise<Product> {
-    const { id } = command;
+    const { id, expectedVersion } = command;
     this.logger.log(`Attempting to soft delete product with ID: ${id}`);
 
     try {
@@ -48,8 +58,14 @@ export class DeleteProductHandler implements ICommandHandler<DeleteProductComman
           });
         }
 
+        existingProduct.assertVersion(expectedVersion);
+
         // Perform the soft delete using the repository port
-        const deletedProduct = await this.productRepository.softDelete(id);
+        const deletedProduct = await this.auditTrail.track('delete_product', [id], async () => {
+          const product = await this.productRepository.softDelete(id, expectedVersion);
+          await this.eventOutbox.append([new ProductDeletedEvent(product.tenantId, product.id, product.version)]);
+          return product;
+        });
         this.logger.log(`Successfully soft deleted product with ID: ${id}`);
         return deletedProduct;
 
@@ -57,6 +73,9 @@ export class DeleteProductHandler implements ICommandHandler<DeleteProductComman
         if (error instanceof RpcException) { // Re-throw RpcExceptions directly
             throw error;
         }
+        if (error instanceof ProductVersionConflictError) {
+            throw toVersionConflictException(error);
+        }
         this.logger.error(`Failed to soft delete product ID ${id}: ${error.message}`, error.stack);
         throw new RpcException({
             status: error.status || error.response?.status || 500,
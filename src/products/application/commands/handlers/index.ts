@@ -1,4 +1,26 @@
 export * from './create-product.handler';
 export * from './update-product.handler';
 export * from './delete-product.handler';
-
+export * from './restore-product.handler';
+export * from './bulk-create-products.handler';
+export * from './bulk-update-products.handler';
+export * from './bulk-delete-products.handler';
+export * from './adjust-stock.handler';
+export * from './set-stock.handler';
+export * from './reserve-products.handler';
+export * from './confirm-reservation.handler';
+export * from './release-reservation.handler';
+export * from './release-expired-reservations.handler';
+export * from './schedule-price-change.handler';
+export * from './apply-scheduled-prices.handler';
+export * from './set-product-options.handler';
+export * from './set-product-translation.handler';
+export * from './remove-product-translation.handler';
+export * from './add-product-media.handler';
+export * from './reorder-product-media.handler';
+export * from './remove-product-media.handler';
+export * from './create-product-variant.handler';
+export * from './update-product-variant.handler';
+export * from './delete-product-variant.handler';
+export * from './rebuild-search-index.handler';
+export * from './reassign-category-products.handler';
@@ -0,0 +1,88 @@
+/**
+ * @file Tests of ReassignCategoryProductsHandler.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ReassignCategoryProductsHandler } from './reassign-category-products.handler';
+import { ReassignCategoryProductsCommand } from '../../../../categories/application/commands/impl';
+import {
+  Money, Product, ProductDomainError, ProductEvent, ProductEventOutboxPort, ProductRepositoryPort, ProductUpdateData,
+  ProductUpdatedEvent,
+} from '../../../domain';
+import { planProductUpdate } from '../../utils';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductWriteChecks } from '../../services/product-write-checks.service';
+
+jest.mock('../../../../config', () => ({
+  envs: { defaultCurrency: 'USD' },
+}));
+
+describe('ReassignCategoryProductsHandler', () => {
+  let products: Product[];
+  let written: { id: string; changes: ProductUpdateData }[];
+  let appended: ProductEvent[];
+  let audited: { action: string; ids: string[] }[];
+  let misfitId: string | null;
+  let handler: ReassignCategoryProductsHandler;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    products = [
+      new Product('lamp-1', 'Lamp', Money.of(1000, 'USD'), true, 5, 1, null, ['old', 'lighting']),
+      new Product('desk-1', 'Desk', Money.of(3000, 'USD'), true, 2, 1, null, ['old', 'new']),
+    ];
+    written = [];
+    appended = [];
+    audited = [];
+    misfitId = null;
+    const productRepository = { findByIds: jest.fn(), update: jest.fn() } as unknown as jest.Mocked<ProductRepositoryPort>;
+    productRepository.findByIds.mockImplementation(async ids => products.filter(p => ids.includes(p.id)));
+    productRepository.update.mockImplementation(async (id, changes) => {
+      written.push({ id, changes });
+      return products.find(p => p.id === id)!;
+    });
+    const eventOutbox: jest.Mocked<ProductEventOutboxPort> = { append: jest.fn() };
+    eventOutbox.append.mockImplementation(async events => { appended.push(...events); });
+    const auditTrail = { track: jest.fn() } as unknown as jest.Mocked<ProductAuditTrail>;
+    auditTrail.track.mockImplementation((action, ids, work) => {
+      audited.push({ action, ids });
+      return work();
+    });
+    const writeChecks = { planUpdate: jest.fn() } as unknown as jest.Mocked<ProductWriteChecks>;
+    writeChecks.planUpdate.mockImplementation(async (product, updateData) => {
+      // Stands in for an attribute schema the desk does not satisfy
+      if (product.id === misfitId) {
+        throw new ProductDomainError('Invalid attributes: size is required');
+      }
+      return planProductUpdate(product, updateData);
+    });
+    handler = new ReassignCategoryProductsHandler(productRepository, eventOutbox, auditTrail, writeChecks);
+  });
+
+  it('swaps the category through the product write path', async () => {
+    const moved = await handler.execute(new ReassignCategoryProductsCommand('old', 'new', ['lamp-1', 'desk-1']));
+
+    expect(moved).toBe(2);
+    expect(written).toEqual([
+      { id: 'lamp-1', changes: { categoryIds: ['new', 'lighting'] } },
+      { id: 'desk-1', changes: { categoryIds: ['new'] } },
+    ]);
+    expect(audited).toEqual([{ action: 'delete_category', ids: ['lamp-1', 'desk-1'] }]);
+    expect(appended).toHaveLength(2);
+    appended.forEach(event => expect(event).toBeInstanceOf(ProductUpdatedEvent));
+  });
+
+  it('moves nothing when a product does not fit the target category', async () => {
+    misfitId = 'desk-1';
+
+    await expect(handler.execute(new ReassignCategoryProductsCommand('old', 'new', ['lamp-1', 'desk-1'])))
+      .rejects.toBeInstanceOf(RpcException);
+    expect(written).toEqual([]);
+    expect(audited).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @file Command handler for moving the products of a deleted category to another one.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductDomainError, ProductEvent, ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT,
+  PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { ReassignCategoryProductsCommand } from '../../../../categories/application/commands/impl';
+import { productUpdateEvents, ProductUpdatePlan } from '../../utils';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductWriteChecks } from '../../services/product-write-checks.service';
+
+/**
+ * @class ReassignCategoryProductsHandler
+ * @description Handles the ReassignCategoryProductsCommand sent by `delete_category`. Each product swaps the
+ * deleted category for the target one, with the checks of `update_product`: if any product's attributes do
+ * not satisfy the target category's schema, nothing is moved. The moves are audited under `delete_category`
+ * and each raises ProductUpdated.
+ */
+@CommandHandler(ReassignCategoryProductsCommand)
+export class ReassignCategoryProductsHandler implements ICommandHandler<ReassignCategoryProductsCommand, number> {
+  private readonly logger = new Logger(ReassignCategoryProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductWriteChecks} writeChecks - Checks the new categories and the attributes against them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly writeChecks: ProductWriteChecks,
+  ) {}
+
+  /**
+   * Executes the reassign category products command.
+   * @async
+   * @param {ReassignCategoryProductsCommand} command - The command object.
+   * @returns {Promise<number>} The number of products moved.
+   * @throws {RpcException} 409 if a product cannot move to the target category, or if an error occurs.
+   */
+  async execute(command: ReassignCategoryProductsCommand): Promise<number> {
+    const { fromCategoryId, toCategoryId, productIds } = command;
+    this.logger.log(`Moving ${productIds.length} products from category ${fromCategoryId} to ${toCategoryId}`);
+
+    try {
+      const products = await this.productRepository.findByIds(productIds);
+      const plans: { id: string; plan: ProductUpdatePlan }[] = [];
+      for (const product of products) {
+        const categoryIds = Array.from(new Set(product.categoryIds.map(id => (id === fromCategoryId ? toCategoryId : id))));
+        try {
+          plans.push({ id: product.id, plan: await this.writeChecks.planUpdate(product, { categoryIds }) });
+        } catch (error) {
+          if (error instanceof ProductDomainError) {
+            throw new RpcException({
+              status: HttpStatus.CONFLICT,
+              message: `Product #${product.id} cannot move to category #${toCategoryId}: ${error.message}`,
+            });
+          }
+          throw error;
+        }
+      }
+
+      await this.auditTrail.track('delete_category', plans.map(({ id }) => id), async () => {
+        const events: ProductEvent[] = [];
+        for (const { id, plan } of plans) {
+          const product = await this.productRepository.update(id, plan.changes);
+          events.push(...productUpdateEvents(product, plan));
+        }
+        await this.eventOutbox.append(events);
+      });
+      return plans.length;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      this.logger.error(`Failed to move the products of category ${fromCategoryId}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to move the category products.',
+      });
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @file Command handler for rebuilding the full-text product search index.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { RebuildSearchIndexCommand } from '../impl';
+
+/**
+ * @class RebuildSearchIndexHandler
+ * @description Handles the execution of the RebuildSearchIndexCommand. The index is normally kept in sync
+ * by every product write; rebuilding it is only needed after products were changed outside the service.
+ * Only the caller's tenant is rebuilt; the CLI, running outside of a request, rebuilds every tenant.
+ */
+@CommandHandler(RebuildSearchIndexCommand)
+export class RebuildSearchIndexHandler implements ICommandHandler<RebuildSearchIndexCommand, { indexed: number }> {
+  private readonly logger = new Logger(RebuildSearchIndexHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the rebuild search index command.
+   * @async
+   * @returns {Promise<{ indexed: number }>} The number of products indexed.
+   */
+  async execute(): Promise<{ indexed: number }> {
+    const indexed = await this.productRepository.rebuildSearchIndex();
+    this.logger.log(`Rebuilt the product search index with ${indexed} products.`);
+    return { indexed };
+  }
+}
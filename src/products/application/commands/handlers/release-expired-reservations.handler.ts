@@ -0,0 +1,77 @@
+/**
+ * @file Command handler for releasing stock reservations that have expired.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import {
+  ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+  StockReservationRepositoryPort, STOCK_RESERVATION_REPOSITORY_PORT,
+} from '../../../domain';
+import { ReleaseExpiredReservationsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { stockUpdateEvents } from '../../utils';
+
+/**
+ * @class ReleaseExpiredReservationsHandler
+ * @description Handles the execution of the ReleaseExpiredReservationsCommand.
+ */
+@CommandHandler(ReleaseExpiredReservationsCommand)
+export class ReleaseExpiredReservationsHandler implements ICommandHandler<ReleaseExpiredReservationsCommand, number> {
+  private readonly logger = new Logger(ReleaseExpiredReservationsHandler.name);
+
+  /**
+   * @constructor
+   * @param {StockReservationRepositoryPort} reservationRepository - Injected stock reservation repository.
+   * @param {ProductRepositoryPort} productRepository - Reads the products' stock after the change.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(STOCK_RESERVATION_REPOSITORY_PORT)
+    private readonly reservationRepository: StockReservationRepositoryPort,
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the release expired reservations command. A reservation confirmed or released
+   * concurrently is skipped rather than failing the whole batch.
+   * @async
+   * @param {ReleaseExpiredReservationsCommand} command - The command object.
+   * @returns {Promise<number>} The number of reservations marked as expired.
+   */
+  async execute(command: ReleaseExpiredReservationsCommand): Promise<number> {
+    const expiredIds = await this.reservationRepository.findExpiredPendingIds(new Date(), command.batchSize);
+    if (expiredIds.length === 0) {
+      return 0;
+    }
+
+    let released = 0;
+    for (const id of expiredIds) {
+      try {
+        const reservation = await this.reservationRepository.findById(id);
+        const productIds = reservation?.items.map(item => item.productId) ?? [];
+        await this.auditTrail.track('expire_reservation', productIds, async () => {
+          const expired = await this.reservationRepository.release(id, 'EXPIRED');
+          await this.eventOutbox.append(stockUpdateEvents(
+            await this.productRepository.findByIds(productIds),
+            new Map(expired.items.map(item => [item.productId, item.quantity])),
+          ));
+        });
+        released++;
+      } catch (error: any) {
+        this.logger.warn(`Skipped expiring reservation ${id}: ${error.message}`);
+      }
+    }
+
+    this.logger.log(`Released ${released} of ${expiredIds.length} expired reservations.`);
+    return released;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @file Command handler for releasing a stock reservation.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+  StockReservation, StockReservationRepositoryPort, STOCK_RESERVATION_REPOSITORY_PORT,
+} from '../../../domain';
+import { ReleaseReservationCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { stockUpdateEvents } from '../../utils';
+
+/**
+ * @class ReleaseReservationHandler
+ * @description Handles the execution of the ReleaseReservationCommand. Releasing a reservation that
+ * was already released or has expired is a no-op, so saga compensations can be retried safely.
+ */
+@CommandHandler(ReleaseReservationCommand)
+export class ReleaseReservationHandler implements ICommandHandler<ReleaseReservationCommand, StockReservation> {
+  private readonly logger = new Logger(ReleaseReservationHandler.name);
+
+  /**
+   * @constructor
+   * @param {StockReservationRepositoryPort} reservationRepository - Injected stock reservation repository.
+   * @param {ProductRepositoryPort} productRepository - Reads the products' stock after the change.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(STOCK_RESERVATION_REPOSITORY_PORT)
+    private readonly reservationRepository: StockReservationRepositoryPort,
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the release reservation command.
+   * @async
+   * @param {ReleaseReservationCommand} command - The command object.
+   * @returns {Promise<StockReservation>} The released reservation.
+   * @throws {RpcException} If the reservation is not found, already confirmed, or an error occurs.
+   */
+  async execute(command: ReleaseReservationCommand): Promise<StockReservation> {
+    const { id } = command;
+    this.logger.log(`Attempting to release reservation ${id}`);
+
+    try {
+      const reservation = await this.reservationRepository.findById(id);
+      if (!reservation) {
+        throw new RpcException({
+          message: `Reservation with id #${id} not found`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+      if (reservation.status === 'RELEASED' || reservation.status === 'EXPIRED') {
+        return reservation;
+      }
+
+      reservation.release();
+
+      const productIds = reservation.items.map(item => item.productId);
+      const released = await this.auditTrail.track('release_reservation', productIds, async () => {
+        const result = await this.reservationRepository.release(id, 'RELEASED');
+        await this.eventOutbox.append(stockUpdateEvents(
+          await this.productRepository.findByIds(productIds),
+          new Map(result.items.map(item => [item.productId, item.quantity])),
+        ));
+        return result;
+      });
+      this.logger.log(`Successfully released reservation ${id}`);
+      return released;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.CONFLICT, message: error.message });
+      }
+      this.logger.error(`Failed to release reservation ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to release reservation.',
+      });
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @file Command handler for removing an image or video from a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductUpdatedEvent,
+  ProductVersionConflictError, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { RemoveProductMediaCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { toVersionConflictException } from '../../utils';
+
+/**
+ * @class RemoveProductMediaHandler
+ * @description Handles the execution of the RemoveProductMediaCommand. Only the metadata is removed; deleting
+ * the file from storage is up to its owner.
+ */
+@CommandHandler(RemoveProductMediaCommand)
+export class RemoveProductMediaHandler implements ICommandHandler<RemoveProductMediaCommand, Product> {
+  private readonly logger = new Logger(RemoveProductMediaHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the remove product media command.
+   * @async
+   * @param {RemoveProductMediaCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its remaining media.
+   * @throws {RpcException} 404 if the product or the media does not exist, 409 if its version is not the
+   * expected one.
+   */
+  async execute(command: RemoveProductMediaCommand): Promise<Product> {
+    const { productId, mediaId, expectedVersion } = command;
+    this.logger.log(`Removing media ${mediaId} from product ID: ${productId}`);
+
+    try {
+      const existingProduct = await this.productRepository.findById(productId);
+      if (!existingProduct) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      existingProduct.assertVersion(expectedVersion);
+      if (!existingProduct.mediaById(mediaId)) {
+        throw new RpcException({
+          message: `Product #${productId} has no media #${mediaId}`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+      const previous = existingProduct.media;
+      existingProduct.removeMedia(mediaId);
+
+      const updatedProduct = await this.auditTrail.track('remove_product_media', [productId], async () => {
+        const product = await this.productRepository.update(productId, { media: existingProduct.media }, expectedVersion);
+        await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+          media: { previous, current: product.media },
+        })]);
+        return product;
+      });
+      this.logger.log(`Successfully removed media ${mediaId} from product ID: ${productId}`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductVersionConflictError) {
+        throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to remove media from product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+        status: error.status || error.response?.status || 500,
+        message: error.message || error.response?.message || 'Failed to remove product media.',
+      });
+    }
+  }
+}
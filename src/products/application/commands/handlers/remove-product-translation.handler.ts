@@ -0,0 +1,102 @@
+/**
+ * @file Command handler for removing a product's translation into a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductUpdatedEvent,
+  ProductVersionConflictError, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { RemoveProductTranslationCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { toVersionConflictException } from '../../utils';
+
+/**
+ * @class RemoveProductTranslationHandler
+ * @description Handles the execution of the RemoveProductTranslationCommand. Reads in that locale fall
+ * back along its chain afterwards.
+ */
+@CommandHandler(RemoveProductTranslationCommand)
+export class RemoveProductTranslationHandler implements ICommandHandler<RemoveProductTranslationCommand, Product> {
+  private readonly logger = new Logger(RemoveProductTranslationHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the remove product translation command.
+   * @async
+   * @param {RemoveProductTranslationCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its remaining translations.
+   * @throws {RpcException} 404 if the product or the translation does not exist, 409 if its version is not
+   * the expected one.
+   */
+  async execute(command: RemoveProductTranslationCommand): Promise<Product> {
+    const { productId, locale, expectedVersion } = command;
+    this.logger.log(`Removing the ${locale} translation of product ID: ${productId}`);
+
+    try {
+      const existingProduct = await this.productRepository.findById(productId);
+      if (!existingProduct) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      existingProduct.assertVersion(expectedVersion);
+      if (!existingProduct.translationFor(locale)) {
+        throw new RpcException({
+          message: `Product #${productId} has no ${locale} translation`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+      const previous = existingProduct.translations;
+      existingProduct.removeTranslation(locale);
+
+      const updatedProduct = await this.auditTrail.track('remove_product_translation', [productId], async () => {
+        const product = await this.productRepository.update(productId, {
+          translations: existingProduct.translations,
+        }, expectedVersion);
+        await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+          translations: { previous, current: product.translations },
+        })]);
+        return product;
+      });
+      this.logger.log(`Successfully removed the ${locale} translation of product ID: ${productId}`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductVersionConflictError) {
+        throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to remove a translation of product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+        status: error.status || error.response?.status || 500,
+        message: error.message || error.response?.message || 'Failed to remove product translation.',
+      });
+    }
+  }
+}
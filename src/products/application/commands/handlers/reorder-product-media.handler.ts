@@ -0,0 +1,93 @@
+/**
+ * @file Command handler for changing the display order of a product's media.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductUpdatedEvent,
+  ProductVersionConflictError, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { ReorderProductMediaCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { toVersionConflictException } from '../../utils';
+
+/**
+ * @class ReorderProductMediaHandler
+ * @description Handles the execution of the ReorderProductMediaCommand.
+ */
+@CommandHandler(ReorderProductMediaCommand)
+export class ReorderProductMediaHandler implements ICommandHandler<ReorderProductMediaCommand, Product> {
+  private readonly logger = new Logger(ReorderProductMediaHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the reorder product media command.
+   * @async
+   * @param {ReorderProductMediaCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its media in the new order.
+   * @throws {RpcException} 404 if the product does not exist, 400 if the IDs are not exactly its media or the
+   * primary is not one of its images, 409 if its version is not the expected one.
+   */
+  async execute(command: ReorderProductMediaCommand): Promise<Product> {
+    const { productId, mediaIds, primaryMediaId, expectedVersion } = command;
+    this.logger.log(`Reordering the media of product ID: ${productId}`);
+
+    try {
+      const existingProduct = await this.productRepository.findById(productId);
+      if (!existingProduct) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      existingProduct.assertVersion(expectedVersion);
+      const previous = existingProduct.media;
+      existingProduct.reorderMedia(mediaIds, primaryMediaId);
+
+      const updatedProduct = await this.auditTrail.track('reorder_product_media', [productId], async () => {
+        const product = await this.productRepository.update(productId, { media: existingProduct.media }, expectedVersion);
+        await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+          media: { previous, current: product.media },
+        })]);
+        return product;
+      });
+      this.logger.log(`Successfully reordered the media of product ID: ${productId}`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductVersionConflictError) {
+        throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to reorder the media of product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+        status: error.status || error.response?.status || 500,
+        message: error.message || error.response?.message || 'Failed to reorder product media.',
+      });
+    }
+  }
+}
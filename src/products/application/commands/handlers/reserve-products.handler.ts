@@ -0,0 +1,97 @@
+/**
+ * @file Command handler for reserving product stock for an order.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT, StockReservation,
+  StockReservationItem, StockReservationRepositoryPort, STOCK_RESERVATION_REPOSITORY_PORT,
+} from '../../../domain';
+import { ReserveProductsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { stockUpdateEvents } from '../../utils';
+
+/**
+ * @class ReserveProductsHandler
+ * @description Handles the execution of the ReserveProductsCommand.
+ */
+@CommandHandler(ReserveProductsCommand)
+export class ReserveProductsHandler implements ICommandHandler<ReserveProductsCommand, StockReservation> {
+  private readonly logger = new Logger(ReserveProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {StockReservationRepositoryPort} reservationRepository - Injected stock reservation repository.
+   * @param {ProductRepositoryPort} productRepository - Reads the products' stock after the change.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(STOCK_RESERVATION_REPOSITORY_PORT)
+    private readonly reservationRepository: StockReservationRepositoryPort,
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the reserve products command.
+   * @async
+   * @param {ReserveProductsCommand} command - The command object.
+   * @returns {Promise<StockReservation>} The pending reservation holding the stock.
+   * @throws {RpcException} If any product cannot be reserved or an error occurs.
+   */
+  async execute(command: ReserveProductsCommand): Promise<StockReservation> {
+    const { orderReference, ttlSeconds } = command;
+    const items = this.mergeItems(command.items);
+    this.logger.log(`Attempting to reserve ${items.length} products for order ${orderReference}`);
+
+    try {
+      const id = randomUUID();
+      const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+      const productIds = items.map(item => item.productId);
+      const reservation = await this.auditTrail.track('reserve_products', productIds, async () => {
+        const created = await this.reservationRepository.reserve({ id, orderReference, expiresAt, items });
+        await this.eventOutbox.append(stockUpdateEvents(
+          await this.productRepository.findByIds(productIds),
+          new Map(items.map(item => [item.productId, -item.quantity])),
+        ));
+        return created;
+      });
+      this.logger.log(`Created reservation ${reservation.id} for order ${orderReference}, expiring at ${expiresAt.toISOString()}`);
+      return reservation;
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      this.logger.error(`Failed to reserve products for order ${orderReference}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to reserve products.',
+      });
+    }
+  }
+
+  /**
+   * Combines repeated product IDs into a single item with the summed quantity.
+   * @private
+   * @param {StockReservationItem[]} items - Requested items.
+   * @returns {StockReservationItem[]} One item per product.
+   */
+  private mergeItems(items: StockReservationItem[]): StockReservationItem[] {
+    const quantities = new Map<string, number>();
+    for (const { productId, quantity } of items) {
+      quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+    }
+    return Array.from(quantities, ([productId, quantity]) => ({ productId, quantity }));
+  }
+}
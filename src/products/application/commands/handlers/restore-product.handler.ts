@@ -0,0 +1,86 @@
+/**
+ * @file Command handler for restoring a soft-deleted product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductUpdatedEvent,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { RestoreProductCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class RestoreProductHandler
+ * @description Handles the execution of the RestoreProductCommand.
+ */
+@CommandHandler(RestoreProductCommand)
+export class RestoreProductHandler implements ICommandHandler<RestoreProductCommand, Product> {
+  private readonly logger = new Logger(RestoreProductHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the restore product command.
+   * @async
+   * @param {RestoreProductCommand} command - The command object.
+   * @returns {Promise<Product>} The product entity marked as available.
+   * @throws {RpcException} 404 if the product does not exist, 409 if it was never deleted.
+   */
+  async execute(command: RestoreProductCommand): Promise<Product> {
+    const { id } = command;
+    this.logger.log(`Attempting to restore product with ID: ${id}`);
+
+    try {
+        const existingProduct = await this.productRepository.findAnyById(id);
+        if (!existingProduct) {
+          throw new RpcException({
+            message: `Product with id #${id} not found`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+
+        existingProduct.restore();
+
+        const restoredProduct = await this.auditTrail.track('restore_product', [id], async () => {
+          const product = await this.productRepository.restore(id);
+          await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+            available: { previous: false, current: true },
+          })]);
+          return product;
+        });
+        this.logger.log(`Successfully restored product with ID: ${id}`);
+        return restoredProduct;
+
+    } catch (error: any) {
+        if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+            throw error;
+        }
+        if (error instanceof ProductDomainError) {
+            throw new RpcException({ status: HttpStatus.CONFLICT, message: error.message });
+        }
+        this.logger.error(`Failed to restore product ID ${id}: ${error.message}`, error.stack);
+        throw new RpcException({
+            status: error.status || error.response?.status || 500,
+            message: error.message || error.response?.message || 'Failed to restore product.',
+        });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @file Command handler for scheduling a future price change.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { Money, ProductDomainError, ProductPrice, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { SchedulePriceChangeCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class SchedulePriceChangeHandler
+ * @description Handles the execution of the SchedulePriceChangeCommand.
+ */
+@CommandHandler(SchedulePriceChangeCommand)
+export class SchedulePriceChangeHandler implements ICommandHandler<SchedulePriceChangeCommand, ProductPrice> {
+  private readonly logger = new Logger(SchedulePriceChangeHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the schedule price change command.
+   * @async
+   * @param {SchedulePriceChangeCommand} command - The command object.
+   * @returns {Promise<ProductPrice>} The scheduled price entry.
+   * @throws {RpcException} If the product is not found, the price or date is invalid, or an error occurs.
+   */
+  async execute(command: SchedulePriceChangeCommand): Promise<ProductPrice> {
+    const { productId, price, currency, effectiveFrom } = command;
+    this.logger.log(`Attempting to schedule price ${price} for product ${productId} from ${effectiveFrom.toISOString()}`);
+
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      const scheduled = ProductPrice.schedule(
+        randomUUID(),
+        productId,
+        Money.fromMajor(price, currency ?? product.price.currency),
+        effectiveFrom,
+      );
+
+      const stored = await this.unitOfWork.run(async () => {
+        const productPrice = await this.productRepository.schedulePriceChange(scheduled);
+        await this.auditTrail.record('schedule_price_change', [{
+          productId,
+          changes: {
+            scheduledPrice: {
+              previous: null,
+              current: { id: productPrice.id, price: productPrice.price, effectiveFrom: productPrice.effectiveFrom },
+            },
+          },
+        }]);
+        return productPrice;
+      });
+      this.logger.log(`Scheduled price change ${stored.id} for product ${productId}`);
+      return stored;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to schedule price change for product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to schedule price change.',
+      });
+    }
+  }
+}
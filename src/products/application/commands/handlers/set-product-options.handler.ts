@@ -0,0 +1,109 @@
+/**
+ * @file Command handler for replacing the option definitions of a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductDomainError, ProductOption, ProductRepositoryPort, ProductVariant, ProductVariantRepositoryPort,
+  PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { SetProductOptionsCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+
+/**
+ * @class SetProductOptionsHandler
+ * @description Handles the execution of the SetProductOptionsCommand. The new options must still fit
+ * every existing variant; options in use are changed by updating or deleting the variants first.
+ */
+@CommandHandler(SetProductOptionsCommand)
+export class SetProductOptionsHandler implements ICommandHandler<SetProductOptionsCommand, ProductOption[]> {
+  private readonly logger = new Logger(SetProductOptionsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Records the change in the product's audit log.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the set product options command.
+   * @async
+   * @param {SetProductOptionsCommand} command - The command object.
+   * @returns {Promise<ProductOption[]>} The product's options, in display order.
+   * @throws {RpcException} If the product is not found, the options are invalid (400), an existing variant
+   * does not fit them (409) or an error occurs.
+   */
+  async execute(command: SetProductOptionsCommand): Promise<ProductOption[]> {
+    const { productId } = command;
+    this.logger.log(`Attempting to set the options of product with ID: ${productId}`);
+
+    try {
+      const options = command.options.map(option => new ProductOption(option.name, option.values));
+      ProductOption.assertValidSet(options);
+
+      const saved = await this.unitOfWork.run(async () => {
+        const product = await this.productRepository.findById(productId);
+        if (!product) {
+          throw new RpcException({
+            message: `Product with id #${productId} not found or not available`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+
+        for (const variant of await this.variantRepository.findByProductId(productId)) {
+          try {
+            ProductVariant.assertOptionsMatch(variant.options, options);
+          } catch (error: any) {
+            if (!(error instanceof ProductDomainError)) {
+              throw error;
+            }
+            throw new RpcException({
+              status: HttpStatus.CONFLICT,
+              message: `Variant ${variant.sku} does not fit the new options: ${error.message}`,
+            });
+          }
+        }
+
+        const previous = await this.variantRepository.findOptions(productId);
+        const current = await this.variantRepository.replaceOptions(productId, options);
+        if (JSON.stringify(previous) !== JSON.stringify(current)) {
+          await this.auditTrail.record('set_product_options', [
+            { productId, changes: { options: { previous, current } } },
+          ]);
+        }
+        return current;
+      });
+      this.logger.log(`Successfully set ${saved.length} options on product with ID: ${productId}`);
+      return saved;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to set options of product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to set product options.',
+      });
+    }
+  }
+}
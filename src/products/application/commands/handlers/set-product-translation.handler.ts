@@ -0,0 +1,100 @@
+/**
+ * @file Command handler for translating a product's name and description into a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductTranslation, ProductUpdatedEvent,
+  ProductVersionConflictError, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { SetProductTranslationCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductLocalizationService } from '../../services/product-localization.service';
+import { toVersionConflictException } from '../../utils';
+
+/**
+ * @class SetProductTranslationHandler
+ * @description Handles the execution of the SetProductTranslationCommand. Translations are part of the
+ * product, so a change bumps its version and is published as a ProductUpdated event.
+ */
+@CommandHandler(SetProductTranslationCommand)
+export class SetProductTranslationHandler implements ICommandHandler<SetProductTranslationCommand, Product> {
+  private readonly logger = new Logger(SetProductTranslationHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductLocalizationService} localization - Knows the default and supported locales.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly localization: ProductLocalizationService,
+  ) {}
+
+  /**
+   * Executes the set product translation command.
+   * @async
+   * @param {SetProductTranslationCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its translations.
+   * @throws {RpcException} 404 if the product does not exist, 400 if the locale is the default one or not
+   * supported or the translation is empty, 409 if its version is not the expected one.
+   */
+  async execute(command: SetProductTranslationCommand): Promise<Product> {
+    const { productId, locale, name, description, expectedVersion } = command;
+    this.logger.log(`Setting the ${locale} translation of product ID: ${productId}`);
+
+    try {
+      const existingProduct = await this.productRepository.findById(productId);
+      if (!existingProduct) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      existingProduct.assertVersion(expectedVersion);
+      const previous = existingProduct.translations;
+      const translation = new ProductTranslation(this.localization.assertSupported(locale), name, description);
+      existingProduct.translate(translation, this.localization.defaultLocale);
+
+      const translatedProduct = await this.auditTrail.track('set_product_translation', [productId], async () => {
+        const product = await this.productRepository.update(productId, {
+          translations: existingProduct.translations,
+        }, expectedVersion);
+        await this.eventOutbox.append([new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+          translations: { previous, current: product.translations },
+        })]);
+        return product;
+      });
+      this.logger.log(`Successfully set the ${translation.locale} translation of product ID: ${productId}`);
+      return translatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof ProductVersionConflictError) {
+        throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to translate product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+        status: error.status || error.response?.status || 500,
+        message: error.message || error.response?.message || 'Failed to set product translation.',
+      });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * @file Command handler for setting a product's stock level.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { SetStockCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { stockUpdateEvents } from '../../utils';
+
+/**
+ * @class SetStockHandler
+ * @description Handles the execution of the SetStockCommand.
+ */
+@CommandHandler(SetStockCommand)
+export class SetStockHandler implements ICommandHandler<SetStockCommand, Product> {
+  private readonly logger = new Logger(SetStockHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Audits the products the command touches.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+  ) {}
+
+  /**
+   * Executes the set stock command.
+   * @async
+   * @param {SetStockCommand} command - The command object.
+   * @returns {Promise<Product>} The product with its new stock level.
+   * @throws {RpcException} If the product is not found, the quantity is invalid or an error occurs.
+   */
+  async execute(command: SetStockCommand): Promise<Product> {
+    const { productId, quantity, reason } = command;
+    this.logger.log(`Attempting to set stock of product ${productId} to ${quantity} (${reason})`);
+
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new RpcException({
+          message: `Product with id #${productId} not found or not available`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      product.setStock(quantity);
+
+      const { product: updatedProduct, movement } = await this.auditTrail.track('set_stock', [productId], async () => {
+        const change = await this.productRepository.setStock({
+          productId,
+          movementId: randomUUID(),
+          quantity,
+          reason,
+        });
+        await this.eventOutbox.append(stockUpdateEvents([change.product], new Map([[productId, change.movement.delta]])));
+        return change;
+      });
+      this.logger.log(`Recorded stock movement ${movement.id} (delta ${movement.delta}) for product ${productId}`);
+      return updatedProduct;
+
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to set stock of product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to set stock.',
+      });
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @file Command handler for updating a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  Money, ProductDomainError, ProductRepositoryPort, ProductVariant, ProductVariantRepositoryPort,
+  PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../../shared/application';
+import { snapshotVariant } from '../../utils';
+import { UpdateProductVariantCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { SkuRegistry } from '../../services/sku-registry.service';
+
+/**
+ * @class UpdateProductVariantHandler
+ * @description Handles the execution of the UpdateProductVariantCommand.
+ */
+@CommandHandler(UpdateProductVariantCommand)
+export class UpdateProductVariantHandler implements ICommandHandler<UpdateProductVariantCommand, ProductVariant> {
+  private readonly logger = new Logger(UpdateProductVariantHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {ProductAuditTrail} auditTrail - Records the change in the product's audit log.
+   * @param {SkuRegistry} skuRegistry - Checks a new SKU is not used by a product or another variant.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly skuRegistry: SkuRegistry,
+  ) {}
+
+  /**
+   * Executes the update product variant command.
+   * @async
+   * @param {UpdateProductVariantCommand} command - The command object.
+   * @returns {Promise<ProductVariant>} The updated variant.
+   * @throws {RpcException} If the variant or its product is not found, the options do not fit the product
+   * (400), the SKU or option combination is taken (409) or an error occurs.
+   */
+  async execute(command: UpdateProductVariantCommand): Promise<ProductVariant> {
+    const { id, updateProductVariantData } = command;
+    const { sku, options, price, available } = updateProductVariantData;
+    this.logger.log(`Attempting to update variant with ID: ${id}`);
+
+    try {
+      const updated = await this.unitOfWork.run(async () => {
+        const variant = await this.variantRepository.findById(id);
+        const product = variant ? await this.productRepository.findById(variant.productId) : null;
+        if (!variant || !product) {
+          throw new RpcException({
+            message: `Variant with id #${id} not found or not available`,
+            status: HttpStatus.NOT_FOUND,
+          });
+        }
+        const previous = snapshotVariant(variant);
+
+        if (sku !== undefined && sku !== variant.sku) {
+          await this.skuRegistry.assertFree(sku, id);
+          variant.changeSku(sku);
+        }
+        if (options !== undefined) {
+          variant.changeOptions(options, await this.variantRepository.findOptions(variant.productId));
+        }
+        // undefined leaves the price alone; null goes back to the product price
+        if (price !== undefined) {
+          variant.overridePrice(price === null ? null : Money.fromMajor(price, product.price.currency));
+        }
+        if (available !== undefined) {
+          variant.available = available;
+        }
+
+        const stored = await this.variantRepository.save(variant);
+        const current = snapshotVariant(stored);
+        if (JSON.stringify(previous) !== JSON.stringify(current)) {
+          await this.auditTrail.record('update_product_variant', [
+            { productId: variant.productId, changes: { variant: { previous, current } } },
+          ]);
+        }
+        return stored;
+      });
+      this.logger.log(`Successfully updated variant with ID: ${id}`);
+      return updated;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to update variant ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to update product variant.',
+      });
+    }
+  }
+}
@@ -8,8 +8,14 @@
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
-import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import {
+  Product, ProductDomainError, ProductEventOutboxPort, ProductRepositoryPort, ProductVersionConflictError,
+  PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../../domain';
+import { productUpdateEvents, toVersionConflictException } from '../../utils';
 import { UpdateProductCommand } from '../impl';
+import { ProductAuditTrail } from '../../services/product-audit-trail.service';
+import { ProductWriteChecks } from '../../services/product-write-checks.service';
 
 /**
  * @class UpdateProductHandler
@@ -22,10 +28,17 @@ export class UpdateProductHandler implements ICommandHandler<UpdateProductComman
   /**
    * @constructor
    * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductEventOutboxPort} eventOutbox - Injected product event outbox.
+   * @param {ProductAuditTrail} auditTrail - Runs the writes in a unit of work and audits them.
+   * @param {ProductWriteChecks} writeChecks - Checks the categories, a new SKU and the attributes.
    */
   constructor(
     @Inject(PRODUCT_REPOSITORY_PORT)
     private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_EVENT_OUTBOX_PORT)
+    private readonly eventOutbox: ProductEventOutboxPort,
+    private readonly auditTrail: ProductAuditTrail,
+    private readonly writeChecks: ProductWriteChecks,
   ) {}
 
   /**
@@ -33,10 +46,10 @@ export class UpdateProductHandler implements ICommandHandler<UpdateProductComman
    * @async
    * @param {UpdateProductCommand} command - The command object.
    * @returns {Promise<Product>} The updated product entity.
-   * @throws {RpcException} If the product is not found or an error occurs.
+   * @throws {RpcException} If the product is not found, its version is not the expected one (409), the new SKU is taken (409) or an error occurs.
    */
   async execute(command: UpdateProductCommand): Promise<Product> {
-    const { id, updateProductData } = command;
+    const { id, updateProductData, expectedVersion } = command;
     this.logger.log(`Attempting to update product with ID: ${id}`);
 
     try {
@@ -48,8 +61,15 @@ export class UpdateProductHandler implements ICommandHandler<UpdateProductComman
         });
       }
 
+      existingProduct.assertVersion(expectedVersion);
+      const plan = await this.writeChecks.planUpdate(existingProduct, updateProductData);
+
       // Perform the update using the repository port
-      const updatedProduct = await this.productRepository.update(id, updateProductData);
+      const updatedProduct = await this.auditTrail.track('update_product', [id], async () => {
+        const product = await this.productRepository.update(id, plan.changes, expectedVersion);
+        await this.eventOutbox.append(productUpdateEvents(product, plan));
+        return product;
+      });
       this.logger.log(`Successfully updated product with ID: ${id}`);
       return updatedProduct;
 
@@ -57,6 +77,12 @@ export class UpdateProductHandler implements ICommandHandler<UpdateProductComman
       if (error instanceof RpcException) { // Re-throw RpcExceptions directly
           throw error;
       }
+      if (error instanceof ProductVersionConflictError) {
+          throw toVersionConflictException(error);
+      }
+      if (error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
       this.logger.error(`Failed to update product ID ${id}: ${error.message}`, error.stack);
       throw new RpcException({
           status: error.status || error.response?.status || 500,
@@ -64,4 +90,4 @@ export class UpdateProductHandler implements ICommandHandler<UpdateProductComman
       });
     }
   }
-}
\ No newline at end of file
+}
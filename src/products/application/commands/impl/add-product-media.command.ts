@@ -0,0 +1,20 @@
+/**
+ * @file Defines the command for adding an image or video to a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { AddProductMediaDto } from '../../dto/product-media.dto';
+
+/**
+ * @class AddProductMediaCommand
+ * @description Represents the intent to add the metadata of an externally stored image or video to a product.
+ */
+export class AddProductMediaCommand {
+  /**
+   * @constructor
+   * @param {AddProductMediaDto} addProductMediaDto - The product, the media metadata and where to insert it.
+   */
+  constructor(public readonly addProductMediaDto: AddProductMediaDto) {}
+}
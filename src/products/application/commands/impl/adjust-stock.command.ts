@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for adjusting a product's stock by a signed delta.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class AdjustStockCommand
+ * @description Represents the intent to add or remove units of stock.
+ */
+export class AdjustStockCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product to adjust.
+   * @param {number} delta - Units to add (positive) or remove (negative).
+   * @param {string} reason - Why the stock changed.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly delta: number,
+    public readonly reason: string,
+  ) {}
+}
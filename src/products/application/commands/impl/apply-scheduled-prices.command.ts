@@ -0,0 +1,12 @@
+/**
+ * @file Defines the command for activating scheduled prices that have come into effect.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ApplyScheduledPricesCommand
+ * @description Represents the intent to copy due scheduled prices onto their products.
+ */
+export class ApplyScheduledPricesCommand {}
@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for deleting products in bulk.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { BulkMode } from '../../dto/bulk-products.dto';
+
+/**
+ * @class BulkDeleteProductsCommand
+ * @description Represents the intent to delete many products at once.
+ */
+export class BulkDeleteProductsCommand {
+  /**
+   * @constructor
+   * @param {Record<string, unknown>[]} items - The raw items, validated one by one by the handler.
+   * @param {BulkMode} mode - Whether the batch is all-or-nothing or best-effort.
+   */
+  constructor(
+    public readonly items: Record<string, unknown>[],
+    public readonly mode: BulkMode,
+  ) {}
+}
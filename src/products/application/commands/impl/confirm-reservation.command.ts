@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for confirming a stock reservation.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ConfirmReservationCommand
+ * @description Represents the intent to turn a stock hold into a permanent deduction.
+ */
+export class ConfirmReservationCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the reservation to confirm.
+   */
+  constructor(public readonly id: string) {}
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the command for creating a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CreateProductVariantDto } from '../../dto/product-variant.dto';
+
+/**
+ * @class CreateProductVariantCommand
+ * @description Represents the intent to add a variant to a product.
+ */
+export class CreateProductVariantCommand {
+  /**
+   * @constructor
+   * @param {CreateProductVariantDto} createProductVariantDto - Data for the new variant.
+   */
+  constructor(public readonly createProductVariantDto: CreateProductVariantDto) {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for deleting a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class DeleteProductVariantCommand
+ * @description Represents the intent to delete a variant. Unlike products, variants are removed for good.
+ */
+export class DeleteProductVariantCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the variant to delete.
+   */
+  constructor(public readonly id: string) {}
+}
@@ -13,6 +13,10 @@ export class DeleteProductCommand {
   /**
    * @constructor
    * @param {string} id - The ID of the product to delete.
+   * @param {number} [expectedVersion] - Version the caller read; omitted for an unconditional delete.
    */
-  constructor(public readonly id: string) {}
+  constructor(
+    public readonly id: string,
+    public readonly expectedVersion?: number,
+  ) {}
 }
\ No newline at end of file
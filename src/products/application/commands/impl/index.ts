@@ -1,3 +1,25 @@
 export * from './create-product.command';
 export * from './update-product.command';
 export * from './delete-product.command';
+export * from './restore-product.command';
+export * from './bulk-create-products.command';
+export * from './bulk-update-products.command';
+export * from './bulk-delete-products.command';
+export * from './adjust-stock.command';
+export * from './set-stock.command';
+export * from './reserve-products.command';
+export * from './confirm-reservation.command';
+export * from './release-reservation.command';
+export * from './release-expired-reservations.command';
+export * from './schedule-price-change.command';
+export * from './apply-scheduled-prices.command';
+export * from './set-product-options.command';
+export * from './set-product-translation.command';
+export * from './remove-product-translation.command';
+export * from './add-product-media.command';
+export * from './reorder-product-media.command';
+export * from './remove-product-media.command';
+export * from './create-product-variant.command';
+export * from './update-product-variant.command';
+export * from './delete-product-variant.command';
+export * from './rebuild-search-index.command';
@@ -0,0 +1,12 @@
+/**
+ * @file Defines the command for rebuilding the full-text product search index.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class RebuildSearchIndexCommand
+ * @description Represents the intent to re-index every available product for `search_products`.
+ */
+export class RebuildSearchIndexCommand {}
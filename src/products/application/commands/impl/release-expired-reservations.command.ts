@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for releasing stock reservations that have expired.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ReleaseExpiredReservationsCommand
+ * @description Represents the intent to return the stock of pending reservations past their expiry.
+ */
+export class ReleaseExpiredReservationsCommand {
+  /**
+   * @constructor
+   * @param {number} [batchSize=100] - Maximum number of reservations to release in one run.
+   */
+  constructor(public readonly batchSize: number = 100) {}
+}
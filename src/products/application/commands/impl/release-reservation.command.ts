@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for releasing a stock reservation.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ReleaseReservationCommand
+ * @description Represents the intent to give held stock back (e.g. when an order is cancelled).
+ */
+export class ReleaseReservationCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the reservation to release.
+   */
+  constructor(public readonly id: string) {}
+}
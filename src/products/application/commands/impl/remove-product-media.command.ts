@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for removing an image or video from a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class RemoveProductMediaCommand
+ * @description Represents the intent to remove a product's media. The stored file is left alone.
+ */
+export class RemoveProductMediaCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {string} mediaId - The ID of the media.
+   * @param {number} [expectedVersion] - Version the caller last read; omit for an unconditional write.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly mediaId: string,
+    public readonly expectedVersion?: number,
+  ) {}
+}
@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for removing a product's translation into a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class RemoveProductTranslationCommand
+ * @description Represents the intent to remove the translation of a product in one locale.
+ */
+export class RemoveProductTranslationCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {string} locale - Language tag of the translation.
+   * @param {number} [expectedVersion] - Version the caller last read; omit for an unconditional write.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly locale: string,
+    public readonly expectedVersion?: number,
+  ) {}
+}
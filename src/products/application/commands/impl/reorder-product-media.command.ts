@@ -0,0 +1,26 @@
+/**
+ * @file Defines the command for changing the display order of a product's media.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ReorderProductMediaCommand
+ * @description Represents the intent to put a product's images and videos in a new order.
+ */
+export class ReorderProductMediaCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {string[]} mediaIds - Every media ID of the product, in the new order.
+   * @param {string} [primaryMediaId] - An image to make primary.
+   * @param {number} [expectedVersion] - Version the caller last read; omit for an unconditional write.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly mediaIds: string[],
+    public readonly primaryMediaId?: string,
+    public readonly expectedVersion?: number,
+  ) {}
+}
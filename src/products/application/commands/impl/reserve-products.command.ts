@@ -0,0 +1,26 @@
+/**
+ * @file Defines the command for reserving product stock for an order.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { StockReservationItem } from '../../../domain/model/stock-reservation.entity';
+
+/**
+ * @class ReserveProductsCommand
+ * @description Represents the intent to hold stock for an order until it is confirmed or released.
+ */
+export class ReserveProductsCommand {
+  /**
+   * @constructor
+   * @param {string} orderReference - Reference of the order the stock is held for.
+   * @param {StockReservationItem[]} items - Products and quantities to hold.
+   * @param {number} ttlSeconds - How long the hold lasts before it expires.
+   */
+  constructor(
+    public readonly orderReference: string,
+    public readonly items: StockReservationItem[],
+    public readonly ttlSeconds: number,
+  ) {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for restoring a soft-deleted product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class RestoreProductCommand
+ * @description Represents the intent to make a soft-deleted product available again.
+ */
+export class RestoreProductCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the product to restore.
+   */
+  constructor(public readonly id: string) {}
+}
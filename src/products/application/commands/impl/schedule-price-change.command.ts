@@ -0,0 +1,26 @@
+/**
+ * @file Defines the command for scheduling a future price change.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class SchedulePriceChangeCommand
+ * @description Represents the intent to change a product's price at a future moment.
+ */
+export class SchedulePriceChangeCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {number} price - The new price in major units.
+   * @param {string | undefined} currency - ISO 4217 currency code, or undefined to keep the product's currency.
+   * @param {Date} effectiveFrom - When the price takes effect.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly price: number,
+    public readonly currency: string | undefined,
+    public readonly effectiveFrom: Date,
+  ) {}
+}
@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for replacing the option definitions of a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductOptionDto } from '../../dto/product-options.dto';
+
+/**
+ * @class SetProductOptionsCommand
+ * @description Represents the intent to replace the options a product's variants differ by.
+ */
+export class SetProductOptionsCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {ProductOptionDto[]} options - The new options, in display order.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly options: ProductOptionDto[],
+  ) {}
+}
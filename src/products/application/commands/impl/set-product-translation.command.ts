@@ -0,0 +1,28 @@
+/**
+ * @file Defines the command for translating a product's name and description into a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class SetProductTranslationCommand
+ * @description Represents the intent to add or replace the translation of a product in one locale.
+ */
+export class SetProductTranslationCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {string} locale - Language tag of the translation.
+   * @param {string | null} name - Translated name, or null to fall back.
+   * @param {string | null} description - Translated description, or null to fall back.
+   * @param {number} [expectedVersion] - Version the caller last read; omit for an unconditional write.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly locale: string,
+    public readonly name: string | null,
+    public readonly description: string | null,
+    public readonly expectedVersion?: number,
+  ) {}
+}
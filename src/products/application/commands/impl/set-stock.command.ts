@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for setting a product's stock to an absolute quantity.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class SetStockCommand
+ * @description Represents the intent to set a product's stock level.
+ */
+export class SetStockCommand {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {number} quantity - The new stock level.
+   * @param {string} reason - Why the stock level was set.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly quantity: number,
+    public readonly reason: string,
+  ) {}
+}
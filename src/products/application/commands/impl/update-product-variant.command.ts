@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for updating a product variant.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { UpdateProductVariantData } from '../../dto/product-variant.dto';
+
+/**
+ * @class UpdateProductVariantCommand
+ * @description Represents the intent to update a variant.
+ */
+export class UpdateProductVariantCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the variant to update.
+   * @param {UpdateProductVariantData} updateProductVariantData - The data to update the variant with.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly updateProductVariantData: UpdateProductVariantData,
+  ) {}
+}
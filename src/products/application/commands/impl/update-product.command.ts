@@ -16,9 +16,11 @@ export class UpdateProductCommand {
    * @constructor
    * @param {string} id - The ID of the product to update.
    * @param {UpdateProductData} updateProductData - The data to update the product with.
+   * @param {number} [expectedVersion] - Version the caller read; omitted for last-write-wins.
    */
   constructor(
     public readonly id: string,
     public readonly updateProductData: UpdateProductData,
+    public readonly expectedVersion?: number,
   ) {}
 }
\ No newline at end of file
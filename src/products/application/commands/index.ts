@@ -1,6 +1,29 @@
 import { CreateProductHandler } from './handlers/create-product.handler';
 import { UpdateProductHandler } from './handlers/update-product.handler';
 import { DeleteProductHandler } from './handlers/delete-product.handler';
+import { RestoreProductHandler } from './handlers/restore-product.handler';
+import { BulkCreateProductsHandler } from './handlers/bulk-create-products.handler';
+import { BulkUpdateProductsHandler } from './handlers/bulk-update-products.handler';
+import { BulkDeleteProductsHandler } from './handlers/bulk-delete-products.handler';
+import { AdjustStockHandler } from './handlers/adjust-stock.handler';
+import { SetStockHandler } from './handlers/set-stock.handler';
+import { ReserveProductsHandler } from './handlers/reserve-products.handler';
+import { ConfirmReservationHandler } from './handlers/confirm-reservation.handler';
+import { ReleaseReservationHandler } from './handlers/release-reservation.handler';
+import { ReleaseExpiredReservationsHandler } from './handlers/release-expired-reservations.handler';
+import { SchedulePriceChangeHandler } from './handlers/schedule-price-change.handler';
+import { ApplyScheduledPricesHandler } from './handlers/apply-scheduled-prices.handler';
+import { SetProductOptionsHandler } from './handlers/set-product-options.handler';
+import { SetProductTranslationHandler } from './handlers/set-product-translation.handler';
+import { RemoveProductTranslationHandler } from './handlers/remove-product-translation.handler';
+import { AddProductMediaHandler } from './handlers/add-product-media.handler';
+import { ReorderProductMediaHandler } from './handlers/reorder-product-media.handler';
+import { RemoveProductMediaHandler } from './handlers/remove-product-media.handler';
+import { CreateProductVariantHandler } from './handlers/create-product-variant.handler';
+import { UpdateProductVariantHandler } from './handlers/update-product-variant.handler';
+import { DeleteProductVariantHandler } from './handlers/delete-product-variant.handler';
+import { RebuildSearchIndexHandler } from './handlers/rebuild-search-index.handler';
+import { ReassignCategoryProductsHandler } from './handlers/reassign-category-products.handler';
 
 export * from './impl';
 export * from './handlers';
@@ -9,4 +32,27 @@ export const CommandHandlers = [
   CreateProductHandler,
   UpdateProductHandler,
   DeleteProductHandler,
+  RestoreProductHandler,
+  BulkCreateProductsHandler,
+  BulkUpdateProductsHandler,
+  BulkDeleteProductsHandler,
+  AdjustStockHandler,
+  SetStockHandler,
+  ReserveProductsHandler,
+  ConfirmReservationHandler,
+  ReleaseReservationHandler,
+  ReleaseExpiredReservationsHandler,
+  SchedulePriceChangeHandler,
+  ApplyScheduledPricesHandler,
+  SetProductOptionsHandler,
+  SetProductTranslationHandler,
+  RemoveProductTranslationHandler,
+  AddProductMediaHandler,
+  ReorderProductMediaHandler,
+  RemoveProductMediaHandler,
+  CreateProductVariantHandler,
+  UpdateProductVariantHandler,
+  DeleteProductVariantHandler,
+  RebuildSearchIndexHandler,
+  ReassignCategoryProductsHandler,
 ];
\ No newline at end of file
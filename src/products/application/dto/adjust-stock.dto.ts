@@ -0,0 +1,46 @@
+/**
+ * @file Data Transfer Object for adjusting a product's stock by a signed delta.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsString, IsUUID, MaxLength, NotEquals } from 'class-validator';
+
+/**
+ * @class AdjustStockDto
+ * @description Defines the shape of data for an inventory adjustment.
+ */
+export class AdjustStockDto {
+  /**
+   * @property {string} id - The ID of the product to adjust.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {number} delta - Units to add (positive) or remove (negative). Cannot be zero.
+   * @decorator IsInt
+   * @decorator NotEquals
+   * @decorator Type
+   */
+  @IsInt()
+  @NotEquals(0)
+  @Type(() => Number)
+  delta: number;
+
+  /**
+   * @property {string} reason - Why the stock changed (e.g. 'restock', 'damaged').
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  reason: string;
+}
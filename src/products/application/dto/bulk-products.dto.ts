@@ -0,0 +1,130 @@
+/**
+ * @file Data Transfer Objects for bulk product commands.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsIn, IsObject, IsOptional } from 'class-validator';
+import { envs } from '../../../config';
+import { Product } from '../../domain/model/product.entity';
+
+/**
+ * @const {string[]} BULK_MODES
+ * @description `transactional`: every item is applied or none is. `best_effort`: valid items are applied
+ * and invalid ones reported.
+ */
+export const BULK_MODES = ['transactional', 'best_effort'] as const;
+
+/**
+ * @type BulkMode
+ * @description How a bulk command treats failing items.
+ */
+export type BulkMode = (typeof BULK_MODES)[number];
+
+/**
+ * @class BulkProductsDto
+ * @description Common shape of bulk payloads. Items are validated one by one by the handler, so a bad item
+ * is reported at its index instead of rejecting the whole request.
+ */
+export class BulkProductsDto {
+  /**
+   * @property {BulkMode} [mode='transactional'] - How failing items are treated.
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(BULK_MODES)
+  mode?: BulkMode = 'transactional';
+
+  /**
+   * @property {object[]} items - The items, at most BULK_MAX_BATCH_SIZE.
+   * @decorator IsArray
+   * @decorator ArrayNotEmpty
+   * @decorator ArrayMaxSize
+   * @decorator IsObject
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(envs.bulkMaxBatchSize)
+  @IsObject({ each: true })
+  items: Record<string, unknown>[];
+}
+
+/**
+ * @class BulkCreateProductsDto
+ * @extends BulkProductsDto
+ * @description Items have the shape of CreateProductDto.
+ */
+export class BulkCreateProductsDto extends BulkProductsDto {}
+
+/**
+ * @class BulkUpdateProductsDto
+ * @extends BulkProductsDto
+ * @description Items have the shape of UpdateProductDto, including the optional `expectedVersion`.
+ */
+export class BulkUpdateProductsDto extends BulkProductsDto {}
+
+/**
+ * @class BulkDeleteProductsDto
+ * @extends BulkProductsDto
+ * @description Items have the shape of DeleteProductDto.
+ */
+export class BulkDeleteProductsDto extends BulkProductsDto {}
+
+/**
+ * @class BulkItemResultDto
+ * @description Outcome of one item.
+ */
+export class BulkItemResultDto {
+  /**
+   * @property {number} index - Position of the item in the request.
+   */
+  index: number;
+
+  /**
+   * @property {boolean} success - Whether the item was applied.
+   */
+  success: boolean;
+
+  /**
+   * @property {string} [id] - ID of the product, generated for creates.
+   */
+  id?: string;
+
+  /**
+   * @property {Product} [product] - The product after the change.
+   */
+  product?: Product;
+
+  /**
+   * @property {string[]} [errors] - Why the item was not applied.
+   */
+  errors?: string[];
+}
+
+/**
+ * @class BulkOperationResultDto
+ * @description Per-item outcome of a bulk command.
+ */
+export class BulkOperationResultDto {
+  /**
+   * @property {BulkMode} mode - The mode the batch ran in.
+   */
+  mode: BulkMode;
+
+  /**
+   * @property {number} succeeded - Number of items applied.
+   */
+  succeeded: number;
+
+  /**
+   * @property {number} failed - Number of items not applied.
+   */
+  failed: number;
+
+  /**
+   * @property {BulkItemResultDto[]} items - One result per item, in request order.
+   */
+  items: BulkItemResultDto[];
+}
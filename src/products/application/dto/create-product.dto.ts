@@ -6,13 +6,29 @@
  */
 
 import { Type } from 'class-transformer';
-import { IsNumber, IsString, Min } from 'class-validator';
+import {
+  ArrayMaxSize, ArrayUnique, IsArray, IsISO4217CurrencyCode, IsNumber, IsObject, IsOptional, IsString, IsUUID, Matches, MaxLength, Min,
+} from 'class-validator';
+import { ProductAttributes } from '../../domain/model/product.entity';
 
 /**
  * @class CreateProductDto
  * @description Defines the shape of data for creating a new product.
  */
 export class CreateProductDto {
+  /**
+   * @property {string} [sku] - Merchant stock keeping unit, unique across products. Letters, digits, '.', '_' and '-'.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator MaxLength
+   * @decorator Matches
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  @Matches(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, { message: 'sku may only contain letters, digits, ".", "_" and "-"' })
+  public sku?: string;
+
   /**
    * @property {string} name - Product name.
    * @decorator IsString
@@ -21,15 +37,76 @@ export class CreateProductDto {
   public name: string;
 
   /**
-   * @property {number} price - Product price. Must be a non-negative number.
+   * @property {string} [description] - Free-text description, searchable with `search_products`. On update,
+   * null clears it.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  public description?: string;
+
+  /**
+   * @property {string[]} [tags] - Search tags, stored lowercased. On update, replaces the current tags.
+   * @decorator IsOptional
+   * @decorator IsArray
+   * @decorator ArrayMaxSize
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(32)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  public tags?: string[];
+
+  /**
+   * @property {number} price - Product price in major units (e.g. 19.99). Must be non-negative and
+   * have no more decimal places than the currency allows.
    * @decorator IsNumber
    * @decorator Min
    * @decorator Type
    */
   @IsNumber({
-    maxDecimalPlaces: 4, // Keep original constraint
+    maxDecimalPlaces: 3, // Widest ISO 4217 minor unit; Money enforces the exact one per currency
   })
   @Min(0)
   @Type(() => Number)
   public price: number;
-}
\ No newline at end of file
+
+  /**
+   * @property {string} [currency] - ISO 4217 currency code (defaults to DEFAULT_CURRENCY).
+   * @decorator IsOptional
+   * @decorator IsISO4217CurrencyCode
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  public currency?: string;
+
+  /**
+   * @property {string[]} [categoryIds] - Categories the product is assigned to. On update, replaces the
+   * current assignments.
+   * @decorator IsOptional
+   * @decorator IsArray
+   * @decorator ArrayUnique
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  public categoryIds?: string[];
+
+  /**
+   * @property {ProductAttributes} [attributes] - Custom attributes, checked against the attribute schemas of the
+   * product's categories and their ancestors. On update, replaces the current attributes.
+   * @decorator IsOptional
+   * @decorator IsObject
+   */
+  @IsOptional()
+  @IsObject()
+  public attributes?: ProductAttributes;
+}
@@ -0,0 +1,57 @@
+/**
+ * @file Data Transfer Object for cursor-based (keyset) pagination parameters.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsBoolean, IsNotEmpty, IsOptional, IsPositive, IsString, Max } from 'class-validator';
+
+/**
+ * @class CursorPaginationDto
+ * @description Defines keyset pagination parameters. Omit the cursor to start from the beginning.
+ */
+export class CursorPaginationDto {
+  /**
+   * @property {string} [cursor] - Opaque cursor returned as `nextCursor` by the previous page.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cursor?: string;
+
+  /**
+   * @property {number} limit - The number of items per page (defaults to 10, max 100).
+   * @decorator IsOptional
+   * @decorator IsPositive
+   * @decorator Max
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsPositive()
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 10;
+
+  /**
+   * @property {boolean} [includeUnavailable] - Also return soft-deleted products.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  includeUnavailable?: boolean;
+
+  /**
+   * @property {boolean} [onlyUnavailable] - Only return soft-deleted products. Takes precedence over includeUnavailable.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  onlyUnavailable?: boolean;
+}
@@ -0,0 +1,38 @@
+/**
+ * @file Data Transfer Object for soft deleting a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, IsUUID, Min } from 'class-validator';
+
+/**
+ * @class DeleteProductDto
+ * @description Defines the product to delete and, optionally, the version the caller last read.
+ */
+export class DeleteProductDto {
+  /**
+   * @property {string} id - The ID of the product to delete.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {number} [expectedVersion] - Reject with 409 if the product's version differs.
+   * Without it, the delete is unconditional.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  expectedVersion?: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * @file Data Transfer Object for looking up a single product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsOptional, IsString, IsUUID, Matches } from 'class-validator';
+import { LOCALE_PATTERN } from '../../domain/model/product-translation.value-object';
+
+/**
+ * @class FindOneProductDto
+ * @description Defines the product to find and, optionally, the locale to read it in.
+ */
+export class FindOneProductDto {
+  /**
+   * @property {string} id - The ID of the product to find.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {string} [locale] - Resolve the name and description in this locale, e.g. "pt-BR", falling
+   * back to "pt" and then to the default locale.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator Matches
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(LOCALE_PATTERN, { message: 'locale must be a language tag such as "es" or "pt-BR"' })
+  locale?: string;
+}
@@ -0,0 +1,61 @@
+/**
+ * @file Data Transfer Objects for querying a product's price history.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional, IsString, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { ProductPrice } from '../../domain/model/product-price.entity';
+
+/**
+ * @class FindPriceHistoryDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus the product and an optional point in time.
+ */
+export class FindPriceHistoryDto extends PaginationDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {Date} [at] - Only return entries effective on or before this moment; the first entry is the price at `at`.
+   * @decorator IsOptional
+   * @decorator IsDate
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  at?: Date;
+}
+
+/**
+ * @class FindPriceHistoryResponseDto
+ * @description Structure of the paginated price history response.
+ */
+export class FindPriceHistoryResponseDto {
+  /**
+   * @property {ProductPrice[]} data - Price entries for the current page, latest effectiveFrom first.
+   */
+  data: ProductPrice[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of matching entries.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
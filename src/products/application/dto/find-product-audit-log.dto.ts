@@ -0,0 +1,71 @@
+/**
+ * @file Data Transfer Objects for reading the product audit log.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsIn, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import {
+  PRODUCT_AUDIT_ACTIONS, ProductAuditAction, ProductAuditEntry,
+} from '../../domain/model/product-audit-entry.entity';
+
+/**
+ * @class FindProductAuditLogDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus optional filters; given filters must all match.
+ */
+export class FindProductAuditLogDto extends PaginationDto {
+  /**
+   * @property {string} [id] - Only entries for this product.
+   * @decorator IsOptional
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  /**
+   * @property {string} [actor] - Only entries made by this actor (exact match on the `Actor-Id` header).
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  actor?: string;
+
+  /**
+   * @property {ProductAuditAction} [action] - Only entries for this action.
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(PRODUCT_AUDIT_ACTIONS)
+  action?: ProductAuditAction;
+}
+
+/**
+ * @class FindProductAuditLogResponseDto
+ * @description Structure of the paginated audit log response.
+ */
+export class FindProductAuditLogResponseDto {
+  /**
+   * @property {ProductAuditEntry[]} data - Entries for the current page, newest first.
+   */
+  data: ProductAuditEntry[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of matching entries.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * @file Data Transfer Object for looking up a product by SKU.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * @class FindProductBySkuDto
+ * @description Defines the SKU to look up.
+ */
+export class FindProductBySkuDto {
+  /**
+   * @property {string} sku - The SKU of the product to find.
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  sku: string;
+}
@@ -0,0 +1,29 @@
+/**
+ * @file Data Transfer Object for the cursor-paginated find products response.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ListedProduct } from './listed-product.dto';
+
+/**
+ * @class FindProductsByCursorResponseDto
+ * @description Structure of the keyset-paginated response for finding products.
+ */
+export class FindProductsByCursorResponseDto {
+  /**
+   * @property {ListedProduct[]} data - Products for the current page with their promotional prices and primary image.
+   */
+  data: ListedProduct[];
+
+  /**
+   * @property {object} meta - Cursor pagination metadata.
+   * @property {string | null} meta.nextCursor - Cursor for the next page, or null when there are no more items.
+   * @property {boolean} meta.hasMore - Whether more items exist after this page.
+   */
+  meta: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
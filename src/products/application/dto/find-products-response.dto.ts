@@ -5,7 +5,7 @@
  * @date 2025-05-01
  */
 
-import { Product } from '../../domain/model/product.entity';
+import { ListedProduct } from './listed-product.dto';
 
 /**
  * @class FindProductsResponseDto
@@ -13,9 +13,10 @@ import { Product } from '../../domain/model/product.entity';
  */
 export class FindProductsResponseDto {
   /**
-   * @property {Product[]} data - Array of product entities for the current page.
+   * @property {ListedProduct[]} data - Products for the current page with their promotional prices and primary
+   * image and, when requested, their localized name and description and their missing locales.
    */
-  data: Product[];
+  data: ListedProduct[];
 
   /**
    * @property {object} meta - Pagination metadata.
@@ -0,0 +1,49 @@
+/**
+ * @file Data Transfer Objects for querying a product's stock movement ledger.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsString, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { StockMovement } from '../../domain/model/stock-movement.entity';
+
+/**
+ * @class FindStockMovementsDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus the product whose ledger to read.
+ */
+export class FindStockMovementsDto extends PaginationDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+}
+
+/**
+ * @class FindStockMovementsResponseDto
+ * @description Structure of the paginated stock movement response.
+ */
+export class FindStockMovementsResponseDto {
+  /**
+   * @property {StockMovement[]} data - Stock movements for the current page, newest first.
+   */
+  data: StockMovement[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of movements for the product.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
@@ -1,3 +1,28 @@
 export * from './create-product.dto';
 export * from './update-product.dto';
-export * from './find-products-response.dto';
\ No newline at end of file
+export * from './delete-product.dto';
+export * from './find-one-product.dto';
+export * from './find-product-by-sku.dto';
+export * from './bulk-products.dto';
+export * from './find-products-response.dto';
+export * from './product-search.dto';
+export * from './cursor-pagination.dto';
+export * from './find-products-by-cursor-response.dto';
+export * from './adjust-stock.dto';
+export * from './set-stock.dto';
+export * from './find-stock-movements.dto';
+export * from './reserve-products.dto';
+export * from './schedule-price-change.dto';
+export * from './find-price-history.dto';
+export * from './find-product-audit-log.dto';
+export * from './priced-product.dto';
+export * from './localized-product.dto';
+export * from './listed-product.dto';
+export * from './quote-products.dto';
+export * from './validate-products.dto';
+export * from './product-options.dto';
+export * from './product-translation.dto';
+export * from './product-media.dto';
+export * from './product-variant.dto';
+export * from './product-variant-view.dto';
+export * from './search-products.dto';
@@ -0,0 +1,18 @@
+/**
+ * @file Response shape of a product in a listing.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductMedia } from '../../domain/model/product-media.entity';
+import { PricedProduct } from './priced-product.dto';
+
+/**
+ * @type ListedProduct
+ * @description A priced product plus its primary image (`primaryImage`, null when it has no images), so
+ * listings can show a thumbnail without looking through `media`.
+ */
+export type ListedProduct = PricedProduct & {
+  primaryImage: ProductMedia | null;
+};
@@ -0,0 +1,25 @@
+/**
+ * @file Response shapes of products resolved for a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product } from '../../domain/model/product.entity';
+
+/**
+ * @type LocalizedProduct
+ * @description A product whose `name` and `description` were resolved for a requested locale, plus the
+ * locale the name was found in (`locale`), which is the default one when nothing was translated.
+ */
+export type LocalizedProduct<T extends Product = Product> = T & {
+  locale: string;
+};
+
+/**
+ * @type ProductWithMissingLocales
+ * @description A product plus the supported locales it lacks a complete translation for.
+ */
+export type ProductWithMissingLocales<T extends Product = Product> = T & {
+  missingLocales: string[];
+};
@@ -0,0 +1,29 @@
+/**
+ * @file Response shape of a product carrying its promotional price.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product } from '../../domain/model/product.entity';
+import { Money } from '../../domain/model/money.value-object';
+
+/**
+ * @interface AppliedPromotionDto
+ * @description Summary of the promotion that produced an effective price.
+ */
+export interface AppliedPromotionDto {
+  id: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * @type PricedProduct
+ * @description A product whose `price` is the list price, plus the price of a single unit after the best
+ * live promotion (`effectivePrice`) and that promotion (`appliedPromotion`, null when none applies).
+ */
+export type PricedProduct = Product & {
+  effectivePrice: Money;
+  appliedPromotion: AppliedPromotionDto | null;
+};
@@ -0,0 +1,180 @@
+/**
+ * @file Data Transfer Objects for managing the images and videos of a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique, IsArray, IsBoolean, IsIn, IsInt, IsNotEmpty, IsOptional, IsString, IsUrl, IsUUID, MaxLength, Min,
+} from 'class-validator';
+import { PRODUCT_MEDIA_TYPES, ProductMediaType } from '../../domain/model/product-media.entity';
+
+/**
+ * @class ProductMediaCommandDto
+ * @description Fields shared by the media commands: the product and, optionally, the version the caller
+ * last read.
+ */
+class ProductMediaCommandDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {number} [expectedVersion] - Reject with 409 if the product's version differs.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  expectedVersion?: number;
+}
+
+/**
+ * @class AddProductMediaDto
+ * @extends ProductMediaCommandDto
+ * @description Metadata of an image or video stored elsewhere. Exactly one of `url` and `storageKey` is
+ * required, and `width` and `height` go together.
+ */
+export class AddProductMediaDto extends ProductMediaCommandDto {
+  /**
+   * @property {ProductMediaType} type - `IMAGE` or `VIDEO`.
+   * @decorator IsIn
+   */
+  @IsIn(PRODUCT_MEDIA_TYPES)
+  type: ProductMediaType;
+
+  /**
+   * @property {string} [url] - Public http(s) URL of the file.
+   * @decorator IsOptional
+   * @decorator IsUrl
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  @MaxLength(2048)
+  url?: string;
+
+  /**
+   * @property {string} [storageKey] - Key of the file in the external storage, e.g. "products/42/front.jpg".
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  storageKey?: string;
+
+  /**
+   * @property {string} [altText] - Text describing the media for accessibility.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  altText?: string;
+
+  /**
+   * @property {number} [width] - Width in pixels.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  width?: number;
+
+  /**
+   * @property {number} [height] - Height in pixels.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  height?: number;
+
+  /**
+   * @property {boolean} [primary] - Make this image the primary one. The first image is primary anyway.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  primary?: boolean;
+
+  /**
+   * @property {number} [position] - Zero-based index to insert at; appended when omitted.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  position?: number;
+}
+
+/**
+ * @class ReorderProductMediaDto
+ * @extends ProductMediaCommandDto
+ * @description The new display order of all of a product's media.
+ */
+export class ReorderProductMediaDto extends ProductMediaCommandDto {
+  /**
+   * @property {string[]} mediaIds - Every media ID of the product, in the new order.
+   * @decorator IsArray
+   * @decorator ArrayUnique
+   * @decorator IsUUID
+   */
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  mediaIds: string[];
+
+  /**
+   * @property {string} [primaryMediaId] - An image to make primary.
+   * @decorator IsOptional
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsUUID()
+  primaryMediaId?: string;
+}
+
+/**
+ * @class RemoveProductMediaDto
+ * @extends ProductMediaCommandDto
+ * @description Names the media to remove.
+ */
+export class RemoveProductMediaDto extends ProductMediaCommandDto {
+  /**
+   * @property {string} mediaId - The ID of the media.
+   * @decorator IsUUID
+   */
+  @IsUUID()
+  mediaId: string;
+}
@@ -0,0 +1,69 @@
+/**
+ * @file Data Transfer Objects for defining the options a product's variants differ by.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty, ArrayUnique, IsArray, IsNotEmpty, IsString, IsUUID, MaxLength, ValidateNested,
+} from 'class-validator';
+
+/**
+ * @class ProductOptionDto
+ * @description An option name and its allowed values, in display order.
+ */
+export class ProductOptionDto {
+  /**
+   * @property {string} name - Option name, e.g. "size".
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  /**
+   * @property {string[]} values - Allowed values, e.g. ["S", "M", "L"].
+   * @decorator IsArray
+   * @decorator ArrayNotEmpty
+   * @decorator ArrayUnique
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  values: string[];
+}
+
+/**
+ * @class SetProductOptionsDto
+ * @description Replaces every option definition of a product.
+ */
+export class SetProductOptionsDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {ProductOptionDto[]} options - The product's options, in display order. Empty removes them all.
+   * @decorator IsArray
+   * @decorator ValidateNested
+   * @decorator Type
+   */
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProductOptionDto)
+  options: ProductOptionDto[];
+}
@@ -0,0 +1,146 @@
+/**
+ * @file Data Transfer Object for filtering, searching and sorting product listings.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  IsBoolean, IsIn, IsISO4217CurrencyCode, IsNumber, IsObject, IsOptional, IsString, IsUUID, Matches, Min,
+} from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import {
+  AttributeFilterValue, PRODUCT_SORT_FIELDS, ProductSortField, SORT_ORDERS, SortOrder,
+} from '../../domain/ports/product.repository.port';
+import { LOCALE_PATTERN } from '../../domain/model/product-translation.value-object';
+
+/**
+ * @class ProductSearchDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus optional filters and sorting for product listings.
+ */
+export class ProductSearchDto extends PaginationDto {
+  /**
+   * @property {string} [name] - Case-insensitive substring to match against the product name.
+   * @decorator IsOptional
+   * @decorator IsString
+   */
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  /**
+   * @property {string} [categoryId] - Only return products in this category or any of its subcategories.
+   * @decorator IsOptional
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  /**
+   * @property {Record<string, AttributeFilterValue>} [attributes] - Only return products whose attributes have
+   * all these values, e.g. `{ brand: 'Acme' }`. Keys may contain letters, digits, '_' and '-'; values are
+   * strings, numbers or booleans and must match the attribute's type.
+   * @decorator IsOptional
+   * @decorator IsObject
+   */
+  @IsOptional()
+  @IsObject()
+  attributes?: Record<string, AttributeFilterValue>;
+
+  /**
+   * @property {string} [currency] - Only return products priced in this ISO 4217 currency.
+   * Price bounds are interpreted in this currency (defaults to DEFAULT_CURRENCY).
+   * @decorator IsOptional
+   * @decorator IsISO4217CurrencyCode
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  /**
+   * @property {number} [minPrice] - Inclusive lower bound for the product price, in major units.
+   * @decorator IsOptional
+   * @decorator IsNumber
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  minPrice?: number;
+
+  /**
+   * @property {number} [maxPrice] - Inclusive upper bound for the product price, in major units.
+   * @decorator IsOptional
+   * @decorator IsNumber
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  maxPrice?: number;
+
+  /**
+   * @property {ProductSortField} [sortBy] - Field to sort the results by.
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(PRODUCT_SORT_FIELDS)
+  sortBy?: ProductSortField;
+
+  /**
+   * @property {SortOrder} [sortOrder] - Sort direction (defaults to 'asc').
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(SORT_ORDERS)
+  sortOrder?: SortOrder = 'asc';
+
+  /**
+   * @property {boolean} [includeUnavailable] - Also return soft-deleted products.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  includeUnavailable?: boolean;
+
+  /**
+   * @property {boolean} [onlyUnavailable] - Only return soft-deleted products. Takes precedence over includeUnavailable.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  onlyUnavailable?: boolean;
+
+  /**
+   * @property {string} [locale] - Resolve names and descriptions in this locale, e.g. "pt-BR", falling back to
+   * "pt" and then to the default locale. The name filter and sort still use the default-locale name.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator Matches
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(LOCALE_PATTERN, { message: 'locale must be a language tag such as "es" or "pt-BR"' })
+  locale?: string;
+
+  /**
+   * @property {boolean} [includeMissingLocales] - Add `missingLocales`, the supported locales each product
+   * lacks a complete translation for.
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  includeMissingLocales?: boolean;
+}
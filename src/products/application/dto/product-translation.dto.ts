@@ -0,0 +1,75 @@
+/**
+ * @file Data Transfer Objects for translating a product's name and description.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, IsUUID, Matches, MaxLength, Min } from 'class-validator';
+import { LOCALE_PATTERN } from '../../domain/model/product-translation.value-object';
+
+/**
+ * @class RemoveProductTranslationDto
+ * @description Names the translation to remove and, optionally, the version the caller last read.
+ */
+export class RemoveProductTranslationDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {string} locale - Language tag, e.g. "es" or "pt-BR".
+   * @decorator IsString
+   * @decorator Matches
+   */
+  @IsString()
+  @Matches(LOCALE_PATTERN, { message: 'locale must be a language tag such as "es" or "pt-BR"' })
+  locale: string;
+
+  /**
+   * @property {number} [expectedVersion] - Reject with 409 if the product's version differs.
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  expectedVersion?: number;
+}
+
+/**
+ * @class SetProductTranslationDto
+ * @extends RemoveProductTranslationDto
+ * @description Replaces the translation of a product in one locale. A field left out falls back to the
+ * next locale of the chain; at least one must be given.
+ */
+export class SetProductTranslationDto extends RemoveProductTranslationDto {
+  /**
+   * @property {string} [name] - Translated name.
+   * @decorator IsOptional
+   * @decorator IsString
+   */
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  /**
+   * @property {string} [description] - Translated description.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+}
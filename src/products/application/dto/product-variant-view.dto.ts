@@ -0,0 +1,48 @@
+/**
+ * @file Response shapes of the variant queries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from '../../domain/model/money.value-object';
+import { ProductOption } from '../../domain/model/product-option.value-object';
+import { VariantOptions } from '../../domain/model/product-variant.entity';
+
+/**
+ * @interface ProductVariantView
+ * @description A variant as a buyer sees it. `name` is the product name followed by the option values,
+ * `price` the override or else the product price, and `available` is false when either the variant or its
+ * product is unavailable.
+ */
+export interface ProductVariantView {
+  id: string;
+  productId: string;
+  sku: string;
+  name: string;
+  options: VariantOptions;
+  price: Money;
+  priceOverride: Money | null;
+  available: boolean;
+}
+
+/**
+ * @class ProductVariantsResponseDto
+ * @description The option definitions and variants of one product.
+ */
+export class ProductVariantsResponseDto {
+  /**
+   * @property {string} productId - The product.
+   */
+  productId: string;
+
+  /**
+   * @property {ProductOption[]} options - Its options, in display order.
+   */
+  options: ProductOption[];
+
+  /**
+   * @property {ProductVariantView[]} variants - Its variants, oldest first.
+   */
+  variants: ProductVariantView[];
+}
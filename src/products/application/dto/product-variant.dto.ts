@@ -0,0 +1,91 @@
+/**
+ * @file Data Transfer Objects for creating and updating product variants.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean, IsNumber, IsObject, IsOptional, IsString, IsUUID, Matches, MaxLength, Min,
+} from 'class-validator';
+import { VariantOptions } from '../../domain/model/product-variant.entity';
+
+/**
+ * @class CreateProductVariantDto
+ * @description Defines the shape of data for a new variant of a product.
+ */
+export class CreateProductVariantDto {
+  /**
+   * @property {string} productId - The parent product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  productId: string;
+
+  /**
+   * @property {string} sku - Stock keeping unit, unique across products and variants. Same characters as a product SKU.
+   * @decorator IsString
+   * @decorator MaxLength
+   * @decorator Matches
+   */
+  @IsString()
+  @MaxLength(64)
+  @Matches(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, { message: 'sku may only contain letters, digits, ".", "_" and "-"' })
+  sku: string;
+
+  /**
+   * @property {VariantOptions} options - One value for every option of the product, e.g. { size: "M", color: "red" }.
+   * @decorator IsObject
+   */
+  @IsObject()
+  options: VariantOptions;
+
+  /**
+   * @property {number} [price] - Price of this variant in major units of the product's currency.
+   * Without it the variant sells at the product price.
+   * @decorator IsOptional
+   * @decorator IsNumber
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0)
+  @Type(() => Number)
+  price?: number;
+
+  /**
+   * @property {boolean} [available] - Whether the variant can be sold (defaults to true).
+   * @decorator IsOptional
+   * @decorator IsBoolean
+   */
+  @IsOptional()
+  @IsBoolean()
+  available?: boolean;
+}
+
+/**
+ * @class UpdateProductVariantDto
+ * @extends PartialType(OmitType(CreateProductVariantDto, ['productId']))
+ * @description Defines the shape for variant update payloads. A `price` of null removes the override.
+ */
+export class UpdateProductVariantDto extends PartialType(OmitType(CreateProductVariantDto, ['productId'] as const)) {
+  /**
+   * @property {string} id - The ID of the variant to update.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+}
+
+/**
+ * @type UpdateProductVariantData
+ * @description Represents the data part of the update, excluding the ID.
+ */
+export type UpdateProductVariantData = Omit<UpdateProductVariantDto, 'id'>;
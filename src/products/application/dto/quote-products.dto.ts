@@ -0,0 +1,65 @@
+/**
+ * @file Data Transfer Objects for requesting a price quote.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty, IsArray, IsInt, IsISO4217CurrencyCode, IsNotEmpty, IsOptional, IsPositive, IsString, ValidateNested,
+} from 'class-validator';
+
+/**
+ * @class QuoteLineItemDto
+ * @description One line of a quote request.
+ */
+export class QuoteLineItemDto {
+  /**
+   * @property {string} productId - The product to price. Unknown IDs come back as line errors.
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   */
+  @IsString()
+  @IsNotEmpty()
+  productId: string;
+
+  /**
+   * @property {number} quantity - Units to price.
+   * @decorator IsInt
+   * @decorator IsPositive
+   * @decorator Type
+   */
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  quantity: number;
+}
+
+/**
+ * @class QuoteProductsDto
+ * @description Line items to price, and optionally the currency the quote must be in.
+ */
+export class QuoteProductsDto {
+  /**
+   * @property {QuoteLineItemDto[]} items - Lines to price, in order.
+   * @decorator IsArray
+   * @decorator ArrayNotEmpty
+   * @decorator ValidateNested
+   * @decorator Type
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => QuoteLineItemDto)
+  items: QuoteLineItemDto[];
+
+  /**
+   * @property {string} [currency] - ISO 4217 currency of the quote (defaults to the first priceable line's).
+   * @decorator IsOptional
+   * @decorator IsISO4217CurrencyCode
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
@@ -0,0 +1,82 @@
+/**
+ * @file Data Transfer Objects for reserving product stock for an order.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty, IsArray, IsInt, IsNotEmpty, IsOptional, IsPositive, IsString, IsUUID, Max, MaxLength, ValidateNested,
+} from 'class-validator';
+
+/**
+ * @class ReservationItemDto
+ * @description A product and the number of units to hold.
+ */
+export class ReservationItemDto {
+  /**
+   * @property {string} productId - The ID of the product to hold.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  productId: string;
+
+  /**
+   * @property {number} quantity - Units to hold. Must be a positive integer.
+   * @decorator IsInt
+   * @decorator IsPositive
+   * @decorator Type
+   */
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  quantity: number;
+}
+
+/**
+ * @class ReserveProductsDto
+ * @description Defines the shape of data for holding stock during order checkout.
+ */
+export class ReserveProductsDto {
+  /**
+   * @property {string} orderReference - Reference of the order the stock is held for.
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  orderReference: string;
+
+  /**
+   * @property {ReservationItemDto[]} items - Products and quantities to hold.
+   * @decorator IsArray
+   * @decorator ArrayNotEmpty
+   * @decorator ValidateNested
+   * @decorator Type
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReservationItemDto)
+  items: ReservationItemDto[];
+
+  /**
+   * @property {number} [ttlSeconds] - Hold duration; defaults to RESERVATION_TTL_SECONDS (max one day).
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator IsPositive
+   * @decorator Max
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Max(86400)
+  @Type(() => Number)
+  ttlSeconds?: number;
+}
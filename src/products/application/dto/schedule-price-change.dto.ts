@@ -0,0 +1,53 @@
+/**
+ * @file Data Transfer Object for scheduling a future price change.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsDate, IsISO4217CurrencyCode, IsNumber, IsOptional, IsString, IsUUID, Min } from 'class-validator';
+
+/**
+ * @class SchedulePriceChangeDto
+ * @description Defines the shape of data for a future-dated price.
+ */
+export class SchedulePriceChangeDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {number} price - The new price in major units (e.g. 19.99).
+   * @decorator IsNumber
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0)
+  @Type(() => Number)
+  price: number;
+
+  /**
+   * @property {string} [currency] - ISO 4217 currency code (defaults to the product's current currency).
+   * @decorator IsOptional
+   * @decorator IsISO4217CurrencyCode
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  /**
+   * @property {Date} effectiveFrom - When the price takes effect. Must be in the future.
+   * @decorator IsDate
+   * @decorator Type
+   */
+  @IsDate()
+  @Type(() => Date)
+  effectiveFrom: Date;
+}
@@ -0,0 +1,64 @@
+/**
+ * @file Data Transfer Objects for full-text product search.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsString, MaxLength } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { ListedProduct } from './listed-product.dto';
+
+/**
+ * @class SearchProductsDto
+ * @extends PaginationDto
+ * @description A full-text query plus pagination parameters.
+ */
+export class SearchProductsDto extends PaginationDto {
+  /**
+   * @property {string} query - Words to look for in the name, description and tags of available products.
+   * All words must match; the last one also matches as a prefix.
+   * @decorator IsString
+   * @decorator MaxLength
+   */
+  @IsString()
+  @MaxLength(200)
+  query: string;
+}
+
+/**
+ * @type ProductSearchHit
+ * @description A matching product with its promotional price and primary image, its relevance (`score`, higher first) and
+ * the matched terms wrapped in `<mark>` tags in its name, a snippet of its description and its tags.
+ */
+export type ProductSearchHit = ListedProduct & {
+  score: number;
+  highlights: {
+    name: string;
+    description: string | null;
+    tags: string;
+  };
+};
+
+/**
+ * @class SearchProductsResponseDto
+ * @description Structure of the paginated response of a full-text search, most relevant first.
+ */
+export class SearchProductsResponseDto {
+  /**
+   * @property {ProductSearchHit[]} data - Matches for the current page.
+   */
+  data: ProductSearchHit[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of matching products.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * @file Data Transfer Object for setting a product's stock to an absolute quantity.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength, Min } from 'class-validator';
+
+/**
+ * @class SetStockDto
+ * @description Defines the shape of data for setting a stock level (e.g. after a stocktake).
+ */
+export class SetStockDto {
+  /**
+   * @property {string} id - The ID of the product.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+
+  /**
+   * @property {number} quantity - The new stock level. Must be a non-negative integer.
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  quantity: number;
+
+  /**
+   * @property {string} reason - Why the stock level was set (defaults to 'stock level set').
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator IsNotEmpty
+   * @decorator MaxLength
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  reason?: string = 'stock level set';
+}
@@ -8,7 +8,8 @@
 
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateProductDto } from './create-product.dto';
-import { IsString, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, IsUUID, Min } from 'class-validator';
 
 /**
  * @class UpdateProductDto
@@ -25,10 +26,24 @@ export class UpdateProductDto extends PartialType(CreateProductDto) {
   @IsString()
   @IsUUID()
   id: string;
+
+  /**
+   * @property {number} [expectedVersion] - Reject with 409 if the product's version differs.
+   * Without it, the update is unconditional (last write wins).
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  expectedVersion?: number;
 }
 
 /**
  * @type UpdateProductData
- * @description Represents the data part of the update, excluding the ID.
+ * @description Represents the data part of the update, excluding the ID and the expected version.
  */
-export type UpdateProductData = Omit<UpdateProductDto, 'id'>;
\ No newline at end of file
+export type UpdateProductData = Omit<UpdateProductDto, 'id' | 'expectedVersion'>;
\ No newline at end of file
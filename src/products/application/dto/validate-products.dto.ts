@@ -0,0 +1,98 @@
+/**
+ * @file Data Transfer Objects for validating a list of products.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IsArray, IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { Money } from '../../domain/model/money.value-object';
+import { LOCALE_PATTERN } from '../../domain/model/product-translation.value-object';
+
+/**
+ * @const {string[]} VALIDATION_MODES
+ * @description `strict` fails the whole request when any product is missing; `report` never fails on
+ * missing products and describes every ID instead.
+ */
+export const VALIDATION_MODES = ['strict', 'report'] as const;
+
+/**
+ * @type ValidationMode
+ * @description How validate_products reacts to missing products.
+ */
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+/**
+ * @class ValidateProductsDto
+ * @description Object form of the validate_products payload. A bare `string[]` is read as `{ ids }`.
+ */
+export class ValidateProductsDto {
+  /**
+   * @property {string[]} ids - Product or variant IDs to validate.
+   * @decorator IsArray
+   * @decorator IsString
+   */
+  @IsArray()
+  @IsString({ each: true })
+  ids: string[];
+
+  /**
+   * @property {ValidationMode} [mode] - `strict` (default) or `report`.
+   * @decorator IsOptional
+   * @decorator IsIn
+   */
+  @IsOptional()
+  @IsIn(VALIDATION_MODES)
+  mode?: ValidationMode = 'strict';
+
+  /**
+   * @property {string} [locale] - Resolve product and variant names in this locale, with fallback.
+   * @decorator IsOptional
+   * @decorator IsString
+   * @decorator Matches
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(LOCALE_PATTERN, { message: 'locale must be a language tag such as "es" or "pt-BR"' })
+  locale?: string;
+}
+
+/**
+ * @type ProductValidationStatus
+ * @description FOUND (available), UNAVAILABLE (soft-deleted) or UNKNOWN (never existed).
+ */
+export type ProductValidationStatus = 'FOUND' | 'UNAVAILABLE' | 'UNKNOWN';
+
+/**
+ * @interface ProductValidationItemDto
+ * @description Outcome for one requested ID. `name` and `price` are only set for FOUND products;
+ * `productId` is set when the ID names a variant.
+ */
+export interface ProductValidationItemDto {
+  id: string;
+  status: ProductValidationStatus;
+  name?: string;
+  price?: Money;
+  productId?: string;
+}
+
+/**
+ * @class ProductValidationReportDto
+ * @description Result of validate_products in report mode, one item per unique requested ID in request order.
+ */
+export class ProductValidationReportDto {
+  /**
+   * @property {boolean} valid - True when every requested product is FOUND.
+   */
+  valid: boolean;
+
+  /**
+   * @property {ProductValidationItemDto[]} items - Outcome per requested ID.
+   */
+  items: ProductValidationItemDto[];
+
+  /**
+   * @property {Date} checkedAt - When the prices were captured.
+   */
+  checkedAt: Date;
+}
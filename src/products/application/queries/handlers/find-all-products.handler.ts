@@ -1,18 +1,34 @@
 /**
- * @file Query handler for finding all available products with pagination.
+ * @file Query handler for finding all available products with filters, sorting and pagination.
  * @author Roberto Morales
  * @version 1.0.0
  * @date 2025-05-01
  */
 
 import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
-import { Inject, Logger } from '@nestjs/common';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
-import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT, PaginatedProductResult } from '../../../domain';
+import {
+    Money, ProductDomainError, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT, PaginatedProductResult, ProductSearchCriteria,
+} from '../../../domain';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../../shared/application';
+import { envs } from '../../../../config';
 import { FindAllProductsQuery } from '../impl/find-all-products.query';
 import { FindProductsResponseDto } from '../../dto/find-products-response.dto'; // Use the specific response DTO
+import { ProductSearchDto } from '../../dto/product-search.dto';
+import { PromotionalPricingService } from '../../services/promotional-pricing.service';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+import { ProductLocalizationService } from '../../services/product-localization.service';
+import { assertMayListUnavailable, toAvailabilityFilter } from '../../utils/product-availability';
+import { withPrimaryImage } from '../../utils/product-media';
 
 
+/**
+ * @const {RegExp} ATTRIBUTE_FILTER_KEY
+ * @description Attribute names a listing can filter on.
+ */
+const ATTRIBUTE_FILTER_KEY = /^[A-Za-z0-9_-]{1,64}$/;
+
 /**
  * @class FindAllProductsHandler
  * @description Handles the execution of the FindAllProductsQuery.
@@ -24,32 +40,106 @@ export class FindAllProductsHandler implements IQueryHandler<FindAllProductsQuer
     /**
      * @constructor
      * @param {ProductRepositoryPort} productRepository - Injected product repository.
+     * @param {PromotionalPricingService} promotionalPricing - Attaches promotional prices.
+     * @param {ProductCategoriesService} productCategories - Expands the category filter to subcategories.
+     * @param {ProductLocalizationService} localization - Resolves translations and reports missing ones.
+     * @param {RequestContextProvider} requestContext - Tells whether the caller may list unavailable products.
      */
     constructor(
         @Inject(PRODUCT_REPOSITORY_PORT)
         private readonly productRepository: ProductRepositoryPort,
+        private readonly promotionalPricing: PromotionalPricingService,
+        private readonly productCategories: ProductCategoriesService,
+        private readonly localization: ProductLocalizationService,
+        @Inject(REQUEST_CONTEXT)
+        private readonly requestContext: RequestContextProvider,
     ) {}
 
     /**
      * Executes the find all products query.
      * @async
-     * @param {FindAllProductsQuery} query - The query object containing pagination data.
-     * @returns {Promise<FindProductsResponseDto>} Paginated list of available products.
-     * @throws {RpcException} If an error occurs during retrieval.
+     * @param {FindAllProductsQuery} query - The query object containing pagination, filter and sort data.
+     * @returns {Promise<FindProductsResponseDto>} Paginated list of matching products.
+     * @throws {RpcException} 403 if unavailable products are asked for without `catalog:admin`, or if the price
+     * range is invalid or an error occurs during retrieval.
      */
     async execute(query: FindAllProductsQuery): Promise<FindProductsResponseDto> {
-        const { paginationDto } = query;
-        this.logger.log(`Finding all products with pagination: page=${paginationDto.page}, limit=${paginationDto.limit}`);
+        const { searchDto } = query;
+        this.logger.log(`Finding all products with criteria: ${JSON.stringify(searchDto)}`);
+
+        assertMayListUnavailable(this.requestContext.current(), searchDto);
+        const criteria = this.toCriteria(searchDto);
+        if (criteria.minPrice && criteria.maxPrice && criteria.minPrice.compareTo(criteria.maxPrice) > 0) {
+            throw new RpcException({
+                status: HttpStatus.BAD_REQUEST,
+                message: `minPrice (${searchDto.minPrice}) cannot be greater than maxPrice (${searchDto.maxPrice})`,
+            });
+        }
 
         try {
-            const paginatedResult: PaginatedProductResult = await this.productRepository.findAllAvailablePaginated(paginationDto);
+            if (searchDto.categoryId) {
+                criteria.categoryIds = await this.productCategories.withDescendants(searchDto.categoryId);
+            }
+            const paginatedResult: PaginatedProductResult = await this.productRepository.search(criteria);
+            const products = searchDto.includeMissingLocales
+                ? this.localization.reportMissingLocales(paginatedResult.data)
+                : paginatedResult.data;
 
-            // Directly return the structure from the repository port which matches the DTO
-            return paginatedResult;
+            return {
+                data: withPrimaryImage(await this.promotionalPricing.applyTo(
+                    searchDto.locale ? this.localization.localize(products, searchDto.locale) : products,
+                )),
+                meta: paginatedResult.meta,
+            };
 
         } catch (error: any) {
              this.logger.error(`Failed to find all products: ${error.message}`, error.stack);
             throw new RpcException({ status: 500, message: 'Database error finding products.' });
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Converts the search DTO into repository criteria, turning major-unit price bounds into Money.
+     * @private
+     * @param {ProductSearchDto} searchDto - The incoming search parameters.
+     * @returns {ProductSearchCriteria} Criteria for the repository port.
+     * @throws {RpcException} If a price bound is not representable in the currency or the attribute filter is invalid.
+     */
+    private toCriteria(searchDto: ProductSearchDto): ProductSearchCriteria {
+        const {
+            minPrice, maxPrice, includeUnavailable, onlyUnavailable, categoryId, locale, includeMissingLocales, ...rest
+        } = searchDto;
+        const boundsCurrency = searchDto.currency ?? envs.defaultCurrency;
+        try {
+            this.assertValidAttributeFilter(searchDto.attributes);
+            return {
+                ...rest,
+                availability: toAvailabilityFilter({ includeUnavailable, onlyUnavailable }),
+                minPrice: minPrice !== undefined ? Money.fromMajor(minPrice, boundsCurrency) : undefined,
+                maxPrice: maxPrice !== undefined ? Money.fromMajor(maxPrice, boundsCurrency) : undefined,
+            };
+        } catch (error: any) {
+            if (error instanceof ProductDomainError) {
+                throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Checks the attribute filter: keys are quoted into a JSON path by the repository, values must be scalars.
+     * @private
+     * @param {Record<string, unknown>} [attributes] - The requested filter.
+     * @throws {ProductDomainError} If a key or value is not allowed.
+     */
+    private assertValidAttributeFilter(attributes?: Record<string, unknown>): void {
+        for (const [key, value] of Object.entries(attributes ?? {})) {
+            if (!ATTRIBUTE_FILTER_KEY.test(key)) {
+                throw new ProductDomainError(`Invalid attribute filter key "${key}": use letters, digits, '_' and '-'.`);
+            }
+            if (!['string', 'number', 'boolean'].includes(typeof value)) {
+                throw new ProductDomainError(`Attribute filter ${key} must be a string, number or boolean.`);
+            }
+        }
+    }
+}
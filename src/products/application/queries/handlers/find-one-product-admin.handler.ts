@@ -0,0 +1,51 @@
+/**
+ * @file Query handler for finding a single product by ID, including soft-deleted ones.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { FindOneProductAdminQuery } from '../impl/find-one-product-admin.query';
+
+/**
+ * @class FindOneProductAdminHandler
+ * @description Handles the execution of the FindOneProductAdminQuery.
+ */
+@QueryHandler(FindOneProductAdminQuery)
+export class FindOneProductAdminHandler implements IQueryHandler<FindOneProductAdminQuery, Product> {
+  private readonly logger = new Logger(FindOneProductAdminHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the admin find one product query.
+   * @async
+   * @param {FindOneProductAdminQuery} query - The query object containing the product ID.
+   * @returns {Promise<Product>} The product entity; `available` is false for soft-deleted products.
+   * @throws {RpcException} If the product does not exist.
+   */
+  async execute(query: FindOneProductAdminQuery): Promise<Product> {
+    const { id } = query;
+    this.logger.log(`Finding product (admin) with ID: ${id}`);
+
+    const product = await this.productRepository.findAnyById(id);
+    if (!product) {
+      throw new RpcException({
+        message: `Product with id #${id} not found`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+    return product;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @file Handles the FindOneProductBySkuQuery.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { FindOneProductBySkuQuery } from '../impl/find-one-product-by-sku.query';
+
+/**
+ * @class FindOneProductBySkuHandler
+ * @description Handles the execution of the FindOneProductBySkuQuery.
+ */
+@QueryHandler(FindOneProductBySkuQuery)
+export class FindOneProductBySkuHandler implements IQueryHandler<FindOneProductBySkuQuery, Product> {
+  private readonly logger = new Logger(FindOneProductBySkuHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find by SKU query.
+   * @async
+   * @param {FindOneProductBySkuQuery} query - The query object containing the SKU.
+   * @returns {Promise<Product>} The product entity; `available` is false for soft-deleted products.
+   * @throws {RpcException} If no product has the SKU.
+   */
+  async execute(query: FindOneProductBySkuQuery): Promise<Product> {
+    const { sku } = query;
+    this.logger.log(`Finding product with SKU: ${sku}`);
+
+    const product = await this.productRepository.findBySku(sku);
+    if (!product) {
+      throw new RpcException({
+        message: `Product with SKU ${sku} not found`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+    return product;
+  }
+}
@@ -8,35 +8,43 @@
 import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
 import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
-import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
 import { FindOneProductQuery } from '../impl/find-one-product.query';
+import { PricedProduct } from '../../dto/priced-product.dto';
+import { PromotionalPricingService } from '../../services/promotional-pricing.service';
+import { ProductLocalizationService } from '../../services/product-localization.service';
 
 /**
  * @class FindOneProductHandler
  * @description Handles the execution of the FindOneProductQuery.
  */
 @QueryHandler(FindOneProductQuery)
-export class FindOneProductHandler implements IQueryHandler<FindOneProductQuery, Product> {
+export class FindOneProductHandler implements IQueryHandler<FindOneProductQuery, PricedProduct> {
   private readonly logger = new Logger(FindOneProductHandler.name);
 
   /**
    * @constructor
    * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {PromotionalPricingService} promotionalPricing - Attaches promotional prices.
+   * @param {ProductLocalizationService} localization - Resolves translations.
    */
   constructor(
     @Inject(PRODUCT_REPOSITORY_PORT)
     private readonly productRepository: ProductRepositoryPort,
+    private readonly promotionalPricing: PromotionalPricingService,
+    private readonly localization: ProductLocalizationService,
   ) {}
 
   /**
    * Executes the find one product query.
    * @async
-   * @param {FindOneProductQuery} query - The query object containing the product ID.
-   * @returns {Promise<Product>} The found product entity.
+   * @param {FindOneProductQuery} query - The query object containing the product ID and optional locale.
+   * @returns {Promise<PricedProduct>} The found product, carrying the list price effective right now and its promotional price,
+   * with its name and description in the requested locale.
    * @throws {RpcException} If the product is not found or an error occurs.
    */
-  async execute(query: FindOneProductQuery): Promise<Product> {
-    const { id } = query;
+  async execute(query: FindOneProductQuery): Promise<PricedProduct> {
+    const { id, locale } = query;
     this.logger.log(`Finding product with ID: ${id}`);
 
     try {
@@ -49,7 +57,14 @@ export class FindOneProductHandler implements IQueryHandler<FindOneProductQuery,
         });
       }
 
-      return product;
+      // A scheduled price may have come into effect before the activator copied it onto the product
+      const effectivePrice = await this.productRepository.findEffectivePrice(id, new Date());
+      if (effectivePrice && !effectivePrice.price.equals(product.price)) {
+        product.price = effectivePrice.price;
+      }
+
+      const [priced] = await this.promotionalPricing.applyTo(locale ? this.localization.localize([product], locale) : [product]);
+      return priced;
     } catch (error: any) {
         if (error instanceof RpcException) { // Re-throw RpcExceptions directly
             throw error;
@@ -0,0 +1,58 @@
+/**
+ * @file Handles the FindOneVariantBySkuQuery.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductRepositoryPort, ProductVariantRepositoryPort, PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
+import { ProductVariantView } from '../../dto/product-variant-view.dto';
+import { toVariantView } from '../../utils';
+import { FindOneVariantBySkuQuery } from '../impl/find-one-variant-by-sku.query';
+
+/**
+ * @class FindOneVariantBySkuHandler
+ * @description Handles the execution of the FindOneVariantBySkuQuery.
+ */
+@QueryHandler(FindOneVariantBySkuQuery)
+export class FindOneVariantBySkuHandler implements IQueryHandler<FindOneVariantBySkuQuery, ProductVariantView> {
+  private readonly logger = new Logger(FindOneVariantBySkuHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find variant by SKU query.
+   * @async
+   * @param {FindOneVariantBySkuQuery} query - The query object containing the SKU.
+   * @returns {Promise<ProductVariantView>} The variant; `available` is false when it or its product is unavailable.
+   * @throws {RpcException} If no variant has the SKU.
+   */
+  async execute(query: FindOneVariantBySkuQuery): Promise<ProductVariantView> {
+    const { sku } = query;
+    this.logger.log(`Finding variant with SKU: ${sku}`);
+
+    const variant = await this.variantRepository.findBySku(sku);
+    const [product] = variant ? await this.productRepository.findByIds([variant.productId]) : [];
+    if (!variant || !product) {
+      throw new RpcException({
+        message: `Variant with SKU ${sku} not found`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+    return toVariantView(variant, product);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @file Query handler for reading a product's price history.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { FindPriceHistoryQuery } from '../impl/find-price-history.query';
+import { FindPriceHistoryResponseDto } from '../../dto/find-price-history.dto';
+
+/**
+ * @class FindPriceHistoryHandler
+ * @description Handles the execution of the FindPriceHistoryQuery.
+ */
+@QueryHandler(FindPriceHistoryQuery)
+export class FindPriceHistoryHandler implements IQueryHandler<FindPriceHistoryQuery, FindPriceHistoryResponseDto> {
+  private readonly logger = new Logger(FindPriceHistoryHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find price history query.
+   * @async
+   * @param {FindPriceHistoryQuery} query - The query object containing the product ID and criteria.
+   * @returns {Promise<FindPriceHistoryResponseDto>} Paginated price entries, latest effectiveFrom first.
+   * @throws {RpcException} If an error occurs during retrieval.
+   */
+  async execute(query: FindPriceHistoryQuery): Promise<FindPriceHistoryResponseDto> {
+    const { productId, criteria } = query;
+    this.logger.log(`Finding price history for product ${productId}: ${JSON.stringify(criteria)}`);
+
+    try {
+      return await this.productRepository.findPriceHistory(productId, criteria);
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      this.logger.error(`Failed to find price history for product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding price history.' });
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Handles the FindProductAuditLogQuery.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductAuditLogRepositoryPort, PRODUCT_AUDIT_LOG_REPOSITORY_PORT } from '../../../domain';
+import { FindProductAuditLogQuery } from '../impl/find-product-audit-log.query';
+import { FindProductAuditLogResponseDto } from '../../dto/find-product-audit-log.dto';
+
+/**
+ * @class FindProductAuditLogHandler
+ * @description Handles the execution of the FindProductAuditLogQuery.
+ */
+@QueryHandler(FindProductAuditLogQuery)
+export class FindProductAuditLogHandler implements IQueryHandler<FindProductAuditLogQuery, FindProductAuditLogResponseDto> {
+  private readonly logger = new Logger(FindProductAuditLogHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductAuditLogRepositoryPort} auditLog - Injected audit log.
+   */
+  constructor(
+    @Inject(PRODUCT_AUDIT_LOG_REPOSITORY_PORT)
+    private readonly auditLog: ProductAuditLogRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find audit log query.
+   * @async
+   * @param {FindProductAuditLogQuery} query - The query object containing filters and pagination data.
+   * @returns {Promise<FindProductAuditLogResponseDto>} Paginated audit entries, newest first.
+   * @throws {RpcException} If an error occurs during retrieval.
+   */
+  async execute(query: FindProductAuditLogQuery): Promise<FindProductAuditLogResponseDto> {
+    const { criteria, paginationDto } = query;
+    this.logger.log(`Finding audit entries ${JSON.stringify(criteria)}: page=${paginationDto.page}, limit=${paginationDto.limit}`);
+
+    try {
+      return await this.auditLog.find(criteria, paginationDto);
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      this.logger.error(`Failed to find audit entries: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding audit entries.' });
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file Handles the FindProductVariantsQuery.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductRepositoryPort, ProductVariantRepositoryPort, PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
+import { ProductVariantsResponseDto } from '../../dto/product-variant-view.dto';
+import { toVariantView } from '../../utils';
+import { FindProductVariantsQuery } from '../impl/find-product-variants.query';
+
+/**
+ * @class FindProductVariantsHandler
+ * @description Handles the execution of the FindProductVariantsQuery.
+ */
+@QueryHandler(FindProductVariantsQuery)
+export class FindProductVariantsHandler implements IQueryHandler<FindProductVariantsQuery, ProductVariantsResponseDto> {
+  private readonly logger = new Logger(FindProductVariantsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find product variants query.
+   * @async
+   * @param {FindProductVariantsQuery} query - The query object containing the product ID.
+   * @returns {Promise<ProductVariantsResponseDto>} The product's options and variants.
+   * @throws {RpcException} If the product is not found or not available.
+   */
+  async execute(query: FindProductVariantsQuery): Promise<ProductVariantsResponseDto> {
+    const { productId } = query;
+    this.logger.log(`Finding variants of product with ID: ${productId}`);
+
+    const product = await this.productRepository.findById(productId);
+    if (!product) {
+      throw new RpcException({
+        message: `Product with id #${productId} not found or not available`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+
+    const [options, variants] = await Promise.all([
+      this.variantRepository.findOptions(productId),
+      this.variantRepository.findByProductId(productId),
+    ]);
+    return {
+      productId,
+      options,
+      variants: variants.map(variant => toVariantView(variant, product)),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @file Query handler for finding available products with cursor-based pagination.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT, ProductCursorKey } from '../../../domain';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../../shared/application';
+import { FindProductsByCursorQuery } from '../impl/find-products-by-cursor.query';
+import { FindProductsByCursorResponseDto } from '../../dto/find-products-by-cursor-response.dto';
+import { PromotionalPricingService } from '../../services/promotional-pricing.service';
+import { decodeProductCursor, encodeProductCursor } from '../../utils/product-cursor';
+import { assertMayListUnavailable, toAvailabilityFilter } from '../../utils/product-availability';
+import { withPrimaryImage } from '../../utils/product-media';
+
+/**
+ * @class FindProductsByCursorHandler
+ * @description Handles the execution of the FindProductsByCursorQuery.
+ */
+@QueryHandler(FindProductsByCursorQuery)
+export class FindProductsByCursorHandler implements IQueryHandler<FindProductsByCursorQuery, FindProductsByCursorResponseDto> {
+  private readonly logger = new Logger(FindProductsByCursorHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {PromotionalPricingService} promotionalPricing - Attaches promotional prices.
+   * @param {RequestContextProvider} requestContext - Tells whether the caller may list unavailable products.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    private readonly promotionalPricing: PromotionalPricingService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Executes the find products by cursor query.
+   * @async
+   * @param {FindProductsByCursorQuery} query - The query object containing the cursor and page size.
+   * @returns {Promise<FindProductsByCursorResponseDto>} A page of products and the cursor for the next one.
+   * @throws {RpcException} 403 if unavailable products are asked for without `catalog:admin`, or if the cursor
+   * is malformed or an error occurs during retrieval.
+   */
+  async execute(query: FindProductsByCursorQuery): Promise<FindProductsByCursorResponseDto> {
+    const { cursor, limit = 10, includeUnavailable, onlyUnavailable } = query.cursorPaginationDto;
+    this.logger.log(`Finding products by cursor: cursor=${cursor ?? '<start>'}, limit=${limit}`);
+    assertMayListUnavailable(this.requestContext.current(), { includeUnavailable, onlyUnavailable });
+
+    let after: ProductCursorKey | null = null;
+    if (cursor) {
+      try {
+        after = decodeProductCursor(cursor);
+      } catch (error: any) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+    }
+
+    try {
+      const result = await this.productRepository.findAfter(
+        after, limit, toAvailabilityFilter({ includeUnavailable, onlyUnavailable }),
+      );
+      return {
+        data: withPrimaryImage(await this.promotionalPricing.applyTo(result.data)),
+        meta: {
+          nextCursor: result.nextKey ? encodeProductCursor(result.nextKey) : null,
+          hasMore: result.hasMore,
+        },
+      };
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      this.logger.error(`Failed to find products by cursor: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding products.' });
+    }
+  }
+}
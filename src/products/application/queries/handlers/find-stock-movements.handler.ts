@@ -0,0 +1,53 @@
+/**
+ * @file Query handler for reading a product's stock movement ledger.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { FindStockMovementsQuery } from '../impl/find-stock-movements.query';
+import { FindStockMovementsResponseDto } from '../../dto/find-stock-movements.dto';
+
+/**
+ * @class FindStockMovementsHandler
+ * @description Handles the execution of the FindStockMovementsQuery.
+ */
+@QueryHandler(FindStockMovementsQuery)
+export class FindStockMovementsHandler implements IQueryHandler<FindStockMovementsQuery, FindStockMovementsResponseDto> {
+  private readonly logger = new Logger(FindStockMovementsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find stock movements query.
+   * @async
+   * @param {FindStockMovementsQuery} query - The query object containing the product ID and pagination data.
+   * @returns {Promise<FindStockMovementsResponseDto>} Paginated stock movements, newest first.
+   * @throws {RpcException} If an error occurs during retrieval.
+   */
+  async execute(query: FindStockMovementsQuery): Promise<FindStockMovementsResponseDto> {
+    const { productId, paginationDto } = query;
+    this.logger.log(`Finding stock movements for product ${productId}: page=${paginationDto.page}, limit=${paginationDto.limit}`);
+
+    try {
+      return await this.productRepository.findStockMovements(productId, paginationDto);
+    } catch (error: any) {
+      if (error instanceof RpcException) { // Re-throw RpcExceptions directly
+          throw error;
+      }
+      this.logger.error(`Failed to find stock movements for product ID ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding stock movements.' });
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Tests of QuoteProductsHandler.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Logger } from '@nestjs/common';
+import { QuoteProductsHandler } from './quote-products.handler';
+import { QuoteProductsQuery } from '../impl/quote-products.query';
+import { Money, Product, ProductPrice, ProductRepositoryPort } from '../../../domain';
+import { PromotionRepositoryPort } from '../../../../promotions/domain';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+
+jest.mock('../../../../config', () => ({
+  envs: { defaultCurrency: 'USD', taxRatePercent: 0 },
+}));
+
+describe('QuoteProductsHandler', () => {
+  const lamp = new Product('lamp-1', 'Lamp', Money.of(1000, 'USD'), true, 5, 1);
+  const chair = new Product('chair-1', 'Chair', Money.of(2500, 'USD'), true, 5, 1);
+  let productRepository: jest.Mocked<ProductRepositoryPort>;
+  let handler: QuoteProductsHandler;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    productRepository = {
+      findAvailableByIds: jest.fn(),
+      findEffectivePrices: jest.fn(),
+    } as unknown as jest.Mocked<ProductRepositoryPort>;
+    const promotionRepository = { findApplicable: jest.fn() } as unknown as jest.Mocked<PromotionRepositoryPort>;
+    const productCategories = { lineages: jest.fn() } as unknown as jest.Mocked<ProductCategoriesService>;
+    promotionRepository.findApplicable.mockResolvedValue([]);
+    productCategories.lineages.mockResolvedValue(new Map());
+    handler = new QuoteProductsHandler(productRepository, promotionRepository, productCategories);
+  });
+
+  it('prices each line at the list price in effect, including scheduled prices not applied yet', async () => {
+    const scheduled = new ProductPrice('price-1', lamp.id, Money.of(800, 'USD'), new Date('2026-01-01'), new Date('2025-12-01'));
+    productRepository.findAvailableByIds.mockResolvedValue([lamp, chair]);
+    productRepository.findEffectivePrices.mockResolvedValue(new Map([[lamp.id, scheduled]]));
+
+    const quote = await handler.execute(new QuoteProductsQuery({
+      items: [{ productId: lamp.id, quantity: 2 }, { productId: chair.id, quantity: 1 }],
+    }));
+
+    expect(productRepository.findEffectivePrices).toHaveBeenCalledWith([lamp.id, chair.id], quote.quotedAt);
+    expect(quote.lines.map(line => line.unitPrice)).toEqual([Money.of(800, 'USD'), Money.of(2500, 'USD')]);
+    expect(quote.grandTotal).toEqual(Money.of(4100, 'USD'));
+  });
+});
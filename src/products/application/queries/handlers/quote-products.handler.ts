@@ -0,0 +1,89 @@
+/**
+ * @file Query handler for pricing line items into a quote.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT, Quote, QuotePricingService } from '../../../domain';
+import { PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../../promotions/domain';
+import { envs } from '../../../../config';
+import { ProductCategoriesService } from '../../services/product-categories.service';
+import { QuoteProductsQuery } from '../impl/quote-products.query';
+
+/**
+ * @class QuoteProductsHandler
+ * @description Handles the execution of the QuoteProductsQuery. Products are priced at their list price in
+ * effect right now, as `find_one_product` reports it, including a scheduled price the activator has not
+ * applied yet. Lines that cannot be priced are returned in `errors`; only infrastructure failures are thrown.
+ */
+@QueryHandler(QuoteProductsQuery)
+export class QuoteProductsHandler implements IQueryHandler<QuoteProductsQuery, Quote> {
+  private readonly logger = new Logger(QuoteProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   * @param {ProductCategoriesService} productCategories - Resolves the categories promotions can target.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+    private readonly productCategories: ProductCategoriesService,
+  ) {}
+
+  /**
+   * Executes the quote products query.
+   * @async
+   * @param {QuoteProductsQuery} query - The query object containing the line items.
+   * @returns {Promise<Quote>} Priced lines, line errors and totals.
+   * @throws {RpcException} If an error occurs while loading products or promotions.
+   */
+  async execute(query: QuoteProductsQuery): Promise<Quote> {
+    const { items, currency } = query.quoteProductsDto;
+    const uniqueIds = Array.from(new Set(items.map(item => item.productId)));
+    this.logger.log(`Quoting ${items.length} line(s) for product IDs: ${uniqueIds.join(', ')}`);
+
+    try {
+      const at = new Date();
+      const products = await this.productRepository.findAvailableByIds(uniqueIds);
+      // A scheduled price may have come into effect before the activator copied it onto the product
+      const effectivePrices = await this.productRepository.findEffectivePrices(products.map(p => p.id), at);
+      for (const product of products) {
+        const effective = effectivePrices.get(product.id);
+        if (effective && !effective.price.equals(product.price)) {
+          product.price = effective.price;
+        }
+      }
+      const categoryIds = await this.productCategories.lineages(products);
+      const promotions = await this.promotionRepository.findApplicable(
+        products.map(p => p.id), Array.from(new Set(Array.from(categoryIds.values()).flat())), at,
+      );
+
+      const quote = QuotePricingService.quote(items, products, promotions, {
+        taxRatePercent: envs.taxRatePercent,
+        currency,
+        defaultCurrency: envs.defaultCurrency,
+        at,
+        categoryIds,
+      });
+      this.logger.log(`Quoted ${quote.lines.length} line(s), ${quote.errors.length} line error(s).`);
+      return quote;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      this.logger.error(`Failed to quote products: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to quote products.',
+      });
+    }
+  }
+}
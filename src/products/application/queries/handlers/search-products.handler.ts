@@ -0,0 +1,78 @@
+/**
+ * @file Query handler for the full-text product search.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import { SearchProductsQuery } from '../impl/search-products.query';
+import { SearchProductsResponseDto } from '../../dto/search-products.dto';
+import { PromotionalPricingService } from '../../services/promotional-pricing.service';
+import { withPrimaryImage } from '../../utils/product-media';
+
+/**
+ * @const {RegExp} SEARCHABLE_WORD
+ * @description A query must contain at least one letter or digit to match anything.
+ */
+const SEARCHABLE_WORD = /[\p{L}\p{N}]/u;
+
+/**
+ * @class SearchProductsHandler
+ * @description Handles the execution of the SearchProductsQuery.
+ */
+@QueryHandler(SearchProductsQuery)
+export class SearchProductsHandler implements IQueryHandler<SearchProductsQuery, SearchProductsResponseDto> {
+  private readonly logger = new Logger(SearchProductsHandler.name);
+
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {PromotionalPricingService} promotionalPricing - Attaches promotional prices.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    private readonly promotionalPricing: PromotionalPricingService,
+  ) {}
+
+  /**
+   * Executes the search products query.
+   * @async
+   * @param {SearchProductsQuery} query - The query object containing the text and pagination.
+   * @returns {Promise<SearchProductsResponseDto>} Matching products, most relevant first.
+   * @throws {RpcException} If the query has no words (400) or an error occurs during retrieval.
+   */
+  async execute(query: SearchProductsQuery): Promise<SearchProductsResponseDto> {
+    const { searchDto } = query;
+    this.logger.log(`Searching products with criteria: ${JSON.stringify(searchDto)}`);
+
+    if (!SEARCHABLE_WORD.test(searchDto.query)) {
+      throw new RpcException({
+        status: HttpStatus.BAD_REQUEST,
+        message: 'query must contain at least one letter or digit',
+      });
+    }
+
+    try {
+      const result = await this.productRepository.searchText(searchDto);
+      const priced = withPrimaryImage(await this.promotionalPricing.applyTo(result.data.map(match => match.product)));
+      return {
+        data: priced.map((product, index) => Object.assign(product, {
+          score: result.data[index].score,
+          highlights: result.data[index].highlights,
+        })),
+        meta: result.meta,
+      };
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Failed to search products: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error searching products.' });
+    }
+  }
+}
@@ -8,48 +8,70 @@
 import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
 import { Inject, Logger, HttpStatus } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
-import { Product, ProductRepositoryPort, PRODUCT_REPOSITORY_PORT } from '../../../domain';
+import {
+  Product, ProductRepositoryPort, ProductVariantRepositoryPort, PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../../domain';
 import { ValidateProductsQuery } from '../impl/validate-products.query';
+import { ProductValidationItemDto, ProductValidationReportDto } from '../../dto/validate-products.dto';
+import { ProductVariantView } from '../../dto/product-variant-view.dto';
+import { toVariantView } from '../../utils';
+import { ProductLocalizationService } from '../../services/product-localization.service';
 
 /**
  * @class ValidateProductsHandler
- * @description Handles the execution of the ValidateProductsQuery.
+ * @description Handles the execution of the ValidateProductsQuery. An ID may name a product or a variant;
+ * a variant is available when both it and its product are. With a locale, product names and the names of
+ * variant views are resolved in it.
  */
 @QueryHandler(ValidateProductsQuery)
-export class ValidateProductsHandler implements IQueryHandler<ValidateProductsQuery, Product[]> {
+export class ValidateProductsHandler
+  implements IQueryHandler<ValidateProductsQuery, Array<Product | ProductVariantView> | ProductValidationReportDto> {
   private readonly logger = new Logger(ValidateProductsHandler.name);
 
   /**
    * @constructor
    * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   * @param {ProductLocalizationService} localization - Resolves translations.
    */
   constructor(
     @Inject(PRODUCT_REPOSITORY_PORT)
     private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+    private readonly localization: ProductLocalizationService,
   ) {}
 
   /**
    * Executes the validate products query.
    * @async
-   * @param {ValidateProductsQuery} query - The query object containing the product IDs.
-   * @returns {Promise<Product[]>} An array of the validated (found and available) product entities.
-   * @throws {RpcException} If some products are not found or an error occurs.
+   * @param {ValidateProductsQuery} query - The query object containing the product or variant IDs.
+   * @returns {Promise<Array<Product | ProductVariantView> | ProductValidationReportDto>} In strict mode, the
+   * validated (found and available) product entities and variant views in request order; in report mode, the
+   * outcome for every requested ID.
+   * @throws {RpcException} In strict mode if some products are not found; in both modes if an error occurs.
    */
-  async execute(query: ValidateProductsQuery): Promise<Product[]> {
+  async execute(query: ValidateProductsQuery): Promise<Array<Product | ProductVariantView> | ProductValidationReportDto> {
     // Ensure unique IDs
     const uniqueIds = Array.from(new Set(query.ids));
-    this.logger.log(`Validating product IDs: ${uniqueIds.join(', ')}`);
+    this.logger.log(`Validating product IDs (${query.mode}): ${uniqueIds.join(', ')}`);
+
+    if (query.mode === 'report') {
+        return this.report(uniqueIds, query.locale);
+    }
 
     if (uniqueIds.length === 0) {
         return []; // No IDs to validate
     }
 
     try {
-      const products = await this.productRepository.findAvailableByIds(uniqueIds);
+      const products = this.localized(await this.productRepository.findAvailableByIds(uniqueIds), query.locale);
+      const found = new Map<string, Product | ProductVariantView>(products.map(p => [p.id, p]));
+      const variants = await this.findVariantViews(uniqueIds.filter(id => !found.has(id)), query.locale);
+      variants.forEach((view, id) => view.available && found.set(id, view));
 
-      if (products.length !== uniqueIds.length) {
-          const foundIds = products.map(p => p.id);
-          const missingIds = uniqueIds.filter(id => !foundIds.includes(id));
+      if (found.size !== uniqueIds.length) {
+          const missingIds = uniqueIds.filter(id => !found.has(id));
           this.logger.warn(`Validation failed: Missing product IDs: ${missingIds.join(', ')}`);
           throw new RpcException({
             message: `Some products were not found or are unavailable: ${missingIds.join(', ')}`,
@@ -57,8 +79,8 @@ export class ValidateProductsHandler implements IQueryHandler<ValidateProductsQu
           });
       }
 
-      this.logger.log(`Successfully validated ${products.length} products.`);
-      return products;
+      this.logger.log(`Successfully validated ${found.size} products.`);
+      return uniqueIds.map(id => found.get(id));
 
     } catch (error: any) {
         if (error instanceof RpcException) { // Re-throw RpcExceptions directly
@@ -71,4 +93,75 @@ export class ValidateProductsHandler implements IQueryHandler<ValidateProductsQu
         });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Describes every requested ID without failing on missing products.
+   * @private
+   * @async
+   * @param {string[]} ids - Unique product or variant IDs, in request order.
+   * @param {string} [locale] - Locale to resolve names in.
+   * @returns {Promise<ProductValidationReportDto>} Per-ID status plus a price snapshot for available products.
+   */
+  private async report(ids: string[], locale?: string): Promise<ProductValidationReportDto> {
+    const products = this.localized(await this.productRepository.findByIds(ids), locale);
+    const productsById = new Map(products.map(p => [p.id, p]));
+    const variantsById = await this.findVariantViews(ids.filter(id => !productsById.has(id)), locale);
+
+    const items = ids.map((id): ProductValidationItemDto => {
+      const product = productsById.get(id);
+      const variant = variantsById.get(id);
+      if (variant) {
+        return variant.available
+          ? { id, status: 'FOUND' as const, name: variant.name, price: variant.price, productId: variant.productId }
+          : { id, status: 'UNAVAILABLE' as const, productId: variant.productId };
+      }
+      if (!product) {
+        return { id, status: 'UNKNOWN' as const };
+      }
+      if (!product.available) {
+        return { id, status: 'UNAVAILABLE' as const };
+      }
+      return { id, status: 'FOUND' as const, name: product.name, price: product.price };
+    });
+
+    return {
+      valid: items.every(item => item.status === 'FOUND'),
+      items,
+      checkedAt: new Date(),
+    };
+  }
+
+  /**
+   * Looks up IDs as variants, together with their products.
+   * @private
+   * @async
+   * @param {string[]} ids - IDs that are not products.
+   * @param {string} [locale] - Locale to resolve the product names in.
+   * @returns {Promise<Map<string, ProductVariantView>>} Views of the variants whose product exists, available or not.
+   */
+  private async findVariantViews(ids: string[], locale?: string): Promise<Map<string, ProductVariantView>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const variants = await this.variantRepository.findByIds(ids);
+    const products = this.localized(
+      await this.productRepository.findByIds(Array.from(new Set(variants.map(v => v.productId)))),
+      locale,
+    );
+    const productsById = new Map(products.map(p => [p.id, p]));
+    return new Map(variants
+      .filter(variant => productsById.has(variant.productId))
+      .map(variant => [variant.id, toVariantView(variant, productsById.get(variant.productId))]));
+  }
+
+  /**
+   * Resolves the names and descriptions of products in a locale, if one was requested.
+   * @private
+   * @param {Product[]} products - The products.
+   * @param {string} [locale] - The requested locale.
+   * @returns {Product[]} The same products.
+   */
+  private localized(products: Product[], locale?: string): Product[] {
+    return locale ? this.localization.localize(products, locale) : products;
+  }
+}
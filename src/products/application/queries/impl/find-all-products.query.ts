@@ -1,11 +1,11 @@
 /**
- * @file Defines the query for finding all available products with pagination.
+ * @file Defines the query for finding all available products with filters and pagination.
  * @author Roberto Morales
  * @version 1.0.0
  * @date 2025-05-01
  */
 
-import { PaginationDto } from '../../../../common/dto/pagination.dto';
+import { ProductSearchDto } from '../../dto/product-search.dto';
 
 /**
  * @class FindAllProductsQuery
@@ -14,7 +14,7 @@ import { PaginationDto } from '../../../../common/dto/pagination.dto';
 export class FindAllProductsQuery {
   /**
    * @constructor
-   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @param {ProductSearchDto} searchDto - Pagination, filter and sort parameters.
    */
-  constructor(public readonly paginationDto: PaginationDto) {}
+  constructor(public readonly searchDto: ProductSearchDto) {}
 }
\ No newline at end of file
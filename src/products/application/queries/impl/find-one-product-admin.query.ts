@@ -0,0 +1,18 @@
+/**
+ * @file Defines the back-office query for finding a single product by ID, deleted or not.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindOneProductAdminQuery
+ * @description Represents the intent to find a product by its ID, including soft-deleted ones.
+ */
+export class FindOneProductAdminQuery {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the product to find.
+   */
+  constructor(public readonly id: string) {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the query for finding a single product by its SKU.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindOneProductBySkuQuery
+ * @description Represents the intent to find a product by its SKU, including soft-deleted ones.
+ */
+export class FindOneProductBySkuQuery {
+  /**
+   * @constructor
+   * @param {string} sku - The SKU of the product to find.
+   */
+  constructor(public readonly sku: string) {}
+}
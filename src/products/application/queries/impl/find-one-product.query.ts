@@ -13,6 +13,10 @@ export class FindOneProductQuery {
   /**
    * @constructor
    * @param {string} id - The ID of the product to find.
+   * @param {string} [locale] - Locale to resolve the name and description in.
    */
-  constructor(public readonly id: string) {}
+  constructor(
+    public readonly id: string,
+    public readonly locale?: string,
+  ) {}
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the query for finding a single variant by its SKU.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindOneVariantBySkuQuery
+ * @description Represents the intent to find a variant by its SKU.
+ */
+export class FindOneVariantBySkuQuery {
+  /**
+   * @constructor
+   * @param {string} sku - The SKU of the variant to find.
+   */
+  constructor(public readonly sku: string) {}
+}
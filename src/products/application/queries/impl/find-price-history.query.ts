@@ -0,0 +1,24 @@
+/**
+ * @file Defines the query for reading a product's price history.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PriceHistoryCriteria } from '../../../domain/ports/product.repository.port';
+
+/**
+ * @class FindPriceHistoryQuery
+ * @description Represents the intent to list the prices a product has had or will have.
+ */
+export class FindPriceHistoryQuery {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {PriceHistoryCriteria} criteria - Pagination and optional point in time.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly criteria: PriceHistoryCriteria,
+  ) {}
+}
@@ -0,0 +1,25 @@
+/**
+ * @file Defines the query for reading the product audit log.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PaginationDto } from '../../../../common';
+import { ProductAuditLogCriteria } from '../../../domain/ports/product-audit-log.repository.port';
+
+/**
+ * @class FindProductAuditLogQuery
+ * @description Represents the intent to list who changed which products, and how.
+ */
+export class FindProductAuditLogQuery {
+  /**
+   * @constructor
+   * @param {ProductAuditLogCriteria} criteria - Product, actor and action filters.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   */
+  constructor(
+    public readonly criteria: ProductAuditLogCriteria,
+    public readonly paginationDto: PaginationDto,
+  ) {}
+}
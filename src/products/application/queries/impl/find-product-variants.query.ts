@@ -0,0 +1,18 @@
+/**
+ * @file Defines the query for listing the options and variants of a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindProductVariantsQuery
+ * @description Represents the intent to list a product's option definitions and variants.
+ */
+export class FindProductVariantsQuery {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   */
+  constructor(public readonly productId: string) {}
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the query for finding available products with cursor-based pagination.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CursorPaginationDto } from '../../dto/cursor-pagination.dto';
+
+/**
+ * @class FindProductsByCursorQuery
+ * @description Represents the intent to walk available products using keyset pagination.
+ */
+export class FindProductsByCursorQuery {
+  /**
+   * @constructor
+   * @param {CursorPaginationDto} cursorPaginationDto - Cursor and page size.
+   */
+  constructor(public readonly cursorPaginationDto: CursorPaginationDto) {}
+}
@@ -0,0 +1,24 @@
+/**
+ * @file Defines the query for reading a product's stock movement ledger.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PaginationDto } from '../../../../common/dto/pagination.dto';
+
+/**
+ * @class FindStockMovementsQuery
+ * @description Represents the intent to list the stock movements of a product.
+ */
+export class FindStockMovementsQuery {
+  /**
+   * @constructor
+   * @param {string} productId - The ID of the product.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly paginationDto: PaginationDto,
+  ) {}
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the query for pricing line items into a quote.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { QuoteProductsDto } from '../../dto/quote-products.dto';
+
+/**
+ * @class QuoteProductsQuery
+ * @description Represents the intent to price line items with promotions and tax.
+ */
+export class QuoteProductsQuery {
+  /**
+   * @constructor
+   * @param {QuoteProductsDto} quoteProductsDto - Line items and optional currency.
+   */
+  constructor(public readonly quoteProductsDto: QuoteProductsDto) {}
+}
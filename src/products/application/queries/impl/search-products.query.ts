@@ -0,0 +1,20 @@
+/**
+ * @file Defines the query for searching products by text.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { SearchProductsDto } from '../../dto/search-products.dto';
+
+/**
+ * @class SearchProductsQuery
+ * @description Represents the intent to find the available products matching a full-text query.
+ */
+export class SearchProductsQuery {
+  /**
+   * @constructor
+   * @param {SearchProductsDto} searchDto - The query and pagination parameters.
+   */
+  constructor(public readonly searchDto: SearchProductsDto) {}
+}
@@ -5,6 +5,8 @@
  * @date 2025-05-01
  */
 
+import { ValidationMode } from '../../dto/validate-products.dto';
+
 /**
  * @class ValidateProductsQuery
  * @description Represents the intent to validate if a list of product IDs exist and are available.
@@ -13,6 +15,12 @@ export class ValidateProductsQuery {
   /**
    * @constructor
    * @param {string[]} ids - An array of product IDs to validate.
+   * @param {ValidationMode} [mode='strict'] - Whether missing products fail the request or are reported.
+   * @param {string} [locale] - Locale to resolve names in.
    */
-  constructor(public readonly ids: string[]) {}
-}
\ No newline at end of file
+  constructor(
+    public readonly ids: string[],
+    public readonly mode: ValidationMode = 'strict',
+    public readonly locale?: string,
+  ) {}
+}
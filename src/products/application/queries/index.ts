@@ -1,13 +1,43 @@
 import { FindAllProductsHandler } from './handlers/find-all-products.handler';
 import { FindOneProductHandler } from './handlers/find-one-product.handler';
+import { FindOneProductAdminHandler } from './handlers/find-one-product-admin.handler';
+import { FindOneProductBySkuHandler } from './handlers/find-one-product-by-sku.handler';
 import { ValidateProductsHandler } from './handlers/validate-products.handler';
+import { FindProductsByCursorHandler } from './handlers/find-products-by-cursor.handler';
+import { FindStockMovementsHandler } from './handlers/find-stock-movements.handler';
+import { FindPriceHistoryHandler } from './handlers/find-price-history.handler';
+import { QuoteProductsHandler } from './handlers/quote-products.handler';
+import { FindProductAuditLogHandler } from './handlers/find-product-audit-log.handler';
+import { FindProductVariantsHandler } from './handlers/find-product-variants.handler';
+import { FindOneVariantBySkuHandler } from './handlers/find-one-variant-by-sku.handler';
+import { SearchProductsHandler } from './handlers/search-products.handler';
 
 export * from './impl/find-all-products.query';
 export * from './impl/find-one-product.query';
+export * from './impl/find-one-product-admin.query';
+export * from './impl/find-one-product-by-sku.query';
 export * from './impl/validate-products.query';
+export * from './impl/find-products-by-cursor.query';
+export * from './impl/find-stock-movements.query';
+export * from './impl/find-price-history.query';
+export * from './impl/quote-products.query';
+export * from './impl/find-product-audit-log.query';
+export * from './impl/find-product-variants.query';
+export * from './impl/find-one-variant-by-sku.query';
+export * from './impl/search-products.query';
 
 export const QueryHandlers = [
   FindAllProductsHandler,
   FindOneProductHandler,
+  FindOneProductAdminHandler,
+  FindOneProductBySkuHandler,
   ValidateProductsHandler,
+  FindProductsByCursorHandler,
+  FindStockMovementsHandler,
+  FindPriceHistoryHandler,
+  QuoteProductsHandler,
+  FindProductAuditLogHandler,
+  FindProductVariantsHandler,
+  FindOneVariantBySkuHandler,
+  SearchProductsHandler,
 ];
\ No newline at end of file
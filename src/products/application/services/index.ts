@@ -0,0 +1,7 @@
+export * from './promotional-pricing.service';
+export * from './product-audit-trail.service';
+export * from './product-categories.service';
+export * from './sku-registry.service';
+export * from './product-attributes.service';
+export * from './product-localization.service';
+export * from './product-write-checks.service';
@@ -0,0 +1,70 @@
+/**
+ * @file Application service checking product attributes against the schemas of their categories.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { ProductAttributes, ProductDomainError } from '../../domain';
+import { CategoryHierarchy, CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../categories/domain';
+import { JsonSchemaValidator, JSON_SCHEMA_VALIDATOR } from '../../../shared/application';
+import { ProductCategoriesService } from './product-categories.service';
+
+/**
+ * @class ProductAttributesService
+ * @description A product's attributes must satisfy the attribute schema of every category it belongs to,
+ * ancestors included, so a "Shoes" schema adds to the one defined on "Apparel". A product with no schema
+ * in its lineage may not carry attributes.
+ */
+@Injectable()
+export class ProductAttributesService {
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   * @param {JsonSchemaValidator} schemaValidator - Injected JSON Schema validator.
+   * @param {ProductCategoriesService} productCategories - Loads the category tree.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+    @Inject(JSON_SCHEMA_VALIDATOR)
+    private readonly schemaValidator: JsonSchemaValidator,
+    private readonly productCategories: ProductCategoriesService,
+  ) {}
+
+  /**
+   * Checks a product's attributes against the schemas of its categories.
+   * @async
+   * @param {ProductAttributes} attributes - The attributes the product will have.
+   * @param {string[]} categoryIds - The categories it will be assigned to.
+   * @param {CategoryHierarchy} [hierarchy] - An already loaded tree.
+   * @throws {ProductDomainError} If an attribute is not allowed or breaks a schema.
+   */
+  async assertValid(attributes: ProductAttributes, categoryIds: string[], hierarchy?: CategoryHierarchy): Promise<void> {
+    const hasAttributes = Object.keys(attributes).length > 0;
+    if (categoryIds.length === 0) {
+      if (hasAttributes) {
+        throw new ProductDomainError('Products without a category cannot have attributes.');
+      }
+      return;
+    }
+
+    const tree = hierarchy ?? await this.productCategories.hierarchy();
+    const categories = await this.categoryRepository.findByIds(tree.lineageOf(categoryIds));
+    const withSchema = categories.filter(category => category.attributeSchema);
+    if (withSchema.length === 0) {
+      if (hasAttributes) {
+        throw new ProductDomainError('None of the product\'s categories defines attributes.');
+      }
+      return;
+    }
+
+    const errors = withSchema.flatMap(category => this.schemaValidator
+      .validate(category.attributeSchema, attributes, 'attributes')
+      .map(error => `${error} (category ${category.name})`));
+    if (errors.length > 0) {
+      throw new ProductDomainError(`Invalid attributes: ${Array.from(new Set(errors)).join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @file Tests of ProductAuditTrail.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money, Product, ProductAuditEntry, ProductAuditLogRepositoryPort, ProductRepositoryPort } from '../../domain';
+import { RequestContextProvider, UnitOfWork } from '../../../shared/application';
+import { ProductAuditTrail } from './product-audit-trail.service';
+
+describe('ProductAuditTrail', () => {
+  let stock: Map<string, number>;
+  let appended: ProductAuditEntry[];
+  let auditTrail: ProductAuditTrail;
+
+  beforeEach(() => {
+    stock = new Map([['lamp-1', 5], ['desk-1', 2]]);
+    appended = [];
+    const productRepository = { findByIds: jest.fn() } as unknown as jest.Mocked<ProductRepositoryPort>;
+    productRepository.findByIds.mockImplementation(async ids => ids
+      .filter(id => stock.has(id))
+      .map(id => new Product(id, id, Money.of(1000, 'USD'), true, stock.get(id))));
+    const auditLog = { append: jest.fn() } as unknown as jest.Mocked<ProductAuditLogRepositoryPort>;
+    auditLog.append.mockImplementation(async entries => { appended.push(...entries); });
+    const unitOfWork: jest.Mocked<UnitOfWork> = { run: jest.fn(), afterCommit: jest.fn() };
+    unitOfWork.run.mockImplementation(work => work());
+    const requestContext: jest.Mocked<RequestContextProvider> = { current: jest.fn() };
+    requestContext.current.mockReturnValue({ actor: 'svc', correlationId: 'c-1', tenantId: 'acme', roles: [] });
+    auditTrail = new ProductAuditTrail(productRepository, auditLog, unitOfWork, requestContext);
+  });
+
+  it('audits only the products the work changed', async () => {
+    await auditTrail.track('adjust_stock', ['lamp-1', 'desk-1'], async () => {
+      stock.set('lamp-1', 4);
+    });
+
+    expect(appended.map(entry => [entry.productId, entry.changes])).toEqual([
+      ['lamp-1', { stock: { previous: 5, current: 4 } }],
+    ]);
+  });
+
+  it('adds no entries when the work changed nothing', async () => {
+    await auditTrail.track('confirm_reservation', ['lamp-1', 'desk-1'], async () => undefined);
+
+    expect(appended).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @file Records which products a command touched, who ran it and what it changed.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  Product, ProductAuditAction, ProductAuditEntry, ProductAuditLogRepositoryPort, ProductFieldChanges,
+  ProductRepositoryPort, PRODUCT_AUDIT_LOG_REPOSITORY_PORT, PRODUCT_REPOSITORY_PORT,
+} from '../../domain';
+import {
+  RequestContextProvider, REQUEST_CONTEXT, UnitOfWork, UNIT_OF_WORK,
+} from '../../../shared/application';
+
+/**
+ * @const {string[]} AUDITED_FIELDS
+ * @description Product fields compared before and after a command.
+ */
+const AUDITED_FIELDS = [
+  'sku', 'name', 'description', 'tags', 'price', 'available', 'stock', 'categoryIds', 'attributes',
+  'translations', 'media',
+] as const;
+
+type ProductSnapshot = Record<typeof AUDITED_FIELDS[number], unknown>;
+
+/**
+ * @class ProductAuditTrail
+ * @description Wraps the writes of a command so that the products it touches are read before and after in
+ * the same unit of work, and one audit entry per changed product is appended with the fields that changed. The
+ * actor and correlation ID come from the request context. Commands that fail write nothing, so they
+ * leave no entries.
+ */
+@Injectable()
+export class ProductAuditTrail {
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductAuditLogRepositoryPort} auditLog - Injected audit log.
+   * @param {UnitOfWork} unitOfWork - Injected unit of work.
+   * @param {RequestContextProvider} requestContext - Injected request context.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_AUDIT_LOG_REPOSITORY_PORT)
+    private readonly auditLog: ProductAuditLogRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Runs a command's writes and audits the given products.
+   * @async
+   * @param {ProductAuditAction} action - The command being audited.
+   * @param {string[]} productIds - The products the writes touch; new products are audited as created from nothing,
+   * and products the writes left as they were are not audited.
+   * @param {() => Promise<T>} work - The writes. Joins the unit of work the audit runs in.
+   * @returns {Promise<T>} The work's result.
+   */
+  async track<T>(action: ProductAuditAction, productIds: string[], work: () => Promise<T>): Promise<T> {
+    const ids = Array.from(new Set(productIds));
+    return this.unitOfWork.run(async () => {
+      const before = await this.snapshots(ids);
+      const result = await work();
+      const after = await this.snapshots(ids);
+      await this.record(action, ids
+        .filter(id => before.has(id) || after.has(id))
+        .map(id => ({ productId: id, changes: this.diff(before.get(id) ?? null, after.get(id) ?? null) }))
+        .filter(({ changes }) => Object.keys(changes).length > 0));
+      return result;
+    });
+  }
+
+  /**
+   * Appends entries whose changes are already known, e.g. from a repository result.
+   * @async
+   * @param {ProductAuditAction} action - The command being audited.
+   * @param {{ productId: string, changes: ProductFieldChanges }[]} changes - Per-product changes.
+   * @returns {Promise<void>}
+   */
+  async record(action: ProductAuditAction, changes: { productId: string; changes: ProductFieldChanges }[]): Promise<void> {
+    const { actor, correlationId } = this.requestContext.current();
+    const occurredAt = new Date();
+    await this.auditLog.append(changes.map(({ productId, changes: fieldChanges }) =>
+      new ProductAuditEntry(randomUUID(), productId, action, actor, correlationId, fieldChanges, occurredAt)));
+  }
+
+  /**
+   * Reads the audited fields of the products that exist.
+   * @private
+   * @async
+   * @param {string[]} ids - Product IDs.
+   * @returns {Promise<Map<string, ProductSnapshot>>} Snapshots keyed by product ID.
+   */
+  private async snapshots(ids: string[]): Promise<Map<string, ProductSnapshot>> {
+    const products = await this.productRepository.findByIds(ids);
+    return new Map(products.map(product => [product.id, this.snapshotOf(product)]));
+  }
+
+  /**
+   * Copies the audited fields of a product as plain JSON values.
+   * @private
+   * @param {Product} product - The product.
+   * @returns {ProductSnapshot} The snapshot.
+   */
+  private snapshotOf(product: Product): ProductSnapshot {
+    return JSON.parse(JSON.stringify({
+      sku: product.sku,
+      name: product.name,
+      description: product.description,
+      tags: product.tags,
+      price: product.price,
+      available: product.available,
+      stock: product.stock,
+      categoryIds: [...product.categoryIds].sort(),
+      attributes: product.attributes,
+      translations: product.translations,
+      media: product.media,
+    }));
+  }
+
+  /**
+   * Lists the audited fields that differ between two snapshots. A missing snapshot counts as all nulls.
+   * @private
+   * @param {ProductSnapshot | null} before - Before the command.
+   * @param {ProductSnapshot | null} after - After the command.
+   * @returns {ProductFieldChanges} The changed fields.
+   */
+  private diff(before: ProductSnapshot | null, after: ProductSnapshot | null): ProductFieldChanges {
+    const changes: ProductFieldChanges = {};
+    for (const field of AUDITED_FIELDS) {
+      const previous = before?.[field] ?? null;
+      const current = after?.[field] ?? null;
+      if (JSON.stringify(previous) !== JSON.stringify(current)) {
+        changes[field] = { previous, current };
+      }
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @file Application service resolving the categories of products against the category tree.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Product, ProductDomainError } from '../../domain';
+import { CategoryHierarchy, CategoryRepositoryPort, CATEGORY_REPOSITORY_PORT } from '../../../categories/domain';
+
+/**
+ * @class ProductCategoriesService
+ * @description Checks category assignments and expands them along the tree: a listing filtered by a
+ * category also returns products in its subcategories, and a promotion on a category also applies to
+ * products in its subcategories.
+ */
+@Injectable()
+export class ProductCategoriesService {
+  /**
+   * @constructor
+   * @param {CategoryRepositoryPort} categoryRepository - Injected category repository.
+   */
+  constructor(
+    @Inject(CATEGORY_REPOSITORY_PORT)
+    private readonly categoryRepository: CategoryRepositoryPort,
+  ) {}
+
+  /**
+   * Loads the category tree, e.g. once for a whole batch.
+   * @async
+   * @returns {Promise<CategoryHierarchy>} The current tree.
+   */
+  async hierarchy(): Promise<CategoryHierarchy> {
+    return this.categoryRepository.findHierarchy();
+  }
+
+  /**
+   * Checks that every category a product is being assigned to exists.
+   * @async
+   * @param {string[] | undefined} categoryIds - The requested assignments; nothing to check if undefined.
+   * @param {CategoryHierarchy} [hierarchy] - An already loaded tree.
+   * @throws {ProductDomainError} If a category does not exist.
+   */
+  async assertExist(categoryIds: string[] | undefined, hierarchy?: CategoryHierarchy): Promise<void> {
+    if (!categoryIds || categoryIds.length === 0) {
+      return;
+    }
+    const tree = hierarchy ?? await this.hierarchy();
+    const unknown = categoryIds.filter(id => !tree.has(id));
+    if (unknown.length > 0) {
+      throw new ProductDomainError(`Unknown categories: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Expands a category filter to the category and all its descendants. An unknown category matches
+   * nothing rather than failing, like the other listing filters.
+   * @async
+   * @param {string} categoryId - The requested category.
+   * @returns {Promise<string[]>} The category ID followed by its descendants.
+   */
+  async withDescendants(categoryId: string): Promise<string[]> {
+    const hierarchy = await this.hierarchy();
+    return [categoryId, ...hierarchy.descendantsOf(categoryId)];
+  }
+
+  /**
+   * Resolves every category each product belongs to, counting the ancestors of its assignments.
+   * @async
+   * @param {Product[]} products - The products.
+   * @returns {Promise<Map<string, string[]>>} Category IDs keyed by product ID.
+   */
+  async lineages(products: Product[]): Promise<Map<string, string[]>> {
+    if (!products.some(product => product.categoryIds.length > 0)) {
+      return new Map(products.map(product => [product.id, []]));
+    }
+    const hierarchy = await this.hierarchy();
+    return new Map(products.map(product => [product.id, hierarchy.lineageOf(product.categoryIds)]));
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file Application service resolving product names and descriptions for a locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable } from '@nestjs/common';
+import { envs } from '../../../config';
+import { Product, ProductDomainError, ProductTranslation } from '../../domain';
+import { LocalizedProduct, ProductWithMissingLocales } from '../dto/localized-product.dto';
+
+/**
+ * @class ProductLocalizationService
+ * @description The catalog is written in `DEFAULT_LOCALE` and translated into the other `SUPPORTED_LOCALES`.
+ * A regional locale such as "pt-BR" may be translated when its language ("pt") is supported, and falls
+ * back to it when read.
+ */
+@Injectable()
+export class ProductLocalizationService {
+  /**
+   * The locale of the products' own name and description.
+   * @returns {string} The canonical default locale.
+   */
+  get defaultLocale(): string {
+    return ProductTranslation.normalizeLocale(envs.defaultLocale);
+  }
+
+  /**
+   * Checks that a locale may be translated into.
+   * @param {string} locale - Language tag.
+   * @returns {string} The canonical tag.
+   * @throws {ProductDomainError} If the tag is malformed or neither it nor its language is supported.
+   */
+  assertSupported(locale: string): string {
+    const supported = envs.supportedLocales.map(tag => ProductTranslation.normalizeLocale(tag));
+    const chain = ProductTranslation.fallbackChain(locale);
+    if (!chain.some(tag => supported.includes(tag))) {
+      throw new ProductDomainError(`${chain[0]} is not a supported locale (${supported.join(', ')}).`);
+    }
+    return chain[0];
+  }
+
+  /**
+   * Replaces each product's `name` and `description` with their translation and attaches `locale`.
+   * @template T
+   * @param {T[]} products - Products to localize.
+   * @param {string} locale - The requested language tag.
+   * @returns {LocalizedProduct<T>[]} The same products, in the same order.
+   */
+  localize<T extends Product>(products: T[], locale: string): LocalizedProduct<T>[] {
+    return products.map(product => Object.assign(product, product.localize(locale, this.defaultLocale)));
+  }
+
+  /**
+   * Attaches `missingLocales` to each product.
+   * @template T
+   * @param {T[]} products - Products to check.
+   * @returns {ProductWithMissingLocales<T>[]} The same products, in the same order.
+   */
+  reportMissingLocales<T extends Product>(products: T[]): ProductWithMissingLocales<T>[] {
+    return products.map(product => Object.assign(product, {
+      missingLocales: product.missingLocales(envs.supportedLocales, this.defaultLocale),
+    }));
+  }
+}
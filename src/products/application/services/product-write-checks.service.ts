@@ -0,0 +1,72 @@
+/**
+ * @file Application service running the checks a product create or update must pass before it is written.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Money, Product } from '../../domain';
+import { envs } from '../../../config';
+import { CreateProductDto } from '../dto/create-product.dto';
+import { UpdateProductData } from '../dto/update-product.dto';
+import { planProductUpdate, ProductUpdatePlan } from '../utils/product-update-plan';
+import { ProductCategoriesService } from './product-categories.service';
+import { SkuRegistry } from './sku-registry.service';
+import { ProductAttributesService } from './product-attributes.service';
+
+/**
+ * @class ProductWriteChecks
+ * @description Checks categories, SKU and attributes the way `create_product` and `update_product` do, so
+ * that callers previewing a write (e.g. an import dry run) accept exactly what the commands would.
+ */
+@Injectable()
+export class ProductWriteChecks {
+  /**
+   * @constructor
+   * @param {ProductCategoriesService} productCategories - Checks the categories being assigned.
+   * @param {SkuRegistry} skuRegistry - Checks the SKU is not used by another product or variant.
+   * @param {ProductAttributesService} productAttributes - Checks the attributes against the category schemas.
+   */
+  constructor(
+    private readonly productCategories: ProductCategoriesService,
+    private readonly skuRegistry: SkuRegistry,
+    private readonly productAttributes: ProductAttributesService,
+  ) {}
+
+  /**
+   * Checks that a product can be created.
+   * @async
+   * @param {CreateProductDto} createProductDto - The validated payload.
+   * @returns {Promise<void>}
+   * @throws {ProductDomainError} If the price, categories or attributes are invalid.
+   * @throws {RpcException} 409 if the SKU is taken.
+   */
+  async assertCreatable(createProductDto: CreateProductDto): Promise<void> {
+    const { price, currency = envs.defaultCurrency, sku, categoryIds, attributes } = createProductDto;
+    Money.fromMajor(price, currency);
+    await this.productCategories.assertExist(categoryIds);
+    await this.skuRegistry.assertFree(sku);
+    await this.productAttributes.assertValid(attributes ?? {}, categoryIds ?? []);
+  }
+
+  /**
+   * Applies an update to a product and checks the result. Attributes are only re-checked when they or the
+   * categories change, so unrelated updates are not rejected by schemas that changed since.
+   * @async
+   * @param {Product} product - The current product; its details are updated in place.
+   * @param {UpdateProductData} updateData - The requested changes.
+   * @returns {Promise<ProductUpdatePlan>} The changes to write.
+   * @throws {ProductDomainError} If the changes, categories or attributes are invalid.
+   * @throws {RpcException} 409 if the new SKU is taken.
+   */
+  async planUpdate(product: Product, updateData: UpdateProductData): Promise<ProductUpdatePlan> {
+    await this.productCategories.assertExist(updateData.categoryIds);
+    const plan = planProductUpdate(product, updateData);
+    await this.skuRegistry.assertFree(plan.changes.sku, product.id);
+    if (plan.changes.attributes !== undefined || plan.changes.categoryIds !== undefined) {
+      await this.productAttributes.assertValid(product.attributes, product.categoryIds);
+    }
+    return plan;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @file Application service attaching promotional prices to products returned by queries.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { Product } from '../../domain';
+import { PromotionPricingService, PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../promotions/domain';
+import { PricedProduct } from '../dto/priced-product.dto';
+import { ProductCategoriesService } from './product-categories.service';
+
+/**
+ * @class PromotionalPricingService
+ * @description Loads the promotions live for a set of products in one query and prices one unit of each.
+ * Rules that only pay off on larger quantities (buy-X-get-Y) do not change a single unit's price.
+ */
+@Injectable()
+export class PromotionalPricingService {
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   * @param {ProductCategoriesService} productCategories - Resolves the categories promotions can target.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+    private readonly productCategories: ProductCategoriesService,
+  ) {}
+
+  /**
+   * Attaches `effectivePrice` and `appliedPromotion` to each product.
+   * @async
+   * @param {Product[]} products - Products to price; `price` stays the list price.
+   * @param {Date} [at=new Date()] - Moment the prices apply at.
+   * @returns {Promise<PricedProduct[]>} The same products, in the same order.
+   */
+  async applyTo(products: Product[], at: Date = new Date()): Promise<PricedProduct[]> {
+    const lineages = await this.productCategories.lineages(products);
+    const categoryIds = Array.from(new Set(Array.from(lineages.values()).flat()));
+    const promotions = products.length > 0
+      ? await this.promotionRepository.findApplicable(products.map(p => p.id), categoryIds, at)
+      : [];
+
+    return products.map(product => {
+      const line = PromotionPricingService.priceLine(product.id, lineages.get(product.id), product.price, 1, promotions, at);
+      return Object.assign(product, {
+        effectivePrice: line.total,
+        appliedPromotion: line.promotion
+          ? { id: line.promotion.id, name: line.promotion.name, type: line.promotion.type }
+          : null,
+      });
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @file Application service keeping SKUs unique across products and their variants.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import {
+  ProductRepositoryPort, ProductVariantRepositoryPort, PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+} from '../../domain';
+
+/**
+ * @class SkuRegistry
+ * @description Products and variants are stored in separate tables, each with its own unique index, so
+ * neither index sees the other's SKUs. Every command that sets a SKU asks this service first.
+ */
+@Injectable()
+export class SkuRegistry {
+  /**
+   * @constructor
+   * @param {ProductRepositoryPort} productRepository - Injected product repository.
+   * @param {ProductVariantRepositoryPort} variantRepository - Injected variant repository.
+   */
+  constructor(
+    @Inject(PRODUCT_REPOSITORY_PORT)
+    private readonly productRepository: ProductRepositoryPort,
+    @Inject(PRODUCT_VARIANT_REPOSITORY_PORT)
+    private readonly variantRepository: ProductVariantRepositoryPort,
+  ) {}
+
+  /**
+   * Names the product or variant, available or not, that uses a SKU.
+   * @async
+   * @param {string} sku - The SKU.
+   * @param {string} [exceptId] - The product or variant being changed, which may keep its own SKU.
+   * @returns {Promise<string | null>} e.g. "product #id" or "variant #id", or null if the SKU is free.
+   */
+  async holderOf(sku: string, exceptId?: string): Promise<string | null> {
+    const product = await this.productRepository.findBySku(sku);
+    if (product && product.id !== exceptId) {
+      return `product #${product.id}`;
+    }
+    const variant = await this.variantRepository.findBySku(sku);
+    if (variant && variant.id !== exceptId) {
+      return `variant #${variant.id}`;
+    }
+    return null;
+  }
+
+  /**
+   * Checks that a SKU is free.
+   * @async
+   * @param {string | undefined} sku - The SKU; nothing to check if undefined.
+   * @param {string} [exceptId] - The product or variant being changed.
+   * @throws {RpcException} 409 if another product or variant uses the SKU.
+   */
+  async assertFree(sku: string | undefined, exceptId?: string): Promise<void> {
+    if (sku === undefined || sku === null) {
+      return;
+    }
+    const holder = await this.holderOf(sku, exceptId);
+    if (holder) {
+      throw new RpcException({ status: HttpStatus.CONFLICT, message: `SKU ${sku} is already used by ${holder}.` });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @file Helpers shared by the bulk product command handlers.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Product } from '../../domain/model/product.entity';
+import { ProductDomainError } from '../../domain/errors/product-domain.error';
+import { ProductVersionConflictError } from '../../domain/errors/product-version-conflict.error';
+import { BulkItemResultDto, BulkMode, BulkOperationResultDto } from '../dto/bulk-products.dto';
+
+/**
+ * @const {string} NOT_APPLIED_MESSAGE
+ * @description Reported for valid items of a transactional batch that was not applied.
+ */
+export const NOT_APPLIED_MESSAGE = 'Not applied: another item in the batch failed.';
+
+/**
+ * Whether the accepted items should be written: always in best-effort mode, only when every item was
+ * accepted in transactional mode.
+ * @param {BulkMode} mode - The batch mode.
+ * @param {number} acceptedCount - Number of items that passed validation.
+ * @param {number} totalCount - Number of items in the batch.
+ * @returns {boolean} True if the accepted items should be applied.
+ */
+export function shouldApplyBatch(mode: BulkMode, acceptedCount: number, totalCount: number): boolean {
+  if (acceptedCount === 0) {
+    return false;
+  }
+  return mode === 'best_effort' || acceptedCount === totalCount;
+}
+
+/**
+ * Writes the accepted items of a best-effort batch one at a time, each in its own unit of work, so that an item
+ * failing at write time (e.g. a SKU taken by a concurrent request, or a product changed since the checks) is
+ * reported at its index while the others are still written.
+ * @async
+ * @param {T[]} accepted - The accepted items, with their positions.
+ * @param {BulkItemResultDto[]} results - Results indexed by item position, filled in place.
+ * @param {(item: T) => Promise<Product>} write - Writes one item in its own unit of work.
+ * @param {Logger} logger - Logs the failures.
+ * @returns {Promise<void>}
+ */
+export async function applyEach<T extends { index: number }>(
+  accepted: T[],
+  results: BulkItemResultDto[],
+  write: (item: T) => Promise<Product>,
+  logger: Logger,
+): Promise<void> {
+  for (const item of accepted) {
+    const { index } = item;
+    try {
+      const product = await write(item);
+      results[index] = { index, success: true, id: product.id, product };
+    } catch (error: any) {
+      logger.warn(`Bulk item ${index} failed: ${error?.message}`, error?.stack);
+      results[index] = { index, success: false, errors: [writeFailureMessage(error)] };
+    }
+  }
+}
+
+/**
+ * Describes why an item could not be written, without exposing unexpected internal errors.
+ * @param {unknown} error - What the write threw.
+ * @returns {string} The message reported for the item.
+ */
+function writeFailureMessage(error: unknown): string {
+  if (error instanceof ProductDomainError || error instanceof ProductVersionConflictError) {
+    return error.message;
+  }
+  if (error instanceof RpcException) {
+    const rpcError = error.getError();
+    return typeof rpcError === 'string' ? rpcError : String((rpcError as { message?: unknown }).message ?? 'Could not be written.');
+  }
+  return 'Could not be written.';
+}
+
+/**
+ * Assembles the response of a bulk command. Items without a result are reported as not applied.
+ * @param {BulkMode} mode - The batch mode.
+ * @param {number} totalCount - Number of items in the batch.
+ * @param {BulkItemResultDto[]} results - Results indexed by item position (sparse).
+ * @returns {BulkOperationResultDto} The response.
+ */
+export function toBulkResult(mode: BulkMode, totalCount: number, results: BulkItemResultDto[]): BulkOperationResultDto {
+  const items = Array.from({ length: totalCount }, (_, index) =>
+    results[index] ?? { index, success: false, errors: [NOT_APPLIED_MESSAGE] });
+  const succeeded = items.filter(item => item.success).length;
+  return { mode, succeeded, failed: totalCount - succeeded, items };
+}
@@ -0,0 +1,9 @@
+export * from './product-cursor';
+export * from './product-availability';
+export * from './version-conflict';
+export * from './product-update-plan';
+export * from './item-validation';
+export * from './bulk-result';
+export * from './product-variant-view';
+export * from './product-media';
+export * from './product-stock-events';
@@ -0,0 +1,49 @@
+/**
+ * @file Validates the items of a bulk request one by one.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+
+/**
+ * @interface ItemValidationResult
+ * @description A validated item (`value`), or the reasons it is invalid (`errors`).
+ */
+export interface ItemValidationResult<T> {
+  value?: T;
+  errors?: string[];
+}
+
+/**
+ * Flattens class-validator errors into messages, prefixing nested properties with their path.
+ * @param {ValidationError[]} errors - The validation errors.
+ * @param {string} [parentPath] - Path of the enclosing property.
+ * @returns {string[]} One message per violated constraint.
+ */
+function toMessages(errors: ValidationError[], parentPath?: string): string[] {
+  return errors.flatMap(error => {
+    const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = Object.values(error.constraints ?? {}).map(message =>
+      parentPath ? `${parentPath}.${message}` : message);
+    return [...own, ...toMessages(error.children ?? [], path)];
+  });
+}
+
+/**
+ * Validates one item against a DTO class with the same options as the global ValidationPipe, so an item
+ * is accepted in a bulk request exactly when it would be accepted on its own.
+ * @param {ClassConstructor<T>} dtoClass - The DTO class.
+ * @param {unknown} item - The raw item.
+ * @returns {ItemValidationResult<T>} The transformed DTO, or the validation messages.
+ */
+export function validateItem<T extends object>(dtoClass: ClassConstructor<T>, item: unknown): ItemValidationResult<T> {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    return { errors: ['item must be an object'] };
+  }
+  const value = plainToInstance(dtoClass, item, { enableImplicitConversion: true });
+  const errors = validateSync(value, { whitelist: true, forbidNonWhitelisted: true });
+  return errors.length > 0 ? { errors: toMessages(errors) } : { value };
+}
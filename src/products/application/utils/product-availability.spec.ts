@@ -0,0 +1,37 @@
+/**
+ * @file Tests of the listing availability flags.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { RpcException } from '@nestjs/microservices';
+import { RequestContext } from '../../../shared/application';
+import { assertMayListUnavailable } from './product-availability';
+
+describe('assertMayListUnavailable', () => {
+  /**
+   * Builds the context of a caller with the given roles.
+   * @param {string[] | null} roles - The caller's roles, null for a trusted caller.
+   * @returns {RequestContext} The context.
+   */
+  function callerWith(roles: string[] | null): RequestContext {
+    return { actor: 'svc', correlationId: 'c-1', tenantId: 'acme', roles };
+  }
+
+  it('lets any caller list available products', () => {
+    expect(() => assertMayListUnavailable(callerWith(['catalog:read']), {})).not.toThrow();
+  });
+
+  it('requires catalog:admin for unavailable products', () => {
+    expect(() => assertMayListUnavailable(callerWith(['catalog:read']), { includeUnavailable: true }))
+      .toThrow(RpcException);
+    expect(() => assertMayListUnavailable(callerWith(['catalog:read']), { onlyUnavailable: true }))
+      .toThrow(RpcException);
+    expect(() => assertMayListUnavailable(callerWith(['catalog:admin']), { onlyUnavailable: true })).not.toThrow();
+  });
+
+  it('trusts callers without a token, such as the CLI', () => {
+    expect(() => assertMayListUnavailable(callerWith(null), { includeUnavailable: true })).not.toThrow();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @file Maps the listing availability flags to a repository filter and checks who may use them.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductAvailabilityFilter } from '../../domain/ports/product.repository.port';
+import { callerHasRole, RequestContext } from '../../../shared/application';
+import { CATALOG_ADMIN } from '../../../shared/infrastructure/auth/roles';
+
+/**
+ * Resolves `includeUnavailable` / `onlyUnavailable` into an availability filter.
+ * `onlyUnavailable` takes precedence; without either flag only available products are listed.
+ * @param {{ includeUnavailable?: boolean; onlyUnavailable?: boolean }} flags - Listing flags from the request.
+ * @returns {ProductAvailabilityFilter} The filter for the repository.
+ */
+export function toAvailabilityFilter(flags: { includeUnavailable?: boolean; onlyUnavailable?: boolean }): ProductAvailabilityFilter {
+  if (flags.onlyUnavailable) {
+    return 'unavailable';
+  }
+  return flags.includeUnavailable ? 'all' : 'available';
+}
+
+/**
+ * Checks that the caller may list unavailable products, which takes the `catalog:admin` role.
+ * @param {RequestContext} context - The context of the request.
+ * @param {{ includeUnavailable?: boolean; onlyUnavailable?: boolean }} flags - Listing flags from the request.
+ * @throws {RpcException} 403 if unavailable products are asked for without the role.
+ */
+export function assertMayListUnavailable(
+  context: RequestContext,
+  flags: { includeUnavailable?: boolean; onlyUnavailable?: boolean },
+): void {
+  if (toAvailabilityFilter(flags) !== 'available' && !callerHasRole(context, CATALOG_ADMIN)) {
+    throw new RpcException({
+      status: HttpStatus.FORBIDDEN,
+      message: `Listing unavailable products requires the role ${CATALOG_ADMIN}.`,
+    });
+  }
+}
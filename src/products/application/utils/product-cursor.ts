@@ -0,0 +1,37 @@
+/**
+ * @file Encoding and decoding of opaque product listing cursors.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductCursorKey } from '../../domain/ports/product.repository.port';
+
+/**
+ * Encodes a keyset position as an opaque, URL-safe cursor string.
+ * @param {ProductCursorKey} key - The (createdAt, id) position of the last returned product.
+ * @returns {string} The opaque cursor.
+ */
+export function encodeProductCursor(key: ProductCursorKey): string {
+  const payload = JSON.stringify({ c: key.createdAt.toISOString(), i: key.id });
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor back into a keyset position.
+ * @param {string} cursor - The cursor previously returned as `nextCursor`.
+ * @returns {ProductCursorKey} The decoded (createdAt, id) position.
+ * @throws {Error} If the cursor is malformed.
+ */
+export function decodeProductCursor(cursor: string): ProductCursorKey {
+  try {
+    const { c, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const createdAt = new Date(c);
+    if (typeof i !== 'string' || !i || isNaN(createdAt.getTime())) {
+      throw new Error('Invalid cursor contents');
+    }
+    return { createdAt, id: i };
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Presents the media of products in listings.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product, ProductMedia } from '../../domain';
+
+/**
+ * Attaches `primaryImage` to each product.
+ * @template T
+ * @param {T[]} products - The listed products.
+ * @returns {Array<T & { primaryImage: ProductMedia | null }>} The same products, in the same order.
+ */
+export function withPrimaryImage<T extends Product>(products: T[]): Array<T & { primaryImage: ProductMedia | null }> {
+  return products.map(product => Object.assign(product, { primaryImage: product.findPrimaryImage() }));
+}
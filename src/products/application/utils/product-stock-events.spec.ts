@@ -0,0 +1,27 @@
+/**
+ * @file Tests of the stock change events.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money, Product } from '../../domain';
+import { stockUpdateEvents } from './product-stock-events';
+
+describe('stockUpdateEvents', () => {
+  const lamp = new Product('lamp-1', 'Lamp', Money.of(1000, 'USD'), true, 3, 2);
+  const desk = new Product('desk-1', 'Desk', Money.of(3000, 'USD'), true, 7, 1);
+
+  it('announces the stock before and after each change', () => {
+    const events = stockUpdateEvents([lamp, desk], new Map([['lamp-1', -2], ['desk-1', 4]]));
+
+    expect(events.map(event => [event.productId, event.version, event.changes])).toEqual([
+      ['lamp-1', 2, { stock: { previous: 5, current: 3 } }],
+      ['desk-1', 1, { stock: { previous: 3, current: 7 } }],
+    ]);
+  });
+
+  it('skips products whose stock did not move', () => {
+    expect(stockUpdateEvents([lamp, desk], new Map([['lamp-1', 0]]))).toEqual([]);
+  });
+});
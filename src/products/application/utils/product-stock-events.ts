@@ -0,0 +1,22 @@
+/**
+ * @file Builds the events announcing stock changes.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product, ProductUpdatedEvent } from '../../domain';
+
+/**
+ * Builds a ProductUpdated event with the `stock` change of each product whose stock moved.
+ * @param {Product[]} products - The products as written.
+ * @param {ReadonlyMap<string, number>} deltas - The stock change of each product, by product ID.
+ * @returns {ProductUpdatedEvent[]} One event per product with a non-zero delta.
+ */
+export function stockUpdateEvents(products: Product[], deltas: ReadonlyMap<string, number>): ProductUpdatedEvent[] {
+  return products
+    .filter(product => (deltas.get(product.id) ?? 0) !== 0)
+    .map(product => new ProductUpdatedEvent(product.tenantId, product.id, product.version, {
+      stock: { previous: product.stock - deltas.get(product.id)!, current: product.stock },
+    }));
+}
@@ -0,0 +1,139 @@
+/**
+ * @file Turns an update request into the changes to write and the events they raise.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import {
+  Money, Product, ProductAttributes, ProductDomainError, ProductEvent, ProductFieldChanges, ProductPriceChangedEvent, ProductUpdateData,
+  ProductUpdatedEvent,
+} from '../../domain';
+import { UpdateProductData } from '../dto/update-product.dto';
+
+/**
+ * @interface ProductUpdatePlan
+ * @description What an update will write, plus the values it replaces.
+ */
+export interface ProductUpdatePlan {
+  changes: ProductUpdateData;
+  previousName: string;
+  previousPrice: Money;
+  previousSku: string | null;
+  previousCategoryIds: string[];
+  previousAttributes: ProductAttributes;
+  previousDescription: string | null;
+  previousTags: string[];
+}
+
+/**
+ * Applies an update request to a product and keeps only what really changes. The product's currency is kept
+ * unless a new one is given alongside the price.
+ * @param {Product} product - The current product; its details are updated in place.
+ * @param {UpdateProductData} updateData - The requested changes.
+ * @returns {ProductUpdatePlan} The changes to write; empty if the request changes nothing.
+ * @throws {ProductDomainError} If the request is invalid or would break a product invariant.
+ */
+export function planProductUpdate(product: Product, updateData: UpdateProductData): ProductUpdatePlan {
+  const { name, price, currency, sku, categoryIds, attributes, description, tags } = updateData;
+  if (currency !== undefined && price === undefined) {
+    throw new ProductDomainError('currency can only be changed together with price');
+  }
+
+  const changes: ProductUpdateData = {};
+  if (name !== undefined) changes.name = name;
+  if (price !== undefined) {
+    const newPrice = Money.fromMajor(price, currency ?? product.price.currency);
+    // Only a real change is written to the price history
+    if (!newPrice.equals(product.price)) changes.price = newPrice;
+  }
+  const {
+    name: previousName, price: previousPrice, sku: previousSku, categoryIds: previousCategoryIds, attributes: previousAttributes,
+    description: previousDescription, tags: previousTags,
+  } = product;
+  product.updateDetails(changes.name, changes.price);
+  if (changes.name !== undefined) changes.name = product.name;
+  if (changes.name === previousName) delete changes.name;
+  if (sku !== undefined) {
+    product.changeSku(sku ?? null);
+    if (product.sku !== previousSku) changes.sku = product.sku;
+  }
+  if (categoryIds !== undefined) {
+    product.assignCategories(categoryIds);
+    // Assignments are a set; a reordered list is not a change
+    if (!sameMembers(product.categoryIds, previousCategoryIds)) changes.categoryIds = product.categoryIds;
+  }
+  if (attributes !== undefined) {
+    product.setAttributes(attributes);
+    if (canonicalJson(product.attributes) !== canonicalJson(previousAttributes)) changes.attributes = product.attributes;
+  }
+  if (description !== undefined) {
+    product.describe(description ?? null);
+    if (product.description !== previousDescription) changes.description = product.description;
+  }
+  if (tags !== undefined) {
+    product.setTags(tags);
+    // Tag order is kept, so a reordered list is a change
+    if (JSON.stringify(product.tags) !== JSON.stringify(previousTags)) changes.tags = product.tags;
+  }
+
+  return {
+    changes, previousName, previousPrice, previousSku, previousCategoryIds, previousAttributes, previousDescription, previousTags,
+  };
+}
+
+/**
+ * Builds ProductUpdated for the changed fields and, when the price changed, ProductPriceChanged.
+ * @param {Product} product - The updated product.
+ * @param {ProductUpdatePlan} plan - The plan that was written.
+ * @returns {ProductEvent[]} The events to record; empty if nothing was written.
+ */
+export function productUpdateEvents(product: Product, plan: ProductUpdatePlan): ProductEvent[] {
+  const {
+    changes, previousName, previousPrice, previousSku, previousCategoryIds, previousAttributes, previousDescription, previousTags,
+  } = plan;
+  const fieldChanges: ProductFieldChanges = {};
+  if (changes.name !== undefined) fieldChanges.name = { previous: previousName, current: product.name };
+  if (changes.price !== undefined) fieldChanges.price = { previous: previousPrice, current: product.price };
+  if (changes.sku !== undefined) fieldChanges.sku = { previous: previousSku, current: product.sku };
+  if (changes.categoryIds !== undefined) {
+    fieldChanges.categoryIds = { previous: previousCategoryIds, current: product.categoryIds };
+  }
+  if (changes.attributes !== undefined) {
+    fieldChanges.attributes = { previous: previousAttributes, current: product.attributes };
+  }
+  if (changes.description !== undefined) {
+    fieldChanges.description = { previous: previousDescription, current: product.description };
+  }
+  if (changes.tags !== undefined) fieldChanges.tags = { previous: previousTags, current: product.tags };
+  if (Object.keys(fieldChanges).length === 0) {
+    return []; // Nothing was written
+  }
+
+  const events: ProductEvent[] = [new ProductUpdatedEvent(product.tenantId, product.id, product.version, fieldChanges)];
+  if (changes.price !== undefined) {
+    events.push(new ProductPriceChangedEvent(product.tenantId, product.id, product.version, previousPrice, product.price));
+  }
+  return events;
+}
+
+/**
+ * Compares two ID lists ignoring order.
+ * @param {string[]} a - First list, without duplicates.
+ * @param {string[]} b - Second list, without duplicates.
+ * @returns {boolean} True if both hold the same IDs.
+ */
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(id => b.includes(id));
+}
+
+/**
+ * Serializes a JSON value with object keys sorted, so maps that differ only in key order compare equal.
+ * @param {unknown} value - A JSON value.
+ * @returns {string} The canonical JSON text.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => nested && typeof nested === 'object' && !Array.isArray(nested)
+    ? Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]))
+    : nested);
+}
@@ -0,0 +1,48 @@
+/**
+ * @file Presents variants together with their parent product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product, ProductVariant } from '../../domain';
+import { ProductVariantView } from '../dto/product-variant-view.dto';
+
+/**
+ * Builds what a buyer sees of a variant. The name lists the option values after the product name,
+ * e.g. "T-shirt (M / red)".
+ * @param {ProductVariant} variant - The variant.
+ * @param {Product} product - Its parent product.
+ * @returns {ProductVariantView} The view.
+ */
+export function toVariantView(variant: ProductVariant, product: Product): ProductVariantView {
+  const values = Object.values(variant.options);
+  return {
+    id: variant.id,
+    productId: product.id,
+    sku: variant.sku,
+    name: values.length > 0 ? `${product.name} (${values.join(' / ')})` : product.name,
+    options: variant.options,
+    price: variant.priceWithin(product),
+    priceOverride: variant.priceOverride,
+    available: variant.isSellableWithin(product),
+  };
+}
+
+/**
+ * Copies the stored fields of a variant as plain JSON values, for the audit log.
+ * @param {ProductVariant | null} variant - The variant, or null when it does not exist.
+ * @returns {Record<string, unknown> | null} The snapshot.
+ */
+export function snapshotVariant(variant: ProductVariant | null): Record<string, unknown> | null {
+  if (!variant) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify({
+    id: variant.id,
+    sku: variant.sku,
+    options: variant.options,
+    priceOverride: variant.priceOverride,
+    available: variant.available,
+  }));
+}
@@ -0,0 +1,23 @@
+/**
+ * @file Maps a product version conflict to the RPC error returned to clients.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductVersionConflictError } from '../../domain/errors/product-version-conflict.error';
+
+/**
+ * Builds the 409 response for a stale write. `details.currentVersion` lets the client reload and retry.
+ * @param {ProductVersionConflictError} error - The domain conflict.
+ * @returns {RpcException} The exception to throw.
+ */
+export function toVersionConflictException(error: ProductVersionConflictError): RpcException {
+  return new RpcException({
+    status: HttpStatus.CONFLICT,
+    message: error.message,
+    details: { productId: error.productId, expectedVersion: error.expectedVersion, currentVersion: error.currentVersion },
+  });
+}
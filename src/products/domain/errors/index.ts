@@ -0,0 +1,2 @@
+export * from './product-domain.error';
+export * from './product-version-conflict.error';
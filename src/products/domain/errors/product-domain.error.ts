@@ -0,0 +1,23 @@
+/**
+ * @file Defines the error raised when a Product invariant is violated.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ProductDomainError
+ * @extends Error
+ * @description Signals that an operation would leave a product in an invalid state.
+ * Application handlers translate it into a client error.
+ */
+export class ProductDomainError extends Error {
+  /**
+   * @constructor
+   * @param {string} message - Description of the violated rule.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = ProductDomainError.name;
+  }
+}
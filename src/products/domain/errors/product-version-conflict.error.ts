@@ -0,0 +1,29 @@
+/**
+ * @file Defines the error raised when a product changed since the caller read it.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ProductVersionConflictError
+ * @extends Error
+ * @description Signals that a write carried an expected version that no longer matches the stored one.
+ * Application handlers translate it into a 409 conflict carrying the current version.
+ */
+export class ProductVersionConflictError extends Error {
+  /**
+   * @constructor
+   * @param {string} productId - The product being written.
+   * @param {number} expectedVersion - Version the caller based the change on.
+   * @param {number} currentVersion - Version currently stored.
+   */
+  constructor(
+    public readonly productId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number,
+  ) {
+    super(`Product #${productId} was modified concurrently: expected version ${expectedVersion}, current version is ${currentVersion}.`);
+    this.name = ProductVersionConflictError.name;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './product.event';
+export * from './product-created.event';
+export * from './product-updated.event';
+export * from './product-deleted.event';
+export * from './product-price-changed.event';
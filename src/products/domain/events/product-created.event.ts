@@ -0,0 +1,31 @@
+/**
+ * @file Defines the event raised when a product is created.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Product } from '../model/product.entity';
+import { ProductEvent } from './product.event';
+
+/**
+ * @class ProductCreatedEvent
+ * @extends ProductEvent
+ * @description A product was created. Carries its full initial state.
+ */
+export class ProductCreatedEvent extends ProductEvent {
+  public readonly eventType = 'ProductCreated';
+
+  /**
+   * @constructor
+   * @param {Product} product - The created product.
+   */
+  constructor(public readonly product: Product) {
+    super(product.tenantId, product.id, product.version);
+  }
+
+  public payload(): Record<string, unknown> {
+    const { sku, name, description, tags, price, available, stock, categoryIds, attributes } = this.product;
+    return { sku, name, description, tags, price, available, stock, categoryIds, attributes };
+  }
+}
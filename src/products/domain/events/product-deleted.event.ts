@@ -0,0 +1,21 @@
+/**
+ * @file Defines the event raised when a product is soft-deleted.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductEvent } from './product.event';
+
+/**
+ * @class ProductDeletedEvent
+ * @extends ProductEvent
+ * @description A product was marked as unavailable.
+ */
+export class ProductDeletedEvent extends ProductEvent {
+  public readonly eventType = 'ProductDeleted';
+
+  public payload(): Record<string, unknown> {
+    return {};
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file Defines the event raised when a product's list price changes.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from '../model/money.value-object';
+import { ProductEvent } from './product.event';
+
+/**
+ * @class ProductPriceChangedEvent
+ * @extends ProductEvent
+ * @description A product's list price changed, through an update or a scheduled price coming into effect.
+ */
+export class ProductPriceChangedEvent extends ProductEvent {
+  public readonly eventType = 'ProductPriceChanged';
+
+  /**
+   * @constructor
+   * @param {string | null} tenantId - The storefront owning the product.
+   * @param {string} productId - The product.
+   * @param {number} version - Aggregate version after the change.
+   * @param {Money} previousPrice - The price before the change.
+   * @param {Money} price - The new price.
+   */
+  constructor(
+    tenantId: string | null,
+    productId: string,
+    version: number,
+    public readonly previousPrice: Money,
+    public readonly price: Money,
+  ) {
+    super(tenantId, productId, version);
+  }
+
+  public payload(): Record<string, unknown> {
+    return { previousPrice: this.previousPrice, price: this.price };
+  }
+}
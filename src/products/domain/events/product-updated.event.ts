@@ -0,0 +1,52 @@
+/**
+ * @file Defines the event raised when product fields change.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductEvent } from './product.event';
+
+/**
+ * @interface FieldChange
+ * @description Value of a field before and after a change.
+ */
+export interface FieldChange<T = unknown> {
+  previous: T;
+  current: T;
+}
+
+/**
+ * @type ProductFieldChanges
+ * @description Changed fields keyed by name, e.g. `{ name: { previous: 'A', current: 'B' } }`.
+ */
+export type ProductFieldChanges = Record<string, FieldChange>;
+
+/**
+ * @class ProductUpdatedEvent
+ * @extends ProductEvent
+ * @description Product fields changed. Only the fields that actually changed are listed.
+ */
+export class ProductUpdatedEvent extends ProductEvent {
+  public readonly eventType = 'ProductUpdated';
+
+  /**
+   * @constructor
+   * @param {string | null} tenantId - The storefront owning the product.
+   * @param {string} productId - The product.
+   * @param {number} version - Aggregate version after the change.
+   * @param {ProductFieldChanges} changes - The changed fields.
+   */
+  constructor(
+    tenantId: string | null,
+    productId: string,
+    version: number,
+    public readonly changes: ProductFieldChanges,
+  ) {
+    super(tenantId, productId, version);
+  }
+
+  public payload(): Record<string, unknown> {
+    return { changes: this.changes };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file Defines the base class of product domain events.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class ProductEvent
+ * @abstract
+ * @description Something that happened to a product. `version` is the aggregate version right after the change,
+ * so consumers can order events per product and ignore ones they have already applied.
+ */
+export abstract class ProductEvent {
+  /**
+   * @property {string} eventType - Stable name of the event, e.g. 'ProductCreated'.
+   */
+  public abstract readonly eventType: string;
+
+  /**
+   * @constructor
+   * @param {string | null} tenantId - The storefront owning the product.
+   * @param {string} productId - The product the event is about.
+   * @param {number} version - Aggregate version after the change.
+   * @param {Date} [occurredAt=new Date()] - When the change happened.
+   */
+  constructor(
+    public readonly tenantId: string | null,
+    public readonly productId: string,
+    public readonly version: number,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+
+  /**
+   * @method payload
+   * @description Event-specific data, without the identifying fields above.
+   * @returns {Record<string, unknown>}
+   */
+  public abstract payload(): Record<string, unknown>;
+}
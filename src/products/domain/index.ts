@@ -1,2 +1,18 @@
+export * from './errors';
+export * from './events';
+export * from './model/money.value-object';
 export * from './model/product.entity';
-export * from './ports/product.repository.port';
\ No newline at end of file
+export * from './model/product-price.entity';
+export * from './model/product-option.value-object';
+export * from './model/product-translation.value-object';
+export * from './model/product-media.entity';
+export * from './model/product-variant.entity';
+export * from './model/product-audit-entry.entity';
+export * from './model/stock-movement.entity';
+export * from './model/stock-reservation.entity';
+export * from './ports/product.repository.port';
+export * from './ports/product-event-outbox.port';
+export * from './ports/product-audit-log.repository.port';
+export * from './ports/stock-reservation.repository.port';
+export * from './ports/product-variant.repository.port';
+export * from './services/quote-pricing.service';
@@ -0,0 +1,86 @@
+/**
+ * @file Tests of the Money value object.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from './money.value-object';
+import { ProductDomainError } from '../errors/product-domain.error';
+
+describe('Money', () => {
+  describe('of', () => {
+    it('normalizes the currency code', () => {
+      expect(Money.of(1999, ' usd ')).toEqual(Money.of(1999, 'USD'));
+    });
+
+    it.each([19.99, Number.NaN, Number.MAX_SAFE_INTEGER + 1])('rejects %p minor units', (amount) => {
+      expect(() => Money.of(amount, 'USD')).toThrow(ProductDomainError);
+    });
+
+    it.each(['', 'US', 'USDT', '12$'])('rejects the currency code %p', (currency) => {
+      expect(() => Money.of(100, currency)).toThrow('Invalid ISO 4217 currency code');
+    });
+  });
+
+  describe('fromMajor', () => {
+    it('scales by the decimal places of the currency', () => {
+      expect(Money.fromMajor(19.99, 'USD').amount).toBe(1999);
+      expect(Money.fromMajor(1500, 'JPY').amount).toBe(1500);
+      expect(Money.fromMajor(1.234, 'KWD').amount).toBe(1234);
+    });
+
+    it('tolerates binary floating point noise', () => {
+      expect(Money.fromMajor(1.1, 'USD').amount).toBe(110);
+      expect(Money.fromMajor(0.29, 'EUR').amount).toBe(29);
+    });
+
+    it('rejects more decimals than the currency allows', () => {
+      expect(() => Money.fromMajor(19.999, 'USD')).toThrow('more decimal places than USD allows (2)');
+      expect(() => Money.fromMajor(10.5, 'JPY')).toThrow(ProductDomainError);
+      expect(() => Money.fromMajor(Number.POSITIVE_INFINITY, 'USD')).toThrow(ProductDomainError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    const ten = Money.of(1000, 'USD');
+
+    it('adds, subtracts and multiplies by whole quantities', () => {
+      expect(ten.add(Money.of(250, 'USD'))).toEqual(Money.of(1250, 'USD'));
+      expect(ten.subtract(Money.of(1250, 'USD'))).toEqual(Money.of(-250, 'USD'));
+      expect(ten.multiply(3)).toEqual(Money.of(3000, 'USD'));
+      expect(() => ten.multiply(1.5)).toThrow(ProductDomainError);
+    });
+
+    it('rejects combining or comparing different currencies', () => {
+      const euros = Money.of(1000, 'EUR');
+
+      expect(() => ten.add(euros)).toThrow('Cannot combine USD with EUR.');
+      expect(() => ten.compareTo(euros)).toThrow(ProductDomainError);
+      expect(ten.equals(euros)).toBe(false);
+    });
+
+    it('compares amounts of the same currency', () => {
+      expect(ten.compareTo(Money.of(999, 'USD'))).toBeGreaterThan(0);
+      expect(ten.compareTo(Money.of(1000, 'USD'))).toBe(0);
+      expect(ten.equals(Money.of(1000, 'usd'))).toBe(true);
+      expect(Money.of(-1, 'USD').isNegative()).toBe(true);
+    });
+  });
+
+  describe('formatting', () => {
+    it.each([
+      [1999, 'USD', '19.99'],
+      [5, 'USD', '0.05'],
+      [-250, 'EUR', '-2.50'],
+      [1500, 'JPY', '1500'],
+      [1234, 'BHD', '1.234'],
+    ])('formats %p %s as %s', (amount, currency, formatted) => {
+      expect(Money.of(amount, currency).toDecimalString()).toBe(formatted);
+    });
+
+    it('serializes with the amount, currency and formatted value', () => {
+      expect(JSON.parse(JSON.stringify(Money.of(1999, 'USD')))).toEqual({ amount: 1999, currency: 'USD', formatted: '19.99' });
+    });
+  });
+});
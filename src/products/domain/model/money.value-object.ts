@@ -0,0 +1,215 @@
+/**
+ * @file Defines the Money value object used for exact, currency-aware pricing.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * @const {Record<string, number>} CURRENCY_EXPONENTS
+ * @description ISO 4217 currencies whose minor unit is not cents. Every other currency uses 2 decimals.
+ */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BHD: 3, CLP: 0, ISK: 0, JOD: 3, JPY: 0, KRW: 0, KWD: 3, OMR: 3, PYG: 0, TND: 3, UGX: 0, VND: 0,
+};
+
+/**
+ * @interface MoneyJson
+ * @description Serialized form of a Money value in responses.
+ */
+export interface MoneyJson {
+  amount: number;
+  currency: string;
+  formatted: string;
+}
+
+/**
+ * @class Money
+ * @description An immutable amount in integer minor units (e.g. cents) of an ISO 4217 currency.
+ * Arithmetic between different currencies is rejected.
+ */
+export class Money {
+  /**
+   * @constructor
+   * @private
+   * @param {number} amount - Amount in minor units.
+   * @param {string} currency - ISO 4217 currency code.
+   */
+  private constructor(
+    public readonly amount: number,
+    public readonly currency: string,
+  ) {}
+
+  /**
+   * @method of
+   * @description Creates a Money value from an amount in minor units.
+   * @static
+   * @param {number} amount - Amount in minor units (integer).
+   * @param {string} currency - ISO 4217 currency code.
+   * @returns {Money}
+   * @throws {ProductDomainError} If the amount is not an integer or the currency code is malformed.
+   */
+  public static of(amount: number, currency: string): Money {
+    if (!Number.isSafeInteger(amount)) {
+      throw new ProductDomainError(`Money amount must be a whole number of minor units, got ${amount}.`);
+    }
+    const code = Money.normalizeCurrency(currency);
+    return new Money(amount, code);
+  }
+
+  /**
+   * @method fromMajor
+   * @description Creates a Money value from a decimal amount in major units (e.g. 19.99 USD).
+   * @static
+   * @param {number} major - Amount in major units.
+   * @param {string} currency - ISO 4217 currency code.
+   * @returns {Money}
+   * @throws {ProductDomainError} If the amount has more decimals than the currency allows.
+   */
+  public static fromMajor(major: number, currency: string): Money {
+    const code = Money.normalizeCurrency(currency);
+    const scaled = major * 10 ** Money.exponentOf(code);
+    const amount = Math.round(scaled);
+    // Tolerate binary floating point noise (e.g. 1.1 * 100 = 110.00000000000001)
+    if (!Number.isFinite(scaled) || Math.abs(scaled - amount) > 1e-6) {
+      throw new ProductDomainError(`${major} has more decimal places than ${code} allows (${Money.exponentOf(code)}).`);
+    }
+    return Money.of(amount, code);
+  }
+
+  /**
+   * @method zero
+   * @description Creates a zero amount in the given currency.
+   * @static
+   * @param {string} currency - ISO 4217 currency code.
+   * @returns {Money}
+   */
+  public static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * @method exponentOf
+   * @description Number of decimal places of a currency's minor unit.
+   * @static
+   * @param {string} currency - ISO 4217 currency code.
+   * @returns {number}
+   */
+  public static exponentOf(currency: string): number {
+    return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+  }
+
+  /**
+   * @method normalizeCurrency
+   * @description Upper-cases and validates a currency code.
+   * @private
+   * @static
+   * @param {string} currency - ISO 4217 currency code.
+   * @returns {string}
+   */
+  private static normalizeCurrency(currency: string): string {
+    const code = (currency ?? '').trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new ProductDomainError(`Invalid ISO 4217 currency code: "${currency}".`);
+    }
+    return code;
+  }
+
+  /**
+   * @method assertSameCurrency
+   * @description Rejects arithmetic or comparison across currencies.
+   * @private
+   * @param {Money} other - The other operand.
+   */
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new ProductDomainError(`Cannot combine ${this.currency} with ${other.currency}.`);
+    }
+  }
+
+  /**
+   * @method add
+   * @param {Money} other - Amount to add (same currency).
+   * @returns {Money} The sum.
+   */
+  public add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount + other.amount, this.currency);
+  }
+
+  /**
+   * @method subtract
+   * @param {Money} other - Amount to subtract (same currency).
+   * @returns {Money} The difference.
+   */
+  public subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.amount - other.amount, this.currency);
+  }
+
+  /**
+   * @method multiply
+   * @description Multiplies by a whole quantity, e.g. unit price times line quantity.
+   * @param {number} quantity - Integer multiplier.
+   * @returns {Money} The product.
+   */
+  public multiply(quantity: number): Money {
+    if (!Number.isInteger(quantity)) {
+      throw new ProductDomainError(`Money can only be multiplied by a whole quantity, got ${quantity}.`);
+    }
+    return Money.of(this.amount * quantity, this.currency);
+  }
+
+  /**
+   * @method isNegative
+   * @returns {boolean} Whether the amount is below zero.
+   */
+  public isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  /**
+   * @method compareTo
+   * @param {Money} other - Amount to compare with (same currency).
+   * @returns {number} Negative, zero or positive as this is less than, equal to or greater than other.
+   */
+  public compareTo(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.amount - other.amount;
+  }
+
+  /**
+   * @method equals
+   * @param {Money} other - Amount to compare with.
+   * @returns {boolean} Whether both amount and currency match.
+   */
+  public equals(other: Money): boolean {
+    return !!other && this.currency === other.currency && this.amount === other.amount;
+  }
+
+  /**
+   * @method toDecimalString
+   * @description Formats the amount in major units with the currency's decimal places, e.g. "19.99".
+   * @returns {string}
+   */
+  public toDecimalString(): string {
+    const exponent = Money.exponentOf(this.currency);
+    const sign = this.amount < 0 ? '-' : '';
+    const digits = Math.abs(this.amount).toString().padStart(exponent + 1, '0');
+    if (exponent === 0) {
+      return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+  }
+
+  /**
+   * @method toJSON
+   * @description Serialized form used in every response.
+   * @returns {MoneyJson}
+   */
+  public toJSON(): MoneyJson {
+    return { amount: this.amount, currency: this.currency, formatted: this.toDecimalString() };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @file Defines the ProductAuditEntry entity, a record of who changed a product and how.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductFieldChanges } from '../events/product-updated.event';
+
+/**
+ * @const {string[]} PRODUCT_AUDIT_ACTIONS
+ * @description Audited actions, named after the message pattern or worker that performed them.
+ */
+export const PRODUCT_AUDIT_ACTIONS = [
+  'create_product',
+  'update_product',
+  'delete_product',
+  'restore_product',
+  'bulk_create_products',
+  'bulk_update_products',
+  'bulk_delete_products',
+  'adjust_stock',
+  'set_stock',
+  'reserve_products',
+  'confirm_reservation',
+  'release_reservation',
+  'expire_reservation',
+  'schedule_price_change',
+  'apply_scheduled_price',
+  'set_product_options',
+  'create_product_variant',
+  'update_product_variant',
+  'delete_product_variant',
+  'set_product_translation',
+  'remove_product_translation',
+  'add_product_media',
+  'reorder_product_media',
+  'remove_product_media',
+  'delete_category',
+] as const;
+export type ProductAuditAction = typeof PRODUCT_AUDIT_ACTIONS[number];
+
+/**
+ * @class ProductAuditEntry
+ * @description One product changed by one command. `changes` lists the fields whose value differs
+ * before and after the command; commands that leave a product's fields as they were add no entry for it.
+ */
+export class ProductAuditEntry {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the entry (UUID).
+   * @param {string} productId - The product.
+   * @param {ProductAuditAction} action - What was done.
+   * @param {string | null} actor - Who did it, from the `Actor-Id` header; null if unknown.
+   * @param {string | null} correlationId - Correlation ID of the request; shared by every entry it produced.
+   * @param {ProductFieldChanges} changes - Field values before and after.
+   * @param {Date} occurredAt - When it was done.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly productId: string,
+    public readonly action: ProductAuditAction,
+    public readonly actor: string | null,
+    public readonly correlationId: string | null,
+    public readonly changes: ProductFieldChanges,
+    public readonly occurredAt: Date,
+  ) {}
+}
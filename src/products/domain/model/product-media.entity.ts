@@ -0,0 +1,88 @@
+/**
+ * @file Defines the ProductMedia entity, an image or video shown with a product.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * @const {string[]} PRODUCT_MEDIA_TYPES
+ * @description Kinds of media a product can show.
+ */
+export const PRODUCT_MEDIA_TYPES = ['IMAGE', 'VIDEO'] as const;
+
+/**
+ * @type ProductMediaType
+ * @description An image or a video.
+ */
+export type ProductMediaType = (typeof PRODUCT_MEDIA_TYPES)[number];
+
+/**
+ * @class ProductMedia
+ * @description Metadata of one image or video of a product. The file itself lives in external storage and
+ * is referenced either by a public `url` or by a `storageKey` the frontends resolve. Dimensions are in
+ * pixels and given together or not at all. Only an image can be the product's primary media.
+ */
+export class ProductMedia {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the media (UUID).
+   * @param {ProductMediaType} type - Image or video.
+   * @param {string | null} url - Where the file can be fetched, or null when it has a storage key.
+   * @param {string | null} storageKey - Key of the file in external storage, or null when it has a URL.
+   * @param {string | null} [altText=null] - Text describing the media for accessibility.
+   * @param {number | null} [width=null] - Width in pixels.
+   * @param {number | null} [height=null] - Height in pixels.
+   * @param {boolean} [primary=false] - Whether this is the image shown first, e.g. in listings.
+   * @throws {ProductDomainError} If the location, dimensions or primary flag are invalid.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly type: ProductMediaType,
+    public readonly url: string | null,
+    public readonly storageKey: string | null,
+    public readonly altText: string | null = null,
+    public readonly width: number | null = null,
+    public readonly height: number | null = null,
+    public readonly primary: boolean = false,
+  ) {
+    if (!PRODUCT_MEDIA_TYPES.includes(type)) {
+      throw new ProductDomainError(`Unknown media type ${type}.`);
+    }
+    if ((url === null) === (storageKey === null)) {
+      throw new ProductDomainError('Media needs either a url or a storageKey, not both.');
+    }
+    if ((width === null) !== (height === null)) {
+      throw new ProductDomainError('Media width and height must be given together.');
+    }
+    if (width !== null && !(Number.isInteger(width) && width > 0 && Number.isInteger(height) && height > 0)) {
+      throw new ProductDomainError('Media width and height must be positive whole numbers.');
+    }
+    if (primary && type !== 'IMAGE') {
+      throw new ProductDomainError('Only an image can be the primary media.');
+    }
+  }
+
+  /**
+   * @method isImage
+   * @returns {boolean} True for images.
+   */
+  public isImage(): boolean {
+    return this.type === 'IMAGE';
+  }
+
+  /**
+   * @method withPrimary
+   * @param {boolean} primary - The new primary flag.
+   * @returns {ProductMedia} This media with the flag set, or itself when unchanged.
+   * @throws {ProductDomainError} If a video is made primary.
+   */
+  public withPrimary(primary: boolean): ProductMedia {
+    if (primary === this.primary) {
+      return this;
+    }
+    return new ProductMedia(this.id, this.type, this.url, this.storageKey, this.altText, this.width, this.height, primary);
+  }
+}
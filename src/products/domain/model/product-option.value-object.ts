@@ -0,0 +1,53 @@
+/**
+ * @file Defines the ProductOption value object, one dimension a product's variants differ by.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * @class ProductOption
+ * @description An option such as "size" and the values a variant may pick for it, in display order.
+ * Names and values are trimmed; values are unique within an option.
+ */
+export class ProductOption {
+  public readonly name: string;
+  public readonly values: string[];
+
+  /**
+   * @constructor
+   * @param {string} name - Option name, e.g. "size".
+   * @param {string[]} values - Allowed values, e.g. ["S", "M", "L"].
+   * @throws {ProductDomainError} If the name is blank, there are no values or a value repeats.
+   */
+  constructor(name: string, values: string[]) {
+    if (!name || name.trim().length === 0) {
+      throw new ProductDomainError('Option name cannot be empty.');
+    }
+    this.name = name.trim();
+    this.values = values.map(value => value.trim());
+    if (this.values.length === 0 || this.values.some(value => value.length === 0)) {
+      throw new ProductDomainError(`Option ${this.name} needs at least one non-empty value.`);
+    }
+    if (new Set(this.values).size !== this.values.length) {
+      throw new ProductDomainError(`Option ${this.name} lists a value more than once.`);
+    }
+  }
+
+  /**
+   * @method assertValidSet
+   * @static
+   * @description Checks that a product's options have distinct names.
+   * @param {ProductOption[]} options - The option definitions.
+   * @throws {ProductDomainError} If two options share a name.
+   */
+  public static assertValidSet(options: ProductOption[]): void {
+    const names = options.map(option => option.name);
+    const repeated = names.find((name, index) => names.indexOf(name) !== index);
+    if (repeated !== undefined) {
+      throw new ProductDomainError(`Option ${repeated} is defined more than once.`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @file Defines the ProductPrice entity, an entry in a product's price history.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+import { Money } from './money.value-object';
+
+/**
+ * @class ProductPrice
+ * @description A price a product has (or will have) from a given moment onwards.
+ * The price in effect at time T is the entry with the latest effectiveFrom not after T.
+ */
+export class ProductPrice {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the entry (UUID).
+   * @param {string} productId - The product the price belongs to.
+   * @param {Money} price - The price.
+   * @param {Date} effectiveFrom - When the price takes effect.
+   * @param {Date} createdAt - When the entry was recorded.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly productId: string,
+    public readonly price: Money,
+    public readonly effectiveFrom: Date,
+    public readonly createdAt: Date,
+  ) {}
+
+  /**
+   * @method schedule
+   * @description Creates a future-dated price change.
+   * @static
+   * @param {string} id - Unique identifier of the entry (UUID).
+   * @param {string} productId - The product the price belongs to.
+   * @param {Money} price - The new price.
+   * @param {Date} effectiveFrom - When the price takes effect.
+   * @param {Date} [now=new Date()] - Reference time.
+   * @returns {ProductPrice}
+   * @throws {ProductDomainError} If the price is negative or effectiveFrom is not in the future.
+   */
+  public static schedule(id: string, productId: string, price: Money, effectiveFrom: Date, now: Date = new Date()): ProductPrice {
+    if (price.isNegative()) {
+      throw new ProductDomainError('Product price cannot be negative.');
+    }
+    if (effectiveFrom.getTime() <= now.getTime()) {
+      throw new ProductDomainError(`Scheduled price changes must take effect in the future (got ${effectiveFrom.toISOString()}).`);
+    }
+    return new ProductPrice(id, productId, price, effectiveFrom, now);
+  }
+
+  /**
+   * @method isScheduled
+   * @description Whether the price has not taken effect yet.
+   * @param {Date} [now=new Date()] - Reference time.
+   * @returns {boolean}
+   */
+  public isScheduled(now: Date = new Date()): boolean {
+    return this.effectiveFrom.getTime() > now.getTime();
+  }
+}
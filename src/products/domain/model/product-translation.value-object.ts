@@ -0,0 +1,78 @@
+/**
+ * @file Defines the ProductTranslation value object, a product's name and description in one locale.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * @const {RegExp} LOCALE_PATTERN
+ * @description A BCP 47 language tag limited to language, optional script and optional region,
+ * e.g. `es`, `pt-BR`, `zh-Hant-TW` or `es-419`.
+ */
+export const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z]{4})?(-([A-Za-z]{2}|[0-9]{3}))?$/;
+
+/**
+ * @class ProductTranslation
+ * @description The name and description of a product in a locale other than the catalog's default one.
+ * Either field may be missing, in which case it falls back like an absent translation would.
+ */
+export class ProductTranslation {
+  public readonly locale: string;
+  public readonly name: string | null;
+  public readonly description: string | null;
+
+  /**
+   * @constructor
+   * @param {string} locale - Language tag, canonicalized, e.g. "pt-br" becomes "pt-BR".
+   * @param {string | null} name - Translated name; blank counts as missing.
+   * @param {string | null} description - Translated description; blank counts as missing.
+   * @throws {ProductDomainError} If the locale is malformed or both fields are missing.
+   */
+  constructor(locale: string, name: string | null, description: string | null) {
+    this.locale = ProductTranslation.normalizeLocale(locale);
+    this.name = name?.trim() || null;
+    this.description = description?.trim() || null;
+    if (this.name === null && this.description === null) {
+      throw new ProductDomainError(`The ${this.locale} translation needs a name or a description.`);
+    }
+  }
+
+  /**
+   * @method normalizeLocale
+   * @static
+   * @param {string} locale - Language tag as entered.
+   * @returns {string} The tag with a lowercase language, titlecase script and uppercase region.
+   * @throws {ProductDomainError} If the tag is malformed.
+   */
+  public static normalizeLocale(locale: string): string {
+    const trimmed = locale?.trim() ?? '';
+    if (!LOCALE_PATTERN.test(trimmed)) {
+      throw new ProductDomainError(`${trimmed || 'An empty string'} is not a valid locale.`);
+    }
+    return trimmed.split('-').map((subtag, index) => {
+      if (index === 0) {
+        return subtag.toLowerCase();
+      }
+      return subtag.length === 4
+        ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+        : subtag.toUpperCase();
+    }).join('-');
+  }
+
+  /**
+   * @method fallbackChain
+   * @static
+   * @description The locales to try for a requested one, most specific first: "zh-Hant-TW" gives
+   * ["zh-Hant-TW", "zh-Hant", "zh"].
+   * @param {string} locale - The requested language tag.
+   * @returns {string[]} The chain, canonicalized.
+   * @throws {ProductDomainError} If the tag is malformed.
+   */
+  public static fallbackChain(locale: string): string[] {
+    const subtags = ProductTranslation.normalizeLocale(locale).split('-');
+    return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'));
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @file Defines the ProductVariant entity, a purchasable combination of a product's options.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+import { Money } from './money.value-object';
+import { Product } from './product.entity';
+import { ProductOption } from './product-option.value-object';
+
+/**
+ * @type VariantOptions
+ * @description The value a variant picks for each option, keyed by option name.
+ */
+export type VariantOptions = Record<string, string>;
+
+/**
+ * @class ProductVariant
+ * @description One sellable version of a product, e.g. the medium red T-shirt. It picks exactly one value
+ * for every option of its product, has its own SKU and may override the product's price. Stock stays on
+ * the product.
+ */
+export class ProductVariant {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the variant (UUID).
+   * @param {string} productId - The parent product.
+   * @param {string} sku - Stock keeping unit, unique across the products and variants of a tenant.
+   * @param {VariantOptions} options - The value picked for each option.
+   * @param {Money | null} [priceOverride=null] - Price of this variant, or null to use the product price.
+   * @param {boolean} [available=true] - Whether this variant can be sold.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly productId: string,
+    public sku: string,
+    public options: VariantOptions,
+    public priceOverride: Money | null = null,
+    public available: boolean = true,
+  ) {
+    this.changeSku(sku);
+    this.overridePrice(priceOverride);
+  }
+
+  /**
+   * @method changeSku
+   * @param {string} sku - The new SKU.
+   * @throws {ProductDomainError} If the SKU is blank.
+   */
+  public changeSku(sku: string): void {
+    if (!sku || sku.trim().length === 0) {
+      throw new ProductDomainError('Variant SKU cannot be empty.');
+    }
+    this.sku = sku.trim();
+  }
+
+  /**
+   * @method changeOptions
+   * @description Picks new option values, checked against the product's option definitions.
+   * @param {VariantOptions} options - The value picked for each option.
+   * @param {ProductOption[]} definitions - The product's options.
+   * @throws {ProductDomainError} If an option is missing, unknown or given a value it does not allow.
+   */
+  public changeOptions(options: VariantOptions, definitions: ProductOption[]): void {
+    ProductVariant.assertOptionsMatch(options, definitions);
+    this.options = Object.fromEntries(definitions.map(option => [option.name, options[option.name].trim()]));
+  }
+
+  /**
+   * @method overridePrice
+   * @param {Money | null} price - The variant's own price, or null to use the product price again.
+   * @throws {ProductDomainError} If the price is negative.
+   */
+  public overridePrice(price: Money | null): void {
+    if (price?.isNegative()) {
+      throw new ProductDomainError('Variant price cannot be negative.');
+    }
+    this.priceOverride = price;
+  }
+
+  /**
+   * @method priceWithin
+   * @param {Product} product - The parent product.
+   * @returns {Money} The price a customer pays for one unit of this variant.
+   */
+  public priceWithin(product: Product): Money {
+    return this.priceOverride ?? product.price;
+  }
+
+  /**
+   * @method isSellableWithin
+   * @param {Product} product - The parent product.
+   * @returns {boolean} True if both the variant and its product are available.
+   */
+  public isSellableWithin(product: Product): boolean {
+    return this.available && product.available;
+  }
+
+  /**
+   * @method optionsKey
+   * @description The options with their names sorted, so equal combinations give equal keys.
+   * @returns {string}
+   */
+  public optionsKey(): string {
+    return JSON.stringify(Object.keys(this.options).sort().map(name => [name, this.options[name]]));
+  }
+
+  /**
+   * @method assertOptionsMatch
+   * @static
+   * @param {VariantOptions} options - Picked values.
+   * @param {ProductOption[]} definitions - The product's options.
+   * @throws {ProductDomainError} If an option is missing, unknown or given a value it does not allow.
+   */
+  public static assertOptionsMatch(options: VariantOptions, definitions: ProductOption[]): void {
+    const unknown = Object.keys(options).filter(name => !definitions.some(option => option.name === name));
+    if (unknown.length > 0) {
+      throw new ProductDomainError(`Unknown options: ${unknown.join(', ')}.`);
+    }
+    for (const option of definitions) {
+      const raw: unknown = options[option.name];
+      if (raw === undefined || raw === null) {
+        throw new ProductDomainError(`Missing a value for option ${option.name}.`);
+      }
+      if (typeof raw !== 'string') {
+        throw new ProductDomainError(`The value of option ${option.name} must be a string.`);
+      }
+      const value = raw.trim();
+      if (!option.values.includes(value)) {
+        throw new ProductDomainError(`${value} is not a value of option ${option.name} (${option.values.join(', ')}).`);
+      }
+    }
+  }
+}
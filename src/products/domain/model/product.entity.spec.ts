@@ -0,0 +1,146 @@
+/**
+ * @file Tests of the Product entity's invariants.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from './money.value-object';
+import { Product } from './product.entity';
+import { ProductTranslation } from './product-translation.value-object';
+import { ProductMedia } from './product-media.entity';
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * Builds media stored under a storage key.
+ * @param {string} id - The media ID.
+ * @param {'IMAGE' | 'VIDEO'} [type='IMAGE'] - The media type.
+ * @param {boolean} [primary=false] - Whether it is the primary image.
+ * @returns {ProductMedia} The media.
+ */
+function media(id: string, type: 'IMAGE' | 'VIDEO' = 'IMAGE', primary = false): ProductMedia {
+  return new ProductMedia(id, type, null, `products/lamp-1/${id}`, null, null, null, primary);
+}
+
+/**
+ * Builds an available product with a description and the given translations.
+ * @param {ProductTranslation[]} [translations=[]] - The stored translations.
+ * @returns {Product} The product.
+ */
+function product(translations: ProductTranslation[] = []): Product {
+  return new Product(
+    'lamp-1', 'Desk lamp', Money.of(1999, 'USD'), true, 0, 1, null, [], {}, 'A bright lamp', [], 'acme', translations,
+  );
+}
+
+describe('Product', () => {
+  describe('translations', () => {
+    it('normalizes locales and requires a name or a description', () => {
+      expect(new ProductTranslation(' pt-br ', 'Luminária', null).locale).toBe('pt-BR');
+      expect(new ProductTranslation('ZH-hant-tw', 'Lamp', null).locale).toBe('zh-Hant-TW');
+      expect(() => new ProductTranslation('english', 'Lamp', null)).toThrow('english is not a valid locale.');
+      expect(() => new ProductTranslation('fr', ' ', null)).toThrow(ProductDomainError);
+    });
+
+    it('keeps one translation per locale, sorted by locale', () => {
+      const lamp = product();
+
+      lamp.translate(new ProductTranslation('fr', 'Lampe', null), 'en');
+      lamp.translate(new ProductTranslation('de', 'Lampe', null), 'en');
+      lamp.translate(new ProductTranslation('fr', 'Lampe de bureau', 'Une lampe'), 'en');
+
+      expect(lamp.translations.map(t => [t.locale, t.name])).toEqual([['de', 'Lampe'], ['fr', 'Lampe de bureau']]);
+    });
+
+    it('rejects translating into the default locale and removing a missing translation', () => {
+      const lamp = product();
+
+      expect(() => lamp.translate(new ProductTranslation('EN', 'Lamp', null), 'en')).toThrow('en is the default locale');
+      expect(() => lamp.removeTranslation('fr')).toThrow('Product #lamp-1 has no fr translation.');
+    });
+
+    it('resolves each field along the fallback chain, then the default locale', () => {
+      const lamp = product([
+        new ProductTranslation('pt', 'Luminária', 'Uma luminária clara'),
+        new ProductTranslation('pt-BR', 'Luminária de mesa', null),
+      ]);
+
+      expect(lamp.localize('pt-br', 'en')).toEqual({
+        locale: 'pt-BR', name: 'Luminária de mesa', description: 'Uma luminária clara',
+      });
+      expect(lamp.localize('de-AT', 'en')).toEqual({ locale: 'en', name: 'Desk lamp', description: 'A bright lamp' });
+      expect(lamp.localize('en-GB', 'en').name).toBe('Desk lamp');
+    });
+
+    it('lists locales whose translation is absent or lacks a field the product has', () => {
+      const lamp = product([
+        new ProductTranslation('fr', 'Lampe', 'Une lampe'),
+        new ProductTranslation('de', 'Lampe', null),
+      ]);
+
+      expect(lamp.missingLocales(['en', 'fr', 'de', 'es'], 'en')).toEqual(['de', 'es']);
+    });
+  });
+
+  describe('media', () => {
+    /**
+     * Lists the media IDs in display order, marking the primary image with a star.
+     * @param {Product} lamp - The product.
+     * @returns {string[]} The IDs.
+     */
+    const order = (lamp: Product) => lamp.media.map(m => (m.primary ? `${m.id}*` : m.id));
+
+    it('rejects media that is not one url or one storage key, or has half a size', () => {
+      expect(() => new ProductMedia('m1', 'IMAGE', 'https://cdn.example.com/a.jpg', 'a.jpg')).toThrow(ProductDomainError);
+      expect(() => new ProductMedia('m1', 'IMAGE', null, null)).toThrow(ProductDomainError);
+      expect(() => new ProductMedia('m1', 'IMAGE', null, 'a.jpg', null, 800, null)).toThrow('given together');
+      expect(() => new ProductMedia('m1', 'IMAGE', null, 'a.jpg', null, 800, 0)).toThrow('positive whole numbers');
+      expect(() => media('v1', 'VIDEO', true)).toThrow('Only an image can be the primary media.');
+    });
+
+    it('makes the first image primary and moves the flag to a new primary image', () => {
+      const lamp = product();
+
+      lamp.addMedia(media('v1', 'VIDEO'));
+      lamp.addMedia(media('i1'));
+      expect(order(lamp)).toEqual(['v1', 'i1*']);
+
+      lamp.addMedia(media('i2', 'IMAGE', true), 0);
+      expect(order(lamp)).toEqual(['i2*', 'v1', 'i1']);
+      expect(lamp.findPrimaryImage()?.id).toBe('i2');
+    });
+
+    it('rejects a duplicate ID or a position out of range', () => {
+      const lamp = product();
+      lamp.addMedia(media('i1'));
+
+      expect(() => lamp.addMedia(media('i1'))).toThrow('already has media #i1');
+      expect(() => lamp.addMedia(media('i2'), 2)).toThrow('between 0 and 1');
+    });
+
+    it('reorders every media and can move the primary flag to another image', () => {
+      const lamp = product();
+      ['i1', 'i2'].forEach(id => lamp.addMedia(media(id)));
+      lamp.addMedia(media('v1', 'VIDEO'));
+
+      lamp.reorderMedia(['v1', 'i2', 'i1'], 'i2');
+      expect(order(lamp)).toEqual(['v1', 'i2*', 'i1']);
+      expect(() => lamp.reorderMedia(['v1', 'i2'])).toThrow('exactly once');
+      expect(() => lamp.reorderMedia(['v1', 'i2', 'i2'])).toThrow('exactly once');
+      expect(() => lamp.reorderMedia(['v1', 'i2', 'i1'], 'v1')).toThrow('is not an image');
+      expect(order(lamp)).toEqual(['v1', 'i2*', 'i1']);
+    });
+
+    it('hands the primary flag to the next image when the primary image is removed', () => {
+      const lamp = product();
+      ['i1', 'i2'].forEach(id => lamp.addMedia(media(id)));
+      lamp.addMedia(media('v1', 'VIDEO'));
+
+      lamp.removeMedia('i1');
+      expect(order(lamp)).toEqual(['i2*', 'v1']);
+      lamp.removeMedia('i2');
+      expect(order(lamp)).toEqual(['v1']);
+      expect(() => lamp.removeMedia('i1')).toThrow('has no media #i1');
+    });
+  });
+});
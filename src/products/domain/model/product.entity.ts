@@ -5,6 +5,30 @@
  * @date 2025-05-01
  */
 
+import { ProductDomainError } from '../errors/product-domain.error';
+import { ProductVersionConflictError } from '../errors/product-version-conflict.error';
+import { Money } from './money.value-object';
+import { ProductTranslation } from './product-translation.value-object';
+import { ProductMedia } from './product-media.entity';
+
+/**
+ * @type ProductAttributes
+ * @description Custom attributes, e.g. `{ brand: 'Acme', warrantyMonths: 24 }`. Which keys and types are
+ * allowed is defined by the attribute schemas of the product's categories.
+ */
+export type ProductAttributes = Record<string, unknown>;
+
+/**
+ * @interface LocalizedText
+ * @description A product's name and description resolved for a requested locale. `locale` is the locale the
+ * name was found in; the description may have fallen back further.
+ */
+export interface LocalizedText {
+  locale: string;
+  name: string;
+  description: string | null;
+}
+
 /**
  * @class Product
  * @description Represents a product within the application domain.
@@ -15,59 +39,417 @@ export class Product {
    */
   public readonly id: string;
 
+  /**
+   * @property {string | null} sku - Merchant stock keeping unit, unique within the tenant. Optional.
+   */
+  public sku: string | null;
+
   /**
    * @property {string} name - The product's name.
    */
   public name: string;
 
   /**
-   * @property {number} price - The product's price.
+   * @property {Money} price - The product's price, in exact minor units of its currency.
    */
-  public price: number;
+  public price: Money;
 
   /**
    * @property {boolean} available - Indicates if the product is available for sale.
    */
   public available: boolean;
 
+  /**
+   * @property {number} stock - Units currently in stock. Never negative.
+   */
+  public stock: number;
+
+  /**
+   * @property {number} version - Aggregate version, incremented on every catalog change (details, price,
+   * availability). Stock movements are tracked by their own ledger and do not change it.
+   */
+  public version: number;
+
+  /**
+   * @property {string[]} categoryIds - Categories the product is assigned to directly. A product may be in
+   * several categories; it also belongs to their ancestors.
+   */
+  public categoryIds: string[];
+
+  /**
+   * @property {ProductAttributes} attributes - Custom attributes, checked against the category schemas.
+   */
+  public attributes: ProductAttributes;
+
+  /**
+   * @property {string | null} description - Free-text description, searchable. Optional.
+   */
+  public description: string | null;
+
+  /**
+   * @property {string[]} tags - Lowercase search tags, e.g. `['running', 'outdoor']`.
+   */
+  public tags: string[];
+
+  /**
+   * @property {string | null} tenantId - The storefront owning the product, set once it is stored.
+   */
+  public readonly tenantId: string | null;
+
+  /**
+   * @property {ProductTranslation[]} translations - Name and description in other locales than the default
+   * one, which `name` and `description` hold. Sorted by locale.
+   */
+  public translations: ProductTranslation[];
+
+  /**
+   * @property {ProductMedia[]} media - Images and videos, in display order. Whenever the product has images,
+   * exactly one of them is primary.
+   */
+  public media: ProductMedia[];
+
   /**
    * @constructor
    * @param {string} id
    * @param {string} name
-   * @param {number} price
+   * @param {Money} price
    * @param {boolean} available
+   * @param {number} [stock=0]
+   * @param {number} [version=1]
+   * @param {string | null} [sku=null]
+   * @param {string[]} [categoryIds=[]]
+   * @param {ProductAttributes} [attributes={}]
+   * @param {string | null} [description=null]
+   * @param {string[]} [tags=[]]
+   * @param {string | null} [tenantId=null]
+   * @param {ProductTranslation[]} [translations=[]]
+   * @param {ProductMedia[]} [media=[]]
    */
-  constructor(id: string, name: string, price: number, available: boolean) {
-    if (price < 0) {
-      throw new Error('Product price cannot be negative.'); // Domain validation example
+  constructor(
+    id: string,
+    name: string,
+    price: Money,
+    available: boolean,
+    stock: number = 0,
+    version: number = 1,
+    sku: string | null = null,
+    categoryIds: string[] = [],
+    attributes: ProductAttributes = {},
+    description: string | null = null,
+    tags: string[] = [],
+    tenantId: string | null = null,
+    translations: ProductTranslation[] = [],
+    media: ProductMedia[] = [],
+  ) {
+    if (price.isNegative()) {
+      throw new ProductDomainError('Product price cannot be negative.'); // Domain validation example
     }
+    Product.assertValidStock(stock);
     this.id = id;
+    this.sku = sku;
     this.name = name;
     this.price = price;
     this.available = available;
+    this.stock = stock;
+    this.version = version;
+    this.categoryIds = categoryIds;
+    this.attributes = attributes;
+    this.description = description;
+    this.tags = tags;
+    this.tenantId = tenantId;
+    this.translations = translations;
+    this.media = media;
+  }
+
+  /**
+   * @method assertValidStock
+   * @description Ensures a stock level is a non-negative integer.
+   * @private
+   * @static
+   * @param {number} stock - The stock level to check.
+   */
+  private static assertValidStock(stock: number): void {
+    if (!Number.isInteger(stock)) {
+      throw new ProductDomainError('Product stock must be a whole number.');
+    }
+    if (stock < 0) {
+      throw new ProductDomainError('Product stock cannot be negative.');
+    }
+  }
+
+  /**
+   * @method assertVersion
+   * @description Checks the version a caller based its change on. Without one, the change is unconditional.
+   * @param {number} [expectedVersion] - Version the caller read.
+   * @throws {ProductVersionConflictError} If the product has a different version.
+   */
+  public assertVersion(expectedVersion?: number): void {
+    if (expectedVersion !== undefined && expectedVersion !== this.version) {
+      throw new ProductVersionConflictError(this.id, expectedVersion, this.version);
+    }
   }
 
   /**
    * @method updateDetails
    * @description Updates the product's name and price.
    * @param {string} [name] - The new name.
-   * @param {number} [price] - The new price.
+   * @param {Money} [price] - The new price.
    */
-  public updateDetails(name?: string, price?: number): void {
+  public updateDetails(name?: string, price?: Money): void {
     if (name !== undefined) {
       if (!name || name.trim().length === 0) {
-        throw new Error('Product name cannot be empty.');
+        throw new ProductDomainError('Product name cannot be empty.');
       }
       this.name = name.trim();
     }
     if (price !== undefined) {
-        if (price < 0) {
-            throw new Error('Product price cannot be negative.');
+        if (price.isNegative()) {
+            throw new ProductDomainError('Product price cannot be negative.');
         }
         this.price = price;
     }
   }
 
+  /**
+   * @method changeSku
+   * @description Sets or clears the product's SKU.
+   * @param {string | null} sku - The new SKU, or null to clear it.
+   */
+  public changeSku(sku: string | null): void {
+    if (sku !== null && sku.trim().length === 0) {
+      throw new ProductDomainError('Product SKU cannot be empty.');
+    }
+    this.sku = sku === null ? null : sku.trim();
+  }
+
+  /**
+   * @method assignCategories
+   * @description Replaces the categories the product is assigned to. Duplicates are dropped.
+   * @param {string[]} categoryIds - The new category IDs.
+   */
+  public assignCategories(categoryIds: string[]): void {
+    this.categoryIds = Array.from(new Set(categoryIds));
+  }
+
+  /**
+   * @method setAttributes
+   * @description Replaces the product's custom attributes.
+   * @param {ProductAttributes} attributes - The new attributes.
+   * @throws {ProductDomainError} If the attributes are not a plain object.
+   */
+  public setAttributes(attributes: ProductAttributes): void {
+    if (attributes === null || typeof attributes !== 'object' || Array.isArray(attributes)) {
+      throw new ProductDomainError('Product attributes must be an object.');
+    }
+    this.attributes = attributes;
+  }
+
+  /**
+   * @method describe
+   * @description Sets or clears the product's description.
+   * @param {string | null} description - The new description, or null to clear it.
+   */
+  public describe(description: string | null): void {
+    const trimmed = description?.trim();
+    this.description = trimmed ? trimmed : null;
+  }
+
+  /**
+   * @method setTags
+   * @description Replaces the product's tags.
+   * @param {string[]} tags - The new tags.
+   * @throws {ProductDomainError} If a tag is blank.
+   */
+  public setTags(tags: string[]): void {
+    this.tags = Product.normalizeTags(tags);
+  }
+
+  /**
+   * @method normalizeTags
+   * @static
+   * @param {string[]} tags - Tags as entered.
+   * @returns {string[]} The tags trimmed, lowercased and without duplicates.
+   * @throws {ProductDomainError} If a tag is blank.
+   */
+  public static normalizeTags(tags: string[]): string[] {
+    const normalized = tags.map(tag => tag.trim().toLowerCase());
+    if (normalized.some(tag => tag.length === 0)) {
+      throw new ProductDomainError('Product tags cannot be empty.');
+    }
+    return Array.from(new Set(normalized));
+  }
+
+  /**
+   * @method translationFor
+   * @param {string} locale - Language tag.
+   * @returns {ProductTranslation | null} The translation stored for exactly that locale, if any.
+   * @throws {ProductDomainError} If the tag is malformed.
+   */
+  public translationFor(locale: string): ProductTranslation | null {
+    const tag = ProductTranslation.normalizeLocale(locale);
+    return this.translations.find(translation => translation.locale === tag) ?? null;
+  }
+
+  /**
+   * @method translate
+   * @description Adds a translation or replaces the one stored for its locale.
+   * @param {ProductTranslation} translation - The translation.
+   * @param {string} defaultLocale - The locale of `name` and `description`, which cannot be translated.
+   * @throws {ProductDomainError} If the translation is in the default locale.
+   */
+  public translate(translation: ProductTranslation, defaultLocale: string): void {
+    if (translation.locale === ProductTranslation.normalizeLocale(defaultLocale)) {
+      throw new ProductDomainError(
+        `${translation.locale} is the default locale; change the product's name and description instead.`,
+      );
+    }
+    this.translations = [...this.translations.filter(existing => existing.locale !== translation.locale), translation]
+      .sort((a, b) => a.locale.localeCompare(b.locale));
+  }
+
+  /**
+   * @method removeTranslation
+   * @param {string} locale - Language tag of the translation to remove.
+   * @throws {ProductDomainError} If the product has no translation in that locale.
+   */
+  public removeTranslation(locale: string): void {
+    const translation = this.translationFor(locale);
+    if (!translation) {
+      throw new ProductDomainError(`Product #${this.id} has no ${locale} translation.`);
+    }
+    this.translations = this.translations.filter(existing => existing !== translation);
+  }
+
+  /**
+   * @method localize
+   * @description Resolves the name and description for a locale. Each field is looked up along the
+   * locale's fallback chain ("pt-BR", then "pt") and falls back to the default locale's value.
+   * @param {string} locale - The requested language tag.
+   * @param {string} defaultLocale - The locale of `name` and `description`.
+   * @returns {LocalizedText} The resolved fields.
+   * @throws {ProductDomainError} If a tag is malformed.
+   */
+  public localize(locale: string, defaultLocale: string): LocalizedText {
+    const base = ProductTranslation.normalizeLocale(defaultLocale);
+    const chain = ProductTranslation.fallbackChain(locale);
+    const candidates = (chain.includes(base) ? chain.slice(0, chain.indexOf(base)) : chain)
+      .map(tag => this.translations.find(translation => translation.locale === tag))
+      .filter((translation): translation is ProductTranslation => translation !== undefined);
+    const name = candidates.find(translation => translation.name !== null);
+    const description = candidates.find(translation => translation.description !== null);
+    return {
+      locale: name?.locale ?? base,
+      name: name?.name ?? this.name,
+      description: description?.description ?? this.description,
+    };
+  }
+
+  /**
+   * @method missingLocales
+   * @description Lists the locales whose translation is absent or incomplete: it lacks the name, or lacks
+   * the description while the product has one.
+   * @param {string[]} supportedLocales - The locales the catalog is sold in.
+   * @param {string} defaultLocale - The locale of `name` and `description`, never missing.
+   * @returns {string[]} The missing locales, in the order given.
+   */
+  public missingLocales(supportedLocales: string[], defaultLocale: string): string[] {
+    const base = ProductTranslation.normalizeLocale(defaultLocale);
+    return supportedLocales
+      .map(locale => ProductTranslation.normalizeLocale(locale))
+      .filter(locale => locale !== base)
+      .filter(locale => {
+        const translation = this.translations.find(existing => existing.locale === locale);
+        return !translation?.name || (this.description !== null && !translation.description);
+      });
+  }
+
+  /**
+   * @method mediaById
+   * @param {string} mediaId - The media ID.
+   * @returns {ProductMedia | null} The product's media with that ID, if any.
+   */
+  public mediaById(mediaId: string): ProductMedia | null {
+    return this.media.find(media => media.id === mediaId) ?? null;
+  }
+
+  /**
+   * @method findPrimaryImage
+   * @returns {ProductMedia | null} The image shown first, or null when the product has no images.
+   */
+  public findPrimaryImage(): ProductMedia | null {
+    return this.media.find(media => media.primary) ?? null;
+  }
+
+  /**
+   * @method addMedia
+   * @description Inserts media at a position, at the end by default. A primary image takes the flag from
+   * the current one; the first image added becomes primary anyway.
+   * @param {ProductMedia} media - The new media.
+   * @param {number} [position] - Zero-based index to insert at.
+   * @throws {ProductDomainError} If the ID is taken or the position is out of range.
+   */
+  public addMedia(media: ProductMedia, position: number = this.media.length): void {
+    if (this.mediaById(media.id)) {
+      throw new ProductDomainError(`Product #${this.id} already has media #${media.id}.`);
+    }
+    if (!Number.isInteger(position) || position < 0 || position > this.media.length) {
+      throw new ProductDomainError(`Media position must be between 0 and ${this.media.length}.`);
+    }
+    const others = media.primary ? this.media.map(existing => existing.withPrimary(false)) : this.media;
+    this.media = [...others.slice(0, position), media, ...others.slice(position)];
+    this.ensurePrimaryImage();
+  }
+
+  /**
+   * @method reorderMedia
+   * @description Puts the media in a new display order and optionally moves the primary flag.
+   * @param {string[]} mediaIds - Every media ID of the product, in the new order.
+   * @param {string} [primaryMediaId] - The image to make primary.
+   * @throws {ProductDomainError} If the IDs are not exactly the product's media, or the primary is not one of its images.
+   */
+  public reorderMedia(mediaIds: string[], primaryMediaId?: string): void {
+    const byId = new Map(this.media.map(media => [media.id, media]));
+    if (mediaIds.length !== byId.size || mediaIds.some(id => !byId.has(id)) || new Set(mediaIds).size !== mediaIds.length) {
+      throw new ProductDomainError('The new order must list every media of the product exactly once.');
+    }
+    const reordered = mediaIds.map(id => byId.get(id));
+    if (primaryMediaId === undefined) {
+      this.media = reordered;
+      return;
+    }
+    if (!byId.get(primaryMediaId)?.isImage()) {
+      throw new ProductDomainError(`Media #${primaryMediaId} is not an image of product #${this.id}.`);
+    }
+    this.media = reordered.map(media => media.withPrimary(media.id === primaryMediaId));
+  }
+
+  /**
+   * @method removeMedia
+   * @description Removes media. When it was the primary image, the next image becomes primary.
+   * @param {string} mediaId - The media ID.
+   * @throws {ProductDomainError} If the product has no such media.
+   */
+  public removeMedia(mediaId: string): void {
+    if (!this.mediaById(mediaId)) {
+      throw new ProductDomainError(`Product #${this.id} has no media #${mediaId}.`);
+    }
+    this.media = this.media.filter(media => media.id !== mediaId);
+    this.ensurePrimaryImage();
+  }
+
+  /**
+   * @method ensurePrimaryImage
+   * @description Makes the first image primary when none is.
+   * @private
+   */
+  private ensurePrimaryImage(): void {
+    if (this.findPrimaryImage()) {
+      return;
+    }
+    const firstImageId = this.media.find(media => media.isImage())?.id;
+    this.media = this.media.map(media => media.withPrimary(media.id === firstImageId));
+  }
+
   /**
    * @method markAsUnavailable
    * @description Marks the product as unavailable (soft delete).
@@ -75,4 +457,45 @@ export class Product {
    public markAsUnavailable(): void {
        this.available = false;
    }
+
+  /**
+   * @method restore
+   * @description Makes a soft-deleted product available again.
+   * @throws {ProductDomainError} If the product was never deleted.
+   */
+  public restore(): void {
+    if (this.available) {
+      throw new ProductDomainError(`Product #${this.id} is not deleted and cannot be restored.`);
+    }
+    this.available = true;
+  }
+
+  /**
+   * @method adjustStock
+   * @description Applies a signed change to the stock level.
+   * @param {number} delta - Units to add (positive) or remove (negative).
+   * @throws {ProductDomainError} If the delta is zero, fractional, or would make stock negative.
+   */
+  public adjustStock(delta: number): void {
+    if (!Number.isInteger(delta) || delta === 0) {
+      throw new ProductDomainError('Stock adjustment must be a non-zero whole number.');
+    }
+    if (this.stock + delta < 0) {
+      throw new ProductDomainError(
+        `Insufficient stock for product #${this.id}: ${this.stock} in stock, cannot remove ${-delta}.`,
+      );
+    }
+    this.stock += delta;
+  }
+
+  /**
+   * @method setStock
+   * @description Sets the stock level to an absolute quantity.
+   * @param {number} quantity - The new stock level.
+   * @throws {ProductDomainError} If the quantity is negative or fractional.
+   */
+  public setStock(quantity: number): void {
+    Product.assertValidStock(quantity);
+    this.stock = quantity;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * @file Defines the StockMovement entity, an entry in a product's inventory ledger.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class StockMovement
+ * @description Records a single change to a product's stock level.
+ */
+export class StockMovement {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the movement (UUID).
+   * @param {string} productId - The product whose stock changed.
+   * @param {number} delta - Signed change applied to the stock.
+   * @param {string} reason - Why the stock changed.
+   * @param {number} resultingStock - Stock level after the change.
+   * @param {Date} createdAt - When the change was recorded.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly productId: string,
+    public readonly delta: number,
+    public readonly reason: string,
+    public readonly resultingStock: number,
+    public readonly createdAt: Date,
+  ) {}
+}
@@ -0,0 +1,91 @@
+/**
+ * @file Defines the StockReservation entity, a temporary hold on product stock for an order.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductDomainError } from '../errors/product-domain.error';
+
+/**
+ * @const {string[]} RESERVATION_STATUSES
+ * @description Lifecycle states of a stock reservation.
+ */
+export const RESERVATION_STATUSES = ['PENDING', 'CONFIRMED', 'RELEASED', 'EXPIRED'] as const;
+
+/**
+ * @type ReservationStatus
+ * @description A stock reservation lifecycle state.
+ */
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+/**
+ * @interface StockReservationItem
+ * @description Units of a single product held by a reservation.
+ */
+export interface StockReservationItem {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * @class StockReservation
+ * @description Holds stock for an order until it is confirmed, released or expires.
+ * Stock is deducted from the product when the reservation is created and returned on release or expiry.
+ */
+export class StockReservation {
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the reservation (UUID).
+   * @param {string} orderReference - Reference of the order the stock is held for.
+   * @param {ReservationStatus} status - Current lifecycle state.
+   * @param {Date} expiresAt - When a pending reservation stops holding stock.
+   * @param {StockReservationItem[]} items - Held products and quantities.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly orderReference: string,
+    public status: ReservationStatus,
+    public readonly expiresAt: Date,
+    public readonly items: StockReservationItem[],
+  ) {}
+
+  /**
+   * @method isExpired
+   * @description Whether a pending reservation has passed its expiry time.
+   * @param {Date} [now=new Date()] - Reference time.
+   * @returns {boolean}
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.status === 'PENDING' && this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * @method confirm
+   * @description Turns the hold into a permanent deduction.
+   * @param {Date} [now=new Date()] - Reference time.
+   * @throws {ProductDomainError} If the reservation is not pending or has expired.
+   */
+  public confirm(now: Date = new Date()): void {
+    if (this.status !== 'PENDING') {
+      throw new ProductDomainError(`Reservation #${this.id} cannot be confirmed because it is ${this.status}.`);
+    }
+    if (this.isExpired(now)) {
+      throw new ProductDomainError(`Reservation #${this.id} expired at ${this.expiresAt.toISOString()}.`);
+    }
+    this.status = 'CONFIRMED';
+  }
+
+  /**
+   * @method release
+   * @description Gives the held stock back, either on request or because the hold expired.
+   * @param {'RELEASED' | 'EXPIRED'} [outcome='RELEASED'] - Final state to record.
+   * @throws {ProductDomainError} If the reservation has already been confirmed.
+   */
+  public release(outcome: 'RELEASED' | 'EXPIRED' = 'RELEASED'): void {
+    if (this.status === 'CONFIRMED') {
+      throw new ProductDomainError(`Reservation #${this.id} is already confirmed and cannot be released.`);
+    }
+    this.status = outcome;
+  }
+}
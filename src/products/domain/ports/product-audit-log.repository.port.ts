@@ -0,0 +1,62 @@
+/**
+ * @file Defines the port (interface) for the product audit log.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductAuditAction, ProductAuditEntry } from '../model/product-audit-entry.entity';
+import { PaginationDto } from '../../../common';
+
+/**
+ * @interface ProductAuditLogCriteria
+ * @description Optional filters for reading the audit log; given filters must all match.
+ */
+export interface ProductAuditLogCriteria {
+  productId?: string;
+  actor?: string;
+  action?: ProductAuditAction;
+}
+
+/**
+ * @interface PaginatedProductAuditResult
+ * @description Structure for returning paginated audit log data.
+ */
+export interface PaginatedProductAuditResult {
+  data: ProductAuditEntry[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface ProductAuditLogRepositoryPort
+ * @description Defines the contract for product audit log adapters. The log is append-only.
+ */
+export interface ProductAuditLogRepositoryPort {
+  /**
+   * Appends entries. Called inside the unit of work of the change they describe, so an entry is kept
+   * if and only if its change commits.
+   * @async
+   * @param {ProductAuditEntry[]} entries - The entries to append.
+   * @returns {Promise<void>}
+   */
+  append(entries: ProductAuditEntry[]): Promise<void>;
+
+  /**
+   * Finds entries, newest first.
+   * @async
+   * @param {ProductAuditLogCriteria} criteria - Filters.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @returns {Promise<PaginatedProductAuditResult>} Paginated entries.
+   */
+  find(criteria: ProductAuditLogCriteria, paginationDto: PaginationDto): Promise<PaginatedProductAuditResult>;
+}
+
+/**
+ * @const {string} PRODUCT_AUDIT_LOG_REPOSITORY_PORT
+ * @description Injection token for the ProductAuditLogRepositoryPort.
+ */
+export const PRODUCT_AUDIT_LOG_REPOSITORY_PORT = 'ProductAuditLogRepositoryPort';
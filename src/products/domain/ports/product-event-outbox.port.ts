@@ -0,0 +1,30 @@
+/**
+ * @file Defines the port (interface) for recording product events for publication.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductEvent } from '../events/product.event';
+
+/**
+ * @interface ProductEventOutboxPort
+ * @description Defines the contract for recording product events. Called inside a UnitOfWork, the events
+ * are committed together with the change they describe and published, to NATS and to in-process event
+ * handlers, once the transaction commits.
+ */
+export interface ProductEventOutboxPort {
+  /**
+   * Records events for publication, in order.
+   * @async
+   * @param {ProductEvent[]} events - The domain events.
+   * @returns {Promise<void>}
+   */
+  append(events: ProductEvent[]): Promise<void>;
+}
+
+/**
+ * @const {string} PRODUCT_EVENT_OUTBOX_PORT
+ * @description Injection token for the ProductEventOutboxPort.
+ */
+export const PRODUCT_EVENT_OUTBOX_PORT = 'ProductEventOutboxPort';
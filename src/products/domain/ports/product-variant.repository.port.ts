@@ -0,0 +1,96 @@
+/**
+ * @file Defines the port (interface) for product option and variant repository operations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ProductOption } from '../model/product-option.value-object';
+import { ProductVariant } from '../model/product-variant.entity';
+
+/**
+ * @interface ProductVariantRepositoryPort
+ * @description Defines the contract for adapters storing a product's option definitions and variants.
+ */
+export interface ProductVariantRepositoryPort {
+  /**
+   * Finds the option definitions of a product, in display order.
+   * @async
+   * @param {string} productId - The product.
+   * @returns {Promise<ProductOption[]>} The options; empty if the product has none.
+   */
+  findOptions(productId: string): Promise<ProductOption[]>;
+
+  /**
+   * Replaces the option definitions of a product.
+   * @async
+   * @param {string} productId - The product.
+   * @param {ProductOption[]} options - The new options, in display order.
+   * @returns {Promise<ProductOption[]>} The stored options.
+   */
+  replaceOptions(productId: string, options: ProductOption[]): Promise<ProductOption[]>;
+
+  /**
+   * Stores a new variant.
+   * @async
+   * @param {ProductVariant} variant - The variant to create.
+   * @returns {Promise<ProductVariant>} The created variant.
+   * @throws {Error} If the SKU or the option combination is already taken.
+   */
+  create(variant: ProductVariant): Promise<ProductVariant>;
+
+  /**
+   * Persists the SKU, options, price override and availability of a variant.
+   * @async
+   * @param {ProductVariant} variant - The variant to save.
+   * @returns {Promise<ProductVariant>} The saved variant.
+   * @throws {Error} If the SKU or the option combination is already taken.
+   */
+  save(variant: ProductVariant): Promise<ProductVariant>;
+
+  /**
+   * Deletes a variant.
+   * @async
+   * @param {string} id - The variant ID.
+   * @returns {Promise<void>}
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Finds a variant by its ID.
+   * @async
+   * @param {string} id - The variant ID.
+   * @returns {Promise<ProductVariant | null>} The variant or null if not found.
+   */
+  findById(id: string): Promise<ProductVariant | null>;
+
+  /**
+   * Finds variants by their IDs. Unknown IDs are skipped.
+   * @async
+   * @param {string[]} ids - Variant IDs.
+   * @returns {Promise<ProductVariant[]>} The variants found.
+   */
+  findByIds(ids: string[]): Promise<ProductVariant[]>;
+
+  /**
+   * Finds a variant by its SKU.
+   * @async
+   * @param {string} sku - The SKU.
+   * @returns {Promise<ProductVariant | null>} The variant or null if no variant has that SKU.
+   */
+  findBySku(sku: string): Promise<ProductVariant | null>;
+
+  /**
+   * Finds the variants of a product, oldest first.
+   * @async
+   * @param {string} productId - The product.
+   * @returns {Promise<ProductVariant[]>} Its variants.
+   */
+  findByProductId(productId: string): Promise<ProductVariant[]>;
+}
+
+/**
+ * @const {string} PRODUCT_VARIANT_REPOSITORY_PORT
+ * @description Injection token for the ProductVariantRepositoryPort.
+ */
+export const PRODUCT_VARIANT_REPOSITORY_PORT = 'ProductVariantRepositoryPort';
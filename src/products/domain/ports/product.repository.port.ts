@@ -5,7 +5,12 @@
  * @date 2025-05-01
  */
 
-import { Product } from '../model/product.entity';
+import { Product, ProductAttributes } from '../model/product.entity';
+import { Money } from '../model/money.value-object';
+import { ProductPrice } from '../model/product-price.entity';
+import { ProductTranslation } from '../model/product-translation.value-object';
+import { ProductMedia } from '../model/product-media.entity';
+import { StockMovement } from '../model/stock-movement.entity';
 import { PaginationDto } from '../../../common';
 
 /**
@@ -21,19 +26,204 @@ export interface PaginatedProductResult {
   };
 }
 
+/**
+ * @const {string[]} PRODUCT_SORT_FIELDS
+ * @description Product fields that listings can be sorted by.
+ */
+export const PRODUCT_SORT_FIELDS = ['name', 'price', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * @type ProductSortField
+ * @description A field that product listings can be sorted by.
+ */
+export type ProductSortField = (typeof PRODUCT_SORT_FIELDS)[number];
+
+/**
+ * @const {string[]} SORT_ORDERS
+ * @description Supported sort directions.
+ */
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+/**
+ * @type SortOrder
+ * @description A sort direction.
+ */
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+/**
+ * @const {string[]} PRODUCT_AVAILABILITY_FILTERS
+ * @description Which products a listing covers: available ones (default), soft-deleted ones, or both.
+ */
+export const PRODUCT_AVAILABILITY_FILTERS = ['available', 'unavailable', 'all'] as const;
+
+/**
+ * @type ProductAvailabilityFilter
+ * @description Which products a listing covers.
+ */
+export type ProductAvailabilityFilter = (typeof PRODUCT_AVAILABILITY_FILTERS)[number];
+
+/**
+ * @type AttributeFilterValue
+ * @description A value a listing can require an attribute to have. Types must match: "24" does not match 24.
+ */
+export type AttributeFilterValue = string | number | boolean;
+
+/**
+ * @interface ProductSearchCriteria
+ * @description Filters, sorting and pagination applied when listing products (available ones unless
+ * `availability` says otherwise). Price bounds only match products priced in the bound's currency.
+ * `categoryIds` matches products assigned to any of the given categories, and `attributes` products whose
+ * attributes have all the given values.
+ */
+export interface ProductSearchCriteria {
+  availability?: ProductAvailabilityFilter;
+  categoryIds?: string[];
+  attributes?: Record<string, AttributeFilterValue>;
+  page?: number;
+  limit?: number;
+  name?: string;
+  currency?: string;
+  minPrice?: Money;
+  maxPrice?: Money;
+  sortBy?: ProductSortField;
+  sortOrder?: SortOrder;
+}
+
+/**
+ * @interface ProductTextSearchCriteria
+ * @description A full-text query over the name, description and tags of available products, with pagination.
+ */
+export interface ProductTextSearchCriteria {
+  query: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * @interface ProductTextMatch
+ * @description A product matching a full-text query. `score` is its relevance, higher first. `highlights`
+ * has the name and tags with the matched terms wrapped in `<mark>` tags, and a snippet of the description
+ * around them (null when the product has no description).
+ */
+export interface ProductTextMatch {
+  product: Product;
+  score: number;
+  highlights: {
+    name: string;
+    description: string | null;
+    tags: string;
+  };
+}
+
+/**
+ * @interface PaginatedProductTextSearchResult
+ * @description Structure for returning a page of full-text matches, most relevant first.
+ */
+export interface PaginatedProductTextSearchResult {
+  data: ProductTextMatch[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface ProductCursorKey
+ * @description A keyset position in the (createdAt, id) ordering of products.
+ */
+export interface ProductCursorKey {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * @interface KeysetProductResult
+ * @description Structure for returning a keyset-paginated page of products.
+ */
+export interface KeysetProductResult {
+  data: Product[];
+  nextKey: ProductCursorKey | null;
+  hasMore: boolean;
+}
+
+/**
+ * @interface PaginatedStockMovementResult
+ * @description Structure for returning paginated stock movement data.
+ */
+export interface PaginatedStockMovementResult {
+  data: StockMovement[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface PaginatedProductPriceResult
+ * @description Structure for returning paginated price history data.
+ */
+export interface PaginatedProductPriceResult {
+  data: ProductPrice[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface PriceHistoryCriteria
+ * @description Pagination and an optional point in time for reading price history.
+ * With `at`, only entries effective on or before that moment are returned, so the first one is the price at `at`.
+ */
+export interface PriceHistoryCriteria {
+  page?: number;
+  limit?: number;
+  at?: Date;
+}
+
+/**
+ * @interface ProductStockChange
+ * @description The product after a stock change and the ledger entry recording it.
+ */
+export interface ProductStockChange {
+  product: Product;
+  movement: StockMovement;
+}
+
+/**
+ * @interface AppliedPriceChange
+ * @description A scheduled price copied onto its product, with the price it replaced.
+ */
+export interface AppliedPriceChange {
+  product: Product;
+  previousPrice: Money;
+}
+
 /**
  * @interface ProductRepositoryPort
  * @description Defines the contract for product repository adapters.
  */
 export interface ProductRepositoryPort {
   /**
-   * Creates a new product.
+   * Creates a new product and records its initial price in the price history.
    * @async
    * @param {ProductCreateData} productData - Data for the new product.
    * @returns {Promise<Product>} The created product entity.
+   * @throws {Error} If another product already has the SKU.
    */
   create(productData: ProductCreateData): Promise<Product>;
 
+  /**
+   * Finds a product by its SKU, regardless of availability.
+   * @async
+   * @param {string} sku - The SKU.
+   * @returns {Promise<Product | null>} The product entity or null if no product has that SKU.
+   */
+  findBySku(sku: string): Promise<Product | null>;
+
   /**
    * Finds a product by its ID, only if available.
    * @async
@@ -42,6 +232,14 @@ export interface ProductRepositoryPort {
    */
   findById(id: string): Promise<Product | null>;
 
+  /**
+   * Finds a product by its ID, including unavailable (soft-deleted) ones.
+   * @async
+   * @param {string} id - The ID of the product to find.
+   * @returns {Promise<Product | null>} The product entity or null if it never existed.
+   */
+  findAnyById(id: string): Promise<Product | null>;
+
   /**
    * Finds all available products with pagination.
    * @async
@@ -51,23 +249,97 @@ export interface ProductRepositoryPort {
   findAllAvailablePaginated(paginationDto: PaginationDto): Promise<PaginatedProductResult>;
 
   /**
-   * Updates an existing product.
+   * Finds products matching the given filters, sorted and paginated.
+   * The pagination metadata reflects the filtered set.
+   * @async
+   * @param {ProductSearchCriteria} criteria - Filters, sorting and pagination parameters.
+   * @returns {Promise<PaginatedProductResult>} Paginated list of matching products.
+   */
+  search(criteria: ProductSearchCriteria): Promise<PaginatedProductResult>;
+
+  /**
+   * Finds available products matching a full-text query, most relevant first, paginated.
+   * @async
+   * @param {ProductTextSearchCriteria} criteria - The query and pagination parameters.
+   * @returns {Promise<PaginatedProductTextSearchResult>} Ranked matches with highlights.
+   */
+  searchText(criteria: ProductTextSearchCriteria): Promise<PaginatedProductTextSearchResult>;
+
+  /**
+   * Rebuilds the full-text index from the stored products of the current tenant, or of every tenant outside of
+   * a request, e.g. after products were edited outside the service.
+   * @async
+   * @returns {Promise<number>} The number of products indexed.
+   */
+  rebuildSearchIndex(): Promise<number>;
+
+  /**
+   * Finds products ordered by (createdAt, id), starting strictly after the given position.
+   * @async
+   * @param {ProductCursorKey | null} after - Position to continue after, or null to start from the beginning.
+   * @param {number} limit - Maximum number of products to return.
+   * @param {ProductAvailabilityFilter} [availability='available'] - Which products to include.
+   * @returns {Promise<KeysetProductResult>} The page of products and the position of its last item.
+   */
+  findAfter(after: ProductCursorKey | null, limit: number, availability?: ProductAvailabilityFilter): Promise<KeysetProductResult>;
+
+  /**
+   * Updates an existing product. A price change is recorded in the price history, effective immediately.
    * @async
    * @param {string} id - The ID of the product to update.
-   * @param {Partial<Omit<Product, 'id' | 'available'>>} updateData - The data to update.
+   * @param {ProductUpdateData} updateData - The data to update.
+   * @param {number} [expectedVersion] - Only write if the product still has this version.
    * @returns {Promise<Product>} The updated product entity.
    * @throws {Error} If the product to update is not found.
+   * @throws {ProductVersionConflictError} If the product's version is not the expected one.
    */
-  update(id: string, updateData: Partial<Omit<Product, 'id' | 'available'>>): Promise<Product>;
+  update(id: string, updateData: ProductUpdateData, expectedVersion?: number): Promise<Product>;
 
   /**
    * Soft deletes a product by marking it as unavailable.
    * @async
    * @param {string} id - The ID of the product to soft delete.
+   * @param {number} [expectedVersion] - Only write if the product still has this version.
    * @returns {Promise<Product>} The product entity marked as unavailable.
    * @throws {Error} If the product to delete is not found.
+   * @throws {ProductVersionConflictError} If the product's version is not the expected one.
+   */
+  softDelete(id: string, expectedVersion?: number): Promise<Product>;
+
+  /**
+   * Restores a soft-deleted product by marking it as available again.
+   * @async
+   * @param {string} id - The ID of the product to restore.
+   * @returns {Promise<Product>} The product entity marked as available.
+   * @throws {Error} If the product to restore is not found.
+   */
+  restore(id: string): Promise<Product>;
+
+  /**
+   * Creates several products in one transaction: all are stored or none is.
+   * @async
+   * @param {ProductCreateData[]} productsData - Data for the new products.
+   * @returns {Promise<Product[]>} The created products, in input order.
+   */
+  createMany(productsData: ProductCreateData[]): Promise<Product[]>;
+
+  /**
+   * Updates several products in one transaction: all are written or none is.
+   * @async
+   * @param {ProductBatchUpdate[]} updates - The products, their changes and optional expected versions.
+   * @returns {Promise<Product[]>} The updated products, in input order.
+   * @throws {ProductVersionConflictError} If a product's version is not the expected one.
+   */
+  updateMany(updates: ProductBatchUpdate[]): Promise<Product[]>;
+
+  /**
+   * Soft deletes several products in one transaction: all are marked unavailable or none is.
+   * @async
+   * @param {ProductBatchDelete[]} deletes - The products and optional expected versions.
+   * @returns {Promise<Product[]>} The products marked as unavailable, in input order.
+   * @throws {ProductVersionConflictError} If a product's version is not the expected one.
    */
-  softDelete(id: string): Promise<Product>;
+  softDeleteMany(deletes: ProductBatchDelete[]): Promise<Product[]>;
 
    /**
     * Finds multiple products by their IDs, checking availability.
@@ -76,6 +348,85 @@ export interface ProductRepositoryPort {
     * @returns {Promise<Product[]>} A promise resolving with the found available products.
     */
    findAvailableByIds(ids: string[]): Promise<Product[]>;
+
+  /**
+   * Finds multiple products by their IDs, including unavailable (soft-deleted) ones.
+   * @async
+   * @param {string[]} ids - An array of product IDs to find.
+   * @returns {Promise<Product[]>} A promise resolving with every stored product among the IDs.
+   */
+  findByIds(ids: string[]): Promise<Product[]>;
+
+  /**
+   * Atomically applies a signed stock change and records it in the movement ledger.
+   * @async
+   * @param {StockAdjustmentData} adjustment - The product, movement ID, delta and reason.
+   * @returns {Promise<ProductStockChange>} The updated product and the recorded movement.
+   * @throws {Error} If the product is not found or has insufficient stock for the change.
+   */
+  adjustStock(adjustment: StockAdjustmentData): Promise<ProductStockChange>;
+
+  /**
+   * Atomically sets the stock to an absolute quantity and records the difference in the movement ledger.
+   * @async
+   * @param {StockLevelData} stockLevel - The product, movement ID, quantity and reason.
+   * @returns {Promise<ProductStockChange>} The updated product and the recorded movement.
+   * @throws {Error} If the product is not found.
+   */
+  setStock(stockLevel: StockLevelData): Promise<ProductStockChange>;
+
+  /**
+   * Finds the stock movements of a product, newest first, with pagination.
+   * @async
+   * @param {string} productId - The product whose ledger to read.
+   * @param {PaginationDto} paginationDto - Pagination parameters (page, limit).
+   * @returns {Promise<PaginatedStockMovementResult>} Paginated list of stock movements.
+   */
+  findStockMovements(productId: string, paginationDto: PaginationDto): Promise<PaginatedStockMovementResult>;
+
+  /**
+   * Records a future-dated price change.
+   * @async
+   * @param {ProductPrice} productPrice - The scheduled price entry.
+   * @returns {Promise<ProductPrice>} The stored entry.
+   */
+  schedulePriceChange(productPrice: ProductPrice): Promise<ProductPrice>;
+
+  /**
+   * Finds the price history of a product, latest effectiveFrom first, with pagination.
+   * @async
+   * @param {string} productId - The product whose history to read.
+   * @param {PriceHistoryCriteria} criteria - Pagination and optional point in time.
+   * @returns {Promise<PaginatedProductPriceResult>} Paginated price history entries.
+   */
+  findPriceHistory(productId: string, criteria: PriceHistoryCriteria): Promise<PaginatedProductPriceResult>;
+
+  /**
+   * Finds the price entry in effect for a product at a given moment.
+   * @async
+   * @param {string} productId - The product.
+   * @param {Date} at - The moment to resolve the price for.
+   * @returns {Promise<ProductPrice | null>} The effective entry, or null if the product has no history.
+   */
+  findEffectivePrice(productId: string, at: Date): Promise<ProductPrice | null>;
+
+  /**
+   * Finds the price entries in effect for several products at a given moment.
+   * @async
+   * @param {string[]} productIds - The products.
+   * @param {Date} at - The moment to resolve the prices for.
+   * @returns {Promise<Map<string, ProductPrice>>} The effective entries by product ID; products without
+   * history are absent.
+   */
+  findEffectivePrices(productIds: string[], at: Date): Promise<Map<string, ProductPrice>>;
+
+  /**
+   * Copies every scheduled price that has come into effect onto its product.
+   * @async
+   * @param {Date} now - Reference time.
+   * @returns {Promise<AppliedPriceChange[]>} The products whose price changed.
+   */
+  applyDuePrices(now: Date): Promise<AppliedPriceChange[]>;
 }
 
 /**
@@ -85,7 +436,69 @@ export interface ProductRepositoryPort {
 export type ProductCreateData = {
   id: string;
   name: string;
-  price: number;
+  price: Money;
+  sku?: string | null;
+  categoryIds?: string[];
+  attributes?: ProductAttributes;
+  description?: string | null;
+  tags?: string[];
+};
+
+/**
+ * @type ProductUpdateData
+ * @description Data type accepted when updating a product
+ */
+export type ProductUpdateData = {
+  name?: string;
+  price?: Money;
+  sku?: string | null;
+  categoryIds?: string[];
+  attributes?: ProductAttributes;
+  description?: string | null;
+  tags?: string[];
+  translations?: ProductTranslation[];
+  media?: ProductMedia[];
+};
+
+/**
+ * @type ProductBatchUpdate
+ * @description One entry of a batch update
+ */
+export type ProductBatchUpdate = {
+  id: string;
+  data: ProductUpdateData;
+  expectedVersion?: number;
+};
+
+/**
+ * @type ProductBatchDelete
+ * @description One entry of a batch soft delete
+ */
+export type ProductBatchDelete = {
+  id: string;
+  expectedVersion?: number;
+};
+
+/**
+ * @type StockAdjustmentData
+ * @description Data needed to apply a signed stock change
+ */
+export type StockAdjustmentData = {
+  productId: string;
+  movementId: string;
+  delta: number;
+  reason: string;
+};
+
+/**
+ * @type StockLevelData
+ * @description Data needed to set an absolute stock level
+ */
+export type StockLevelData = {
+  productId: string;
+  movementId: string;
+  quantity: number;
+  reason: string;
 };
 
 /**
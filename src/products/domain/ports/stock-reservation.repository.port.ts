@@ -0,0 +1,77 @@
+/**
+ * @file Defines the port (interface) for stock reservation repository operations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { StockReservation, StockReservationItem } from '../model/stock-reservation.entity';
+
+/**
+ * @interface StockReservationRepositoryPort
+ * @description Defines the contract for stock reservation repository adapters.
+ */
+export interface StockReservationRepositoryPort {
+  /**
+   * Atomically deducts stock for every item and creates a pending reservation.
+   * Either every item is held or nothing changes.
+   * @async
+   * @param {StockReservationCreateData} reservationData - Reservation ID, order reference, expiry and items.
+   * @returns {Promise<StockReservation>} The created reservation.
+   * @throws {Error} If a product is unknown/unavailable or has insufficient stock.
+   */
+  reserve(reservationData: StockReservationCreateData): Promise<StockReservation>;
+
+  /**
+   * Finds a reservation by its ID.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @returns {Promise<StockReservation | null>} The reservation or null if not found.
+   */
+  findById(id: string): Promise<StockReservation | null>;
+
+  /**
+   * Marks a pending reservation as confirmed. The held stock stays deducted.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @returns {Promise<StockReservation>} The confirmed reservation.
+   * @throws {Error} If the reservation is no longer pending.
+   */
+  confirm(id: string): Promise<StockReservation>;
+
+  /**
+   * Atomically returns the held stock of a pending reservation and records the final status.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @param {'RELEASED' | 'EXPIRED'} outcome - Final status to record.
+   * @returns {Promise<StockReservation>} The released reservation.
+   * @throws {Error} If the reservation is no longer pending.
+   */
+  release(id: string, outcome: 'RELEASED' | 'EXPIRED'): Promise<StockReservation>;
+
+  /**
+   * Finds IDs of pending reservations whose expiry time has passed.
+   * @async
+   * @param {Date} now - Reference time.
+   * @param {number} limit - Maximum number of IDs to return.
+   * @returns {Promise<string[]>} IDs of expired pending reservations, oldest first.
+   */
+  findExpiredPendingIds(now: Date, limit: number): Promise<string[]>;
+}
+
+/**
+ * @type StockReservationCreateData
+ * @description Data type needed to create a stock reservation
+ */
+export type StockReservationCreateData = {
+  id: string;
+  orderReference: string;
+  expiresAt: Date;
+  items: StockReservationItem[];
+};
+
+/**
+ * @const {string} STOCK_RESERVATION_REPOSITORY_PORT
+ * @description Injection token for the StockReservationRepositoryPort.
+ */
+export const STOCK_RESERVATION_REPOSITORY_PORT = 'StockReservationRepositoryPort';
@@ -0,0 +1,84 @@
+/**
+ * @file Tests of QuotePricingService.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { QuotePricingService } from './quote-pricing.service';
+import { Money } from '../model/money.value-object';
+import { Product } from '../model/product.entity';
+import { Promotion } from '../../../promotions/domain';
+
+const AT = new Date('2026-06-15T12:00:00Z');
+
+describe('QuotePricingService', () => {
+  const lamp = new Product('lamp-1', 'Lamp', Money.of(1999, 'USD'), true, 10, 1);
+  const chair = new Product('chair-1', 'Chair', Money.of(4500, 'USD'), true, 10, 1);
+  const tea = new Product('tea-1', 'Tea', Money.of(800, 'EUR'), true, 10, 1);
+  const lampSale = new Promotion('promo-1', {
+    name: 'Lamp sale',
+    type: 'PERCENTAGE_OFF',
+    percentOff: 15,
+    productIds: [],
+    categoryIds: ['lighting'],
+    startsAt: new Date('2026-06-01T00:00:00Z'),
+    endsAt: new Date('2026-07-01T00:00:00Z'),
+  });
+  const options = { taxRatePercent: 21, defaultCurrency: 'USD', at: AT };
+
+  it('prices each line with its promotion and tax on the discounted amount', () => {
+    const quote = QuotePricingService.quote(
+      [{ productId: lamp.id, quantity: 3 }, { productId: chair.id, quantity: 1 }],
+      [lamp, chair],
+      [lampSale],
+      { ...options, categoryIds: new Map([[lamp.id, ['home', 'lighting']]]) },
+    );
+
+    expect(quote.lines[0]).toMatchObject({
+      line: 0,
+      name: 'Lamp',
+      subtotal: Money.of(5997, 'USD'),
+      discount: Money.of(900, 'USD'),
+      appliedPromotion: { id: 'promo-1', name: 'Lamp sale', type: 'PERCENTAGE_OFF' },
+      lineTotal: Money.of(5097, 'USD'),
+      tax: Money.of(1070, 'USD'),
+    });
+    expect(quote.lines[1]).toMatchObject({ discount: Money.zero('USD'), appliedPromotion: null, tax: Money.of(945, 'USD') });
+    expect(quote).toMatchObject({
+      currency: 'USD',
+      subtotal: Money.of(10497, 'USD'),
+      discountTotal: Money.of(900, 'USD'),
+      taxTotal: Money.of(2015, 'USD'),
+      grandTotal: Money.of(11612, 'USD'),
+      quotedAt: AT,
+    });
+  });
+
+  it('reports unknown products and other currencies as line errors left out of the totals', () => {
+    const quote = QuotePricingService.quote(
+      [{ productId: 'gone-1', quantity: 1 }, { productId: lamp.id, quantity: 1 }, { productId: tea.id, quantity: 2 }],
+      [lamp, tea],
+      [],
+      options,
+    );
+
+    expect(quote.currency).toBe('USD');
+    expect(quote.lines.map(line => line.line)).toEqual([1]);
+    expect(quote.errors.map(({ line, code }) => ({ line, code }))).toEqual([
+      { line: 0, code: 'PRODUCT_NOT_FOUND' },
+      { line: 2, code: 'CURRENCY_MISMATCH' },
+    ]);
+    expect(quote.subtotal).toEqual(Money.of(1999, 'USD'));
+  });
+
+  it('uses the requested currency, or the default when no line can be priced', () => {
+    const inEuros = QuotePricingService.quote([{ productId: lamp.id, quantity: 1 }], [lamp], [], { ...options, currency: 'EUR' });
+    const empty = QuotePricingService.quote([{ productId: 'gone-1', quantity: 1 }], [], [], options);
+
+    expect(inEuros.errors[0].code).toBe('CURRENCY_MISMATCH');
+    expect(inEuros.grandTotal).toEqual(Money.zero('EUR'));
+    expect(empty.currency).toBe('USD');
+    expect(empty.grandTotal).toEqual(Money.zero('USD'));
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @file Domain service that prices a list of line items into a quote.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from '../model/money.value-object';
+import { Product } from '../model/product.entity';
+import { Promotion, PromotionPricingService } from '../../../promotions/domain';
+
+/**
+ * @interface QuoteLineItem
+ * @description A requested line: a product and how many units of it.
+ */
+export interface QuoteLineItem {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * @const {string[]} QUOTE_LINE_ERROR_CODES
+ * @description Reasons a line can be left out of a quote.
+ */
+export const QUOTE_LINE_ERROR_CODES = ['PRODUCT_NOT_FOUND', 'CURRENCY_MISMATCH'] as const;
+
+/**
+ * @type QuoteLineErrorCode
+ * @description A reason a line was left out of a quote.
+ */
+export type QuoteLineErrorCode = (typeof QUOTE_LINE_ERROR_CODES)[number];
+
+/**
+ * @interface QuoteLineError
+ * @description A line that could not be priced. `line` is its zero-based position in the request.
+ */
+export interface QuoteLineError {
+  line: number;
+  productId: string;
+  code: QuoteLineErrorCode;
+  message: string;
+}
+
+/**
+ * @interface QuoteLine
+ * @description A priced line. `lineTotal` is `subtotal - discount`; `tax` is charged on `lineTotal`.
+ */
+export interface QuoteLine {
+  line: number;
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  subtotal: Money;
+  discount: Money;
+  appliedPromotion: { id: string; name: string; type: string } | null;
+  lineTotal: Money;
+  tax: Money;
+}
+
+/**
+ * @interface Quote
+ * @description Priced lines, the lines that could not be priced, and the totals of the priced ones.
+ */
+export interface Quote {
+  currency: string;
+  taxRatePercent: number;
+  lines: QuoteLine[];
+  errors: QuoteLineError[];
+  subtotal: Money;
+  discountTotal: Money;
+  taxTotal: Money;
+  grandTotal: Money;
+  quotedAt: Date;
+}
+
+/**
+ * @interface QuoteOptions
+ * @description Settings for pricing a quote.
+ * @property {number} taxRatePercent - Tax rate applied to every line, e.g. 21 for 21%.
+ * @property {string} [currency] - Currency the quote must be in.
+ * @property {string} defaultCurrency - Currency of a quote with no requested currency and no priceable line.
+ * @property {Date} [at] - Moment the quote is priced at (defaults to now).
+ * @property {Map<string, string[]>} [categoryIds] - Categories of each product, ancestors included, for
+ * category-scoped promotions.
+ */
+export interface QuoteOptions {
+  taxRatePercent: number;
+  currency?: string;
+  defaultCurrency: string;
+  at?: Date;
+  categoryIds?: Map<string, string[]>;
+}
+
+/**
+ * @class QuotePricingService
+ * @description Turns line items into a quote. Each line gets the best live promotion for its quantity, then
+ * tax on the discounted amount, rounded half-up per line. A quote is in one currency: the requested one, or
+ * else the currency of the first priceable line. Lines that cannot be priced are reported, not thrown.
+ */
+export class QuotePricingService {
+  /**
+   * @method quote
+   * @static
+   * @param {QuoteLineItem[]} items - Requested lines, in order.
+   * @param {Product[]} products - Available products referenced by the lines.
+   * @param {Promotion[]} promotions - Candidate promotions for those products.
+   * @param {QuoteOptions} options - Tax rate and currency settings.
+   * @returns {Quote}
+   */
+  public static quote(items: QuoteLineItem[], products: Product[], promotions: Promotion[], options: QuoteOptions): Quote {
+    const { taxRatePercent, at = new Date(), categoryIds = new Map<string, string[]>() } = options;
+    const productsById = new Map(products.map(product => [product.id, product]));
+    const quoteCurrency = options.currency
+      ?? items.map(item => productsById.get(item.productId)).find(product => product)?.price.currency
+      ?? options.defaultCurrency;
+
+    const lines: QuoteLine[] = [];
+    const errors: QuoteLineError[] = [];
+
+    items.forEach((item, line) => {
+      const product = productsById.get(item.productId);
+      if (!product) {
+        errors.push({
+          line,
+          productId: item.productId,
+          code: 'PRODUCT_NOT_FOUND',
+          message: `Product with id #${item.productId} not found or not available`,
+        });
+        return;
+      }
+      if (product.price.currency !== quoteCurrency) {
+        errors.push({
+          line,
+          productId: item.productId,
+          code: 'CURRENCY_MISMATCH',
+          message: `Product is priced in ${product.price.currency}, the quote is in ${quoteCurrency}`,
+        });
+        return;
+      }
+
+      const priced = PromotionPricingService.priceLine(
+        product.id, categoryIds.get(product.id) ?? [], product.price, item.quantity, promotions, at,
+      );
+      lines.push({
+        line,
+        productId: product.id,
+        name: product.name,
+        quantity: item.quantity,
+        unitPrice: product.price,
+        subtotal: product.price.multiply(item.quantity),
+        discount: priced.discount,
+        appliedPromotion: priced.promotion
+          ? { id: priced.promotion.id, name: priced.promotion.name, type: priced.promotion.type }
+          : null,
+        lineTotal: priced.total,
+        tax: Money.of(Math.round((priced.total.amount * taxRatePercent) / 100), quoteCurrency),
+      });
+    });
+
+    const sum = (pick: (line: QuoteLine) => Money) =>
+      lines.reduce((total, line) => total.add(pick(line)), Money.zero(quoteCurrency));
+    const subtotal = sum(line => line.subtotal);
+    const discountTotal = sum(line => line.discount);
+    const taxTotal = sum(line => line.tax);
+
+    return {
+      currency: quoteCurrency,
+      taxRatePercent,
+      lines,
+      errors,
+      subtotal,
+      discountTotal,
+      taxTotal,
+      grandTotal: subtotal.subtract(discountTotal).add(taxTotal),
+      quotedAt: at,
+    };
+  }
+}
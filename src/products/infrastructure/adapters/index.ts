@@ -1 +1,4 @@
-export * from './prisma-product.repository';
\ No newline at end of file
+export * from './prisma-product.repository';
+export * from './prisma-stock-reservation.repository';
+export * from './prisma-product-audit-log.repository';
+export * from './prisma-product-variant.repository';
@@ -0,0 +1,123 @@
+/**
+ * @file Prisma adapter implementing the ProductAuditLogRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { ProductAuditAction, ProductAuditEntry } from '../../domain/model/product-audit-entry.entity';
+import {
+  PaginatedProductAuditResult, ProductAuditLogCriteria, ProductAuditLogRepositoryPort,
+} from '../../domain/ports/product-audit-log.repository.port';
+import { PaginationDto } from '../../../common';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { tenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+
+/**
+ * @class PrismaProductAuditLogRepository
+ * @implements ProductAuditLogRepositoryPort
+ * @description Implements audit log persistence using Prisma ORM with SQLite. Changes are stored
+ * JSON-encoded. Calls made inside a UnitOfWork run in its transaction. Entries are read through their
+ * product, so only those of the current tenant's products are found.
+ */
+@Injectable()
+export class PrismaProductAuditLogRepository implements ProductAuditLogRepositoryPort {
+  private readonly logger = new Logger(PrismaProductAuditLogRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Maps a Prisma ProductAuditEntry model to a domain ProductAuditEntry entity.
+   * @private
+   * @param {any} prismaEntry - The audit row retrieved from Prisma.
+   * @returns {ProductAuditEntry} The domain entity.
+   */
+  private mapToDomain(prismaEntry: any): ProductAuditEntry {
+    return new ProductAuditEntry(
+      prismaEntry.id,
+      prismaEntry.productId,
+      prismaEntry.action as ProductAuditAction,
+      prismaEntry.actor,
+      prismaEntry.correlationId,
+      JSON.parse(prismaEntry.changes),
+      prismaEntry.occurredAt,
+    );
+  }
+
+  /**
+   * Appends entries.
+   * @async
+   * @param {ProductAuditEntry[]} entries - The entries to append.
+   * @returns {Promise<void>}
+   */
+  async append(entries: ProductAuditEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    try {
+      await this.prisma.client.productAuditEntry.createMany({
+        data: entries.map(entry => ({
+          id: entry.id,
+          productId: entry.productId,
+          action: entry.action,
+          actor: entry.actor,
+          correlationId: entry.correlationId,
+          changes: JSON.stringify(entry.changes),
+          occurredAt: entry.occurredAt,
+        })),
+      });
+    } catch (error: any) {
+      this.logger.error(`Error recording audit entries: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error recording audit entries.' });
+    }
+  }
+
+  /**
+   * Finds entries, newest first, using Prisma.
+   * @async
+   * @param {ProductAuditLogCriteria} criteria - Filters.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @returns {Promise<PaginatedProductAuditResult>} Paginated entries.
+   */
+  async find(criteria: ProductAuditLogCriteria, paginationDto: PaginationDto): Promise<PaginatedProductAuditResult> {
+    const { page = 1, limit = 10 } = paginationDto;
+    const { productId, actor, action } = criteria;
+    const where = { productId, actor, action, product: tenantScope(this.requestContext) };
+
+    try {
+      const [total, prismaEntries] = await this.prisma.$transaction([
+        this.prisma.productAuditEntry.count({ where }),
+        this.prisma.productAuditEntry.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: [{ occurredAt: 'desc' }, { id: 'asc' }],
+        }),
+      ]);
+
+      return {
+        data: prismaEntries.map(e => this.mapToDomain(e)),
+        meta: {
+          total,
+          page,
+          lastPage: Math.ceil(total / limit),
+        },
+      };
+    } catch (error: any) {
+      this.logger.error(`Error finding audit entries: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding audit entries.' });
+    }
+  }
+}
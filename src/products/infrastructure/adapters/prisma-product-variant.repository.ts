@@ -0,0 +1,304 @@
+/**
+ * @file Prisma adapter implementing the ProductVariantRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Money } from '../../domain/model/money.value-object';
+import { ProductOption } from '../../domain/model/product-option.value-object';
+import { ProductVariant } from '../../domain/model/product-variant.entity';
+import { ProductVariantRepositoryPort } from '../../domain/ports/product-variant.repository.port';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { requireTenant, tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+
+/**
+ * @class PrismaProductVariantRepository
+ * @implements ProductVariantRepositoryPort
+ * @description Implements option and variant persistence using Prisma ORM with SQLite. Option values and
+ * variant options are stored JSON-encoded. Calls made inside a UnitOfWork run in its transaction. Variants
+ * carry their product's tenant; options are reached through the product, so both are restricted to the
+ * tenant of the current request.
+ */
+@Injectable()
+export class PrismaProductVariantRepository implements ProductVariantRepositoryPort {
+  private readonly logger = new Logger(PrismaProductVariantRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
+
+  /**
+   * Ensures a product belongs to the tenant of the current request before writing under it.
+   * @private
+   * @async
+   * @param {string} productId - The product.
+   * @throws {RpcException} 404 if the product does not exist for this tenant.
+   */
+  private async assertProductInScope(productId: string): Promise<void> {
+    const owned = await this.prisma.client.product.count({ where: { id: productId, ...this.scope() } });
+    if (!owned) {
+      throw new RpcException({ status: 404, message: `Product with ID ${productId} not found.` });
+    }
+  }
+
+  /**
+   * Maps a Prisma ProductVariant model to a domain ProductVariant entity.
+   * @private
+   * @param {any} prismaVariant - The variant object retrieved from Prisma.
+   * @returns {ProductVariant | null} The domain entity, or null if input is null/undefined.
+   */
+  private mapToDomain(prismaVariant: any): ProductVariant | null {
+    if (!prismaVariant) {
+      return null;
+    }
+    return new ProductVariant(
+      prismaVariant.id,
+      prismaVariant.productId,
+      prismaVariant.sku,
+      JSON.parse(prismaVariant.options),
+      prismaVariant.priceAmount !== null ? Money.of(prismaVariant.priceAmount, prismaVariant.priceCurrency) : null,
+      prismaVariant.available,
+    );
+  }
+
+  /**
+   * Maps a domain ProductVariant to Prisma scalar columns.
+   * @private
+   * @param {ProductVariant} variant - The domain variant.
+   * @returns {any} Scalar data suitable for Prisma create/update.
+   */
+  private mapToPrismaData(variant: ProductVariant): any {
+    return {
+      sku: variant.sku,
+      options: JSON.stringify(variant.options),
+      optionsKey: variant.optionsKey(),
+      priceAmount: variant.priceOverride?.amount ?? null,
+      priceCurrency: variant.priceOverride?.currency ?? null,
+      available: variant.available,
+    };
+  }
+
+  /**
+   * Turns a unique constraint violation into a 409 naming the taken value.
+   * @private
+   * @param {any} error - The Prisma error.
+   * @param {ProductVariant} variant - The variant being written.
+   * @returns {RpcException | null} The conflict, or null if the error is something else.
+   */
+  private toConflict(error: any, variant: ProductVariant): RpcException | null {
+    if (error.code !== 'P2002') {
+      return null;
+    }
+    const message = String(error.meta?.target ?? '').includes('sku')
+      ? `A variant with SKU ${variant.sku} already exists.`
+      : `Product #${variant.productId} already has a variant with options ${JSON.stringify(variant.options)}.`;
+    return new RpcException({ status: 409, message });
+  }
+
+  /**
+   * Finds the option definitions of a product, in display order.
+   * @async
+   * @param {string} productId - The product.
+   * @returns {Promise<ProductOption[]>} The options.
+   */
+  async findOptions(productId: string): Promise<ProductOption[]> {
+    try {
+      const options = await this.prisma.client.productOption.findMany({
+        where: { productId, product: this.scope() },
+        orderBy: { position: 'asc' },
+      });
+      return options.map((option: any) => new ProductOption(option.name, JSON.parse(option.values)));
+    } catch (error: any) {
+      this.logger.error(`Error finding options of product ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding product options.' });
+    }
+  }
+
+  /**
+   * Replaces the option definitions of a product inside one Prisma transaction (joining the current
+   * UnitOfWork, if any).
+   * @async
+   * @param {string} productId - The product.
+   * @param {ProductOption[]} options - The new options.
+   * @returns {Promise<ProductOption[]>} The stored options.
+   */
+  async replaceOptions(productId: string, options: ProductOption[]): Promise<ProductOption[]> {
+    try {
+      await this.prisma.transaction(async tx => {
+        await this.assertProductInScope(productId);
+        await tx.productOption.deleteMany({ where: { productId } });
+        await tx.productOption.createMany({
+          data: options.map((option, position) => ({
+            productId,
+            name: option.name,
+            position,
+            values: JSON.stringify(option.values),
+          })),
+        });
+      });
+      return options;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Error replacing options of product ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error saving product options.' });
+    }
+  }
+
+  /**
+   * Stores a new variant.
+   * @async
+   * @param {ProductVariant} variant - The variant to create.
+   * @returns {Promise<ProductVariant>} The created variant.
+   */
+  async create(variant: ProductVariant): Promise<ProductVariant> {
+    try {
+      await this.assertProductInScope(variant.productId);
+      const created = await this.prisma.client.productVariant.create({
+        data: {
+          id: variant.id,
+          productId: variant.productId,
+          tenantId: requireTenant(this.requestContext),
+          ...this.mapToPrismaData(variant),
+        },
+      });
+      return this.mapToDomain(created);
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Error creating variant: ${error.message}`, error.stack);
+      throw this.toConflict(error, variant) ?? new RpcException({ status: 500, message: 'Database error creating variant.' });
+    }
+  }
+
+  /**
+   * Persists a variant.
+   * @async
+   * @param {ProductVariant} variant - The variant to save.
+   * @returns {Promise<ProductVariant>} The saved variant.
+   */
+  async save(variant: ProductVariant): Promise<ProductVariant> {
+    try {
+      const saved = await this.prisma.client.productVariant.update({
+        where: { id: variant.id, ...this.scope() },
+        data: this.mapToPrismaData(variant),
+      });
+      return this.mapToDomain(saved);
+    } catch (error: any) {
+      this.logger.error(`Error saving variant ${variant.id}: ${error.message}`, error.stack);
+      throw this.toConflict(error, variant) ?? new RpcException({ status: 500, message: 'Database error saving variant.' });
+    }
+  }
+
+  /**
+   * Deletes a variant.
+   * @async
+   * @param {string} id - The variant ID.
+   * @returns {Promise<void>}
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.client.productVariant.delete({ where: { id, ...this.scope() } });
+    } catch (error: any) {
+      this.logger.error(`Error deleting variant ${id}: ${error.message}`, error.stack);
+      if (error.code === 'P2025') {
+        throw new RpcException({ status: 404, message: `Variant with ID ${id} not found for deletion.` });
+      }
+      throw new RpcException({ status: 500, message: 'Database error deleting variant.' });
+    }
+  }
+
+  /**
+   * Finds a variant by its ID.
+   * @async
+   * @param {string} id - The variant ID.
+   * @returns {Promise<ProductVariant | null>} The variant or null.
+   */
+  async findById(id: string): Promise<ProductVariant | null> {
+    try {
+      const variant = await this.prisma.client.productVariant.findFirst({ where: { id, ...this.scope() } });
+      return this.mapToDomain(variant);
+    } catch (error: any) {
+      this.logger.error(`Error finding variant by ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding variant.' });
+    }
+  }
+
+  /**
+   * Finds variants by their IDs.
+   * @async
+   * @param {string[]} ids - Variant IDs.
+   * @returns {Promise<ProductVariant[]>} The variants found.
+   */
+  async findByIds(ids: string[]): Promise<ProductVariant[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    try {
+      const variants = await this.prisma.client.productVariant.findMany({
+        where: { id: { in: Array.from(new Set(ids)) }, ...this.scope() },
+      });
+      return variants.map((v: any) => this.mapToDomain(v));
+    } catch (error: any) {
+      this.logger.error(`Error finding variants by IDs: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding variants.' });
+    }
+  }
+
+  /**
+   * Finds a variant by its SKU.
+   * @async
+   * @param {string} sku - The SKU.
+   * @returns {Promise<ProductVariant | null>} The variant or null.
+   */
+  async findBySku(sku: string): Promise<ProductVariant | null> {
+    try {
+      const variant = await this.prisma.client.productVariant.findFirst({ where: { sku, ...this.scope() } });
+      return this.mapToDomain(variant);
+    } catch (error: any) {
+      this.logger.error(`Error finding variant by SKU ${sku}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding variant by SKU.' });
+    }
+  }
+
+  /**
+   * Finds the variants of a product, oldest first.
+   * @async
+   * @param {string} productId - The product.
+   * @returns {Promise<ProductVariant[]>} Its variants.
+   */
+  async findByProductId(productId: string): Promise<ProductVariant[]> {
+    try {
+      const variants = await this.prisma.client.productVariant.findMany({
+        where: { productId, ...this.scope() },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      return variants.map((v: any) => this.mapToDomain(v));
+    } catch (error: any) {
+      this.logger.error(`Error finding variants of product ${productId}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding variants.' });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * @file Tests of the full-text search of PrismaProductRepository against the real FTS5 table.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { PrismaProductRepository } from './prisma-product.repository';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContext, RequestContextProvider } from '../../../shared/application/request-context';
+
+// sql.js-fts5 ships no typings
+const initSqlJs = require('sql.js-fts5');
+
+const MIGRATIONS_DIR = join(__dirname, '../../../../prisma/migrations');
+
+/**
+ * Opens an in-memory SQLite database with every migration applied.
+ * @returns {Promise<any>} The sql.js database.
+ */
+async function migratedDatabase(): Promise<any> {
+  const SQL = await initSqlJs({ wasmBinary: readFileSync(require.resolve('sql.js-fts5/dist/sql-wasm.wasm')) });
+  const db = new SQL.Database();
+  readdirSync(MIGRATIONS_DIR)
+    .filter((name) => statSync(join(MIGRATIONS_DIR, name)).isDirectory())
+    .sort()
+    .forEach((name) => db.exec(readFileSync(join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf8')));
+  return db;
+}
+
+/**
+ * Builds the part of PrismaService the search relies on, running the raw SQL on the given database.
+ * @param {any} db - The sql.js database.
+ * @returns {PrismaService} The stand-in.
+ */
+function prismaOn(db: any): PrismaService {
+  const query = (sql: string, ...params: unknown[]) => {
+    const statement = db.prepare(sql);
+    statement.bind(params);
+    const rows: any[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    statement.free();
+    return rows;
+  };
+  const client = {
+    $queryRawUnsafe: async (sql: string, ...params: unknown[]) => query(sql, ...params),
+    $executeRawUnsafe: async (sql: string, ...params: unknown[]) => {
+      db.run(sql, params);
+      return db.getRowsModified();
+    },
+    product: {
+      findMany: async ({ where }: any) => {
+        const ids: string[] = where.id.in;
+        const tenantFilter = where.tenantId === undefined ? '' : ` AND "tenantId" = ?`;
+        const rows = query(
+          `SELECT * FROM "Product" WHERE "available" = 1 AND "id" IN (${ids.map(() => '?').join(', ')})${tenantFilter}`,
+          ...ids, ...(where.tenantId === undefined ? [] : [where.tenantId]),
+        );
+        return rows.map((row) => ({ ...row, categories: [], translations: [], media: [] }));
+      },
+    },
+  };
+  return {
+    ...client,
+    client,
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    transaction: (work: (tx: unknown) => Promise<unknown>) => work(client),
+  } as unknown as PrismaService;
+}
+
+describe('PrismaProductRepository search', () => {
+  let db: any;
+  let context: RequestContext;
+  let repository: PrismaProductRepository;
+
+  const insertProduct = (id: string, tenantId: string, name: string, description: string, tags: string[]) =>
+    db.run(
+      `INSERT INTO "Product" ("id", "tenantId", "name", "description", "tags", "priceAmount", "updatedAt")
+       VALUES (?, ?, ?, ?, ?, 1000, CURRENT_TIMESTAMP)`,
+      [id, tenantId, name, description, JSON.stringify(tags)],
+    );
+
+  beforeEach(async () => {
+    db = await migratedDatabase();
+    context = { actor: null, correlationId: null, tenantId: null, roles: null };
+    const requestContext: RequestContextProvider = { current: () => context };
+    repository = new PrismaProductRepository(prismaOn(db), requestContext);
+
+    insertProduct('in-description', 'acme', 'Reading chair', 'Comes with a matching lamp', ['furniture']);
+    insertProduct('in-name', 'acme', 'Reading lamp', 'Comes with a matching bulb', ['lighting']);
+    insertProduct('in-tags', 'acme', 'Reading light', 'Comes with a matching bulb', ['lamp']);
+    insertProduct('other-tenant', 'globex', 'Reading lamp', 'Comes with a matching bulb', ['lighting']);
+    await repository.rebuildSearchIndex();
+  });
+
+  afterEach(() => db.close());
+
+  it('ranks name matches above tag matches and tag matches above description matches', async () => {
+    context = { ...context, tenantId: 'acme' };
+
+    const result = await repository.searchText({ query: 'lamp' });
+
+    expect(result.data.map((hit) => hit.product.id)).toEqual(['in-name', 'in-tags', 'in-description']);
+    expect(result.data[0].highlights.name).toBe('Reading <mark>lamp</mark>');
+  });
+
+  it('only finds products of the current tenant', async () => {
+    context = { ...context, tenantId: 'globex' };
+
+    const result = await repository.searchText({ query: 'lamp' });
+
+    expect(result.data.map((hit) => hit.product.id)).toEqual(['other-tenant']);
+    expect(result.meta.total).toBe(1);
+  });
+
+  it('rebuilds only the index entries of the current tenant', async () => {
+    db.run(`UPDATE "Product" SET "name" = 'Reading torch' WHERE "id" IN ('in-name', 'other-tenant')`);
+    context = { ...context, tenantId: 'acme' };
+
+    const indexed = await repository.rebuildSearchIndex();
+
+    expect(indexed).toBe(3);
+    expect((await repository.searchText({ query: 'torch' })).data.map((hit) => hit.product.id)).toEqual(['in-name']);
+    context = { ...context, tenantId: 'globex' };
+    expect((await repository.searchText({ query: 'torch' })).data).toEqual([]);
+  });
+});
@@ -5,17 +5,61 @@
  * @date 2025-05-01
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
 import { Product } from '../../domain/model/product.entity';
-import { ProductRepositoryPort, PaginatedProductResult, ProductCreateData } from '../../domain/ports/product.repository.port';
+import { Money } from '../../domain/model/money.value-object';
+import { ProductPrice } from '../../domain/model/product-price.entity';
+import { ProductTranslation } from '../../domain/model/product-translation.value-object';
+import { ProductMedia } from '../../domain/model/product-media.entity';
+import { StockMovement } from '../../domain/model/stock-movement.entity';
+import { ProductVersionConflictError } from '../../domain/errors/product-version-conflict.error';
+import {
+  ProductRepositoryPort, PaginatedProductResult, ProductAvailabilityFilter, ProductCreateData, ProductUpdateData, ProductSearchCriteria, ProductCursorKey,
+  KeysetProductResult, PaginatedStockMovementResult, ProductStockChange, StockAdjustmentData, StockLevelData,
+  PaginatedProductPriceResult, PriceHistoryCriteria, AppliedPriceChange, ProductBatchUpdate, ProductBatchDelete,
+  AttributeFilterValue, ProductTextSearchCriteria, PaginatedProductTextSearchResult,
+} from '../../domain/ports/product.repository.port';
 import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { requireTenant, tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
 import { PaginationDto } from '../../../common/dto/pagination.dto';
 
+/**
+ * @const {object} PRODUCT_INCLUDE
+ * @description Relations read with every product: its category assignments, translations and media.
+ */
+const PRODUCT_INCLUDE = {
+  categories: { select: { categoryId: true } },
+  translations: { orderBy: { locale: 'asc' } },
+  media: { orderBy: { position: 'asc' } },
+};
+
+/**
+ * @const {string} SEARCH_INDEX_INSERT
+ * @description Copies available products into the ProductSearchIndex FTS5 table, with their tags joined by
+ * commas. Callers append further conditions on "Product".
+ */
+const SEARCH_INDEX_INSERT = `INSERT INTO "ProductSearchIndex" ("productId", "tenantId", "name", "description", "tags")
+  SELECT "id", "tenantId", "name", coalesce("description", ''),
+    (SELECT coalesce(group_concat("value", ', '), '') FROM json_each("Product"."tags"))
+  FROM "Product" WHERE "available" = true`;
+
+/**
+ * @const {string} SEARCH_SCORE
+ * @description Relevance of a match, higher first: BM25 (which ranks lower as better) negated, weighting
+ * the name above the tags and the tags above the description. The weights follow the column order of the
+ * table: productId, tenantId, name, description, tags.
+ */
+const SEARCH_SCORE = `-bm25("ProductSearchIndex", 0.0, 0.0, 10.0, 2.0, 5.0)`;
+
 /**
  * @class PrismaProductRepository
  * @implements ProductRepositoryPort
  * @description Implements product persistence logic using Prisma ORM with SQLite.
+ * Calls made inside a UnitOfWork run in its transaction. Every read and write is restricted to the tenant of
+ * the current request; only the system-wide jobs (scheduled prices, index rebuild from the CLI) span tenants.
  */
 @Injectable()
 export class PrismaProductRepository implements ProductRepositoryPort {
@@ -24,8 +68,22 @@ export class PrismaProductRepository implements ProductRepositoryPort {
   /**
    * @constructor
    * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
    */
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
 
   /**
    * Maps a Prisma Product model to a domain Product entity.
@@ -40,11 +98,73 @@ export class PrismaProductRepository implements ProductRepositoryPort {
     return new Product(
       prismaProduct.id,
       prismaProduct.name,
-      prismaProduct.price, 
+      Money.of(prismaProduct.priceAmount, prismaProduct.priceCurrency),
       prismaProduct.available,
+      prismaProduct.stock,
+      prismaProduct.version,
+      prismaProduct.sku,
+      (prismaProduct.categories ?? []).map((assignment: any) => assignment.categoryId),
+      JSON.parse(prismaProduct.attributes ?? '{}'),
+      prismaProduct.description ?? null,
+      JSON.parse(prismaProduct.tags ?? '[]'),
+      prismaProduct.tenantId ?? null,
+      (prismaProduct.translations ?? []).map((translation: any) =>
+        new ProductTranslation(translation.locale, translation.name, translation.description)),
+      (prismaProduct.media ?? []).map((media: any) => new ProductMedia(
+        media.id, media.type, media.url, media.storageKey, media.altText, media.width, media.height, media.primary,
+      )),
+    );
+  }
+
+  /**
+   * Maps a Prisma StockMovement model to a domain StockMovement entity.
+   * @private
+   * @param {any} prismaMovement - The stock movement object retrieved from Prisma.
+   * @returns {StockMovement} The corresponding domain StockMovement entity.
+   */
+  private mapMovementToDomain(prismaMovement: any): StockMovement {
+    return new StockMovement(
+      prismaMovement.id,
+      prismaMovement.productId,
+      prismaMovement.delta,
+      prismaMovement.reason,
+      prismaMovement.resultingStock,
+      prismaMovement.createdAt,
+    );
+  }
+
+  /**
+   * Maps a Prisma ProductPrice model to a domain ProductPrice entity.
+   * @private
+   * @param {any} prismaPrice - The price history object retrieved from Prisma.
+   * @returns {ProductPrice | null} The domain entity, or null if input is null/undefined.
+   */
+  private mapPriceToDomain(prismaPrice: any): ProductPrice | null {
+    if (!prismaPrice) {
+      return null;
+    }
+    return new ProductPrice(
+      prismaPrice.id,
+      prismaPrice.productId,
+      Money.of(prismaPrice.amount, prismaPrice.currency),
+      prismaPrice.effectiveFrom,
+      prismaPrice.createdAt,
     );
   }
 
+  /**
+   * Builds the nested Prisma create for a price history entry that takes effect immediately.
+   * @private
+   * @param {Money} price - The new price.
+   * @returns {any} Nested create input for the `prices` relation.
+   */
+  private immediatePriceEntry(price: Money): any {
+    const now = new Date();
+    return {
+      create: { id: randomUUID(), amount: price.amount, currency: price.currency, effectiveFrom: now, appliedAt: now },
+    };
+  }
+
   /**
    * Maps domain Product data for Prisma create operation.
    * @private
@@ -54,8 +174,16 @@ export class PrismaProductRepository implements ProductRepositoryPort {
    private mapToPrismaCreateData(productData: ProductCreateData): any {
     return {
       id: productData.id, // Use the externally provided ID
+      tenantId: requireTenant(this.requestContext),
+      sku: productData.sku ?? null,
       name: productData.name,
-      price: productData.price, // Prisma handles Float conversion from number
+      priceAmount: productData.price.amount, // Stored as integer minor units
+      priceCurrency: productData.price.currency,
+      prices: this.immediatePriceEntry(productData.price), // Initial price history entry
+      categories: { create: (productData.categoryIds ?? []).map(categoryId => ({ categoryId })) },
+      attributes: JSON.stringify(productData.attributes ?? {}),
+      description: productData.description ?? null,
+      tags: JSON.stringify(productData.tags ?? []),
       // 'available' defaults to true in schema if not provided
     };
   }
@@ -63,14 +191,41 @@ export class PrismaProductRepository implements ProductRepositoryPort {
    /**
     * Maps domain Product data for Prisma update operation.
     * @private
-    * @param {Partial<Omit<Product, 'id' | 'available'>>} productData - Product data from domain/application.
+    * @param {ProductUpdateData} productData - Product data from domain/application.
     * @returns {any} Data suitable for Prisma update.
     */
-    private mapToPrismaUpdateData(productData: Partial<Omit<Product, 'id' | 'available'>>): any {
+    private mapToPrismaUpdateData(productData: ProductUpdateData): any {
         const data: any = {};
         if (productData.name !== undefined) data.name = productData.name;
-        if (productData.price !== undefined) data.price = productData.price; // Prisma handles Float conversion
-        // 'available' is handled by softDelete
+        if (productData.sku !== undefined) data.sku = productData.sku;
+        if (productData.categoryIds !== undefined) {
+            // Replace the assignments wholesale; the join rows carry no data of their own
+            data.categories = { deleteMany: {}, create: productData.categoryIds.map(categoryId => ({ categoryId })) };
+        }
+        if (productData.attributes !== undefined) data.attributes = JSON.stringify(productData.attributes);
+        if (productData.description !== undefined) data.description = productData.description;
+        if (productData.tags !== undefined) data.tags = JSON.stringify(productData.tags);
+        if (productData.translations !== undefined) {
+            data.translations = {
+                deleteMany: {},
+                create: productData.translations.map(({ locale, name, description }) => ({ locale, name, description })),
+            };
+        }
+        if (productData.media !== undefined) {
+            // Positions are rewritten from the order of the list
+            data.media = {
+                deleteMany: {},
+                create: productData.media.map(({ id, type, url, storageKey, altText, width, height, primary }, position) => ({
+                    id, position, type, url, storageKey, altText, width, height, primary,
+                })),
+            };
+        }
+        if (productData.price !== undefined) {
+            data.priceAmount = productData.price.amount;
+            data.priceCurrency = productData.price.currency;
+            data.prices = this.immediatePriceEntry(productData.price); // Written in the same statement as the update
+        }
+        // 'available' is handled by softDelete/restore
         return data;
     }
 
@@ -83,16 +238,43 @@ export class PrismaProductRepository implements ProductRepositoryPort {
   async create(productData: ProductCreateData): Promise<Product> {
     const prismaData = this.mapToPrismaCreateData(productData);
     try {
-      const createdPrismaProduct = await this.prisma.product.create({
-        data: prismaData,
+      const createdPrismaProduct = await this.prisma.transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: prismaData,
+          include: PRODUCT_INCLUDE,
+        });
+        await this.reindex([created.id]);
+        return created;
       });
       return this.mapToDomain(createdPrismaProduct);
     } catch (error: any) {
       this.logger.error(`Error creating product: ${error.message}`, error.stack);
+      if (error.code === 'P2002') {
+        throw new RpcException({ status: 409, message: `A product with SKU ${productData.sku} already exists.` });
+      }
       throw new RpcException({ status: 500, message: 'Database error creating product.' });
     }
   }
 
+  /**
+   * Finds a product by its SKU using Prisma, regardless of availability.
+   * @async
+   * @param {string} sku - The SKU.
+   * @returns {Promise<Product | null>} The domain Product entity or null.
+   */
+  async findBySku(sku: string): Promise<Product | null> {
+    try {
+      const prismaProduct = await this.prisma.client.product.findFirst({
+        where: { sku, ...this.scope() },
+        include: PRODUCT_INCLUDE,
+      });
+      return this.mapToDomain(prismaProduct);
+    } catch (error: any) {
+      this.logger.error(`Error finding product by SKU ${sku}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding product by SKU.' });
+    }
+  }
+
   /**
    * Finds an available product by its ID using Prisma.
    * @async
@@ -101,11 +283,13 @@ export class PrismaProductRepository implements ProductRepositoryPort {
    */
   async findById(id: string): Promise<Product | null> {
     try {
-      const prismaProduct = await this.prisma.product.findFirst({
+      const prismaProduct = await this.prisma.client.product.findFirst({
         where: { 
           id: id,
-          available: true 
+          available: true,
+          ...this.scope(),
         },
+        include: PRODUCT_INCLUDE,
       });
       return this.mapToDomain(prismaProduct);
     } catch (error: any) {
@@ -115,6 +299,38 @@ export class PrismaProductRepository implements ProductRepositoryPort {
     }
   }
 
+  /**
+   * Finds a product by its ID using Prisma, regardless of availability.
+   * @async
+   * @param {string} id - The ID of the product to find.
+   * @returns {Promise<Product | null>} The domain Product entity, or null if it never existed.
+   */
+  async findAnyById(id: string): Promise<Product | null> {
+    try {
+      const prismaProduct = await this.prisma.client.product.findFirst({
+        where: { id, ...this.scope() },
+        include: PRODUCT_INCLUDE,
+      });
+      return this.mapToDomain(prismaProduct);
+    } catch (error: any) {
+      this.logger.error(`Error finding product by ID ${id}: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  /**
+   * Builds the Prisma where clause for an availability filter.
+   * @private
+   * @param {ProductAvailabilityFilter} [availability='available'] - Which products to include.
+   * @returns {any} Prisma where input.
+   */
+  private availabilityWhere(availability: ProductAvailabilityFilter = 'available'): any {
+    if (availability === 'all') {
+      return {};
+    }
+    return { available: availability === 'available' };
+  }
+
   /**
    * Finds all available products with pagination using Prisma.
    * @async
@@ -127,11 +343,12 @@ export class PrismaProductRepository implements ProductRepositoryPort {
 
     try {
         const [totalAvailable, prismaProducts] = await this.prisma.$transaction([
-             this.prisma.product.count({ where: { available: true } }),
+             this.prisma.product.count({ where: { available: true, ...this.scope() } }),
              this.prisma.product.findMany({
                 skip: skip,
                 take: limit,
-                where: { available: true },
+                where: { available: true, ...this.scope() },
+                include: PRODUCT_INCLUDE,
              }),
         ]);
 
@@ -152,14 +369,300 @@ export class PrismaProductRepository implements ProductRepositoryPort {
     }
   }
 
+  /**
+   * Builds the Prisma where clause for a product search.
+   * @private
+   * @param {ProductSearchCriteria} criteria - Search filters.
+   * @returns {any} Prisma where input.
+   */
+  private buildSearchWhere(criteria: ProductSearchCriteria): any {
+    const where: any = { ...this.availabilityWhere(criteria.availability), ...this.scope() };
+    if (criteria.name) {
+      where.name = { contains: criteria.name.trim() }; // LIKE on SQLite is case-insensitive for ASCII
+    }
+    if (criteria.categoryIds) {
+      where.categories = { some: { categoryId: { in: criteria.categoryIds } } };
+    }
+    const currency = criteria.currency ?? criteria.minPrice?.currency ?? criteria.maxPrice?.currency;
+    if (currency) {
+      where.priceCurrency = currency;
+    }
+    if (criteria.minPrice || criteria.maxPrice) {
+      where.priceAmount = {};
+      if (criteria.minPrice) where.priceAmount.gte = criteria.minPrice.amount;
+      if (criteria.maxPrice) where.priceAmount.lte = criteria.maxPrice.amount;
+    }
+    return where;
+  }
+
+  /**
+   * Finds the products whose attributes have all the given values. Prisma cannot filter inside a JSON
+   * TEXT column on SQLite, so this runs SQLite's JSON functions directly; json_type keeps "24" from
+   * matching 24 and true from matching 1. Keys are restricted by the search DTO, so they can be quoted
+   * into the JSON path safely; values are bound as parameters.
+   * @private
+   * @async
+   * @param {Record<string, AttributeFilterValue>} attributes - Required values keyed by attribute name.
+   * @returns {Promise<string[]>} IDs of the matching products.
+   */
+  private async findIdsWithAttributes(attributes: Record<string, AttributeFilterValue>): Promise<string[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const [key, value] of Object.entries(attributes)) {
+      const path = `$."${key}"`;
+      if (typeof value === 'boolean') {
+        conditions.push(`json_type("attributes", ?) = ?`);
+        params.push(path, value ? 'true' : 'false');
+      } else {
+        const types = typeof value === 'number' ? `('integer', 'real')` : `('text')`;
+        conditions.push(`json_type("attributes", ?) IN ${types} AND json_extract("attributes", ?) = ?`);
+        params.push(path, path, value);
+      }
+    }
+    const rows: { id: string }[] = await this.prisma.$queryRawUnsafe(
+      `SELECT "id" FROM "Product" WHERE ${conditions.join(' AND ')}`,
+      ...params,
+    );
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Finds products matching the search criteria using Prisma.
+   * @async
+   * @param {ProductSearchCriteria} criteria - Filters, sorting and pagination parameters.
+   * @returns {Promise<PaginatedProductResult>} Paginated list of matching domain Product entities.
+   */
+  async search(criteria: ProductSearchCriteria): Promise<PaginatedProductResult> {
+    const { page = 1, limit = 10, sortBy, sortOrder = 'asc' } = criteria;
+    const skip = (page - 1) * limit;
+    const where = this.buildSearchWhere(criteria);
+    // Prices only compare within a currency; tie-break on id so pages stay stable when sort values repeat
+    const sortColumns = sortBy === 'price' ? [{ priceCurrency: sortOrder }, { priceAmount: sortOrder }] : [{ [sortBy]: sortOrder }];
+    const orderBy = sortBy ? [...sortColumns, { id: 'asc' }] : undefined;
+
+    try {
+        if (criteria.attributes && Object.keys(criteria.attributes).length > 0) {
+            where.id = { in: await this.findIdsWithAttributes(criteria.attributes) };
+        }
+        const [total, prismaProducts] = await this.prisma.$transaction([
+             this.prisma.product.count({ where }),
+             this.prisma.product.findMany({
+                skip: skip,
+                take: limit,
+                where,
+                orderBy,
+                include: PRODUCT_INCLUDE,
+             }),
+        ]);
+
+        return {
+            data: prismaProducts.map(p => this.mapToDomain(p)),
+            meta: {
+                total: total,
+                page: page,
+                lastPage: Math.ceil(total / limit),
+            },
+        };
+    } catch (error: any) {
+         this.logger.error(`Error searching products: ${error.message}`, error.stack);
+         throw new RpcException({ status: 500, message: 'Database error finding products.' });
+    }
+  }
+
+  /**
+   * Replaces the search index entries of the given products with their current values. Unavailable products
+   * are left out of the index. Runs in the caller's transaction.
+   * @private
+   * @async
+   * @param {string[]} ids - Product IDs.
+   * @returns {Promise<void>}
+   */
+  private async reindex(ids: string[]): Promise<void> {
+    const placeholders = ids.map(() => '?').join(', ');
+    await this.prisma.client.$executeRawUnsafe(
+      `DELETE FROM "ProductSearchIndex" WHERE "productId" IN (${placeholders})`,
+      ...ids,
+    );
+    await this.prisma.client.$executeRawUnsafe(`${SEARCH_INDEX_INSERT} AND "id" IN (${placeholders})`, ...ids);
+  }
+
+  /**
+   * Turns a user query into an FTS5 match expression. Only the words are kept, each quoted, so FTS5 operators
+   * in the input have no effect; all words must match and the last one also matches as a prefix, so results
+   * show up while the user is still typing it.
+   * @private
+   * @param {string} query - The user's query.
+   * @returns {string | null} The match expression, or null if the query has no words.
+   */
+  private toMatchExpression(query: string): string | null {
+    const words = query.match(/[\p{L}\p{M}\p{N}]+/gu);
+    if (!words) {
+      return null;
+    }
+    return words.map((word, index) => `"${word}"${index === words.length - 1 ? '*' : ''}`).join(' ');
+  }
+
+  /**
+   * Finds available products matching a full-text query through the ProductSearchIndex FTS5 table.
+   * @async
+   * @param {ProductTextSearchCriteria} criteria - The query and pagination parameters.
+   * @returns {Promise<PaginatedProductTextSearchResult>} Ranked domain Product entities with highlights.
+   */
+  async searchText(criteria: ProductTextSearchCriteria): Promise<PaginatedProductTextSearchResult> {
+    const { query, page = 1, limit = 10 } = criteria;
+    const match = this.toMatchExpression(query);
+    if (!match) {
+      return { data: [], meta: { total: 0, page, lastPage: 0 } };
+    }
+
+    const { tenantId } = this.scope();
+    const tenantFilter = tenantId === undefined ? '' : ` AND "tenantId" = ?`;
+    const filterParams = tenantId === undefined ? [match] : [match, tenantId];
+
+    try {
+        const [[{ total }], hits] = await this.prisma.$transaction([
+            this.prisma.$queryRawUnsafe(
+                `SELECT count(*) AS "total" FROM "ProductSearchIndex" WHERE "ProductSearchIndex" MATCH ?${tenantFilter}`,
+                ...filterParams,
+            ),
+            this.prisma.$queryRawUnsafe(
+                `SELECT "productId", ${SEARCH_SCORE} AS "score",
+                    highlight("ProductSearchIndex", 2, '<mark>', '</mark>') AS "name",
+                    snippet("ProductSearchIndex", 3, '<mark>', '</mark>', '…', 16) AS "description",
+                    highlight("ProductSearchIndex", 4, '<mark>', '</mark>') AS "tags"
+                 FROM "ProductSearchIndex" WHERE "ProductSearchIndex" MATCH ?${tenantFilter}
+                 ORDER BY "score" DESC, "productId" LIMIT ? OFFSET ?`,
+                ...filterParams, limit, (page - 1) * limit,
+            ),
+        ]);
+
+        const prismaProducts = await this.prisma.product.findMany({
+            where: { id: { in: hits.map((hit: any) => hit.productId) }, available: true, ...this.scope() },
+            include: PRODUCT_INCLUDE,
+        });
+        const productsById = new Map(prismaProducts.map(p => [p.id, this.mapToDomain(p)]));
+
+        return {
+            // A hit whose product is gone stays out; rebuilding the index removes it for good
+            data: hits.filter((hit: any) => productsById.has(hit.productId)).map((hit: any) => ({
+                product: productsById.get(hit.productId),
+                score: hit.score,
+                highlights: { name: hit.name, description: hit.description || null, tags: hit.tags },
+            })),
+            meta: {
+                total: Number(total),
+                page: page,
+                lastPage: Math.ceil(Number(total) / limit),
+            },
+        };
+    } catch (error: any) {
+         this.logger.error(`Error searching products for "${query}": ${error.message}`, error.stack);
+         throw new RpcException({ status: 500, message: 'Database error searching products.' });
+    }
+  }
+
+  /**
+   * Rebuilds the entries of the current tenant in the ProductSearchIndex FTS5 table in one transaction, then
+   * merges its segments. Outside of a request every tenant's entries are rebuilt.
+   * @async
+   * @returns {Promise<number>} The number of products indexed.
+   */
+  async rebuildSearchIndex(): Promise<number> {
+    const { tenantId } = this.scope();
+    const tenantParams = tenantId === undefined ? [] : [tenantId];
+
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            await tx.$executeRawUnsafe(
+              `DELETE FROM "ProductSearchIndex"${tenantId === undefined ? '' : ` WHERE "tenantId" = ?`}`,
+              ...tenantParams,
+            );
+            const indexed = await tx.$executeRawUnsafe(
+              `${SEARCH_INDEX_INSERT}${tenantId === undefined ? '' : ` AND "tenantId" = ?`}`,
+              ...tenantParams,
+            );
+            await tx.$executeRawUnsafe(`INSERT INTO "ProductSearchIndex" ("ProductSearchIndex") VALUES ('optimize')`);
+            return indexed;
+        });
+    } catch (error: any) {
+        this.logger.error(`Error rebuilding the search index: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error rebuilding the search index.' });
+    }
+  }
+
+  /**
+   * Finds products after a keyset position using Prisma.
+   * Fetches one extra row to determine whether another page exists.
+   * @async
+   * @param {ProductCursorKey | null} after - Position to continue after, or null to start from the beginning.
+   * @param {number} limit - Maximum number of products to return.
+   * @param {ProductAvailabilityFilter} [availability='available'] - Which products to include.
+   * @returns {Promise<KeysetProductResult>} The page of domain Product entities and the position of its last item.
+   */
+  async findAfter(
+    after: ProductCursorKey | null,
+    limit: number,
+    availability: ProductAvailabilityFilter = 'available',
+  ): Promise<KeysetProductResult> {
+    const where: any = { ...this.availabilityWhere(availability), ...this.scope() };
+    if (after) {
+      where.OR = [
+        { createdAt: { gt: after.createdAt } },
+        { createdAt: after.createdAt, id: { gt: after.id } },
+      ];
+    }
+
+    try {
+        const prismaProducts = await this.prisma.client.product.findMany({
+            where,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            take: limit + 1,
+            include: PRODUCT_INCLUDE,
+        });
+
+        const hasMore = prismaProducts.length > limit;
+        const page = hasMore ? prismaProducts.slice(0, limit) : prismaProducts;
+        const last = page[page.length - 1];
+
+        return {
+            data: page.map(p => this.mapToDomain(p)),
+            nextKey: hasMore && last ? { createdAt: last.createdAt, id: last.id } : null,
+            hasMore,
+        };
+    } catch (error: any) {
+         this.logger.error(`Error finding products by cursor: ${error.message}`, error.stack);
+         throw new RpcException({ status: 500, message: 'Database error finding products.' });
+    }
+  }
+
+  /**
+   * Tells a version mismatch apart from a missing product after a conditional write matched no row.
+   * @private
+   * @async
+   * @param {string} id - The product ID.
+   * @param {number} [expectedVersion] - Version the write was conditioned on, if any.
+   * @throws {ProductVersionConflictError} If the product exists with another version.
+   */
+  private async assertVersionUnchanged(id: string, expectedVersion?: number): Promise<void> {
+    if (expectedVersion === undefined) {
+      return;
+    }
+    const current = await this.prisma.client.product.findFirst({ where: { id, ...this.scope() }, select: { version: true } });
+    if (current && current.version !== expectedVersion) {
+      throw new ProductVersionConflictError(id, expectedVersion, current.version);
+    }
+  }
+
   /**
    * Updates a product using Prisma. Assumes existence check was done prior.
    * @async
    * @param {string} id - The ID of the product to update.
-   * @param {Partial<Omit<Product, 'id' | 'available'>>} updateData - The data to update.
+   * @param {ProductUpdateData} updateData - The data to update.
+   * @param {number} [expectedVersion] - Only write if the product still has this version.
    * @returns {Promise<Product>} The updated domain Product entity.
+   * @throws {ProductVersionConflictError} If the product's version is not the expected one.
    */
-  async update(id: string, updateData: Partial<Omit<Product, 'id' | 'available'>>): Promise<Product> {
+  async update(id: string, updateData: ProductUpdateData, expectedVersion?: number): Promise<Product> {
      const prismaData = this.mapToPrismaUpdateData(updateData);
      
      if (Object.keys(prismaData).length === 0) {
@@ -170,14 +673,23 @@ export class PrismaProductRepository implements ProductRepositoryPort {
      }
 
      try {
-        const updatedPrismaProduct = await this.prisma.product.update({
-            where: { id }, // Update only works if product exists
-            data: prismaData,
+        const updatedPrismaProduct = await this.prisma.transaction(async (tx) => {
+            const updated = await tx.product.update({
+                where: { id, version: expectedVersion, ...this.scope() }, // Update only works if product exists (at that version)
+                data: { ...prismaData, version: { increment: 1 } },
+                include: PRODUCT_INCLUDE,
+            });
+            await this.reindex([id]);
+            return updated;
         });
         return this.mapToDomain(updatedPrismaProduct);
      } catch (error: any) { // Catch specific Prisma errors like P2025 (RecordNotFound)
         this.logger.error(`Error updating product ID ${id}: ${error.message}`, error.stack);
+         if (error.code === 'P2002') {
+              throw new RpcException({ status: 409, message: `A product with SKU ${updateData.sku} already exists.` });
+         }
          if (error.code === 'P2025') {
+              await this.assertVersionUnchanged(id, expectedVersion);
               throw new RpcException({ status: 404, message: `Product with ID ${id} not found for update.` });
          }
         throw new RpcException({ status: 500, message: 'Database error updating product.' });
@@ -189,24 +701,60 @@ export class PrismaProductRepository implements ProductRepositoryPort {
    * Assumes existence check was done prior.
    * @async
    * @param {string} id - The ID of the product to soft delete.
+   * @param {number} [expectedVersion] - Only write if the product still has this version.
    * @returns {Promise<Product>} The domain Product entity marked as unavailable.
+   * @throws {ProductVersionConflictError} If the product's version is not the expected one.
    */
-  async softDelete(id: string): Promise<Product> {
+  async softDelete(id: string, expectedVersion?: number): Promise<Product> {
     try {
-        const updatedPrismaProduct = await this.prisma.product.update({
-            where: { id }, // Delete only works if product exists
-            data: { available: false },
+        const updatedPrismaProduct = await this.prisma.transaction(async (tx) => {
+            const deleted = await tx.product.update({
+                where: { id, version: expectedVersion, ...this.scope() }, // Delete only works if product exists (at that version)
+                data: { available: false, version: { increment: 1 } },
+                include: PRODUCT_INCLUDE,
+            });
+            await this.reindex([id]); // Drops it from the index
+            return deleted;
         });
         return this.mapToDomain(updatedPrismaProduct);
     } catch (error: any) { // Catch specific Prisma errors like P2025
         this.logger.error(`Error soft deleting product ID ${id}: ${error.message}`, error.stack);
         if (error.code === 'P2025') {
+             await this.assertVersionUnchanged(id, expectedVersion);
              throw new RpcException({ status: 404, message: `Product with ID ${id} not found for deletion.` });
         }
         throw new RpcException({ status: 500, message: 'Database error deleting product.' });
     }
   }
 
+  /**
+   * Restores a soft-deleted product by setting 'available' to true using Prisma.
+   * Assumes existence check was done prior.
+   * @async
+   * @param {string} id - The ID of the product to restore.
+   * @returns {Promise<Product>} The domain Product entity marked as available.
+   */
+  async restore(id: string): Promise<Product> {
+    try {
+        const updatedPrismaProduct = await this.prisma.transaction(async (tx) => {
+            const restored = await tx.product.update({
+                where: { id, ...this.scope() },
+                data: { available: true, version: { increment: 1 } },
+                include: PRODUCT_INCLUDE,
+            });
+            await this.reindex([id]);
+            return restored;
+        });
+        return this.mapToDomain(updatedPrismaProduct);
+    } catch (error: any) {
+        this.logger.error(`Error restoring product ID ${id}: ${error.message}`, error.stack);
+        if (error.code === 'P2025') {
+             throw new RpcException({ status: 404, message: `Product with ID ${id} not found for restore.` });
+        }
+        throw new RpcException({ status: 500, message: 'Database error restoring product.' });
+    }
+  }
+
    /**
     * Finds available products matching the given IDs using Prisma.
     * @async
@@ -220,11 +768,13 @@ export class PrismaProductRepository implements ProductRepositoryPort {
         try {
             const uniqueIds = Array.from(new Set(ids)); // Ensure unique IDs
             
-            const prismaProducts = await this.prisma.product.findMany({
+            const prismaProducts = await this.prisma.client.product.findMany({
                 where: {
                     id: { in: uniqueIds },
                     available: true,
+                    ...this.scope(),
                 },
+                include: PRODUCT_INCLUDE,
             });
             
             return prismaProducts.map(p => this.mapToDomain(p));
@@ -233,4 +783,353 @@ export class PrismaProductRepository implements ProductRepositoryPort {
             throw new RpcException({ status: 500, message: 'Database error finding products by IDs.' });
         }
    }
-}
\ No newline at end of file
+
+  /**
+   * Creates several products inside one Prisma transaction (joining the current UnitOfWork, if any).
+   * @async
+   * @param {ProductCreateData[]} productsData - Data for the new products.
+   * @returns {Promise<Product[]>} The created domain Product entities, in input order.
+   */
+  async createMany(productsData: ProductCreateData[]): Promise<Product[]> {
+    return this.prisma.transaction(async () => {
+      const created: Product[] = [];
+      for (const productData of productsData) {
+        created.push(await this.create(productData));
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Updates several products inside one Prisma transaction (joining the current UnitOfWork, if any).
+   * @async
+   * @param {ProductBatchUpdate[]} updates - The products, their changes and optional expected versions.
+   * @returns {Promise<Product[]>} The updated domain Product entities, in input order.
+   * @throws {ProductVersionConflictError} If a product's version is not the expected one.
+   */
+  async updateMany(updates: ProductBatchUpdate[]): Promise<Product[]> {
+    return this.prisma.transaction(async () => {
+      const updated: Product[] = [];
+      for (const { id, data, expectedVersion } of updates) {
+        updated.push(await this.update(id, data, expectedVersion));
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Soft deletes several products inside one Prisma transaction (joining the current UnitOfWork, if any).
+   * @async
+   * @param {ProductBatchDelete[]} deletes - The products and optional expected versions.
+   * @returns {Promise<Product[]>} The domain Product entities marked as unavailable, in input order.
+   * @throws {ProductVersionConflictError} If a product's version is not the expected one.
+   */
+  async softDeleteMany(deletes: ProductBatchDelete[]): Promise<Product[]> {
+    return this.prisma.transaction(async () => {
+      const deleted: Product[] = [];
+      for (const { id, expectedVersion } of deletes) {
+        deleted.push(await this.softDelete(id, expectedVersion));
+      }
+      return deleted;
+    });
+  }
+
+  /**
+   * Finds multiple products by their IDs using Prisma, regardless of availability.
+   * @async
+   * @param {string[]} ids - An array of product IDs to find.
+   * @returns {Promise<Product[]>} The stored domain Product entities among the IDs.
+   */
+  async findByIds(ids: string[]): Promise<Product[]> {
+    if (!ids || ids.length === 0) {
+      return [];
+    }
+    try {
+      const prismaProducts = await this.prisma.client.product.findMany({
+        where: { id: { in: Array.from(new Set(ids)) }, ...this.scope() },
+        include: PRODUCT_INCLUDE,
+      });
+      return prismaProducts.map(p => this.mapToDomain(p));
+    } catch (error: any) {
+      this.logger.error(`Error finding products by IDs: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding products by IDs.' });
+    }
+  }
+
+  /**
+   * Applies a signed stock change inside a Prisma transaction. The decrement is guarded
+   * in the WHERE clause so concurrent adjustments can never drive stock below zero.
+   * @async
+   * @param {StockAdjustmentData} adjustment - The product, movement ID, delta and reason.
+   * @returns {Promise<ProductStockChange>} The updated domain Product and the recorded StockMovement.
+   */
+  async adjustStock(adjustment: StockAdjustmentData): Promise<ProductStockChange> {
+    const { productId, movementId, delta, reason } = adjustment;
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const where: any = { id: productId, available: true, ...this.scope() };
+            if (delta < 0) where.stock = { gte: -delta };
+
+            const { count } = await tx.product.updateMany({
+                where,
+                data: { stock: { increment: delta } },
+            });
+            if (count === 0) {
+                const exists = await tx.product.count({ where: { id: productId, available: true, ...this.scope() } });
+                if (!exists) {
+                    throw new RpcException({ status: 404, message: `Product with ID ${productId} not found for stock adjustment.` });
+                }
+                throw new RpcException({ status: 409, message: `Insufficient stock for product ${productId} to remove ${-delta} units.` });
+            }
+
+            const updatedPrismaProduct = await tx.product.findUnique({ where: { id: productId }, include: PRODUCT_INCLUDE });
+            const prismaMovement = await tx.stockMovement.create({
+                data: { id: movementId, productId, delta, reason, resultingStock: updatedPrismaProduct.stock },
+            });
+            return { product: this.mapToDomain(updatedPrismaProduct), movement: this.mapMovementToDomain(prismaMovement) };
+        });
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error adjusting stock for product ID ${productId}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error adjusting stock.' });
+    }
+  }
+
+  /**
+   * Sets an absolute stock level inside a Prisma transaction, recording the difference as a movement.
+   * @async
+   * @param {StockLevelData} stockLevel - The product, movement ID, quantity and reason.
+   * @returns {Promise<ProductStockChange>} The updated domain Product and the recorded StockMovement.
+   */
+  async setStock(stockLevel: StockLevelData): Promise<ProductStockChange> {
+    const { productId, movementId, quantity, reason } = stockLevel;
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const current = await tx.product.findFirst({ where: { id: productId, available: true, ...this.scope() } });
+            if (!current) {
+                throw new RpcException({ status: 404, message: `Product with ID ${productId} not found for stock update.` });
+            }
+
+            const updatedPrismaProduct = await tx.product.update({
+                where: { id: productId },
+                data: { stock: quantity },
+                include: PRODUCT_INCLUDE,
+            });
+            const prismaMovement = await tx.stockMovement.create({
+                data: { id: movementId, productId, delta: quantity - current.stock, reason, resultingStock: quantity },
+            });
+            return { product: this.mapToDomain(updatedPrismaProduct), movement: this.mapMovementToDomain(prismaMovement) };
+        });
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error setting stock for product ID ${productId}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error setting stock.' });
+    }
+  }
+
+  /**
+   * Finds the stock movements of a product, newest first, using Prisma.
+   * @async
+   * @param {string} productId - The product whose ledger to read.
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @returns {Promise<PaginatedStockMovementResult>} Paginated list of domain StockMovement entities.
+   */
+  async findStockMovements(productId: string, paginationDto: PaginationDto): Promise<PaginatedStockMovementResult> {
+    const { page = 1, limit = 10 } = paginationDto;
+    const skip = (page - 1) * limit;
+
+    try {
+        const [total, prismaMovements] = await this.prisma.$transaction([
+             this.prisma.stockMovement.count({ where: { productId, product: this.scope() } }),
+             this.prisma.stockMovement.findMany({
+                skip: skip,
+                take: limit,
+                where: { productId, product: this.scope() },
+                orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+             }),
+        ]);
+
+        return {
+            data: prismaMovements.map(m => this.mapMovementToDomain(m)),
+            meta: {
+                total: total,
+                page: page,
+                lastPage: Math.ceil(total / limit),
+            },
+        };
+    } catch (error: any) {
+         this.logger.error(`Error finding stock movements for product ID ${productId}: ${error.message}`, error.stack);
+         throw new RpcException({ status: 500, message: 'Database error finding stock movements.' });
+    }
+  }
+
+  /**
+   * Records a scheduled price change using Prisma.
+   * @async
+   * @param {ProductPrice} productPrice - The scheduled price entry.
+   * @returns {Promise<ProductPrice>} The stored domain ProductPrice.
+   */
+  async schedulePriceChange(productPrice: ProductPrice): Promise<ProductPrice> {
+    try {
+        const owned = await this.prisma.client.product.count({ where: { id: productPrice.productId, ...this.scope() } });
+        if (!owned) {
+            throw new RpcException({ status: 404, message: `Product with ID ${productPrice.productId} not found.` });
+        }
+        const createdPrice = await this.prisma.client.productPrice.create({
+            data: {
+                id: productPrice.id,
+                productId: productPrice.productId,
+                amount: productPrice.price.amount,
+                currency: productPrice.price.currency,
+                effectiveFrom: productPrice.effectiveFrom,
+            },
+        });
+        return this.mapPriceToDomain(createdPrice);
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error scheduling price change for product ID ${productPrice.productId}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error scheduling price change.' });
+    }
+  }
+
+  /**
+   * Finds the price history of a product using Prisma.
+   * @async
+   * @param {string} productId - The product whose history to read.
+   * @param {PriceHistoryCriteria} criteria - Pagination and optional point in time.
+   * @returns {Promise<PaginatedProductPriceResult>} Paginated domain ProductPrice entities.
+   */
+  async findPriceHistory(productId: string, criteria: PriceHistoryCriteria): Promise<PaginatedProductPriceResult> {
+    const { page = 1, limit = 10, at } = criteria;
+    const skip = (page - 1) * limit;
+    const where: any = { productId, product: this.scope() };
+    if (at) {
+      where.effectiveFrom = { lte: at };
+    }
+
+    try {
+        const [total, prismaPrices] = await this.prisma.$transaction([
+             this.prisma.productPrice.count({ where }),
+             this.prisma.productPrice.findMany({
+                skip: skip,
+                take: limit,
+                where,
+                orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+             }),
+        ]);
+
+        return {
+            data: prismaPrices.map(p => this.mapPriceToDomain(p)),
+            meta: {
+                total: total,
+                page: page,
+                lastPage: Math.ceil(total / limit),
+            },
+        };
+    } catch (error: any) {
+         this.logger.error(`Error finding price history for product ID ${productId}: ${error.message}`, error.stack);
+         throw new RpcException({ status: 500, message: 'Database error finding price history.' });
+    }
+  }
+
+  /**
+   * Finds the price entry in effect at a given moment using Prisma.
+   * @async
+   * @param {string} productId - The product.
+   * @param {Date} at - The moment to resolve the price for.
+   * @returns {Promise<ProductPrice | null>} The effective domain ProductPrice or null.
+   */
+  async findEffectivePrice(productId: string, at: Date): Promise<ProductPrice | null> {
+    try {
+        const prismaPrice = await this.prisma.client.productPrice.findFirst({
+            where: { productId, product: this.scope(), effectiveFrom: { lte: at } },
+            orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+        });
+        return this.mapPriceToDomain(prismaPrice);
+    } catch (error: any) {
+        this.logger.error(`Error finding effective price for product ID ${productId}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error finding effective price.' });
+    }
+  }
+
+  /**
+   * Finds the price entries in effect at a given moment for several products in one query, keeping the
+   * latest entry per product.
+   * @async
+   * @param {string[]} productIds - The products.
+   * @param {Date} at - The moment to resolve the prices for.
+   * @returns {Promise<Map<string, ProductPrice>>} The effective domain ProductPrices by product ID.
+   */
+  async findEffectivePrices(productIds: string[], at: Date): Promise<Map<string, ProductPrice>> {
+    if (productIds.length === 0) {
+        return new Map();
+    }
+    try {
+        const prismaPrices = await this.prisma.client.productPrice.findMany({
+            where: { productId: { in: productIds }, product: this.scope(), effectiveFrom: { lte: at } },
+            orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+            distinct: ['productId'],
+        });
+        return new Map(prismaPrices.map((p: any) => [p.productId, this.mapPriceToDomain(p)!]));
+    } catch (error: any) {
+        this.logger.error(`Error finding effective prices for ${productIds.length} products: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error finding effective prices.' });
+    }
+  }
+
+  /**
+   * Applies scheduled prices that have come into effect inside a Prisma transaction. For each
+   * affected product the latest effective entry wins, so a late run never overrides a newer
+   * immediate change with an older scheduled one.
+   * @async
+   * @param {Date} now - Reference time.
+   * @returns {Promise<AppliedPriceChange[]>} The products whose price changed.
+   */
+  async applyDuePrices(now: Date): Promise<AppliedPriceChange[]> {
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const due = await tx.productPrice.findMany({
+                where: { appliedAt: null, effectiveFrom: { lte: now } },
+                distinct: ['productId'],
+                select: { productId: true },
+            });
+
+            const changes: AppliedPriceChange[] = [];
+            for (const { productId } of due) {
+                const effective = await tx.productPrice.findFirst({
+                    where: { productId, effectiveFrom: { lte: now } },
+                    orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+                });
+                const current = await tx.product.findUnique({ where: { id: productId } });
+                if (current.priceAmount === effective.amount && current.priceCurrency === effective.currency) {
+                    continue;
+                }
+                const updated = await tx.product.update({
+                    where: { id: productId },
+                    data: { priceAmount: effective.amount, priceCurrency: effective.currency, version: { increment: 1 } },
+                    include: PRODUCT_INCLUDE,
+                });
+                changes.push({
+                    product: this.mapToDomain(updated),
+                    previousPrice: Money.of(current.priceAmount, current.priceCurrency),
+                });
+            }
+
+            await tx.productPrice.updateMany({
+                where: { appliedAt: null, effectiveFrom: { lte: now } },
+                data: { appliedAt: now },
+            });
+            return changes;
+        });
+    } catch (error: any) {
+        this.logger.error(`Error applying scheduled prices: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error applying scheduled prices.' });
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * @file Prisma adapter implementing the StockReservationRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { StockReservation } from '../../domain/model/stock-reservation.entity';
+import { StockReservationRepositoryPort, StockReservationCreateData } from '../../domain/ports/stock-reservation.repository.port';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { requireTenant, tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+
+/**
+ * @class PrismaStockReservationRepository
+ * @implements StockReservationRepositoryPort
+ * @description Implements stock reservation persistence using Prisma ORM with SQLite.
+ * Every stock change made here is also written to the StockMovement ledger. Reservations, and the products
+ * they hold, are restricted to the tenant of the current request; the expiry sweep spans tenants.
+ */
+@Injectable()
+export class PrismaStockReservationRepository implements StockReservationRepositoryPort {
+  private readonly logger = new Logger(PrismaStockReservationRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
+
+  /**
+   * Maps a Prisma StockReservation model (with items) to a domain StockReservation entity.
+   * @private
+   * @param {any} prismaReservation - The reservation object retrieved from Prisma.
+   * @returns {StockReservation | null} The domain entity, or null if input is null/undefined.
+   */
+  private mapToDomain(prismaReservation: any): StockReservation | null {
+    if (!prismaReservation) {
+      return null;
+    }
+    return new StockReservation(
+      prismaReservation.id,
+      prismaReservation.orderReference,
+      prismaReservation.status,
+      prismaReservation.expiresAt,
+      (prismaReservation.items ?? []).map((item: any) => ({ productId: item.productId, quantity: item.quantity })),
+    );
+  }
+
+  /**
+   * Throws the appropriate error for a status transition that matched no pending reservation.
+   * @private
+   * @async
+   * @param {any} tx - Prisma transaction client.
+   * @param {string} id - The reservation ID.
+   * @param {string} action - Verb used in the error message.
+   */
+  private async throwTransitionError(tx: any, id: string, action: string): Promise<never> {
+    const existing = await tx.stockReservation.findFirst({ where: { id, ...this.scope() } });
+    if (!existing) {
+      throw new RpcException({ status: 404, message: `Reservation with ID ${id} not found.` });
+    }
+    throw new RpcException({
+      status: 409,
+      message: `Reservation with ID ${id} cannot be ${action} because it is ${existing.status}.`,
+    });
+  }
+
+  /**
+   * Deducts stock for all items and creates the reservation inside one Prisma transaction.
+   * Each decrement is guarded on the current stock, so concurrent reservations cannot oversell.
+   * @async
+   * @param {StockReservationCreateData} reservationData - Reservation ID, order reference, expiry and items.
+   * @returns {Promise<StockReservation>} The created domain StockReservation.
+   */
+  async reserve(reservationData: StockReservationCreateData): Promise<StockReservation> {
+    const { id, orderReference, expiresAt, items } = reservationData;
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const failures: string[] = [];
+
+            for (const item of items) {
+                const { count } = await tx.product.updateMany({
+                    where: { id: item.productId, available: true, stock: { gte: item.quantity }, ...this.scope() },
+                    data: { stock: { decrement: item.quantity } },
+                });
+                if (count === 0) {
+                    const product = await tx.product.findFirst({ where: { id: item.productId, available: true, ...this.scope() } });
+                    failures.push(product
+                        ? `${item.productId} (requested ${item.quantity}, in stock ${product.stock})`
+                        : `${item.productId} (not found or unavailable)`);
+                    continue;
+                }
+
+                const product = await tx.product.findUnique({ where: { id: item.productId } });
+                await tx.stockMovement.create({
+                    data: {
+                        id: randomUUID(),
+                        productId: item.productId,
+                        delta: -item.quantity,
+                        reason: `Reserved for order ${orderReference} (reservation ${id})`,
+                        resultingStock: product.stock,
+                    },
+                });
+            }
+
+            if (failures.length > 0) {
+                // Throwing rolls back every decrement made above
+                throw new RpcException({ status: 409, message: `Unable to reserve products: ${failures.join('; ')}` });
+            }
+
+            const createdReservation = await tx.stockReservation.create({
+                data: {
+                    id,
+                    tenantId: requireTenant(this.requestContext),
+                    orderReference,
+                    expiresAt,
+                    items: {
+                        create: items.map(item => ({ id: randomUUID(), productId: item.productId, quantity: item.quantity })),
+                    },
+                },
+                include: { items: true },
+            });
+            return this.mapToDomain(createdReservation);
+        });
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error creating reservation for order ${orderReference}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error reserving products.' });
+    }
+  }
+
+  /**
+   * Finds a reservation by its ID using Prisma.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @returns {Promise<StockReservation | null>} The domain StockReservation or null.
+   */
+  async findById(id: string): Promise<StockReservation | null> {
+    try {
+      const prismaReservation = await this.prisma.client.stockReservation.findFirst({
+        where: { id, ...this.scope() },
+        include: { items: true },
+      });
+      return this.mapToDomain(prismaReservation);
+    } catch (error: any) {
+      this.logger.error(`Error finding reservation by ID ${id}: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  /**
+   * Confirms a pending, unexpired reservation using Prisma.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @returns {Promise<StockReservation>} The confirmed domain StockReservation.
+   */
+  async confirm(id: string): Promise<StockReservation> {
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const { count } = await tx.stockReservation.updateMany({
+                where: { id, status: 'PENDING', expiresAt: { gt: new Date() }, ...this.scope() },
+                data: { status: 'CONFIRMED' },
+            });
+            if (count === 0) {
+                await this.throwTransitionError(tx, id, 'confirmed');
+            }
+            const confirmed = await tx.stockReservation.findUnique({ where: { id }, include: { items: true } });
+            return this.mapToDomain(confirmed);
+        });
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error confirming reservation ID ${id}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error confirming reservation.' });
+    }
+  }
+
+  /**
+   * Returns the held stock of a pending reservation inside one Prisma transaction.
+   * @async
+   * @param {string} id - The reservation ID.
+   * @param {'RELEASED' | 'EXPIRED'} outcome - Final status to record.
+   * @returns {Promise<StockReservation>} The released domain StockReservation.
+   */
+  async release(id: string, outcome: 'RELEASED' | 'EXPIRED'): Promise<StockReservation> {
+    try {
+        return await this.prisma.transaction(async (tx) => {
+            const { count } = await tx.stockReservation.updateMany({
+                where: { id, status: 'PENDING', ...this.scope() },
+                data: { status: outcome },
+            });
+            if (count === 0) {
+                await this.throwTransitionError(tx, id, 'released');
+            }
+
+            const released = await tx.stockReservation.findUnique({ where: { id }, include: { items: true } });
+            for (const item of released.items) {
+                const product = await tx.product.update({
+                    where: { id: item.productId },
+                    data: { stock: { increment: item.quantity } },
+                });
+                await tx.stockMovement.create({
+                    data: {
+                        id: randomUUID(),
+                        productId: item.productId,
+                        delta: item.quantity,
+                        reason: `Reservation ${id} for order ${released.orderReference} ${outcome.toLowerCase()}`,
+                        resultingStock: product.stock,
+                    },
+                });
+            }
+            return this.mapToDomain(released);
+        });
+    } catch (error: any) {
+        if (error instanceof RpcException) {
+            throw error;
+        }
+        this.logger.error(`Error releasing reservation ID ${id}: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error releasing reservation.' });
+    }
+  }
+
+  /**
+   * Finds IDs of expired pending reservations using Prisma.
+   * @async
+   * @param {Date} now - Reference time.
+   * @param {number} limit - Maximum number of IDs to return.
+   * @returns {Promise<string[]>} IDs of expired pending reservations, oldest first.
+   */
+  async findExpiredPendingIds(now: Date, limit: number): Promise<string[]> {
+    try {
+        const expired = await this.prisma.client.stockReservation.findMany({
+            where: { status: 'PENDING', expiresAt: { lte: now } },
+            orderBy: { expiresAt: 'asc' },
+            take: limit,
+            select: { id: true },
+        });
+        return expired.map((r: any) => r.id);
+    } catch (error: any) {
+        this.logger.error(`Error finding expired reservations: ${error.message}`, error.stack);
+        throw new RpcException({ status: 500, message: 'Database error finding expired reservations.' });
+    }
+  }
+}
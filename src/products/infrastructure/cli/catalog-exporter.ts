@@ -0,0 +1,129 @@
+/**
+ * @file Streams the product catalog as CSV or JSON.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { FindProductsByCursorResponseDto } from '../../application/dto';
+import { FindProductsByCursorQuery } from '../../application/queries';
+import { Product } from '../../domain';
+import { CatalogFileFormat, CSV_JSON_COLUMNS } from './catalog-file.reader';
+import { toCsvRow } from './csv';
+
+/**
+ * @const {string[]} EXPORT_COLUMNS
+ * @description Exported fields, in CSV column order: every field `create_product` accepts, so an exported file
+ * can be imported again, followed by the read-only ones.
+ */
+const EXPORT_COLUMNS = [
+  'id', 'sku', 'name', 'description', 'tags', 'price', 'currency', 'categoryIds', 'attributes', 'available', 'stock', 'version',
+] as const;
+
+/**
+ * @const {number} EXPORT_PAGE_SIZE
+ * @description Products fetched per cursor page.
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * @interface CatalogExportOptions
+ * @description Output format and whether soft-deleted products are included.
+ */
+export interface CatalogExportOptions {
+  format: CatalogFileFormat;
+  includeUnavailable?: boolean;
+}
+
+/**
+ * @class CatalogExporter
+ * @description Walks the catalog with FindProductsByCursorQuery and writes each page as it arrives, so
+ * memory use does not grow with the catalog. Prices are list prices in major units. In CSV, the tags,
+ * category IDs and attributes are written as JSON in their cell.
+ */
+@Injectable()
+export class CatalogExporter {
+  private readonly logger = new Logger(CatalogExporter.name);
+
+  /**
+   * @constructor
+   * @param {QueryBus} queryBus - Injected QueryBus.
+   */
+  constructor(private readonly queryBus: QueryBus) {}
+
+  /**
+   * Writes the catalog to a stream. The stream is not ended.
+   * @async
+   * @param {Writable} output - The destination.
+   * @param {CatalogExportOptions} options - Format and filter.
+   * @returns {Promise<number>} The number of products written.
+   */
+  async export(output: Writable, options: CatalogExportOptions): Promise<number> {
+    const { format, includeUnavailable = false } = options;
+    let count = 0;
+    let cursor: string | undefined;
+
+    await this.write(output, format === 'csv' ? toCsvRow([...EXPORT_COLUMNS]) : '[');
+    do {
+      const page = await this.queryBus.execute<FindProductsByCursorQuery, FindProductsByCursorResponseDto>(
+        new FindProductsByCursorQuery({ cursor, limit: EXPORT_PAGE_SIZE, includeUnavailable }),
+      );
+      for (const product of page.data) {
+        const record = this.toRecord(product);
+        const chunk = format === 'csv'
+          ? toCsvRow(EXPORT_COLUMNS.map(column =>
+            CSV_JSON_COLUMNS.includes(column) ? JSON.stringify(record[column]) : record[column]))
+          : `${count === 0 ? '' : ','}\n  ${JSON.stringify(record)}`;
+        await this.write(output, chunk);
+        count++;
+      }
+      cursor = page.meta.nextCursor ?? undefined;
+    } while (cursor);
+    if (format === 'json') {
+      await this.write(output, count === 0 ? ']\n' : '\n]\n');
+    }
+
+    this.logger.log(`Exported ${count} products as ${format}`);
+    return count;
+  }
+
+  /**
+   * Flattens a product into the exported fields.
+   * @private
+   * @param {Product} product - The product.
+   * @returns {Record<typeof EXPORT_COLUMNS[number], unknown>} The exported record.
+   */
+  private toRecord(product: Product): Record<typeof EXPORT_COLUMNS[number], unknown> {
+    return {
+      id: product.id,
+      sku: product.sku,
+      name: product.name,
+      description: product.description,
+      tags: product.tags,
+      price: product.price.toDecimalString(),
+      currency: product.price.currency,
+      categoryIds: product.categoryIds,
+      attributes: product.attributes,
+      available: product.available,
+      stock: product.stock,
+      version: product.version,
+    };
+  }
+
+  /**
+   * Writes a chunk, waiting for the stream to drain when its buffer is full.
+   * @private
+   * @async
+   * @param {Writable} output - The destination.
+   * @param {string} chunk - The text to write.
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (!output.write(chunk)) {
+      await once(output, 'drain');
+    }
+  }
+}
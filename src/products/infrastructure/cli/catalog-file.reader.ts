@@ -0,0 +1,120 @@
+/**
+ * @file Reads catalog rows from CSV or JSON files for the import command.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { createReadStream } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parseCsv } from './csv';
+
+/**
+ * @interface CatalogRow
+ * @description One catalog entry read from a file. `row` is the CSV line the record starts on, or the
+ * 1-based position in a JSON array, and is what error reports refer to.
+ */
+export interface CatalogRow {
+  row: number;
+  record: Record<string, unknown>;
+}
+
+/**
+ * @const {string[]} CATALOG_FILE_FORMATS
+ * @description File formats the CLI reads and writes.
+ */
+export const CATALOG_FILE_FORMATS = ['csv', 'json'] as const;
+export type CatalogFileFormat = typeof CATALOG_FILE_FORMATS[number];
+
+/**
+ * @const {string[]} CSV_JSON_COLUMNS
+ * @description CSV columns holding a list or an object, written as JSON in their cell, e.g. `["red","sale"]`.
+ */
+export const CSV_JSON_COLUMNS = ['tags', 'categoryIds', 'attributes'];
+
+/**
+ * Parses a JSON cell.
+ * @param {string} cell - The cell text.
+ * @returns {unknown} The parsed value, or the text itself if it is not valid JSON.
+ */
+function parseJsonCell(cell: string): unknown {
+  try {
+    return JSON.parse(cell);
+  } catch {
+    return cell;
+  }
+}
+
+/**
+ * Reads a CSV catalog. The first record is the header; empty cells are treated as missing values. Cells of
+ * the CSV_JSON_COLUMNS are parsed as JSON; a cell that is not valid JSON is kept as text and fails validation.
+ * @async
+ * @generator
+ * @param {string} path - The file path.
+ * @yields {CatalogRow} One row per data record.
+ * @throws {Error} If the header is missing or a record has more cells than the header.
+ */
+async function* readCsvRows(path: string): AsyncGenerator<CatalogRow> {
+  let header: string[] | null = null;
+  for await (const { line, cells } of parseCsv(createReadStream(path, { encoding: 'utf8' }))) {
+    if (!header) {
+      header = cells.map(cell => cell.trim());
+      continue;
+    }
+    if (cells.length > header.length) {
+      throw new Error(`Line ${line} has ${cells.length} cells but the header has ${header.length}`);
+    }
+    const record: Record<string, unknown> = {};
+    cells.forEach((cell, index) => {
+      if (cell !== '') {
+        record[header![index]] = CSV_JSON_COLUMNS.includes(header![index]) ? parseJsonCell(cell) : cell;
+      }
+    });
+    yield { row: line, record };
+  }
+  if (!header) {
+    throw new Error(`${path} is empty; expected a header row`);
+  }
+}
+
+/**
+ * Reads a JSON catalog, which must be an array of objects.
+ * @async
+ * @generator
+ * @param {string} path - The file path.
+ * @yields {CatalogRow} One row per array element.
+ * @throws {Error} If the file is not a JSON array.
+ */
+async function* readJsonRows(path: string): AsyncGenerator<CatalogRow> {
+  const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a JSON array of products`);
+  }
+  for (const [index, record] of parsed.entries()) {
+    yield { row: index + 1, record };
+  }
+}
+
+/**
+ * Infers the format of a catalog file from its extension.
+ * @param {string} path - The file path.
+ * @returns {CatalogFileFormat} The format.
+ * @throws {Error} If the extension is neither .csv nor .json.
+ */
+export function catalogFormatOf(path: string): CatalogFileFormat {
+  const format = extname(path).slice(1).toLowerCase();
+  if (!(CATALOG_FILE_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unsupported file type "${extname(path)}"; use .csv or .json`);
+  }
+  return format as CatalogFileFormat;
+}
+
+/**
+ * Reads the rows of a catalog file.
+ * @param {string} path - The file path; its extension selects the format.
+ * @returns {AsyncIterable<CatalogRow>} The rows in file order.
+ */
+export function readCatalogRows(path: string): AsyncIterable<CatalogRow> {
+  return catalogFormatOf(path) === 'csv' ? readCsvRows(path) : readJsonRows(path);
+}
@@ -0,0 +1,233 @@
+/**
+ * @file Imports catalog rows through the product command handlers.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { RpcException } from '@nestjs/microservices';
+import { envs } from '../../../config';
+import { CreateProductDto } from '../../application/dto';
+import { CreateProductCommand, UpdateProductCommand } from '../../application/commands/impl';
+import { FindOneProductBySkuQuery } from '../../application/queries';
+import { validateItem } from '../../application/utils';
+import { ProductWriteChecks } from '../../application/services';
+import { Money, Product } from '../../domain';
+import { CatalogRow } from './catalog-file.reader';
+
+/**
+ * @const {string[]} READ_ONLY_COLUMNS
+ * @description Columns written by the export that the import ignores, so an exported file can be edited
+ * and imported again with `--upsert`.
+ */
+const READ_ONLY_COLUMNS = ['id', 'available', 'stock', 'version'];
+
+/**
+ * @interface CatalogImportOptions
+ * @description `dryRun` validates and plans without writing; `upsert` updates the product that already
+ * has a row's SKU instead of rejecting the row.
+ */
+export interface CatalogImportOptions {
+  dryRun?: boolean;
+  upsert?: boolean;
+}
+
+/**
+ * @type CatalogRowAction
+ * @description What happened to a row, or would have happened in a dry run.
+ */
+export type CatalogRowAction = 'created' | 'updated' | 'would_create' | 'would_update' | 'failed';
+
+/**
+ * @interface CatalogRowResult
+ * @description The outcome of one row. `id` is set for updated rows and created rows, `errors` for failed ones.
+ */
+export interface CatalogRowResult {
+  row: number;
+  sku?: string;
+  action: CatalogRowAction;
+  id?: string;
+  errors?: string[];
+}
+
+/**
+ * @interface CatalogImportReport
+ * @description Totals and per-row outcomes of an import, in file order.
+ */
+export interface CatalogImportReport {
+  dryRun: boolean;
+  upsert: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: CatalogRowResult[];
+}
+
+/**
+ * @class CatalogImporter
+ * @description Validates each row with CreateProductDto, as the `create_product` pattern does, and applies
+ * it with CreateProductCommand or, for upserts, UpdateProductCommand. Rows are independent: a failed row is
+ * reported and the import continues. A dry run checks each row with ProductWriteChecks, like the commands
+ * do before writing, so it reports the same failures a real import would.
+ */
+@Injectable()
+export class CatalogImporter {
+  private readonly logger = new Logger(CatalogImporter.name);
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   * @param {QueryBus} queryBus - Injected QueryBus.
+   * @param {ProductWriteChecks} writeChecks - Checks rows in a dry run.
+   */
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+    private readonly writeChecks: ProductWriteChecks,
+  ) {}
+
+  /**
+   * Imports catalog rows.
+   * @async
+   * @param {AsyncIterable<CatalogRow>} rows - The rows to import.
+   * @param {CatalogImportOptions} [options] - Dry-run and upsert switches.
+   * @returns {Promise<CatalogImportReport>} The outcome of every row.
+   */
+  async import(rows: AsyncIterable<CatalogRow>, options: CatalogImportOptions = {}): Promise<CatalogImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const upsert = options.upsert ?? false;
+    const report: CatalogImportReport = { dryRun, upsert, created: 0, updated: 0, failed: 0, rows: [] };
+    const firstRowBySku = new Map<string, number>();
+
+    for await (const { row, record } of rows) {
+      const result = await this.importRow(row, record, { dryRun, upsert }, firstRowBySku);
+      if (result.action === 'failed') {
+        report.failed++;
+      } else if (result.action === 'created' || result.action === 'would_create') {
+        report.created++;
+      } else {
+        report.updated++;
+      }
+      report.rows.push(result);
+    }
+
+    this.logger.log(
+      `Import ${dryRun ? 'dry run ' : ''}finished: ${report.created} created, ${report.updated} updated, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  /**
+   * Validates and applies a single row.
+   * @private
+   * @async
+   * @param {number} row - The row number.
+   * @param {Record<string, unknown>} record - The raw row.
+   * @param {Required<CatalogImportOptions>} options - Dry-run and upsert switches.
+   * @param {Map<string, number>} firstRowBySku - SKUs seen so far in the file.
+   * @returns {Promise<CatalogRowResult>} The row outcome.
+   */
+  private async importRow(
+    row: number,
+    record: Record<string, unknown>,
+    options: Required<CatalogImportOptions>,
+    firstRowBySku: Map<string, number>,
+  ): Promise<CatalogRowResult> {
+    const validation = validateItem(CreateProductDto, this.withoutReadOnlyColumns(record));
+    if (validation.errors) {
+      return { row, action: 'failed', errors: validation.errors };
+    }
+    const dto = validation.value;
+    const { sku } = dto;
+
+    try {
+      Money.fromMajor(dto.price, dto.currency ?? envs.defaultCurrency);
+    } catch (error: any) {
+      return { row, sku, action: 'failed', errors: [error.message] };
+    }
+
+    if (sku !== undefined) {
+      if (firstRowBySku.has(sku)) {
+        return { row, sku, action: 'failed', errors: [`Duplicate sku ${sku}, already on row ${firstRowBySku.get(sku)}.`] };
+      }
+      firstRowBySku.set(sku, row);
+    }
+
+    try {
+      const existing = sku === undefined ? null : await this.findBySku(sku);
+      if (existing && !options.upsert) {
+        return { row, sku, action: 'failed', errors: [`A product with SKU ${sku} already exists (#${existing.id}).`] };
+      }
+      if (existing && !existing.available) {
+        return { row, sku, action: 'failed', errors: [`SKU ${sku} belongs to deleted product #${existing.id}; restore it first.`] };
+      }
+
+      if (existing) {
+        const { name, description, tags, price, currency, categoryIds, attributes } = dto;
+        const updateData = { name, description, tags, price, currency, categoryIds, attributes };
+        if (options.dryRun) {
+          await this.writeChecks.planUpdate(existing, updateData);
+          return { row, sku, action: 'would_update', id: existing.id };
+        }
+        await this.commandBus.execute(new UpdateProductCommand(existing.id, updateData));
+        return { row, sku, action: 'updated', id: existing.id };
+      }
+
+      if (options.dryRun) {
+        await this.writeChecks.assertCreatable(dto);
+        return { row, sku, action: 'would_create' };
+      }
+      const product = await this.commandBus.execute<CreateProductCommand, Product>(new CreateProductCommand(dto));
+      return { row, sku, action: 'created', id: product.id };
+    } catch (error: any) {
+      return { row, sku, action: 'failed', errors: [this.messageOf(error)] };
+    }
+  }
+
+  /**
+   * Finds the product, available or not, that has a SKU.
+   * @private
+   * @async
+   * @param {string} sku - The SKU.
+   * @returns {Promise<Product | null>} The product, or null if the SKU is free.
+   */
+  private async findBySku(sku: string): Promise<Product | null> {
+    try {
+      return await this.queryBus.execute<FindOneProductBySkuQuery, Product>(new FindOneProductBySkuQuery(sku));
+    } catch (error: any) {
+      if (error instanceof RpcException && (error.getError() as any)?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drops the export-only columns from a row.
+   * @private
+   * @param {Record<string, unknown>} record - The raw row.
+   * @returns {Record<string, unknown>} The row without read-only columns.
+   */
+  private withoutReadOnlyColumns(record: Record<string, unknown>): Record<string, unknown> {
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      return record;
+    }
+    return Object.fromEntries(Object.entries(record).filter(([column]) => !READ_ONLY_COLUMNS.includes(column)));
+  }
+
+  /**
+   * Extracts a readable message from a handler error.
+   * @private
+   * @param {any} error - The error.
+   * @returns {string} The message.
+   */
+  private messageOf(error: any): string {
+    if (error instanceof RpcException) {
+      const payload = error.getError() as any;
+      return typeof payload === 'string' ? payload : payload?.message ?? error.message;
+    }
+    return error?.message ?? String(error);
+  }
+}
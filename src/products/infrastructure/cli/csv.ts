@@ -0,0 +1,113 @@
+/**
+ * @file Minimal RFC 4180 CSV reading and writing for the catalog CLI.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface CsvRecord
+ * @description One parsed CSV record and the file line it starts on (1-based).
+ */
+export interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parses CSV text chunk by chunk, so files of any size are read with constant memory. Fields may be
+ * quoted; quoted fields may contain commas, doubled quotes and line breaks. A leading BOM and blank
+ * lines are skipped.
+ * @async
+ * @generator
+ * @param {AsyncIterable<string>} chunks - The text, e.g. a file stream opened with an encoding.
+ * @yields {CsvRecord} Each record in file order.
+ * @throws {Error} If a quoted field is never closed.
+ */
+export async function* parseCsv(chunks: AsyncIterable<string>): AsyncGenerator<CsvRecord> {
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let pendingQuote = false; // Saw a quote inside a quoted field; it is either escaped or the closing one
+  let fieldStarted = false;
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+
+  const endRecord = (): CsvRecord | null => {
+    cells.push(field);
+    const record = cells.length === 1 && cells[0] === '' && !fieldStarted ? null : { line: recordLine, cells };
+    cells = [];
+    field = '';
+    fieldStarted = false;
+    return record;
+  };
+
+  for await (let chunk of chunks) {
+    if (first) {
+      chunk = chunk.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    for (const char of chunk) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+      if (quoted) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+        continue;
+      }
+      if (char === '"' && field === '') {
+        quoted = true;
+        fieldStarted = true;
+      } else if (char === ',') {
+        cells.push(field);
+        field = '';
+        fieldStarted = true;
+      } else if (char === '\n') {
+        const record = endRecord();
+        if (record) {
+          yield record;
+        }
+        line++;
+        recordLine = line;
+      } else if (char !== '\r') {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+  }
+
+  if (quoted && !pendingQuote) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  const record = endRecord();
+  if (record) {
+    yield record;
+  }
+}
+
+/**
+ * Formats one CSV record, quoting fields that contain a comma, quote or line break.
+ * @param {unknown[]} values - The field values; null and undefined become empty fields.
+ * @returns {string} The record, terminated by CRLF.
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',') + '\r\n';
+}
@@ -0,0 +1,4 @@
+export * from './csv';
+export * from './catalog-file.reader';
+export * from './catalog-importer';
+export * from './catalog-exporter';
@@ -1 +1 @@
-export * from './products.controller';
\ No newline at end of file
+export * from './products.controller';
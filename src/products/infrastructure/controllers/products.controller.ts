@@ -5,23 +5,48 @@
  * @date 2025-05-01
  */
 
-import { Controller, ParseUUIDPipe, Logger } from '@nestjs/common';
+import { Controller, ParseUUIDPipe, Logger, UseGuards } from '@nestjs/common';
 import { CommandBus, QueryBus } from '@nestjs/cqrs';
 import { MessagePattern, Payload } from '@nestjs/microservices';
 
-import { CreateProductDto, UpdateProductDto, UpdateProductData, FindProductsResponseDto } from '../../application/dto';
-import { PaginationDto } from '../../../common';
-import { Product } from '../../domain';
+import {
+  CreateProductDto, UpdateProductDto, UpdateProductData, DeleteProductDto, FindProductsResponseDto, ProductSearchDto, CursorPaginationDto,
+  FindProductsByCursorResponseDto, AdjustStockDto, SetStockDto, FindStockMovementsDto, FindStockMovementsResponseDto,
+  ReserveProductsDto, SchedulePriceChangeDto, FindPriceHistoryDto, FindPriceHistoryResponseDto, PricedProduct,
+  QuoteProductsDto, ValidateProductsDto, ProductValidationReportDto, BulkCreateProductsDto, BulkUpdateProductsDto,
+  BulkDeleteProductsDto, BulkOperationResultDto, FindProductBySkuDto, FindProductAuditLogDto, FindProductAuditLogResponseDto,
+  SetProductOptionsDto, CreateProductVariantDto, UpdateProductVariantDto, ProductVariantView, ProductVariantsResponseDto,
+  SearchProductsDto, SearchProductsResponseDto, FindOneProductDto, SetProductTranslationDto, RemoveProductTranslationDto,
+  AddProductMediaDto, ReorderProductMediaDto, RemoveProductMediaDto,
+} from '../../application/dto';
+import { Product, ProductOption, ProductPrice, ProductVariant, Quote, StockReservation } from '../../domain';
+import { envs } from '../../../config';
+import { ValidateProductsPayloadPipe } from '../pipes/validate-products-payload.pipe';
+import { Idempotent } from '../../../shared/infrastructure/idempotency';
+import { AuthGuard, CATALOG_ADMIN, CATALOG_READ, CATALOG_WRITE, Roles } from '../../../shared/infrastructure/auth';
 
-import { CreateProductCommand, UpdateProductCommand, DeleteProductCommand } from '../../application/commands/impl';
-import { FindAllProductsQuery, FindOneProductQuery, ValidateProductsQuery } from '../../application/queries';
+import {
+  CreateProductCommand, UpdateProductCommand, DeleteProductCommand, RestoreProductCommand, AdjustStockCommand,
+  SetStockCommand, ReserveProductsCommand, ConfirmReservationCommand, ReleaseReservationCommand, SchedulePriceChangeCommand,
+  BulkCreateProductsCommand, BulkUpdateProductsCommand, BulkDeleteProductsCommand, SetProductOptionsCommand,
+  CreateProductVariantCommand, UpdateProductVariantCommand, DeleteProductVariantCommand, RebuildSearchIndexCommand,
+  SetProductTranslationCommand, RemoveProductTranslationCommand, AddProductMediaCommand, ReorderProductMediaCommand,
+  RemoveProductMediaCommand,
+} from '../../application/commands/impl';
+import {
+  FindAllProductsQuery, FindOneProductQuery, FindOneProductAdminQuery, ValidateProductsQuery, FindProductsByCursorQuery,
+  FindStockMovementsQuery, FindPriceHistoryQuery, QuoteProductsQuery, FindOneProductBySkuQuery,
+  FindProductAuditLogQuery, FindProductVariantsQuery, FindOneVariantBySkuQuery, SearchProductsQuery,
+} from '../../application/queries';
 
 /**
  * @class ProductsController
  * @description Handles incoming NATS messages for product CRUD and validation operations.
- * Uses CommandBus and QueryBus to delegate tasks.
+ * Uses CommandBus and QueryBus to delegate tasks. Every pattern requires a token granting `catalog:read`
+ * (queries) or `catalog:write` (commands).
  */
 @Controller() // No base path needed for microservice controller usually
+@UseGuards(AuthGuard)
 export class ProductsController {
   private readonly logger = new Logger(ProductsController.name);
 
@@ -41,6 +66,8 @@ export class ProductsController {
    * @returns {Promise<Product>} The created product.
    */
   @MessagePattern({ cmd: 'create_product' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
   async create(@Payload() createProductDto: CreateProductDto): Promise<Product> {
     this.logger.log(`Received create_product request: ${JSON.stringify(createProductDto)}`);
     return this.commandBus.execute<CreateProductCommand, Product>(
@@ -51,27 +78,68 @@ export class ProductsController {
 
   /**
    * Handles 'find_all_products' message.
-   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @param {ProductSearchDto} searchDto - Pagination, filter and sort parameters.
    * @returns {Promise<FindProductsResponseDto>} Paginated products.
    */
   @MessagePattern({ cmd: 'find_all_products' })
-  async findAll(@Payload() paginationDto: PaginationDto): Promise<FindProductsResponseDto> {
-    this.logger.log(`Received find_all_products request: ${JSON.stringify(paginationDto)}`);
+  @Roles(CATALOG_READ)
+  async findAll(@Payload() searchDto: ProductSearchDto): Promise<FindProductsResponseDto> {
+    this.logger.log(`Received find_all_products request: ${JSON.stringify(searchDto)}`);
     return this.queryBus.execute<FindAllProductsQuery, FindProductsResponseDto>(
-      new FindAllProductsQuery(paginationDto),
+      new FindAllProductsQuery(searchDto),
+    );
+  }
+
+  /**
+   * Handles 'search_products' message.
+   * @param {SearchProductsDto} searchDto - Full-text query and pagination parameters.
+   * @returns {Promise<SearchProductsResponseDto>} Matching products, most relevant first.
+   */
+  @MessagePattern({ cmd: 'search_products' })
+  @Roles(CATALOG_READ)
+  async search(@Payload() searchDto: SearchProductsDto): Promise<SearchProductsResponseDto> {
+    this.logger.log(`Received search_products request: ${JSON.stringify(searchDto)}`);
+    return this.queryBus.execute<SearchProductsQuery, SearchProductsResponseDto>(
+      new SearchProductsQuery(searchDto),
+    );
+  }
+
+  /**
+   * Handles 'rebuild_search_index' message.
+   * @returns {Promise<{ indexed: number }>} The number of products indexed.
+   */
+  @MessagePattern({ cmd: 'rebuild_search_index' })
+  @Roles(CATALOG_WRITE)
+  async rebuildSearchIndex(): Promise<{ indexed: number }> {
+    this.logger.log('Received rebuild_search_index request');
+    return this.commandBus.execute<RebuildSearchIndexCommand, { indexed: number }>(new RebuildSearchIndexCommand());
+  }
+
+  /**
+   * Handles 'find_products_by_cursor' message.
+   * @param {CursorPaginationDto} cursorPaginationDto - Cursor and page size.
+   * @returns {Promise<FindProductsByCursorResponseDto>} A page of products and the next cursor.
+   */
+  @MessagePattern({ cmd: 'find_products_by_cursor' })
+  @Roles(CATALOG_READ)
+  async findByCursor(@Payload() cursorPaginationDto: CursorPaginationDto): Promise<FindProductsByCursorResponseDto> {
+    this.logger.log(`Received find_products_by_cursor request: ${JSON.stringify(cursorPaginationDto)}`);
+    return this.queryBus.execute<FindProductsByCursorQuery, FindProductsByCursorResponseDto>(
+      new FindProductsByCursorQuery(cursorPaginationDto),
     );
   }
 
   /**
    * Handles 'find_one_product' message.
-   * @param {string} id - Product ID extracted from payload.
-   * @returns {Promise<Product>} The found product.
+   * @param {FindOneProductDto} findOneProductDto - Product ID and optional locale.
+   * @returns {Promise<PricedProduct>} The found product with its promotional price.
    */
   @MessagePattern({ cmd: 'find_one_product' })
-  async findOne(@Payload('id', ParseUUIDPipe) id: string): Promise<Product> {
+  @Roles(CATALOG_READ)
+  async findOne(@Payload() { id, locale }: FindOneProductDto): Promise<PricedProduct> {
       this.logger.log(`Received find_one_product request for ID: ${id}`);
-      return this.queryBus.execute<FindOneProductQuery, Product>(
-          new FindOneProductQuery(id),
+      return this.queryBus.execute<FindOneProductQuery, PricedProduct>(
+          new FindOneProductQuery(id, locale),
       );
   }
 
@@ -81,37 +149,455 @@ export class ProductsController {
    * @returns {Promise<Product>} The updated product.
    */
   @MessagePattern({ cmd: 'update_product' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
   async update(@Payload() updateProductDto: UpdateProductDto): Promise<Product> {
     this.logger.log(`Received update_product request for ID: ${updateProductDto.id}`);
-    const { id, ...updateData } = updateProductDto;
+    const { id, expectedVersion, ...updateData } = updateProductDto;
     return this.commandBus.execute<UpdateProductCommand, Product>(
-        new UpdateProductCommand(id, updateData as UpdateProductData),
+        new UpdateProductCommand(id, updateData as UpdateProductData, expectedVersion),
     );
   }
 
   /**
    * Handles 'delete_product' message.
-   * @param {string} id - Product ID extracted from payload.
+   * @param {DeleteProductDto} deleteProductDto - Product ID and optional expected version.
    * @returns {Promise<Product>} The product marked as unavailable.
    */
   @MessagePattern({ cmd: 'delete_product' })
-  async remove(@Payload('id', ParseUUIDPipe) id: string): Promise<Product> {
-      this.logger.log(`Received delete_product request for ID: ${id}`);
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async remove(@Payload() deleteProductDto: DeleteProductDto): Promise<Product> {
+      this.logger.log(`Received delete_product request for ID: ${deleteProductDto.id}`);
       return this.commandBus.execute<DeleteProductCommand, Product>(
-          new DeleteProductCommand(id),
+          new DeleteProductCommand(deleteProductDto.id, deleteProductDto.expectedVersion),
+      );
+  }
+
+  /**
+   * Handles 'restore_product' message.
+   * @param {string} id - Product ID extracted from payload.
+   * @returns {Promise<Product>} The product marked as available again.
+   */
+  @MessagePattern({ cmd: 'restore_product' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async restore(@Payload('id', ParseUUIDPipe) id: string): Promise<Product> {
+      this.logger.log(`Received restore_product request for ID: ${id}`);
+      return this.commandBus.execute<RestoreProductCommand, Product>(
+          new RestoreProductCommand(id),
+      );
+  }
+
+  /**
+   * Handles 'bulk_create_products' message.
+   * @param {BulkCreateProductsDto} bulkCreateProductsDto - Mode and create items.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results with the generated IDs.
+   */
+  @MessagePattern({ cmd: 'bulk_create_products' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async bulkCreate(@Payload() bulkCreateProductsDto: BulkCreateProductsDto): Promise<BulkOperationResultDto> {
+      this.logger.log(`Received bulk_create_products request with ${bulkCreateProductsDto.items.length} items`);
+      return this.commandBus.execute<BulkCreateProductsCommand, BulkOperationResultDto>(
+          new BulkCreateProductsCommand(bulkCreateProductsDto.items, bulkCreateProductsDto.mode),
+      );
+  }
+
+  /**
+   * Handles 'bulk_update_products' message.
+   * @param {BulkUpdateProductsDto} bulkUpdateProductsDto - Mode and update items.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results.
+   */
+  @MessagePattern({ cmd: 'bulk_update_products' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async bulkUpdate(@Payload() bulkUpdateProductsDto: BulkUpdateProductsDto): Promise<BulkOperationResultDto> {
+      this.logger.log(`Received bulk_update_products request with ${bulkUpdateProductsDto.items.length} items`);
+      return this.commandBus.execute<BulkUpdateProductsCommand, BulkOperationResultDto>(
+          new BulkUpdateProductsCommand(bulkUpdateProductsDto.items, bulkUpdateProductsDto.mode),
+      );
+  }
+
+  /**
+   * Handles 'bulk_delete_products' message.
+   * @param {BulkDeleteProductsDto} bulkDeleteProductsDto - Mode and delete items.
+   * @returns {Promise<BulkOperationResultDto>} Per-item results.
+   */
+  @MessagePattern({ cmd: 'bulk_delete_products' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async bulkDelete(@Payload() bulkDeleteProductsDto: BulkDeleteProductsDto): Promise<BulkOperationResultDto> {
+      this.logger.log(`Received bulk_delete_products request with ${bulkDeleteProductsDto.items.length} items`);
+      return this.commandBus.execute<BulkDeleteProductsCommand, BulkOperationResultDto>(
+          new BulkDeleteProductsCommand(bulkDeleteProductsDto.items, bulkDeleteProductsDto.mode),
+      );
+  }
+
+  /**
+   * Handles 'find_one_product_admin' message.
+   * @param {string} id - Product ID extracted from payload.
+   * @returns {Promise<Product>} The product, including soft-deleted ones.
+   */
+  @MessagePattern({ cmd: 'find_one_product_admin' })
+  @Roles(CATALOG_ADMIN)
+  async findOneAdmin(@Payload('id', ParseUUIDPipe) id: string): Promise<Product> {
+      this.logger.log(`Received find_one_product_admin request for ID: ${id}`);
+      return this.queryBus.execute<FindOneProductAdminQuery, Product>(
+          new FindOneProductAdminQuery(id),
+      );
+  }
+
+  /**
+   * Handles 'find_one_product_by_sku' message.
+   * @param {FindProductBySkuDto} payload - `{ sku }`.
+   * @returns {Promise<Product>} The product with that SKU, including soft-deleted ones.
+   */
+  @MessagePattern({ cmd: 'find_one_product_by_sku' })
+  @Roles(CATALOG_READ)
+  async findOneBySku(@Payload() { sku }: FindProductBySkuDto): Promise<Product> {
+      this.logger.log(`Received find_one_product_by_sku request for SKU: ${sku}`);
+      return this.queryBus.execute<FindOneProductBySkuQuery, Product>(
+          new FindOneProductBySkuQuery(sku),
       );
   }
 
   /**
    * Handles 'validate_products' message.
-   * @param {string[]} ids - Array of product IDs to validate.
-   * @returns {Promise<Product[]>} Array of validated products.
+   * @param {ValidateProductsDto | string[]} payload - `{ ids, mode?, locale? }`, or a bare array of product or variant IDs (strict mode).
+   * @returns {Promise<Array<Product | ProductVariantView> | ProductValidationReportDto>} Validated products and
+   * variants (strict) or a per-ID report (report).
    */
   @MessagePattern({ cmd: 'validate_products' })
-  async validateProduct(@Payload() ids: string[]): Promise<Product[]> {
-      this.logger.log(`Received validate_products request for IDs: ${ids.join(', ')}`);
-      return this.queryBus.execute<ValidateProductsQuery, Product[]>(
-          new ValidateProductsQuery(ids),
+  @Roles(CATALOG_READ)
+  async validateProduct(
+    @Payload(ValidateProductsPayloadPipe) payload: ValidateProductsDto | string[],
+  ): Promise<Array<Product | ProductVariantView> | ProductValidationReportDto> {
+      const { ids, mode, locale } = payload as ValidateProductsDto; // Normalized by the pipe
+      this.logger.log(`Received validate_products request (${mode}) for IDs: ${ids.join(', ')}`);
+      return this.queryBus.execute<ValidateProductsQuery, Array<Product | ProductVariantView> | ProductValidationReportDto>(
+          new ValidateProductsQuery(ids, mode, locale),
+      );
+  }
+
+  /**
+   * Handles 'adjust_stock' message.
+   * @param {AdjustStockDto} adjustStockDto - Product ID, signed delta and reason.
+   * @returns {Promise<Product>} The product with its updated stock level.
+   */
+  @MessagePattern({ cmd: 'adjust_stock' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async adjustStock(@Payload() adjustStockDto: AdjustStockDto): Promise<Product> {
+      this.logger.log(`Received adjust_stock request for ID: ${adjustStockDto.id}`);
+      const { id, delta, reason } = adjustStockDto;
+      return this.commandBus.execute<AdjustStockCommand, Product>(
+          new AdjustStockCommand(id, delta, reason),
+      );
+  }
+
+  /**
+   * Handles 'set_stock' message.
+   * @param {SetStockDto} setStockDto - Product ID, absolute quantity and optional reason.
+   * @returns {Promise<Product>} The product with its new stock level.
+   */
+  @MessagePattern({ cmd: 'set_stock' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async setStock(@Payload() setStockDto: SetStockDto): Promise<Product> {
+      this.logger.log(`Received set_stock request for ID: ${setStockDto.id}`);
+      const { id, quantity, reason } = setStockDto;
+      return this.commandBus.execute<SetStockCommand, Product>(
+          new SetStockCommand(id, quantity, reason),
+      );
+  }
+
+  /**
+   * Handles 'find_stock_movements' message.
+   * @param {FindStockMovementsDto} findStockMovementsDto - Product ID and pagination parameters.
+   * @returns {Promise<FindStockMovementsResponseDto>} Paginated stock movements, newest first.
+   */
+  @MessagePattern({ cmd: 'find_stock_movements' })
+  @Roles(CATALOG_READ)
+  async findStockMovements(@Payload() findStockMovementsDto: FindStockMovementsDto): Promise<FindStockMovementsResponseDto> {
+      this.logger.log(`Received find_stock_movements request for ID: ${findStockMovementsDto.id}`);
+      const { id, ...paginationDto } = findStockMovementsDto;
+      return this.queryBus.execute<FindStockMovementsQuery, FindStockMovementsResponseDto>(
+          new FindStockMovementsQuery(id, paginationDto),
+      );
+  }
+
+  /**
+   * Handles 'reserve_products' message.
+   * @param {ReserveProductsDto} reserveProductsDto - Order reference, items and optional TTL.
+   * @returns {Promise<StockReservation>} The pending reservation; its `id` is the reservation ID.
+   */
+  @MessagePattern({ cmd: 'reserve_products' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async reserveProducts(@Payload() reserveProductsDto: ReserveProductsDto): Promise<StockReservation> {
+      this.logger.log(`Received reserve_products request for order: ${reserveProductsDto.orderReference}`);
+      const { orderReference, items, ttlSeconds = envs.reservationTtlSeconds } = reserveProductsDto;
+      return this.commandBus.execute<ReserveProductsCommand, StockReservation>(
+          new ReserveProductsCommand(orderReference, items, ttlSeconds),
+      );
+  }
+
+  /**
+   * Handles 'confirm_reservation' message.
+   * @param {string} id - Reservation ID extracted from payload.
+   * @returns {Promise<StockReservation>} The confirmed reservation.
+   */
+  @MessagePattern({ cmd: 'confirm_reservation' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async confirmReservation(@Payload('id', ParseUUIDPipe) id: string): Promise<StockReservation> {
+      this.logger.log(`Received confirm_reservation request for ID: ${id}`);
+      return this.commandBus.execute<ConfirmReservationCommand, StockReservation>(
+          new ConfirmReservationCommand(id),
+      );
+  }
+
+  /**
+   * Handles 'release_reservation' message.
+   * @param {string} id - Reservation ID extracted from payload.
+   * @returns {Promise<StockReservation>} The released reservation.
+   */
+  @MessagePattern({ cmd: 'release_reservation' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async releaseReservation(@Payload('id', ParseUUIDPipe) id: string): Promise<StockReservation> {
+      this.logger.log(`Received release_reservation request for ID: ${id}`);
+      return this.commandBus.execute<ReleaseReservationCommand, StockReservation>(
+          new ReleaseReservationCommand(id),
+      );
+  }
+
+  /**
+   * Handles 'schedule_price_change' message.
+   * @param {SchedulePriceChangeDto} schedulePriceChangeDto - Product ID, new price and when it takes effect.
+   * @returns {Promise<ProductPrice>} The scheduled price entry.
+   */
+  @MessagePattern({ cmd: 'schedule_price_change' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async schedulePriceChange(@Payload() schedulePriceChangeDto: SchedulePriceChangeDto): Promise<ProductPrice> {
+      this.logger.log(`Received schedule_price_change request for ID: ${schedulePriceChangeDto.id}`);
+      const { id, price, currency, effectiveFrom } = schedulePriceChangeDto;
+      return this.commandBus.execute<SchedulePriceChangeCommand, ProductPrice>(
+          new SchedulePriceChangeCommand(id, price, currency, effectiveFrom),
+      );
+  }
+
+  /**
+   * Handles 'get_price_history' message.
+   * @param {FindPriceHistoryDto} findPriceHistoryDto - Product ID, pagination and optional point in time.
+   * @returns {Promise<FindPriceHistoryResponseDto>} Paginated price entries, latest effectiveFrom first.
+   */
+  @MessagePattern({ cmd: 'get_price_history' })
+  @Roles(CATALOG_READ)
+  async getPriceHistory(@Payload() findPriceHistoryDto: FindPriceHistoryDto): Promise<FindPriceHistoryResponseDto> {
+      this.logger.log(`Received get_price_history request for ID: ${findPriceHistoryDto.id}`);
+      const { id, ...criteria } = findPriceHistoryDto;
+      return this.queryBus.execute<FindPriceHistoryQuery, FindPriceHistoryResponseDto>(
+          new FindPriceHistoryQuery(id, criteria),
+      );
+  }
+
+  /**
+   * Handles 'get_product_audit_log' message.
+   * @param {FindProductAuditLogDto} findProductAuditLogDto - Optional product, actor and action filters, and pagination.
+   * @returns {Promise<FindProductAuditLogResponseDto>} Paginated audit entries, newest first.
+   */
+  @MessagePattern({ cmd: 'get_product_audit_log' })
+  @Roles(CATALOG_READ)
+  async getProductAuditLog(@Payload() findProductAuditLogDto: FindProductAuditLogDto): Promise<FindProductAuditLogResponseDto> {
+      this.logger.log('Received get_product_audit_log request');
+      const { id, actor, action, ...paginationDto } = findProductAuditLogDto;
+      return this.queryBus.execute<FindProductAuditLogQuery, FindProductAuditLogResponseDto>(
+          new FindProductAuditLogQuery({ productId: id, actor, action }, paginationDto),
+      );
+  }
+
+  /**
+   * Handles 'quote_products' message.
+   * @param {QuoteProductsDto} quoteProductsDto - Line items and optional currency.
+   * @returns {Promise<Quote>} Priced lines, per-line errors and totals.
+   */
+  @MessagePattern({ cmd: 'quote_products' })
+  @Roles(CATALOG_READ)
+  async quote(@Payload() quoteProductsDto: QuoteProductsDto): Promise<Quote> {
+      this.logger.log(`Received quote_products request for ${quoteProductsDto.items.length} line(s)`);
+      return this.queryBus.execute<QuoteProductsQuery, Quote>(
+          new QuoteProductsQuery(quoteProductsDto),
+      );
+  }
+
+  /**
+   * Handles 'set_product_options' message.
+   * @param {SetProductOptionsDto} setProductOptionsDto - Product ID and its options.
+   * @returns {Promise<ProductOption[]>} The product's options.
+   */
+  @MessagePattern({ cmd: 'set_product_options' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async setOptions(@Payload() setProductOptionsDto: SetProductOptionsDto): Promise<ProductOption[]> {
+      this.logger.log(`Received set_product_options request for product ID: ${setProductOptionsDto.id}`);
+      return this.commandBus.execute<SetProductOptionsCommand, ProductOption[]>(
+          new SetProductOptionsCommand(setProductOptionsDto.id, setProductOptionsDto.options),
+      );
+  }
+
+  /**
+   * Handles 'create_product_variant' message.
+   * @param {CreateProductVariantDto} createProductVariantDto - Variant data.
+   * @returns {Promise<ProductVariant>} The created variant.
+   */
+  @MessagePattern({ cmd: 'create_product_variant' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async createVariant(@Payload() createProductVariantDto: CreateProductVariantDto): Promise<ProductVariant> {
+      this.logger.log(`Received create_product_variant request for product ID: ${createProductVariantDto.productId}`);
+      return this.commandBus.execute<CreateProductVariantCommand, ProductVariant>(
+          new CreateProductVariantCommand(createProductVariantDto),
+      );
+  }
+
+  /**
+   * Handles 'update_product_variant' message.
+   * @param {UpdateProductVariantDto} updateProductVariantDto - Update payload containing ID and data.
+   * @returns {Promise<ProductVariant>} The updated variant.
+   */
+  @MessagePattern({ cmd: 'update_product_variant' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async updateVariant(@Payload() updateProductVariantDto: UpdateProductVariantDto): Promise<ProductVariant> {
+      this.logger.log(`Received update_product_variant request for ID: ${updateProductVariantDto.id}`);
+      const { id, ...updateData } = updateProductVariantDto;
+      return this.commandBus.execute<UpdateProductVariantCommand, ProductVariant>(
+          new UpdateProductVariantCommand(id, updateData),
+      );
+  }
+
+  /**
+   * Handles 'delete_product_variant' message.
+   * @param {string} id - Variant ID extracted from payload.
+   * @returns {Promise<ProductVariant>} The deleted variant.
+   */
+  @MessagePattern({ cmd: 'delete_product_variant' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async removeVariant(@Payload('id', ParseUUIDPipe) id: string): Promise<ProductVariant> {
+      this.logger.log(`Received delete_product_variant request for ID: ${id}`);
+      return this.commandBus.execute<DeleteProductVariantCommand, ProductVariant>(
+          new DeleteProductVariantCommand(id),
+      );
+  }
+
+  /**
+   * Handles 'set_product_translation' message.
+   * @param {SetProductTranslationDto} setProductTranslationDto - Product ID, locale, translated fields and optional expected version.
+   * @returns {Promise<Product>} The product with its translations.
+   */
+  @MessagePattern({ cmd: 'set_product_translation' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async setTranslation(@Payload() setProductTranslationDto: SetProductTranslationDto): Promise<Product> {
+      const { id, locale, name, description, expectedVersion } = setProductTranslationDto;
+      this.logger.log(`Received set_product_translation request (${locale}) for product ID: ${id}`);
+      return this.commandBus.execute<SetProductTranslationCommand, Product>(
+          new SetProductTranslationCommand(id, locale, name ?? null, description ?? null, expectedVersion),
+      );
+  }
+
+  /**
+   * Handles 'remove_product_translation' message.
+   * @param {RemoveProductTranslationDto} removeProductTranslationDto - Product ID, locale and optional expected version.
+   * @returns {Promise<Product>} The product with its remaining translations.
+   */
+  @MessagePattern({ cmd: 'remove_product_translation' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async removeTranslation(@Payload() removeProductTranslationDto: RemoveProductTranslationDto): Promise<Product> {
+      const { id, locale, expectedVersion } = removeProductTranslationDto;
+      this.logger.log(`Received remove_product_translation request (${locale}) for product ID: ${id}`);
+      return this.commandBus.execute<RemoveProductTranslationCommand, Product>(
+          new RemoveProductTranslationCommand(id, locale, expectedVersion),
+      );
+  }
+
+  /**
+   * Handles 'add_product_media' message.
+   * @param {AddProductMediaDto} addProductMediaDto - Product ID, media metadata, optional position and expected version.
+   * @returns {Promise<Product>} The product with its media.
+   */
+  @MessagePattern({ cmd: 'add_product_media' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async addMedia(@Payload() addProductMediaDto: AddProductMediaDto): Promise<Product> {
+      this.logger.log(`Received add_product_media request for product ID: ${addProductMediaDto.id}`);
+      return this.commandBus.execute<AddProductMediaCommand, Product>(
+          new AddProductMediaCommand(addProductMediaDto),
+      );
+  }
+
+  /**
+   * Handles 'reorder_product_media' message.
+   * @param {ReorderProductMediaDto} reorderProductMediaDto - Product ID, media IDs in order, optional primary and expected version.
+   * @returns {Promise<Product>} The product with its media in the new order.
+   */
+  @MessagePattern({ cmd: 'reorder_product_media' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async reorderMedia(@Payload() reorderProductMediaDto: ReorderProductMediaDto): Promise<Product> {
+      const { id, mediaIds, primaryMediaId, expectedVersion } = reorderProductMediaDto;
+      this.logger.log(`Received reorder_product_media request for product ID: ${id}`);
+      return this.commandBus.execute<ReorderProductMediaCommand, Product>(
+          new ReorderProductMediaCommand(id, mediaIds, primaryMediaId, expectedVersion),
+      );
+  }
+
+  /**
+   * Handles 'remove_product_media' message.
+   * @param {RemoveProductMediaDto} removeProductMediaDto - Product ID, media ID and optional expected version.
+   * @returns {Promise<Product>} The product with its remaining media.
+   */
+  @MessagePattern({ cmd: 'remove_product_media' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async removeMedia(@Payload() removeProductMediaDto: RemoveProductMediaDto): Promise<Product> {
+      const { id, mediaId, expectedVersion } = removeProductMediaDto;
+      this.logger.log(`Received remove_product_media request (${mediaId}) for product ID: ${id}`);
+      return this.commandBus.execute<RemoveProductMediaCommand, Product>(
+          new RemoveProductMediaCommand(id, mediaId, expectedVersion),
+      );
+  }
+
+  /**
+   * Handles 'find_product_variants' message.
+   * @param {string} productId - Product ID extracted from payload.
+   * @returns {Promise<ProductVariantsResponseDto>} The product's options and variants.
+   */
+  @MessagePattern({ cmd: 'find_product_variants' })
+  @Roles(CATALOG_READ)
+  async findVariants(@Payload('productId', ParseUUIDPipe) productId: string): Promise<ProductVariantsResponseDto> {
+      this.logger.log(`Received find_product_variants request for product ID: ${productId}`);
+      return this.queryBus.execute<FindProductVariantsQuery, ProductVariantsResponseDto>(
+          new FindProductVariantsQuery(productId),
+      );
+  }
+
+  /**
+   * Handles 'find_one_variant_by_sku' message.
+   * @param {FindProductBySkuDto} payload - `{ sku }`.
+   * @returns {Promise<ProductVariantView>} The variant with that SKU.
+   */
+  @MessagePattern({ cmd: 'find_one_variant_by_sku' })
+  @Roles(CATALOG_READ)
+  async findOneVariantBySku(@Payload() { sku }: FindProductBySkuDto): Promise<ProductVariantView> {
+      this.logger.log(`Received find_one_variant_by_sku request for SKU: ${sku}`);
+      return this.queryBus.execute<FindOneVariantBySkuQuery, ProductVariantView>(
+          new FindOneVariantBySkuQuery(sku),
       );
   }
-}
\ No newline at end of file
+}
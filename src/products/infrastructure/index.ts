@@ -1,3 +1,7 @@
 export * from './adapters';
 export * from './controllers';
+export * from './workers';
 
+export * from './pipes';
+export * from './messaging';
+export * from './cli';
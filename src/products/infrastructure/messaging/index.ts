@@ -0,0 +1,2 @@
+export * from './product-event-envelope';
+export * from './outbox-product-event.writer';
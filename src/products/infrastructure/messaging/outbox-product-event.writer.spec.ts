@@ -0,0 +1,53 @@
+/**
+ * @file Tests of OutboxProductEventWriter.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { EventBus } from '@nestjs/cqrs';
+import { OutboxProductEventWriter } from './outbox-product-event.writer';
+import { ProductDeletedEvent } from '../../domain';
+import { OutboxMessage, OutboxRepositoryPort } from '../../../outbox/domain';
+import { UnitOfWork } from '../../../shared/application';
+
+describe('OutboxProductEventWriter', () => {
+  const event = new ProductDeletedEvent('acme', '7d0c5d9e-4a9b-4c55-9a57-0d4b5f8c2e11', 3);
+  let added: OutboxMessage[];
+  let pendingCallbacks: (() => void)[];
+  let eventBus: jest.Mocked<EventBus>;
+  let writer: OutboxProductEventWriter;
+
+  beforeEach(() => {
+    added = [];
+    pendingCallbacks = [];
+    eventBus = { publishAll: jest.fn() } as unknown as jest.Mocked<EventBus>;
+    const outboxRepository = { add: jest.fn() } as unknown as jest.Mocked<OutboxRepositoryPort>;
+    outboxRepository.add.mockImplementation(async (messages) => {
+      added.push(...messages);
+    });
+    const unitOfWork: jest.Mocked<UnitOfWork> = {
+      run: jest.fn(),
+      afterCommit: jest.fn((callback: () => void) => { pendingCallbacks.push(callback); }),
+    };
+    writer = new OutboxProductEventWriter(outboxRepository, unitOfWork, eventBus);
+  });
+
+  it('records each event in the outbox under its tenant and subject', async () => {
+    await writer.append([event]);
+
+    expect(added).toEqual([expect.objectContaining({
+      tenantId: 'acme',
+      subject: 'products.events.deleted',
+      aggregateId: event.productId,
+    })]);
+  });
+
+  it('publishes the events on the EventBus only once the unit of work commits', async () => {
+    await writer.append([event]);
+
+    expect(eventBus.publishAll).not.toHaveBeenCalled();
+    pendingCallbacks.forEach(callback => callback());
+    expect(eventBus.publishAll).toHaveBeenCalledWith([event]);
+  });
+});
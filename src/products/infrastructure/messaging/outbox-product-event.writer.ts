@@ -0,0 +1,60 @@
+/**
+ * @file Records product domain events in the outbox and publishes them on the EventBus once committed.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import { EventBus } from '@nestjs/cqrs';
+import { ProductEvent, ProductEventOutboxPort } from '../../domain';
+import { UnitOfWork, UNIT_OF_WORK } from '../../../shared/application';
+import { OutboxRepositoryPort, OUTBOX_REPOSITORY_PORT } from '../../../outbox/domain';
+import { PRODUCT_EVENT_SUBJECTS, toProductEventEnvelope } from './product-event-envelope';
+
+/**
+ * @class OutboxProductEventWriter
+ * @implements ProductEventOutboxPort
+ * @description Wraps every product event in its envelope and records it on its `products.events.*` subject.
+ * The outbox entry ID is the envelope's event ID, so consumers can deduplicate redeliveries. The events are
+ * also published on the `@nestjs/cqrs` EventBus for in-process `@EventsHandler()`s, but only after the unit
+ * of work commits, so handlers never see changes that were rolled back.
+ */
+@Injectable()
+export class OutboxProductEventWriter implements ProductEventOutboxPort {
+  /**
+   * @constructor
+   * @param {OutboxRepositoryPort} outboxRepository - Injected outbox repository.
+   * @param {UnitOfWork} unitOfWork - Defers publication until the events are committed.
+   * @param {EventBus} eventBus - Injected EventBus.
+   */
+  constructor(
+    @Inject(OUTBOX_REPOSITORY_PORT)
+    private readonly outboxRepository: OutboxRepositoryPort,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: UnitOfWork,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  /**
+   * Records the events for publication to NATS and schedules their EventBus publication for after commit.
+   * @async
+   * @param {ProductEvent[]} events - The domain events.
+   * @returns {Promise<void>}
+   */
+  async append(events: ProductEvent[]): Promise<void> {
+    await this.outboxRepository.add(events.map(event => {
+      const envelope = toProductEventEnvelope(event);
+      return {
+        id: envelope.eventId,
+        tenantId: event.tenantId,
+        subject: PRODUCT_EVENT_SUBJECTS[envelope.eventType],
+        payload: envelope,
+        aggregateType: envelope.aggregateType,
+        aggregateId: envelope.aggregateId,
+        eventType: envelope.eventType,
+      };
+    }));
+    this.unitOfWork.afterCommit(() => this.eventBus.publishAll(events));
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file Versioned envelope wrapping product events on the wire.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { randomUUID } from 'crypto';
+import { ProductEvent } from '../../domain/events/product.event';
+
+/**
+ * @const {number} PRODUCT_EVENT_SCHEMA_VERSION
+ * @description Version of the envelope and payload layout. Bump it on breaking changes.
+ */
+export const PRODUCT_EVENT_SCHEMA_VERSION = 1;
+
+/**
+ * @const {Record<string, string>} PRODUCT_EVENT_SUBJECTS
+ * @description NATS subject for each product event type.
+ */
+export const PRODUCT_EVENT_SUBJECTS: Record<string, string> = {
+  ProductCreated: 'products.events.created',
+  ProductUpdated: 'products.events.updated',
+  ProductDeleted: 'products.events.deleted',
+  ProductPriceChanged: 'products.events.price_changed',
+};
+
+/**
+ * @interface ProductEventEnvelope
+ * @description What consumers receive. `eventId` is unique per event and can be used to deduplicate;
+ * `aggregateVersion` orders events of the same product; `tenantId` is the storefront owning it.
+ */
+export interface ProductEventEnvelope {
+  eventId: string;
+  eventType: string;
+  tenantId: string | null;
+  schemaVersion: number;
+  occurredAt: string;
+  aggregateType: 'Product';
+  aggregateId: string;
+  aggregateVersion: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Wraps a product event in its envelope.
+ * @param {ProductEvent} event - The domain event.
+ * @returns {ProductEventEnvelope} The envelope, with a fresh event ID.
+ */
+export function toProductEventEnvelope(event: ProductEvent): ProductEventEnvelope {
+  return {
+    eventId: randomUUID(),
+    eventType: event.eventType,
+    tenantId: event.tenantId,
+    schemaVersion: PRODUCT_EVENT_SCHEMA_VERSION,
+    occurredAt: event.occurredAt.toISOString(),
+    aggregateType: 'Product',
+    aggregateId: event.productId,
+    aggregateVersion: event.version,
+    data: event.payload(),
+  };
+}
@@ -0,0 +1 @@
+export * from './validate-products-payload.pipe';
@@ -0,0 +1,39 @@
+/**
+ * @file Pipe normalizing the two accepted validate_products payload shapes.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, PipeTransform, ValidationPipe } from '@nestjs/common';
+import { ValidateProductsDto } from '../../application/dto';
+
+/**
+ * @class ValidateProductsPayloadPipe
+ * @implements PipeTransform
+ * @description Accepts either a bare `string[]` of IDs (the original contract) or a `ValidateProductsDto`,
+ * and returns a validated `ValidateProductsDto`. The global ValidationPipe skips union-typed parameters,
+ * so this pipe validates with the same options.
+ */
+@Injectable()
+export class ValidateProductsPayloadPipe implements PipeTransform<unknown, Promise<ValidateProductsDto>> {
+  private readonly validationPipe = new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    transformOptions: {
+      enableImplicitConversion: true,
+    },
+  });
+
+  /**
+   * Normalizes and validates the payload.
+   * @async
+   * @param {unknown} value - The raw payload.
+   * @returns {Promise<ValidateProductsDto>} The validated options.
+   */
+  async transform(value: unknown): Promise<ValidateProductsDto> {
+    const payload = Array.isArray(value) ? { ids: value } : value;
+    return this.validationPipe.transform(payload, { type: 'body', metatype: ValidateProductsDto });
+  }
+}
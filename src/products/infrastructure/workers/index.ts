@@ -0,0 +1,2 @@
+export * from './reservation-expiry.sweeper';
+export * from './scheduled-price.activator';
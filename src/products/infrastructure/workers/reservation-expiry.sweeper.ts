@@ -0,0 +1,73 @@
+/**
+ * @file Background worker that releases expired stock reservations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { envs } from '../../../config';
+import { ReleaseExpiredReservationsCommand } from '../../application/commands/impl';
+
+/**
+ * @class ReservationExpirySweeper
+ * @implements OnModuleInit
+ * @implements OnModuleDestroy
+ * @description Periodically dispatches ReleaseExpiredReservationsCommand so that holds
+ * whose TTL has elapsed give their stock back. The interval is RESERVATION_SWEEP_INTERVAL_SECONDS.
+ */
+@Injectable()
+export class ReservationExpirySweeper implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReservationExpirySweeper.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   */
+  constructor(private readonly commandBus: CommandBus) {}
+
+  /**
+   * @method onModuleInit
+   * @description Starts the sweep timer, unless background workers are disabled.
+   */
+  onModuleInit() {
+    if (!envs.backgroundWorkersEnabled) {
+      return;
+    }
+    const intervalMs = envs.reservationSweepIntervalSeconds * 1000;
+    this.timer = setInterval(() => void this.sweep(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Reservation expiry sweeper started (every ${envs.reservationSweepIntervalSeconds}s).`);
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description Stops the sweep timer.
+   */
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Runs one sweep, skipping if the previous one is still in progress.
+   * @async
+   */
+  async sweep(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.commandBus.execute(new ReleaseExpiredReservationsCommand());
+    } catch (error: any) {
+      this.logger.error(`Reservation expiry sweep failed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file Background worker that activates scheduled price changes.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
+import { envs } from '../../../config';
+import { ApplyScheduledPricesCommand } from '../../application/commands/impl';
+
+/**
+ * @class ScheduledPriceActivator
+ * @implements OnModuleInit
+ * @implements OnModuleDestroy
+ * @description Periodically dispatches ApplyScheduledPricesCommand so that future-dated prices
+ * become the product's price once they take effect. The interval is PRICE_ACTIVATION_INTERVAL_SECONDS.
+ */
+@Injectable()
+export class ScheduledPriceActivator implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduledPriceActivator.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   */
+  constructor(private readonly commandBus: CommandBus) {}
+
+  /**
+   * @method onModuleInit
+   * @description Starts the activation timer, unless background workers are disabled.
+   */
+  onModuleInit() {
+    if (!envs.backgroundWorkersEnabled) {
+      return;
+    }
+    const intervalMs = envs.priceActivationIntervalSeconds * 1000;
+    this.timer = setInterval(() => void this.activate(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Scheduled price activator started (every ${envs.priceActivationIntervalSeconds}s).`);
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description Stops the activation timer.
+   */
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Runs one activation pass, skipping if the previous one is still in progress.
+   * @async
+   */
+  async activate(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.commandBus.execute(new ApplyScheduledPricesCommand());
+    } catch (error: any) {
+      this.logger.error(`Scheduled price activation failed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
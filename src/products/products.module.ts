@@ -11,24 +11,69 @@ import { CqrsModule } from '@nestjs/cqrs';
 // Application Layer
 import { CommandHandlers } from './application/commands';
 import { QueryHandlers } from './application/queries';
+import { PromotionalPricingService } from './application/services/promotional-pricing.service';
+import { ProductAuditTrail } from './application/services/product-audit-trail.service';
+import { ProductCategoriesService } from './application/services/product-categories.service';
+import { SkuRegistry } from './application/services/sku-registry.service';
+import { ProductAttributesService } from './application/services/product-attributes.service';
+import { ProductLocalizationService } from './application/services/product-localization.service';
+import { ProductWriteChecks } from './application/services/product-write-checks.service';
 
 // Domain Layer (Ports)
-import { PRODUCT_REPOSITORY_PORT } from './domain';
+import {
+  PRODUCT_AUDIT_LOG_REPOSITORY_PORT, PRODUCT_EVENT_OUTBOX_PORT, PRODUCT_REPOSITORY_PORT, PRODUCT_VARIANT_REPOSITORY_PORT,
+  STOCK_RESERVATION_REPOSITORY_PORT,
+} from './domain';
 
 // Infrastructure Layer (Adapters & Controller)
 import { PrismaProductRepository } from './infrastructure/adapters/prisma-product.repository';
+import { PrismaStockReservationRepository } from './infrastructure/adapters/prisma-stock-reservation.repository';
+import { PrismaProductAuditLogRepository } from './infrastructure/adapters/prisma-product-audit-log.repository';
+import { PrismaProductVariantRepository } from './infrastructure/adapters/prisma-product-variant.repository';
 import { ProductsController } from './infrastructure/controllers/products.controller';
+import { ReservationExpirySweeper } from './infrastructure/workers/reservation-expiry.sweeper';
+import { ScheduledPriceActivator } from './infrastructure/workers/scheduled-price.activator';
+import { OutboxProductEventWriter } from './infrastructure/messaging/outbox-product-event.writer';
+import { CatalogExporter, CatalogImporter } from './infrastructure/cli';
 // PrismaService is provided globally via PrismaModule
 
+// Promotions provide the discount rules applied to product prices
+import { PromotionsModule } from '../promotions/promotions.module';
+// Categories group products and scope promotions
+import { CategoriesModule } from '../categories/categories.module';
+// The outbox records product events for publication to NATS
+import { OutboxModule } from '../outbox/outbox.module';
+
 /**
  * @const {Provider[]} infrastructureProviders
- * @description Provides the implementation for the domain repository port.
+ * @description Provides the implementations for the domain repository ports, the event outbox,
+ * background workers and the catalog CLI adapters.
  */
 const infrastructureProviders: Provider[] = [
   {
     provide: PRODUCT_REPOSITORY_PORT,
     useClass: PrismaProductRepository,
   },
+  {
+    provide: STOCK_RESERVATION_REPOSITORY_PORT,
+    useClass: PrismaStockReservationRepository,
+  },
+  {
+    provide: PRODUCT_AUDIT_LOG_REPOSITORY_PORT,
+    useClass: PrismaProductAuditLogRepository,
+  },
+  {
+    provide: PRODUCT_VARIANT_REPOSITORY_PORT,
+    useClass: PrismaProductVariantRepository,
+  },
+  ReservationExpirySweeper,
+  ScheduledPriceActivator,
+  {
+    provide: PRODUCT_EVENT_OUTBOX_PORT,
+    useClass: OutboxProductEventWriter,
+  },
+  CatalogImporter,
+  CatalogExporter,
 ];
 
 /**
@@ -38,6 +83,13 @@ const infrastructureProviders: Provider[] = [
 const applicationProviders: Provider[] = [
     ...CommandHandlers,
     ...QueryHandlers,
+    PromotionalPricingService,
+    ProductAuditTrail,
+    ProductCategoriesService,
+    SkuRegistry,
+    ProductAttributesService,
+    ProductLocalizationService,
+    ProductWriteChecks,
 ];
 
 /**
@@ -45,7 +97,12 @@ const applicationProviders: Provider[] = [
  * @description Encapsulates the product feature using CQRS and Hexagonal Architecture.
  */
 @Module({
-  imports: [CqrsModule],
+  imports: [
+    CqrsModule,
+    PromotionsModule,
+    CategoriesModule,
+    OutboxModule,
+  ],
   controllers: [ProductsController],
   providers: [
     ...applicationProviders,
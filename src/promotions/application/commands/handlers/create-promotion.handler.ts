@@ -0,0 +1,68 @@
+/**
+ * @file Command handler for creating a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { Money, ProductDomainError } from '../../../../products/domain';
+import { Promotion, PromotionDomainError, PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../domain';
+import { envs } from '../../../../config';
+import { CreatePromotionCommand } from '../impl';
+
+/**
+ * @class CreatePromotionHandler
+ * @description Handles the execution of the CreatePromotionCommand.
+ */
+@CommandHandler(CreatePromotionCommand)
+export class CreatePromotionHandler implements ICommandHandler<CreatePromotionCommand, Promotion> {
+  private readonly logger = new Logger(CreatePromotionHandler.name);
+
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the create promotion command.
+   * @async
+   * @param {CreatePromotionCommand} command - The command object.
+   * @returns {Promise<Promotion>} The created promotion.
+   * @throws {RpcException} If the rule is invalid or an error occurs during creation.
+   */
+  async execute(command: CreatePromotionCommand): Promise<Promotion> {
+    const { amountOff, currency = envs.defaultCurrency, productIds = [], categoryIds = [], ...rule } =
+      command.createPromotionDto;
+    this.logger.log(`Attempting to create promotion: ${rule.name}`);
+
+    try {
+      const promotion = new Promotion(randomUUID(), {
+        ...rule,
+        amountOff: amountOff !== undefined ? Money.fromMajor(amountOff, currency) : null,
+        productIds,
+        categoryIds,
+      });
+
+      const created = await this.promotionRepository.create(promotion);
+      this.logger.log(`Successfully created promotion with ID: ${created.id}`);
+      return created;
+    } catch (error: any) {
+      if (error instanceof PromotionDomainError || error instanceof ProductDomainError) {
+        throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to create promotion "${rule.name}": ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to create promotion.',
+      });
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file Command handler for deleting (deactivating) a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Promotion, PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../domain';
+import { DeletePromotionCommand } from '../impl';
+
+/**
+ * @class DeletePromotionHandler
+ * @description Handles the execution of the DeletePromotionCommand.
+ */
+@CommandHandler(DeletePromotionCommand)
+export class DeletePromotionHandler implements ICommandHandler<DeletePromotionCommand, Promotion> {
+  private readonly logger = new Logger(DeletePromotionHandler.name);
+
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the delete promotion command.
+   * @async
+   * @param {DeletePromotionCommand} command - The command object.
+   * @returns {Promise<Promotion>} The deactivated promotion.
+   * @throws {RpcException} If the promotion is not found or an error occurs.
+   */
+  async execute(command: DeletePromotionCommand): Promise<Promotion> {
+    const { id } = command;
+    this.logger.log(`Attempting to delete promotion with ID: ${id}`);
+
+    try {
+      const promotion = await this.promotionRepository.findById(id);
+      if (!promotion) {
+        throw new RpcException({
+          message: `Promotion with id #${id} not found or already deleted`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      promotion.deactivate();
+      const deleted = await this.promotionRepository.save(promotion);
+      this.logger.log(`Successfully deleted promotion with ID: ${id}`);
+      return deleted;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      this.logger.error(`Failed to delete promotion ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to delete promotion.',
+      });
+    }
+  }
+}
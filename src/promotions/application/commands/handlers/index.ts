@@ -0,0 +1,3 @@
+export * from './create-promotion.handler';
+export * from './update-promotion.handler';
+export * from './delete-promotion.handler';
@@ -0,0 +1,87 @@
+/**
+ * @file Command handler for updating a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Money, ProductDomainError } from '../../../../products/domain';
+import {
+  Promotion, PromotionDomainError, PromotionProps, PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT,
+} from '../../../domain';
+import { envs } from '../../../../config';
+import { UpdatePromotionCommand } from '../impl';
+
+/**
+ * @class UpdatePromotionHandler
+ * @description Handles the execution of the UpdatePromotionCommand.
+ */
+@CommandHandler(UpdatePromotionCommand)
+export class UpdatePromotionHandler implements ICommandHandler<UpdatePromotionCommand, Promotion> {
+  private readonly logger = new Logger(UpdatePromotionHandler.name);
+
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the update promotion command.
+   * @async
+   * @param {UpdatePromotionCommand} command - The command object.
+   * @returns {Promise<Promotion>} The updated promotion.
+   * @throws {RpcException} If the promotion is not found, the resulting rule is invalid or an error occurs.
+   */
+  async execute(command: UpdatePromotionCommand): Promise<Promotion> {
+    const { id, updatePromotionData } = command;
+    this.logger.log(`Attempting to update promotion with ID: ${id}`);
+
+    try {
+      const promotion = await this.promotionRepository.findById(id);
+      if (!promotion) {
+        throw new RpcException({
+          message: `Promotion with id #${id} not found`,
+          status: HttpStatus.NOT_FOUND,
+        });
+      }
+
+      const { amountOff, currency, ...rest } = updatePromotionData;
+      if (currency !== undefined && amountOff === undefined) {
+        throw new RpcException({
+          message: 'currency can only be changed together with amountOff',
+          status: HttpStatus.BAD_REQUEST,
+        });
+      }
+
+      const changes: Partial<PromotionProps> = { ...rest };
+      if (amountOff !== undefined) {
+        // Keep the promotion's currency unless a new one is given alongside the amount
+        changes.amountOff = Money.fromMajor(amountOff, currency ?? promotion.amountOff?.currency ?? envs.defaultCurrency);
+      }
+      promotion.update(changes);
+
+      const updated = await this.promotionRepository.save(promotion);
+      this.logger.log(`Successfully updated promotion with ID: ${id}`);
+      return updated;
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+          throw error;
+      }
+      if (error instanceof PromotionDomainError || error instanceof ProductDomainError) {
+          throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: error.message });
+      }
+      this.logger.error(`Failed to update promotion ID ${id}: ${error.message}`, error.stack);
+      throw new RpcException({
+          status: error.status || error.response?.status || 500,
+          message: error.message || error.response?.message || 'Failed to update promotion.',
+      });
+    }
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the command for creating a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CreatePromotionDto } from '../../dto/create-promotion.dto';
+
+/**
+ * @class CreatePromotionCommand
+ * @description Represents the intent to create a new promotion.
+ */
+export class CreatePromotionCommand {
+  /**
+   * @constructor
+   * @param {CreatePromotionDto} createPromotionDto - The data for the new promotion.
+   */
+  constructor(public readonly createPromotionDto: CreatePromotionDto) {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @file Defines the command for deleting a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class DeletePromotionCommand
+ * @description Represents the intent to deactivate a promotion. It stays stored for reference.
+ */
+export class DeletePromotionCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the promotion to delete.
+   */
+  constructor(public readonly id: string) {}
+}
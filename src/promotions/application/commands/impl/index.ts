@@ -0,0 +1,3 @@
+export * from './create-promotion.command';
+export * from './update-promotion.command';
+export * from './delete-promotion.command';
@@ -0,0 +1,24 @@
+/**
+ * @file Defines the command for updating an existing promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { UpdatePromotionData } from '../../dto/update-promotion.dto';
+
+/**
+ * @class UpdatePromotionCommand
+ * @description Represents the intent to update a promotion.
+ */
+export class UpdatePromotionCommand {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the promotion to update.
+   * @param {UpdatePromotionData} updatePromotionData - The data to update the promotion with.
+   */
+  constructor(
+    public readonly id: string,
+    public readonly updatePromotionData: UpdatePromotionData,
+  ) {}
+}
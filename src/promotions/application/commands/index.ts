@@ -0,0 +1,12 @@
+import { CreatePromotionHandler } from './handlers/create-promotion.handler';
+import { UpdatePromotionHandler } from './handlers/update-promotion.handler';
+import { DeletePromotionHandler } from './handlers/delete-promotion.handler';
+
+export * from './impl';
+export * from './handlers';
+
+export const CommandHandlers = [
+  CreatePromotionHandler,
+  UpdatePromotionHandler,
+  DeletePromotionHandler,
+];
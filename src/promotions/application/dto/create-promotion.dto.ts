@@ -0,0 +1,136 @@
+/**
+ * @file Data Transfer Object for creating a promotion.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique, IsArray, IsDate, IsIn, IsInt, IsISO4217CurrencyCode, IsNumber, IsOptional, IsString, IsUUID, Max, Min,
+} from 'class-validator';
+import { PROMOTION_TYPES, PromotionType } from '../../domain/model/promotion.entity';
+
+/**
+ * @class CreatePromotionDto
+ * @description Defines the shape of data for a new promotion. Only the parameters of the chosen type are
+ * used; the domain rejects a rule missing its own parameters.
+ */
+export class CreatePromotionDto {
+  /**
+   * @property {string} name - Display name of the promotion.
+   * @decorator IsString
+   */
+  @IsString()
+  public name: string;
+
+  /**
+   * @property {PromotionType} type - PERCENTAGE_OFF, FIXED_OFF or BUY_X_GET_Y.
+   * @decorator IsIn
+   */
+  @IsIn(PROMOTION_TYPES)
+  public type: PromotionType;
+
+  /**
+   * @property {number} [percentOff] - Whole percentage off the line total (PERCENTAGE_OFF).
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   * @decorator Max
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  public percentOff?: number;
+
+  /**
+   * @property {number} [amountOff] - Amount off each unit in major units (FIXED_OFF).
+   * @decorator IsOptional
+   * @decorator IsNumber
+   * @decorator Min
+   */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0)
+  @Type(() => Number)
+  public amountOff?: number;
+
+  /**
+   * @property {string} [currency] - ISO 4217 currency of amountOff (defaults to DEFAULT_CURRENCY).
+   * @decorator IsOptional
+   * @decorator IsISO4217CurrencyCode
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  public currency?: string;
+
+  /**
+   * @property {number} [buyQuantity] - Units to buy (BUY_X_GET_Y).
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  public buyQuantity?: number;
+
+  /**
+   * @property {number} [getQuantity] - Units given free per buyQuantity bought (BUY_X_GET_Y).
+   * @decorator IsOptional
+   * @decorator IsInt
+   * @decorator Min
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  public getQuantity?: number;
+
+  /**
+   * @property {string[]} [productIds] - Products the promotion applies to.
+   * @decorator IsOptional
+   * @decorator IsArray
+   * @decorator ArrayUnique
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  public productIds?: string[];
+
+  /**
+   * @property {string[]} [categoryIds] - Categories the promotion applies to.
+   * @decorator IsOptional
+   * @decorator IsArray
+   * @decorator ArrayUnique
+   * @decorator IsUUID
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  public categoryIds?: string[];
+
+  /**
+   * @property {Date} startsAt - Start of the promotion window (inclusive).
+   * @decorator IsDate
+   * @decorator Type
+   */
+  @IsDate()
+  @Type(() => Date)
+  public startsAt: Date;
+
+  /**
+   * @property {Date} endsAt - End of the promotion window (exclusive).
+   * @decorator IsDate
+   * @decorator Type
+   */
+  @IsDate()
+  @Type(() => Date)
+  public endsAt: Date;
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Data Transfer Objects for listing promotions.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Type } from 'class-transformer';
+import { IsDate, IsOptional } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { Promotion } from '../../domain/model/promotion.entity';
+
+/**
+ * @class FindPromotionsDto
+ * @extends PaginationDto
+ * @description Pagination parameters plus an optional point in time.
+ */
+export class FindPromotionsDto extends PaginationDto {
+  /**
+   * @property {Date} [activeAt] - Only return promotions live at this moment.
+   * @decorator IsOptional
+   * @decorator IsDate
+   * @decorator Type
+   */
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  activeAt?: Date;
+}
+
+/**
+ * @class FindPromotionsResponseDto
+ * @description Structure of the paginated promotions response.
+ */
+export class FindPromotionsResponseDto {
+  /**
+   * @property {Promotion[]} data - Promotions for the current page, latest start first.
+   */
+  data: Promotion[];
+
+  /**
+   * @property {object} meta - Pagination metadata.
+   * @property {number} meta.total - Total number of matching promotions.
+   * @property {number} meta.page - Current page number.
+   * @property {number} meta.lastPage - The last page number.
+   */
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
@@ -0,0 +1,3 @@
+export * from './create-promotion.dto';
+export * from './update-promotion.dto';
+export * from './find-promotions.dto';
@@ -0,0 +1,32 @@
+/**
+ * @file Data Transfer Object for updating a promotion. Includes the ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PartialType } from '@nestjs/mapped-types';
+import { IsString, IsUUID } from 'class-validator';
+import { CreatePromotionDto } from './create-promotion.dto';
+
+/**
+ * @class UpdatePromotionDto
+ * @extends PartialType(CreatePromotionDto)
+ * @description Defines the shape for update payloads. Given target lists replace the existing ones.
+ */
+export class UpdatePromotionDto extends PartialType(CreatePromotionDto) {
+  /**
+   * @property {string} id - The ID of the promotion to update.
+   * @decorator IsString
+   * @decorator IsUUID
+   */
+  @IsString()
+  @IsUUID()
+  id: string;
+}
+
+/**
+ * @type UpdatePromotionData
+ * @description Represents the data part of the update, excluding the ID.
+ */
+export type UpdatePromotionData = Omit<UpdatePromotionDto, 'id'>;
@@ -0,0 +1,53 @@
+/**
+ * @file Query handler for listing promotions.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../domain';
+import { FindAllPromotionsQuery } from '../impl/find-all-promotions.query';
+import { FindPromotionsResponseDto } from '../../dto/find-promotions.dto';
+
+/**
+ * @class FindAllPromotionsHandler
+ * @description Handles the execution of the FindAllPromotionsQuery.
+ */
+@QueryHandler(FindAllPromotionsQuery)
+export class FindAllPromotionsHandler implements IQueryHandler<FindAllPromotionsQuery, FindPromotionsResponseDto> {
+  private readonly logger = new Logger(FindAllPromotionsHandler.name);
+
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find all promotions query.
+   * @async
+   * @param {FindAllPromotionsQuery} query - The query object.
+   * @returns {Promise<FindPromotionsResponseDto>} Paginated promotions.
+   * @throws {RpcException} If an error occurs during retrieval.
+   */
+  async execute(query: FindAllPromotionsQuery): Promise<FindPromotionsResponseDto> {
+    const { activeAt, ...pagination } = query.findPromotionsDto;
+    this.logger.log(`Finding promotions with criteria: ${JSON.stringify(query.findPromotionsDto)}`);
+
+    try {
+      return await this.promotionRepository.findAll(pagination, activeAt);
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Failed to find promotions: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding promotions.' });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @file Query handler for finding a single promotion by ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { IQueryHandler, QueryHandler } from '@nestjs/cqrs';
+import { Inject, Logger, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Promotion, PromotionRepositoryPort, PROMOTION_REPOSITORY_PORT } from '../../../domain';
+import { FindOnePromotionQuery } from '../impl/find-one-promotion.query';
+
+/**
+ * @class FindOnePromotionHandler
+ * @description Handles the execution of the FindOnePromotionQuery.
+ */
+@QueryHandler(FindOnePromotionQuery)
+export class FindOnePromotionHandler implements IQueryHandler<FindOnePromotionQuery, Promotion> {
+  private readonly logger = new Logger(FindOnePromotionHandler.name);
+
+  /**
+   * @constructor
+   * @param {PromotionRepositoryPort} promotionRepository - Injected promotion repository.
+   */
+  constructor(
+    @Inject(PROMOTION_REPOSITORY_PORT)
+    private readonly promotionRepository: PromotionRepositoryPort,
+  ) {}
+
+  /**
+   * Executes the find one promotion query.
+   * @async
+   * @param {FindOnePromotionQuery} query - The query object containing the promotion ID.
+   * @returns {Promise<Promotion>} The found promotion.
+   * @throws {RpcException} If the promotion is not found.
+   */
+  async execute(query: FindOnePromotionQuery): Promise<Promotion> {
+    const { id } = query;
+    this.logger.log(`Finding promotion with ID: ${id}`);
+
+    const promotion = await this.promotionRepository.findById(id);
+    if (!promotion) {
+      throw new RpcException({
+        message: `Promotion with id #${id} not found`,
+        status: HttpStatus.NOT_FOUND,
+      });
+    }
+    return promotion;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * @file Defines the query for listing promotions.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { FindPromotionsDto } from '../../dto/find-promotions.dto';
+
+/**
+ * @class FindAllPromotionsQuery
+ * @description Represents the intent to list non-deleted promotions.
+ */
+export class FindAllPromotionsQuery {
+  /**
+   * @constructor
+   * @param {FindPromotionsDto} findPromotionsDto - Pagination and time filter.
+   */
+  constructor(public readonly findPromotionsDto: FindPromotionsDto) {}
+}
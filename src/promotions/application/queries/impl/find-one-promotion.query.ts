@@ -0,0 +1,18 @@
+/**
+ * @file Defines the query for finding a single promotion by ID.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class FindOnePromotionQuery
+ * @description Represents the intent to find a non-deleted promotion by its ID.
+ */
+export class FindOnePromotionQuery {
+  /**
+   * @constructor
+   * @param {string} id - The ID of the promotion to find.
+   */
+  constructor(public readonly id: string) {}
+}
@@ -0,0 +1,10 @@
+import { FindAllPromotionsHandler } from './handlers/find-all-promotions.handler';
+import { FindOnePromotionHandler } from './handlers/find-one-promotion.handler';
+
+export * from './impl/find-all-promotions.query';
+export * from './impl/find-one-promotion.query';
+
+export const QueryHandlers = [
+  FindAllPromotionsHandler,
+  FindOnePromotionHandler,
+];
@@ -0,0 +1 @@
+export * from './promotion-domain.error';
@@ -0,0 +1,22 @@
+/**
+ * @file Defines the error raised when a Promotion invariant is violated.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @class PromotionDomainError
+ * @extends Error
+ * @description Signals that a promotion rule is malformed. Application handlers translate it into a client error.
+ */
+export class PromotionDomainError extends Error {
+  /**
+   * @constructor
+   * @param {string} message - Description of the violated rule.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = PromotionDomainError.name;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './errors';
+export * from './model/promotion.entity';
+export * from './ports/promotion.repository.port';
+export * from './services/promotion-pricing.service';
@@ -0,0 +1,206 @@
+/**
+ * @file Defines the Promotion entity, a discount rule limited to a date window.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from '../../../products/domain/model/money.value-object';
+import { PromotionDomainError } from '../errors/promotion-domain.error';
+
+/**
+ * @const {string[]} PROMOTION_TYPES
+ * @description Supported discount rules.
+ */
+export const PROMOTION_TYPES = ['PERCENTAGE_OFF', 'FIXED_OFF', 'BUY_X_GET_Y'] as const;
+
+/**
+ * @type PromotionType
+ * @description A supported discount rule.
+ */
+export type PromotionType = (typeof PROMOTION_TYPES)[number];
+
+/**
+ * @interface PromotionProps
+ * @description Editable attributes of a promotion. Only the parameters of its type may be set.
+ */
+export interface PromotionProps {
+  name: string;
+  type: PromotionType;
+  percentOff?: number | null;
+  amountOff?: Money | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  productIds: string[];
+  categoryIds: string[];
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * @class Promotion
+ * @description A discount rule scoped to products and/or categories, active between startsAt (inclusive)
+ * and endsAt (exclusive).
+ * - PERCENTAGE_OFF: `percentOff` percent off the line total.
+ * - FIXED_OFF: `amountOff` off each unit, never below zero. Only applies to prices in the same currency.
+ * - BUY_X_GET_Y: for every `buyQuantity` + `getQuantity` units, `getQuantity` are free.
+ */
+export class Promotion {
+  public name: string;
+  public type: PromotionType;
+  public percentOff: number | null;
+  public amountOff: Money | null;
+  public buyQuantity: number | null;
+  public getQuantity: number | null;
+  public productIds: string[];
+  public categoryIds: string[];
+  public startsAt: Date;
+  public endsAt: Date;
+
+  /**
+   * @constructor
+   * @param {string} id - Unique identifier of the promotion (UUID).
+   * @param {PromotionProps} props - The rule definition.
+   * @param {boolean} [active=true] - False once the promotion has been deleted.
+   * @throws {PromotionDomainError} If the rule definition is invalid.
+   */
+  constructor(
+    public readonly id: string,
+    props: PromotionProps,
+    public active: boolean = true,
+  ) {
+    this.assign(props);
+  }
+
+  /**
+   * @method update
+   * @description Changes the rule definition. Switching type clears the previous type's parameters.
+   * @param {Partial<PromotionProps>} changes - Attributes to change.
+   * @throws {PromotionDomainError} If the resulting rule is invalid.
+   */
+  public update(changes: Partial<PromotionProps>): void {
+    const typeChanged = changes.type !== undefined && changes.type !== this.type;
+    const current: PromotionProps = {
+      name: this.name,
+      type: this.type,
+      percentOff: typeChanged ? null : this.percentOff,
+      amountOff: typeChanged ? null : this.amountOff,
+      buyQuantity: typeChanged ? null : this.buyQuantity,
+      getQuantity: typeChanged ? null : this.getQuantity,
+      productIds: this.productIds,
+      categoryIds: this.categoryIds,
+      startsAt: this.startsAt,
+      endsAt: this.endsAt,
+    };
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    this.assign({ ...current, ...defined });
+  }
+
+  /**
+   * @method isActiveAt
+   * @param {Date} at - Reference time.
+   * @returns {boolean} Whether the promotion is live at the given moment.
+   */
+  public isActiveAt(at: Date): boolean {
+    return this.active && this.startsAt.getTime() <= at.getTime() && at.getTime() < this.endsAt.getTime();
+  }
+
+  /**
+   * @method appliesTo
+   * @param {string} productId - The product being priced.
+   * @param {string[]} [categoryIds=[]] - Categories the product belongs to.
+   * @returns {boolean} Whether the product is within the promotion's scope.
+   */
+  public appliesTo(productId: string, categoryIds: string[] = []): boolean {
+    return this.productIds.includes(productId) || categoryIds.some(id => this.categoryIds.includes(id));
+  }
+
+  /**
+   * @method discountFor
+   * @description Computes the discount this rule gives on a line.
+   * @param {Money} unitPrice - List price of one unit.
+   * @param {number} quantity - Units on the line.
+   * @returns {Money} The discount, zero when the rule does not apply (e.g. a currency mismatch).
+   */
+  public discountFor(unitPrice: Money, quantity: number): Money {
+    const lineTotal = unitPrice.multiply(quantity);
+    switch (this.type) {
+      case 'PERCENTAGE_OFF':
+        return Money.of(Math.round((lineTotal.amount * this.percentOff) / 100), unitPrice.currency);
+      case 'FIXED_OFF': {
+        if (this.amountOff.currency !== unitPrice.currency) {
+          return Money.zero(unitPrice.currency);
+        }
+        const perUnit = Math.min(this.amountOff.amount, unitPrice.amount);
+        return Money.of(perUnit * quantity, unitPrice.currency);
+      }
+      case 'BUY_X_GET_Y': {
+        const freeUnits = Math.floor(quantity / (this.buyQuantity + this.getQuantity)) * this.getQuantity;
+        return unitPrice.multiply(freeUnits);
+      }
+    }
+  }
+
+  /**
+   * @method deactivate
+   * @description Marks the promotion as deleted.
+   */
+  public deactivate(): void {
+    this.active = false;
+  }
+
+  /**
+   * @method assign
+   * @description Validates and applies a full rule definition.
+   * @private
+   * @param {PromotionProps} props - The rule definition.
+   */
+  private assign(props: PromotionProps): void {
+    if (!props.name || props.name.trim().length === 0) {
+      throw new PromotionDomainError('Promotion name cannot be empty.');
+    }
+    if (!PROMOTION_TYPES.includes(props.type)) {
+      throw new PromotionDomainError(`Unknown promotion type: ${props.type}.`);
+    }
+    if (props.startsAt.getTime() >= props.endsAt.getTime()) {
+      throw new PromotionDomainError('Promotion startsAt must be before endsAt.');
+    }
+    if (props.productIds.length === 0 && props.categoryIds.length === 0) {
+      throw new PromotionDomainError('Promotion must target at least one product or category.');
+    }
+
+    const percentOff = props.percentOff ?? null;
+    const amountOff = props.amountOff ?? null;
+    const buyQuantity = props.buyQuantity ?? null;
+    const getQuantity = props.getQuantity ?? null;
+
+    switch (props.type) {
+      case 'PERCENTAGE_OFF':
+        if (!Number.isInteger(percentOff) || percentOff < 1 || percentOff > 100) {
+          throw new PromotionDomainError('PERCENTAGE_OFF promotions need a whole percentOff between 1 and 100.');
+        }
+        break;
+      case 'FIXED_OFF':
+        if (!amountOff || amountOff.amount <= 0) {
+          throw new PromotionDomainError('FIXED_OFF promotions need a positive amountOff.');
+        }
+        break;
+      case 'BUY_X_GET_Y':
+        if (!Number.isInteger(buyQuantity) || buyQuantity < 1 || !Number.isInteger(getQuantity) || getQuantity < 1) {
+          throw new PromotionDomainError('BUY_X_GET_Y promotions need whole buyQuantity and getQuantity of at least 1.');
+        }
+        break;
+    }
+
+    this.name = props.name.trim();
+    this.type = props.type;
+    this.percentOff = props.type === 'PERCENTAGE_OFF' ? percentOff : null;
+    this.amountOff = props.type === 'FIXED_OFF' ? amountOff : null;
+    this.buyQuantity = props.type === 'BUY_X_GET_Y' ? buyQuantity : null;
+    this.getQuantity = props.type === 'BUY_X_GET_Y' ? getQuantity : null;
+    this.productIds = Array.from(new Set(props.productIds));
+    this.categoryIds = Array.from(new Set(props.categoryIds));
+    this.startsAt = props.startsAt;
+    this.endsAt = props.endsAt;
+  }
+}
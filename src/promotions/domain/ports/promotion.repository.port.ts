@@ -0,0 +1,77 @@
+/**
+ * @file Defines the port (interface) for promotion repository operations.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Promotion } from '../model/promotion.entity';
+import { PaginationDto } from '../../../common';
+
+/**
+ * @interface PaginatedPromotionResult
+ * @description Structure for returning paginated promotion data.
+ */
+export interface PaginatedPromotionResult {
+  data: Promotion[];
+  meta: {
+    total: number;
+    page: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * @interface PromotionRepositoryPort
+ * @description Defines the contract for promotion repository adapters.
+ */
+export interface PromotionRepositoryPort {
+  /**
+   * Stores a new promotion with its targets.
+   * @async
+   * @param {Promotion} promotion - The promotion to create.
+   * @returns {Promise<Promotion>} The created promotion.
+   */
+  create(promotion: Promotion): Promise<Promotion>;
+
+  /**
+   * Finds a promotion by its ID, only if not deleted.
+   * @async
+   * @param {string} id - The promotion ID.
+   * @returns {Promise<Promotion | null>} The promotion or null if not found/deleted.
+   */
+  findById(id: string): Promise<Promotion | null>;
+
+  /**
+   * Finds non-deleted promotions with pagination, optionally only those live at a moment.
+   * @async
+   * @param {PaginationDto} paginationDto - Pagination parameters (page, limit).
+   * @param {Date} [activeAt] - Only return promotions live at this moment.
+   * @returns {Promise<PaginatedPromotionResult>} Paginated list of promotions.
+   */
+  findAll(paginationDto: PaginationDto, activeAt?: Date): Promise<PaginatedPromotionResult>;
+
+  /**
+   * Persists the current state of a promotion, replacing its targets.
+   * @async
+   * @param {Promotion} promotion - The promotion to save.
+   * @returns {Promise<Promotion>} The saved promotion.
+   */
+  save(promotion: Promotion): Promise<Promotion>;
+
+  /**
+   * Finds promotions live at a moment that target any of the given products or categories.
+   * @async
+   * @param {string[]} productIds - Products being priced.
+   * @param {string[]} categoryIds - Categories of those products.
+   * @param {Date} at - Reference time.
+   * @returns {Promise<Promotion[]>} Candidate promotions.
+   */
+  findApplicable(productIds: string[], categoryIds: string[], at: Date): Promise<Promotion[]>;
+}
+
+/**
+ * @const {string} PROMOTION_REPOSITORY_PORT
+ * @description Injection token for the PromotionRepositoryPort.
+ */
+export const PROMOTION_REPOSITORY_PORT = 'PromotionRepositoryPort';
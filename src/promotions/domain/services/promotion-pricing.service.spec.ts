@@ -0,0 +1,99 @@
+/**
+ * @file Tests of PromotionPricingService.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { PromotionPricingService } from './promotion-pricing.service';
+import { Promotion, PromotionProps } from '../model/promotion.entity';
+import { Money } from '../../../products/domain/model/money.value-object';
+
+const AT = new Date('2026-06-15T12:00:00Z');
+const PRODUCT_ID = 'lamp-1';
+const unitPrice = Money.of(1000, 'USD');
+
+/**
+ * Builds a promotion on the product, live at AT unless overridden.
+ * @param {string} id - The promotion ID.
+ * @param {Partial<PromotionProps>} props - Overrides, including the discount rule.
+ * @param {boolean} [active=true] - Whether the promotion is active.
+ * @returns {Promotion} The promotion.
+ */
+function promotion(id: string, props: Partial<PromotionProps>, active = true): Promotion {
+  return new Promotion(id, {
+    name: `Promotion ${id}`,
+    type: 'PERCENTAGE_OFF',
+    percentOff: 10,
+    productIds: [PRODUCT_ID],
+    categoryIds: [],
+    startsAt: new Date('2026-06-01T00:00:00Z'),
+    endsAt: new Date('2026-07-01T00:00:00Z'),
+    ...props,
+  }, active);
+}
+
+describe('PromotionPricingService', () => {
+  it('prices a line without promotions at its list price', () => {
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 3, [], AT)).toEqual({
+      unitPrice,
+      quantity: 3,
+      discount: Money.zero('USD'),
+      total: Money.of(3000, 'USD'),
+      promotion: null,
+    });
+  });
+
+  it('applies the promotion giving the largest discount', () => {
+    const percent = promotion('a', { percentOff: 25 });
+    const fixed = promotion('b', { type: 'FIXED_OFF', amountOff: Money.of(300, 'USD') });
+    const buyTwoGetOne = promotion('c', { type: 'BUY_X_GET_Y', buyQuantity: 2, getQuantity: 1 });
+
+    const line = PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 3, [percent, fixed, buyTwoGetOne], AT);
+
+    expect(line.promotion).toBe(buyTwoGetOne);
+    expect(line.discount).toEqual(Money.of(1000, 'USD'));
+    expect(line.total).toEqual(Money.of(2000, 'USD'));
+  });
+
+  it('breaks ties by the earliest end, then the lowest ID', () => {
+    const later = promotion('a', { endsAt: new Date('2026-08-01T00:00:00Z') });
+    const sooner = promotion('z', { endsAt: new Date('2026-06-20T00:00:00Z') });
+    const sameEnd = promotion('m', { endsAt: new Date('2026-06-20T00:00:00Z') });
+
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 1, [later, sooner, sameEnd], AT).promotion)
+      .toBe(sameEnd);
+  });
+
+  it('skips promotions that are inactive, not live or out of scope', () => {
+    const promotions = [
+      promotion('inactive', { percentOff: 50 }, false),
+      promotion('ended', { percentOff: 50, endsAt: AT, startsAt: new Date('2026-06-01T00:00:00Z') }),
+      promotion('upcoming', { percentOff: 50, startsAt: new Date('2026-06-16T00:00:00Z') }),
+      promotion('elsewhere', { percentOff: 50, productIds: ['chair-1'] }),
+    ];
+
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 1, promotions, AT).promotion).toBeNull();
+  });
+
+  it('applies category promotions through the product categories', () => {
+    const category = promotion('cat', { productIds: [], categoryIds: ['lighting'] });
+
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, ['home', 'lighting'], unitPrice, 1, [category], AT).discount)
+      .toEqual(Money.of(100, 'USD'));
+  });
+
+  it('ignores promotions that give no discount on the line', () => {
+    const otherCurrency = promotion('eur', { type: 'FIXED_OFF', amountOff: Money.of(500, 'EUR') });
+    const notEnoughUnits = promotion('bxgy', { type: 'BUY_X_GET_Y', buyQuantity: 2, getQuantity: 1 });
+
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 2, [otherCurrency, notEnoughUnits], AT).promotion)
+      .toBeNull();
+  });
+
+  it('never discounts a fixed amount below zero', () => {
+    const fixed = promotion('big', { type: 'FIXED_OFF', amountOff: Money.of(1500, 'USD') });
+
+    expect(PromotionPricingService.priceLine(PRODUCT_ID, [], unitPrice, 2, [fixed], AT).total).toEqual(Money.zero('USD'));
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @file Domain service that picks the promotion giving the best discount on a line.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Money } from '../../../products/domain/model/money.value-object';
+import { Promotion } from '../model/promotion.entity';
+
+/**
+ * @interface DiscountedLine
+ * @description Result of applying promotions to a line.
+ */
+export interface DiscountedLine {
+  unitPrice: Money;
+  quantity: number;
+  discount: Money;
+  total: Money;
+  promotion: Promotion | null;
+}
+
+/**
+ * @class PromotionPricingService
+ * @description Applies at most one promotion per line: the live, in-scope promotion with the largest
+ * discount. Ties go to the promotion that ends first, then to the lowest ID, so results are deterministic.
+ */
+export class PromotionPricingService {
+  /**
+   * @method priceLine
+   * @static
+   * @param {string} productId - The product on the line.
+   * @param {string[]} categoryIds - Categories the product belongs to.
+   * @param {Money} unitPrice - List price of one unit.
+   * @param {number} quantity - Units on the line.
+   * @param {Promotion[]} promotions - Candidate promotions.
+   * @param {Date} [at=new Date()] - Moment the line is priced at.
+   * @returns {DiscountedLine}
+   */
+  public static priceLine(
+    productId: string,
+    categoryIds: string[],
+    unitPrice: Money,
+    quantity: number,
+    promotions: Promotion[],
+    at: Date = new Date(),
+  ): DiscountedLine {
+    const gross = unitPrice.multiply(quantity);
+    let best: { promotion: Promotion; discount: Money } | null = null;
+
+    for (const promotion of promotions) {
+      if (!promotion.isActiveAt(at) || !promotion.appliesTo(productId, categoryIds)) {
+        continue;
+      }
+      const discount = promotion.discountFor(unitPrice, quantity);
+      if (discount.amount <= 0) {
+        continue;
+      }
+      if (!best || PromotionPricingService.isBetter(promotion, discount, best.promotion, best.discount)) {
+        best = { promotion, discount };
+      }
+    }
+
+    const discount = best ? best.discount : Money.zero(unitPrice.currency);
+    return {
+      unitPrice,
+      quantity,
+      discount,
+      total: gross.subtract(discount),
+      promotion: best ? best.promotion : null,
+    };
+  }
+
+  /**
+   * @method isBetter
+   * @private
+   * @static
+   * @returns {boolean} Whether the candidate beats the current best.
+   */
+  private static isBetter(candidate: Promotion, candidateDiscount: Money, current: Promotion, currentDiscount: Money): boolean {
+    const byDiscount = candidateDiscount.compareTo(currentDiscount);
+    if (byDiscount !== 0) {
+      return byDiscount > 0;
+    }
+    const byEnd = candidate.endsAt.getTime() - current.endsAt.getTime();
+    if (byEnd !== 0) {
+      return byEnd < 0;
+    }
+    return candidate.id < current.id;
+  }
+}
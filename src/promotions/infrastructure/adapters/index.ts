@@ -0,0 +1 @@
+export * from './prisma-promotion.repository';
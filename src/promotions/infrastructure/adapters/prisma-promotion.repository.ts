@@ -0,0 +1,274 @@
+/**
+ * @file Prisma adapter implementing the PromotionRepositoryPort.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { Money } from '../../../products/domain/model/money.value-object';
+import { Promotion, PromotionType } from '../../domain/model/promotion.entity';
+import { PromotionRepositoryPort, PaginatedPromotionResult } from '../../domain/ports/promotion.repository.port';
+import { PrismaService } from '../../../shared/infrastructure/prisma/prisma.service';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../../shared/application/request-context';
+import { requireTenant, tenantScope, TenantScope } from '../../../shared/infrastructure/request-context/tenant-scope';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+
+/**
+ * @const {string} PRODUCT_TARGET
+ * @description PromotionTarget.targetType for product-scoped targets.
+ */
+const PRODUCT_TARGET = 'PRODUCT';
+
+/**
+ * @const {string} CATEGORY_TARGET
+ * @description PromotionTarget.targetType for category-scoped targets.
+ */
+const CATEGORY_TARGET = 'CATEGORY';
+
+/**
+ * @class PrismaPromotionRepository
+ * @implements PromotionRepositoryPort
+ * @description Implements promotion persistence logic using Prisma ORM with SQLite. Every call is restricted
+ * to the tenant of the current request.
+ */
+@Injectable()
+export class PrismaPromotionRepository implements PromotionRepositoryPort {
+  private readonly logger = new Logger(PrismaPromotionRepository.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   * @param {RequestContextProvider} requestContext - Injected request context, for the tenant.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Restricts a query to the tenant of the current request.
+   * @private
+   * @returns {TenantScope} Prisma where fragment; empty outside of a request.
+   */
+  private scope(): TenantScope {
+    return tenantScope(this.requestContext);
+  }
+
+  /**
+   * Maps a Prisma Promotion model (with targets) to a domain Promotion entity.
+   * @private
+   * @param {any} prismaPromotion - The promotion object retrieved from Prisma.
+   * @returns {Promotion | null} The domain entity, or null if input is null/undefined.
+   */
+  private mapToDomain(prismaPromotion: any): Promotion | null {
+    if (!prismaPromotion) {
+      return null;
+    }
+    const targets: any[] = prismaPromotion.targets ?? [];
+    return new Promotion(
+      prismaPromotion.id,
+      {
+        name: prismaPromotion.name,
+        type: prismaPromotion.type as PromotionType,
+        percentOff: prismaPromotion.percentOff,
+        amountOff: prismaPromotion.amountOff !== null
+          ? Money.of(prismaPromotion.amountOff, prismaPromotion.amountOffCurrency)
+          : null,
+        buyQuantity: prismaPromotion.buyQuantity,
+        getQuantity: prismaPromotion.getQuantity,
+        productIds: targets.filter(t => t.targetType === PRODUCT_TARGET).map(t => t.targetId),
+        categoryIds: targets.filter(t => t.targetType === CATEGORY_TARGET).map(t => t.targetId),
+        startsAt: prismaPromotion.startsAt,
+        endsAt: prismaPromotion.endsAt,
+      },
+      prismaPromotion.active,
+    );
+  }
+
+  /**
+   * Maps a domain Promotion to Prisma scalar columns.
+   * @private
+   * @param {Promotion} promotion - The domain promotion.
+   * @returns {any} Scalar data suitable for Prisma create/update.
+   */
+  private mapToPrismaData(promotion: Promotion): any {
+    return {
+      name: promotion.name,
+      type: promotion.type,
+      percentOff: promotion.percentOff,
+      amountOff: promotion.amountOff?.amount ?? null,
+      amountOffCurrency: promotion.amountOff?.currency ?? null,
+      buyQuantity: promotion.buyQuantity,
+      getQuantity: promotion.getQuantity,
+      startsAt: promotion.startsAt,
+      endsAt: promotion.endsAt,
+      active: promotion.active,
+    };
+  }
+
+  /**
+   * Maps the scope of a promotion to PromotionTarget rows.
+   * @private
+   * @param {Promotion} promotion - The domain promotion.
+   * @returns {any[]} Target rows without the promotionId.
+   */
+  private mapTargets(promotion: Promotion): any[] {
+    return [
+      ...promotion.productIds.map(targetId => ({ targetType: PRODUCT_TARGET, targetId })),
+      ...promotion.categoryIds.map(targetId => ({ targetType: CATEGORY_TARGET, targetId })),
+    ];
+  }
+
+  /**
+   * Stores a new promotion with its targets.
+   * @async
+   * @param {Promotion} promotion - The promotion to create.
+   * @returns {Promise<Promotion>} The created promotion.
+   */
+  async create(promotion: Promotion): Promise<Promotion> {
+    try {
+      const created = await this.prisma.promotion.create({
+        data: {
+          id: promotion.id,
+          tenantId: requireTenant(this.requestContext),
+          ...this.mapToPrismaData(promotion),
+          targets: { create: this.mapTargets(promotion) },
+        },
+        include: { targets: true },
+      });
+      return this.mapToDomain(created);
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      this.logger.error(`Error creating promotion: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error creating promotion.' });
+    }
+  }
+
+  /**
+   * Finds a non-deleted promotion by its ID.
+   * @async
+   * @param {string} id - The promotion ID.
+   * @returns {Promise<Promotion | null>} The promotion or null.
+   */
+  async findById(id: string): Promise<Promotion | null> {
+    try {
+      const promotion = await this.prisma.promotion.findFirst({
+        where: { id, active: true, ...this.scope() },
+        include: { targets: true },
+      });
+      return this.mapToDomain(promotion);
+    } catch (error: any) {
+      this.logger.error(`Error finding promotion by ID ${id}: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  /**
+   * Finds non-deleted promotions with pagination, newest window first.
+   * @async
+   * @param {PaginationDto} paginationDto - Pagination parameters.
+   * @param {Date} [activeAt] - Only return promotions live at this moment.
+   * @returns {Promise<PaginatedPromotionResult>} Paginated list of promotions.
+   */
+  async findAll(paginationDto: PaginationDto, activeAt?: Date): Promise<PaginatedPromotionResult> {
+    const { page = 1, limit = 10 } = paginationDto;
+    const where: any = { active: true, ...this.scope() };
+    if (activeAt) {
+      where.startsAt = { lte: activeAt };
+      where.endsAt = { gt: activeAt };
+    }
+
+    try {
+      const [total, promotions] = await this.prisma.$transaction([
+        this.prisma.promotion.count({ where }),
+        this.prisma.promotion.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: [{ startsAt: 'desc' }, { id: 'asc' }],
+          include: { targets: true },
+        }),
+      ]);
+
+      return {
+        data: promotions.map(p => this.mapToDomain(p)),
+        meta: { total, page, lastPage: Math.ceil(total / limit) },
+      };
+    } catch (error: any) {
+      this.logger.error(`Error finding promotions: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding promotions.' });
+    }
+  }
+
+  /**
+   * Persists the current state of a promotion, replacing its targets in the same transaction.
+   * @async
+   * @param {Promotion} promotion - The promotion to save.
+   * @returns {Promise<Promotion>} The saved promotion.
+   */
+  async save(promotion: Promotion): Promise<Promotion> {
+    try {
+      const [, saved] = await this.prisma.$transaction([
+        this.prisma.promotionTarget.deleteMany({ where: { promotionId: promotion.id } }),
+        this.prisma.promotion.update({
+          where: { id: promotion.id, ...this.scope() },
+          data: {
+            ...this.mapToPrismaData(promotion),
+            targets: { create: this.mapTargets(promotion) },
+          },
+          include: { targets: true },
+        }),
+      ]);
+      return this.mapToDomain(saved);
+    } catch (error: any) {
+      this.logger.error(`Error saving promotion ${promotion.id}: ${error.message}`, error.stack);
+      if (error.code === 'P2025') {
+        throw new RpcException({ status: 404, message: `Promotion with ID ${promotion.id} not found.` });
+      }
+      throw new RpcException({ status: 500, message: 'Database error updating promotion.' });
+    }
+  }
+
+  /**
+   * Finds promotions live at a moment that target any of the given products or categories.
+   * @async
+   * @param {string[]} productIds - Products being priced.
+   * @param {string[]} categoryIds - Categories of those products.
+   * @param {Date} at - Reference time.
+   * @returns {Promise<Promotion[]>} Candidate promotions.
+   */
+  async findApplicable(productIds: string[], categoryIds: string[], at: Date): Promise<Promotion[]> {
+    const targetFilters: any[] = [];
+    if (productIds.length > 0) {
+      targetFilters.push({ targetType: PRODUCT_TARGET, targetId: { in: productIds } });
+    }
+    if (categoryIds.length > 0) {
+      targetFilters.push({ targetType: CATEGORY_TARGET, targetId: { in: categoryIds } });
+    }
+    if (targetFilters.length === 0) {
+      return [];
+    }
+
+    try {
+      const promotions = await this.prisma.promotion.findMany({
+        where: {
+          active: true,
+          ...this.scope(),
+          startsAt: { lte: at },
+          endsAt: { gt: at },
+          targets: { some: { OR: targetFilters } },
+        },
+        include: { targets: true },
+      });
+      return promotions.map(p => this.mapToDomain(p));
+    } catch (error: any) {
+      this.logger.error(`Error finding applicable promotions: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error finding promotions.' });
+    }
+  }
+}
@@ -0,0 +1 @@
+export * from './promotions.controller';
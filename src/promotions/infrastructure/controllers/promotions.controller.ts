@@ -0,0 +1,115 @@
+/**
+ * @file NATS controller for handling promotion-related requests.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Controller, ParseUUIDPipe, Logger, UseGuards } from '@nestjs/common';
+import { CommandBus, QueryBus } from '@nestjs/cqrs';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+
+import {
+  CreatePromotionDto, UpdatePromotionDto, UpdatePromotionData, FindPromotionsDto, FindPromotionsResponseDto,
+} from '../../application/dto';
+import { Promotion } from '../../domain';
+import { CreatePromotionCommand, UpdatePromotionCommand, DeletePromotionCommand } from '../../application/commands/impl';
+import { FindAllPromotionsQuery, FindOnePromotionQuery } from '../../application/queries';
+import { Idempotent } from '../../../shared/infrastructure/idempotency';
+import { AuthGuard, CATALOG_READ, CATALOG_WRITE, Roles } from '../../../shared/infrastructure/auth';
+
+/**
+ * @class PromotionsController
+ * @description Handles incoming NATS messages for promotion CRUD operations.
+ * Uses CommandBus and QueryBus to delegate tasks. Every pattern requires a token granting `catalog:read`
+ * (queries) or `catalog:write` (commands).
+ */
+@Controller()
+@UseGuards(AuthGuard)
+export class PromotionsController {
+  private readonly logger = new Logger(PromotionsController.name);
+
+  /**
+   * @constructor
+   * @param {CommandBus} commandBus - Injected CommandBus.
+   * @param {QueryBus} queryBus - Injected QueryBus.
+   */
+  constructor(
+    private readonly commandBus: CommandBus,
+    private readonly queryBus: QueryBus,
+  ) {}
+
+  /**
+   * Handles 'create_promotion' message.
+   * @param {CreatePromotionDto} createPromotionDto - Promotion rule, scope and window.
+   * @returns {Promise<Promotion>} The created promotion.
+   */
+  @MessagePattern({ cmd: 'create_promotion' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async create(@Payload() createPromotionDto: CreatePromotionDto): Promise<Promotion> {
+    this.logger.log(`Received create_promotion request: ${JSON.stringify(createPromotionDto)}`);
+    return this.commandBus.execute<CreatePromotionCommand, Promotion>(
+      new CreatePromotionCommand(createPromotionDto),
+    );
+  }
+
+  /**
+   * Handles 'find_all_promotions' message.
+   * @param {FindPromotionsDto} findPromotionsDto - Pagination and optional activeAt filter.
+   * @returns {Promise<FindPromotionsResponseDto>} Paginated promotions.
+   */
+  @MessagePattern({ cmd: 'find_all_promotions' })
+  @Roles(CATALOG_READ)
+  async findAll(@Payload() findPromotionsDto: FindPromotionsDto): Promise<FindPromotionsResponseDto> {
+    this.logger.log(`Received find_all_promotions request: ${JSON.stringify(findPromotionsDto)}`);
+    return this.queryBus.execute<FindAllPromotionsQuery, FindPromotionsResponseDto>(
+      new FindAllPromotionsQuery(findPromotionsDto),
+    );
+  }
+
+  /**
+   * Handles 'find_one_promotion' message.
+   * @param {string} id - Promotion ID extracted from payload.
+   * @returns {Promise<Promotion>} The found promotion.
+   */
+  @MessagePattern({ cmd: 'find_one_promotion' })
+  @Roles(CATALOG_READ)
+  async findOne(@Payload('id', ParseUUIDPipe) id: string): Promise<Promotion> {
+    this.logger.log(`Received find_one_promotion request for ID: ${id}`);
+    return this.queryBus.execute<FindOnePromotionQuery, Promotion>(
+      new FindOnePromotionQuery(id),
+    );
+  }
+
+  /**
+   * Handles 'update_promotion' message.
+   * @param {UpdatePromotionDto} updatePromotionDto - Update payload containing ID and data.
+   * @returns {Promise<Promotion>} The updated promotion.
+   */
+  @MessagePattern({ cmd: 'update_promotion' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async update(@Payload() updatePromotionDto: UpdatePromotionDto): Promise<Promotion> {
+    this.logger.log(`Received update_promotion request for ID: ${updatePromotionDto.id}`);
+    const { id, ...updateData } = updatePromotionDto;
+    return this.commandBus.execute<UpdatePromotionCommand, Promotion>(
+      new UpdatePromotionCommand(id, updateData as UpdatePromotionData),
+    );
+  }
+
+  /**
+   * Handles 'delete_promotion' message.
+   * @param {string} id - Promotion ID extracted from payload.
+   * @returns {Promise<Promotion>} The deactivated promotion.
+   */
+  @MessagePattern({ cmd: 'delete_promotion' })
+  @Roles(CATALOG_WRITE)
+  @Idempotent()
+  async remove(@Payload('id', ParseUUIDPipe) id: string): Promise<Promotion> {
+    this.logger.log(`Received delete_promotion request for ID: ${id}`);
+    return this.commandBus.execute<DeletePromotionCommand, Promotion>(
+      new DeletePromotionCommand(id),
+    );
+  }
+}
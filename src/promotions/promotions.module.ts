@@ -0,0 +1,56 @@
+/**
+ * @file Promotions module definition.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Module, Provider } from '@nestjs/common';
+import { CqrsModule } from '@nestjs/cqrs';
+
+// Application Layer
+import { CommandHandlers } from './application/commands';
+import { QueryHandlers } from './application/queries';
+
+// Domain Layer (Ports)
+import { PROMOTION_REPOSITORY_PORT } from './domain';
+
+// Infrastructure Layer (Adapters & Controller)
+import { PrismaPromotionRepository } from './infrastructure/adapters/prisma-promotion.repository';
+import { PromotionsController } from './infrastructure/controllers/promotions.controller';
+
+/**
+ * @const {Provider[]} infrastructureProviders
+ * @description Provides the implementation for the promotion repository port.
+ */
+const infrastructureProviders: Provider[] = [
+  {
+    provide: PROMOTION_REPOSITORY_PORT,
+    useClass: PrismaPromotionRepository,
+  },
+];
+
+/**
+ * @const {Provider[]} applicationProviders
+ * @description Registers command and query handlers with CQRS.
+ */
+const applicationProviders: Provider[] = [
+    ...CommandHandlers,
+    ...QueryHandlers,
+];
+
+/**
+ * @module PromotionsModule
+ * @description Encapsulates discount rules. Exports the repository port so product pricing can look up
+ * applicable promotions.
+ */
+@Module({
+  imports: [CqrsModule],
+  controllers: [PromotionsController],
+  providers: [
+    ...applicationProviders,
+    ...infrastructureProviders,
+  ],
+  exports: [PROMOTION_REPOSITORY_PORT],
+})
+export class PromotionsModule {}
@@ -0,0 +1,3 @@
+export * from './unit-of-work';
+export * from './request-context';
+export * from './json-schema-validator';
@@ -0,0 +1,41 @@
+/**
+ * @file Defines the port for checking values against JSON Schemas.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @type JsonSchema
+ * @description A JSON Schema document, as stored by the caller.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * @interface JsonSchemaValidator
+ * @description Checks JSON Schemas and the values they describe. Both methods return readable problems
+ * instead of throwing, so callers raise their own domain errors.
+ */
+export interface JsonSchemaValidator {
+  /**
+   * Checks that a schema is well-formed and uses only known keywords.
+   * @param {JsonSchema} schema - The schema.
+   * @returns {string[]} What is wrong with the schema; empty if it is valid.
+   */
+  schemaErrors(schema: JsonSchema): string[];
+
+  /**
+   * Checks a value against a schema.
+   * @param {JsonSchema} schema - A valid schema.
+   * @param {unknown} value - The value to check.
+   * @param {string} [name='value'] - How the value is named in the messages.
+   * @returns {string[]} Every rule the value breaks, e.g. "attributes.warrantyMonths must be integer".
+   */
+  validate(schema: JsonSchema, value: unknown, name?: string): string[];
+}
+
+/**
+ * @const {string} JSON_SCHEMA_VALIDATOR
+ * @description Injection token for the JsonSchemaValidator.
+ */
+export const JSON_SCHEMA_VALIDATOR = 'JsonSchemaValidator';
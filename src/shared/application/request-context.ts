@@ -0,0 +1,48 @@
+/**
+ * @file Defines the port exposing who made the current request.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface RequestContext
+ * @description The caller of the request being handled. `actor` is null when the caller did not identify
+ * itself; `correlationId` ties together everything done for one request; `tenantId` is the storefront the
+ * request acts for, null only outside of any request; `roles` are those the caller's token grants, null for
+ * trusted callers that run without a token (the CLI and background workers).
+ */
+export interface RequestContext {
+  actor: string | null;
+  correlationId: string | null;
+  tenantId: string | null;
+  roles: string[] | null;
+}
+
+/**
+ * @interface RequestContextProvider
+ * @description Gives application code access to the context of the request it is running for.
+ */
+export interface RequestContextProvider {
+  /**
+   * Returns the context of the current request, or an empty one outside of any request (e.g. background workers).
+   * @returns {RequestContext} The current context.
+   */
+  current(): RequestContext;
+}
+
+/**
+ * @const {string} REQUEST_CONTEXT
+ * @description Injection token for the RequestContextProvider.
+ */
+export const REQUEST_CONTEXT = 'RequestContext';
+
+/**
+ * Tells whether the caller of a request holds a role. Trusted callers hold every role.
+ * @param {RequestContext} context - The request context.
+ * @param {string} role - The role.
+ * @returns {boolean} True if the caller holds the role.
+ */
+export function callerHasRole(context: RequestContext, role: string): boolean {
+  return context.roles === null || context.roles.includes(role);
+}
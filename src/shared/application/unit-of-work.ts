@@ -0,0 +1,33 @@
+/**
+ * @file Defines the port for running several repository calls atomically.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface UnitOfWork
+ * @description Runs work so that every repository write inside it commits or rolls back together.
+ */
+export interface UnitOfWork {
+  /**
+   * Runs the work atomically. Nested calls join the outer unit of work.
+   * @async
+   * @param {() => Promise<T>} work - Repository calls to run together.
+   * @returns {Promise<T>} The work's result, once committed.
+   */
+  run<T>(work: () => Promise<T>): Promise<T>;
+
+  /**
+   * Schedules a callback for when the current unit of work has committed; it is dropped if the unit of work
+   * rolls back. Outside of a unit of work the callback runs at once.
+   * @param {() => void} callback - The callback.
+   */
+  afterCommit(callback: () => void): void;
+}
+
+/**
+ * @const {string} UNIT_OF_WORK
+ * @description Injection token for the UnitOfWork.
+ */
+export const UNIT_OF_WORK = 'UnitOfWork';
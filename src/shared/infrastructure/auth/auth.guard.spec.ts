@@ -0,0 +1,86 @@
+/**
+ * @file Tests of AuthGuard.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { NatsContext, RpcException } from '@nestjs/microservices';
+import { AuthGuard } from './auth.guard';
+import { CallerClaims, HmacJwtVerifier } from './hmac-jwt.verifier';
+import { Roles } from './roles.decorator';
+import { CATALOG_READ } from './roles';
+
+jest.mock('../../../config', () => ({ envs: {} }));
+
+/**
+ * @class CatalogController
+ * @description A controller whose handler requires CATALOG_READ.
+ */
+class CatalogController {
+  @Roles(CATALOG_READ)
+  findOne(): void {}
+}
+
+describe('AuthGuard', () => {
+  let verifier: jest.Mocked<HmacJwtVerifier>;
+  let guard: AuthGuard;
+
+  beforeEach(() => {
+    verifier = { verify: jest.fn() } as unknown as jest.Mocked<HmacJwtVerifier>;
+    guard = new AuthGuard(new Reflector(), verifier);
+  });
+
+  /**
+   * Runs the guard on a message to `find_one_product` with a bearer token.
+   * @param {CallerClaims} claims - What the token says about its caller.
+   * @param {Record<string, string>} headers - Further header values by name.
+   * @param {unknown} [payload={}] - The payload.
+   * @returns {boolean} The guard's verdict.
+   */
+  function activate(claims: CallerClaims, headers: Record<string, string>, payload: unknown = {}): boolean {
+    verifier.verify.mockReturnValue(claims);
+    const values: Record<string, string> = { Authorization: 'Bearer token', ...headers };
+    const natsContext = new NatsContext(['find_one_product', { get: (name: string) => values[name] } as any]);
+    const context = new ExecutionContextHost([payload, natsContext], CatalogController, CatalogController.prototype.findOne);
+    context.setType('rpc');
+    return guard.canActivate(context);
+  }
+
+  /**
+   * Runs the guard expecting a rejection and returns the RpcException's error object.
+   * @param {() => boolean} activation - The call.
+   * @returns {any} The `{ status, message }` error.
+   */
+  function rejection(activation: () => boolean): any {
+    try {
+      activation();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RpcException);
+      return (error as RpcException).getError();
+    }
+    throw new Error('Expected the message to be rejected.');
+  }
+
+  const reader: CallerClaims = { subject: 'svc-storefront', roles: [CATALOG_READ], tenantId: 'acme' };
+
+  it('accepts a token with the role for its own tenant', () => {
+    expect(activate(reader, { 'Tenant-Id': 'acme' })).toBe(true);
+    expect(activate(reader, {}, { tenantId: 'acme' })).toBe(true);
+  });
+
+  it('rejects a token without a tenantId claim, whatever tenant the message names', () => {
+    const unbound = { ...reader, tenantId: null };
+
+    expect(rejection(() => activate(unbound, { 'Tenant-Id': 'acme' })))
+      .toEqual({ status: 403, message: 'The token is not bound to a tenant.' });
+    expect(rejection(() => activate(unbound, {}, { tenantId: 'globex' })).status).toBe(403);
+  });
+
+  it('rejects a token for another tenant, or without the role', () => {
+    expect(rejection(() => activate(reader, { 'Tenant-Id': 'globex' })).message).toBe('The token is not valid for this tenant.');
+    expect(rejection(() => activate({ ...reader, roles: ['catalog:write'] }, { 'Tenant-Id': 'acme' })).status).toBe(403);
+  });
+});
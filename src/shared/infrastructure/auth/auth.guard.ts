@@ -0,0 +1,112 @@
+/**
+ * @file Guard authenticating callers of message patterns and checking their roles.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CanActivate, ExecutionContext, HttpStatus, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { NatsContext, RpcException } from '@nestjs/microservices';
+import { recordAuthenticatedCaller } from '../request-context/authenticated-caller';
+import { TENANT_FIELD, TENANT_HEADER } from '../request-context/request-context.interceptor';
+import { HmacJwtVerifier } from './hmac-jwt.verifier';
+import { ROLES_KEY } from './roles.decorator';
+
+/**
+ * @const {string} AUTHORIZATION_HEADER
+ * @description NATS header carrying the caller's token, as `Bearer <jwt>`.
+ */
+export const AUTHORIZATION_HEADER = 'Authorization';
+
+/**
+ * @const {RegExp} BEARER
+ * @description Extracts the token from the header value.
+ */
+const BEARER = /^Bearer\s+(\S+)$/i;
+
+/**
+ * @class AuthGuard
+ * @implements CanActivate
+ * @description Requires a valid token in the `Authorization` header of every message, and that it grants
+ * one of the roles declared with `@Roles()`. Every token must be bound to a tenant with its `tenantId` claim
+ * and is only accepted for that tenant, so the tenant a caller acts for never depends on a header it chose.
+ * Rejections are RpcExceptions: 401 for a missing or invalid token, 403 for a missing role or another tenant.
+ * The token's subject becomes the actor of the request, in place of the `Actor-Id` header, and its roles the
+ * roles of the request.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  /**
+   * @constructor
+   * @param {Reflector} reflector - Reads the declared roles.
+   * @param {HmacJwtVerifier} verifier - Injected token verifier.
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly verifier: HmacJwtVerifier,
+  ) {}
+
+  /**
+   * Authenticates and authorizes the message.
+   * @param {ExecutionContext} context - The execution context.
+   * @returns {boolean} True if the caller may run the handler.
+   * @throws {RpcException} 401 or 403 otherwise.
+   */
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'rpc') {
+      return true;
+    }
+    const rpc = context.switchToRpc();
+    const natsContext = rpc.getContext<NatsContext>();
+    const headers = natsContext.getHeaders();
+    const token = BEARER.exec(this.headerValue(headers, AUTHORIZATION_HEADER) ?? '')?.[1];
+    if (!token) {
+      throw new RpcException({
+        status: HttpStatus.UNAUTHORIZED,
+        message: `Missing token: send it in the ${AUTHORIZATION_HEADER} header as "Bearer <token>".`,
+      });
+    }
+    const claims = this.verifier.verify(token);
+
+    const roles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [context.getHandler(), context.getClass()]) ?? [];
+    if (roles.length > 0 && !roles.some(role => claims.roles.includes(role))) {
+      throw new RpcException({ status: HttpStatus.FORBIDDEN, message: `Requires the role ${roles.join(' or ')}.` });
+    }
+    if (claims.tenantId === null) {
+      throw new RpcException({ status: HttpStatus.FORBIDDEN, message: 'The token is not bound to a tenant.' });
+    }
+    if (claims.tenantId !== this.requestedTenant(rpc.getData(), headers)) {
+      throw new RpcException({ status: HttpStatus.FORBIDDEN, message: 'The token is not valid for this tenant.' });
+    }
+    recordAuthenticatedCaller(natsContext, { actor: claims.subject, roles: claims.roles });
+    return true;
+  }
+
+  /**
+   * Reads the tenant the message asks for, as the RequestContextInterceptor will, which runs after guards.
+   * @private
+   * @param {any} payload - The raw payload.
+   * @param {any} headers - The NATS message headers, if any.
+   * @returns {unknown} The tenant, or undefined if none was sent.
+   */
+  private requestedTenant(payload: any, headers: any): unknown {
+    const header = this.headerValue(headers, TENANT_HEADER);
+    if (header !== null) {
+      return header;
+    }
+    return payload !== null && typeof payload === 'object' && !Array.isArray(payload) ? payload[TENANT_FIELD] : undefined;
+  }
+
+  /**
+   * Reads a trimmed, non-empty header value.
+   * @private
+   * @param {any} headers - The NATS message headers, if any.
+   * @param {string} name - The header name.
+   * @returns {string | null} The value, or null if absent or blank.
+   */
+  private headerValue(headers: any, name: string): string | null {
+    const value: unknown = headers?.get?.(name);
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  }
+}
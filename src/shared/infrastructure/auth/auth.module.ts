@@ -0,0 +1,21 @@
+/**
+ * @file Module providing caller authentication globally.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { AuthGuard } from './auth.guard';
+import { HmacJwtVerifier } from './hmac-jwt.verifier';
+
+/**
+ * @module AuthModule
+ * @description Provides the token verifier and the AuthGuard that controllers apply with `@UseGuards()`.
+ */
+@Global()
+@Module({
+  providers: [HmacJwtVerifier, AuthGuard],
+  exports: [HmacJwtVerifier, AuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,124 @@
+/**
+ * @file Tests of HmacJwtVerifier.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { createHmac } from 'crypto';
+import { RpcException } from '@nestjs/microservices';
+import { HmacJwtVerifier } from './hmac-jwt.verifier';
+import { envs } from '../../../config';
+
+jest.mock('../../../config', () => ({
+  envs: {
+    authJwtSecret: 'a-test-secret-of-at-least-32-characters',
+    authJwtIssuer: undefined,
+    authJwtAudience: undefined,
+    authClockSkewSeconds: 30,
+  },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+/**
+ * Encodes a JSON object as a base64url token segment.
+ * @param {object} value - The object.
+ * @returns {string} The segment.
+ */
+function segment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Builds a compact JWT signed with the given secret.
+ * @param {object} claims - The payload.
+ * @param {object} [header] - The header.
+ * @param {string} [secret] - The signing key.
+ * @returns {string} The token.
+ */
+function sign(claims: object, header: object = { alg: 'HS256', typ: 'JWT' }, secret: string = envs.authJwtSecret): string {
+  const unsigned = `${segment(header)}.${segment(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+/**
+ * Runs a verification expected to fail and returns the RpcException's error object.
+ * @param {() => unknown} verification - The call.
+ * @returns {any} The `{ status, message }` error.
+ */
+function rejection(verification: () => unknown): any {
+  try {
+    verification();
+  } catch (error) {
+    expect(error).toBeInstanceOf(RpcException);
+    return (error as RpcException).getError();
+  }
+  throw new Error('Expected the token to be rejected.');
+}
+
+describe('HmacJwtVerifier', () => {
+  const verifier = new HmacJwtVerifier();
+  const validClaims = { sub: 'svc-storefront', roles: ['catalog:read'], tenantId: 'acme', exp: NOW_SECONDS + 60 };
+
+  afterEach(() => {
+    envs.authJwtIssuer = undefined;
+    envs.authJwtAudience = undefined;
+  });
+
+  it('returns the claims of a valid token', () => {
+    expect(verifier.verify(sign(validClaims), NOW)).toEqual({
+      subject: 'svc-storefront',
+      roles: ['catalog:read'],
+      tenantId: 'acme',
+    });
+  });
+
+  it('rejects a token signed with another key', () => {
+    const token = sign(validClaims, undefined, 'another-secret-of-at-least-32-characters');
+
+    expect(rejection(() => verifier.verify(token, NOW))).toEqual({ status: 401, message: 'Invalid token signature.' });
+  });
+
+  it.each(['none', 'RS256', 'constructor', 'toString', '__proto__'])('rejects the %s algorithm with 401', (alg) => {
+    const token = sign(validClaims, { alg, typ: 'JWT' });
+
+    expect(rejection(() => verifier.verify(token, NOW)).status).toBe(401);
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(rejection(() => verifier.verify('not-a-token', NOW)).message).toBe('Malformed token.');
+    expect(rejection(() => verifier.verify('a.b.c', NOW)).message).toBe('Malformed token.');
+  });
+
+  it('requires an expiry and honours the clock skew', () => {
+    const withoutExpiry = { sub: 'svc-storefront', roles: ['catalog:read'] };
+
+    expect(rejection(() => verifier.verify(sign(withoutExpiry), NOW)).message).toBe('Token has no expiry.');
+    expect(verifier.verify(sign({ ...validClaims, exp: NOW_SECONDS - 10 }), NOW).subject).toBe('svc-storefront');
+    expect(rejection(() => verifier.verify(sign({ ...validClaims, exp: NOW_SECONDS - 30 }), NOW)).message)
+      .toBe('Token has expired.');
+  });
+
+  it('rejects a token that is not valid yet', () => {
+    const token = sign({ ...validClaims, nbf: NOW_SECONDS + 31 });
+
+    expect(rejection(() => verifier.verify(token, NOW)).message).toBe('Token is not valid yet.');
+  });
+
+  it('checks the issuer and audience when configured', () => {
+    envs.authJwtIssuer = 'https://auth.example.com';
+    envs.authJwtAudience = 'products-ms';
+
+    expect(rejection(() => verifier.verify(sign(validClaims), NOW)).message).toBe('Token issuer not accepted.');
+    const token = sign({ ...validClaims, iss: 'https://auth.example.com', aud: ['orders-ms', 'products-ms'] });
+    expect(verifier.verify(token, NOW).tenantId).toBe('acme');
+  });
+
+  it('rejects roles that are not an array of strings', () => {
+    const token = sign({ ...validClaims, roles: 'catalog:read' });
+
+    expect(rejection(() => verifier.verify(token, NOW)).message).toBe('Token roles must be an array of strings.');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @file Verifies HMAC-signed JSON Web Tokens with a local key.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { envs } from '../../../config';
+
+/**
+ * @const {ReadonlyMap<string, string>} HMAC_ALGORITHMS
+ * @description Accepted JWT `alg` values and the digest each one uses. Anything else, `none` and inherited
+ * object keys such as `constructor` included, is rejected.
+ */
+const HMAC_ALGORITHMS: ReadonlyMap<string, string> = new Map([['HS256', 'sha256'], ['HS384', 'sha384'], ['HS512', 'sha512']]);
+
+/**
+ * @interface CallerClaims
+ * @description What a verified token says about its caller. `tenantId` is the tenant the token is valid
+ * for, null if the token names none (the AuthGuard rejects such tokens).
+ */
+export interface CallerClaims {
+  subject: string | null;
+  roles: string[];
+  tenantId: string | null;
+}
+
+/**
+ * @class HmacJwtVerifier
+ * @description Checks the signature of a compact JWT against `AUTH_JWT_SECRET`, then its `exp` (required),
+ * `nbf`, and, when configured, `iss` and `aud`, allowing `AUTH_CLOCK_SKEW_SECONDS` of clock difference.
+ */
+@Injectable()
+export class HmacJwtVerifier {
+  /**
+   * Verifies a token and extracts its claims.
+   * @param {string} token - The compact JWT.
+   * @param {Date} [now=new Date()] - Reference time for the time claims.
+   * @returns {CallerClaims} The caller's claims.
+   * @throws {RpcException} 401 if the token is malformed, badly signed, expired or not meant for this service.
+   */
+  verify(token: string, now: Date = new Date()): CallerClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw this.unauthorized('Malformed token.');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeJson(encodedHeader);
+    const digest = HMAC_ALGORITHMS.get(header.alg);
+    if (!digest) {
+      throw this.unauthorized(`Unsupported token algorithm ${header.alg}.`);
+    }
+
+    const expected = createHmac(digest, envs.authJwtSecret).update(`${encodedHeader}.${encodedPayload}`).digest();
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw this.unauthorized('Invalid token signature.');
+    }
+
+    const claims = this.decodeJson(encodedPayload);
+    this.assertTimely(claims, now);
+    if (envs.authJwtIssuer && claims.iss !== envs.authJwtIssuer) {
+      throw this.unauthorized('Token issuer not accepted.');
+    }
+    if (envs.authJwtAudience && ![claims.aud].flat().includes(envs.authJwtAudience)) {
+      throw this.unauthorized('Token audience not accepted.');
+    }
+    if (claims.roles !== undefined && (!Array.isArray(claims.roles) || claims.roles.some(role => typeof role !== 'string'))) {
+      throw this.unauthorized('Token roles must be an array of strings.');
+    }
+
+    return {
+      subject: typeof claims.sub === 'string' ? claims.sub : null,
+      roles: claims.roles ?? [],
+      tenantId: typeof claims.tenantId === 'string' ? claims.tenantId : null,
+    };
+  }
+
+  /**
+   * Checks the `exp` and `nbf` claims.
+   * @private
+   * @param {any} claims - The token payload.
+   * @param {Date} now - Reference time.
+   * @throws {RpcException} 401 if the token has no expiry, has expired or is not valid yet.
+   */
+  private assertTimely(claims: any, now: Date): void {
+    const seconds = now.getTime() / 1000;
+    if (typeof claims.exp !== 'number') {
+      throw this.unauthorized('Token has no expiry.');
+    }
+    if (claims.exp + envs.authClockSkewSeconds <= seconds) {
+      throw this.unauthorized('Token has expired.');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - envs.authClockSkewSeconds > seconds) {
+      throw this.unauthorized('Token is not valid yet.');
+    }
+  }
+
+  /**
+   * Decodes a base64url JSON object segment.
+   * @private
+   * @param {string} segment - The token segment.
+   * @returns {any} The object.
+   * @throws {RpcException} 401 if the segment is not a JSON object.
+   */
+  private decodeJson(segment: string): any {
+    try {
+      const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        return value;
+      }
+    } catch {
+      // Reported below
+    }
+    throw this.unauthorized('Malformed token.');
+  }
+
+  /**
+   * Builds a 401 error.
+   * @private
+   * @param {string} message - The reason.
+   * @returns {RpcException} The error.
+   */
+  private unauthorized(message: string): RpcException {
+    return new RpcException({ status: HttpStatus.UNAUTHORIZED, message });
+  }
+}
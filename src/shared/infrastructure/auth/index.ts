@@ -0,0 +1,5 @@
+export * from './auth.module';
+export * from './auth.guard';
+export * from './hmac-jwt.verifier';
+export * from './roles.decorator';
+export * from './roles';
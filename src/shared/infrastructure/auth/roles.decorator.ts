@@ -0,0 +1,25 @@
+/**
+ * @file Decorator declaring the roles a message pattern requires.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * @const {string} ROLES_KEY
+ * @description Metadata key holding the roles of a handler or controller.
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * @function Roles
+ * @description Lets only callers whose token grants at least one of the roles through the AuthGuard.
+ * A handler's roles replace those of its controller.
+ * @param {...string[]} roles - The accepted roles, e.g. `catalog:write`.
+ * @returns {MethodDecorator & ClassDecorator} The decorator.
+ */
+export function Roles(...roles: string[]): MethodDecorator & ClassDecorator {
+  return SetMetadata(ROLES_KEY, roles);
+}
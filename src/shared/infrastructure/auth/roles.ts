@@ -0,0 +1,31 @@
+/**
+ * @file Roles guarding the message patterns.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @const {string} CATALOG_READ
+ * @description Lets a caller run the product, category and promotion queries.
+ */
+export const CATALOG_READ = 'catalog:read';
+
+/**
+ * @const {string} CATALOG_WRITE
+ * @description Lets a caller run the product, category and promotion commands.
+ */
+export const CATALOG_WRITE = 'catalog:write';
+
+/**
+ * @const {string} OUTBOX_ADMIN
+ * @description Lets a caller list outbox entries and replay dead-lettered ones.
+ */
+export const OUTBOX_ADMIN = 'outbox:admin';
+
+/**
+ * @const {string} CATALOG_ADMIN
+ * @description Lets a caller read products that are not available: `find_one_product_admin` and the
+ * `includeUnavailable`/`onlyUnavailable` options of `find_all_products`.
+ */
+export const CATALOG_ADMIN = 'catalog:admin';
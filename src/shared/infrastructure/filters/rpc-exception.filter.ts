@@ -6,7 +6,7 @@
  * @date 2025-05-01
  */
 
-import { Catch, ArgumentsHost, Logger, HttpStatus } from '@nestjs/common';
+import { Catch, ArgumentsHost, Logger, HttpStatus, HttpException } from '@nestjs/common';
 import { BaseRpcExceptionFilter, RpcException } from '@nestjs/microservices';
 import { Observable, throwError } from 'rxjs';
 
@@ -17,6 +17,7 @@ import { Observable, throwError } from 'rxjs';
 interface StandardRpcError {
   status: number;
   message: string;
+  details?: Record<string, unknown>;
   timestamp: string;
 }
 
@@ -24,8 +25,9 @@ interface StandardRpcError {
  * @class AllExceptionsFilter
  * @extends BaseRpcExceptionFilter
  * @description A global exception filter for NestJS microservices communicating via RPC (like NATS).
- * It catches RpcException instances and formats them, and also catches standard Error instances,
- * converting them into a standardized RPC error format with an INTERNAL_SERVER_ERROR status.
+ * It catches RpcException instances and formats them, keeps the status of HttpException instances, and
+ * also catches standard Error instances, converting them into a standardized RPC error format with an
+ * INTERNAL_SERVER_ERROR status.
  */
 @Catch() // Catch all exceptions if no more specific filter catches them
 export class AllExceptionsFilter extends BaseRpcExceptionFilter {
@@ -40,6 +42,7 @@ export class AllExceptionsFilter extends BaseRpcExceptionFilter {
   catch(exception: any, host: ArgumentsHost): Observable<any> {
     let status = HttpStatus.INTERNAL_SERVER_ERROR;
     let message = 'Internal server error';
+    let details: Record<string, unknown> | undefined;
 
     // Log the original exception for debugging purposes
     this.logger.error(
@@ -53,11 +56,16 @@ export class AllExceptionsFilter extends BaseRpcExceptionFilter {
       if (typeof rpcError === 'object' && rpcError !== null) {
         status = (rpcError as any).status || status;
         message = (rpcError as any).message || message;
+        details = (rpcError as any).details;
       } else {
         message = rpcError as string;
         // Use a default status for non-structured RpcException errors
         status = HttpStatus.BAD_REQUEST;
       }
+    } else if (exception instanceof HttpException) {
+      // Raised by the framework itself, e.g. a ForbiddenException when a guard denies access
+      status = exception.getStatus();
+      message = exception.message;
     } else if (exception instanceof Error) {
       // Handle standard JavaScript errors
       message = exception.message;
@@ -67,6 +75,7 @@ export class AllExceptionsFilter extends BaseRpcExceptionFilter {
     const errorResponse: StandardRpcError = {
       status: status,
       message: message,
+      ...(details && { details }),
       timestamp: new Date().toISOString(),
     };
 
@@ -0,0 +1,75 @@
+/**
+ * @file Background worker that deletes expired idempotency records.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { envs } from '../../../config';
+import { PrismaIdempotencyStore } from './prisma-idempotency.store';
+
+/**
+ * @class IdempotencyRecordPurger
+ * @implements OnModuleInit
+ * @implements OnModuleDestroy
+ * @description Periodically removes records past their retention window. The interval is
+ * IDEMPOTENCY_PURGE_INTERVAL_SECONDS. Expired records are ignored by the store even before they are purged.
+ */
+@Injectable()
+export class IdempotencyRecordPurger implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyRecordPurger.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  /**
+   * @constructor
+   * @param {PrismaIdempotencyStore} store - Injected idempotency store.
+   */
+  constructor(private readonly store: PrismaIdempotencyStore) {}
+
+  /**
+   * @method onModuleInit
+   * @description Starts the purge timer, unless background workers are disabled.
+   */
+  onModuleInit() {
+    if (!envs.backgroundWorkersEnabled) {
+      return;
+    }
+    const intervalMs = envs.idempotencyPurgeIntervalSeconds * 1000;
+    this.timer = setInterval(() => void this.purge(), intervalMs);
+    this.timer.unref();
+    this.logger.log(`Idempotency record purger started (every ${envs.idempotencyPurgeIntervalSeconds}s).`);
+  }
+
+  /**
+   * @method onModuleDestroy
+   * @description Stops the purge timer.
+   */
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Runs one purge, skipping if the previous one is still in progress.
+   * @async
+   */
+  async purge(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const purged = await this.store.purgeExpired(new Date());
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} expired idempotency records.`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Idempotency record purge failed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
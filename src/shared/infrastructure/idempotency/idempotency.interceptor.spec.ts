@@ -0,0 +1,65 @@
+/**
+ * @file Tests of IdempotencyInterceptor.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Logger } from '@nestjs/common';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { NatsContext, RpcException } from '@nestjs/microservices';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { RequestContextProvider } from '../../application/request-context';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { PrismaIdempotencyStore } from './prisma-idempotency.store';
+
+jest.mock('../../../config', () => ({ envs: {} }));
+
+describe('IdempotencyInterceptor', () => {
+  let store: jest.Mocked<PrismaIdempotencyStore>;
+  let interceptor: IdempotencyInterceptor;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    store = { claim: jest.fn(), complete: jest.fn(), release: jest.fn() } as unknown as jest.Mocked<PrismaIdempotencyStore>;
+    store.claim.mockResolvedValue({ replay: false });
+    store.complete.mockResolvedValue();
+    store.release.mockResolvedValue();
+    const requestContext: jest.Mocked<RequestContextProvider> = { current: jest.fn() };
+    requestContext.current.mockReturnValue({ tenantId: 'acme', actor: null, correlationId: 'c-1', roles: [] });
+    interceptor = new IdempotencyInterceptor(store, requestContext);
+  });
+
+  /**
+   * Runs the interceptor on a keyed message with the given handler result.
+   * @param {() => any} handle - The handler's response stream.
+   * @returns {Promise<unknown>} The response.
+   */
+  async function run(handle: () => any): Promise<unknown> {
+    const natsContext = new NatsContext(['adjust_stock', { get: (name: string) => ({ 'Idempotency-Key': 'k-1' } as any)[name] } as any]);
+    const executionContext = new ExecutionContextHost([{ id: 'lamp-1' }, natsContext]);
+    executionContext.setType('rpc');
+    return lastValueFrom(await interceptor.intercept(executionContext, { handle }));
+  }
+
+  it('stores the response of a successful request', async () => {
+    expect(await run(() => of({ stock: 4 }))).toEqual({ stock: 4 });
+    expect(store.complete).toHaveBeenCalledWith('acme:adjust_stock', 'k-1', { stock: 4 });
+    expect(store.release).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the request fails', async () => {
+    const failure = new RpcException({ status: 400, message: 'Invalid quantity' });
+
+    await expect(run(() => throwError(() => failure))).rejects.toBe(failure);
+    expect(store.release).toHaveBeenCalledWith('acme:adjust_stock', 'k-1');
+  });
+
+  it('keeps the key claimed when the response of a committed request cannot be stored', async () => {
+    store.complete.mockRejectedValue(new Error('database is locked'));
+
+    expect(await run(() => of({ stock: 4 }))).toEqual({ stock: 4 });
+    expect(store.release).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @file Interceptor that makes a message pattern idempotent.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CallHandler, ExecutionContext, HttpStatus, Inject, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+import { NatsContext, RpcException } from '@nestjs/microservices';
+import { catchError, from, mergeMap, Observable, of, throwError } from 'rxjs';
+import { RequestContextProvider, REQUEST_CONTEXT } from '../../application/request-context';
+import { PrismaIdempotencyStore } from './prisma-idempotency.store';
+import { fingerprintOf } from './request-fingerprint';
+
+/**
+ * @const {string} IDEMPOTENCY_KEY_HEADER
+ * @description NATS header carrying the idempotency key.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * @const {string} IDEMPOTENCY_KEY_FIELD
+ * @description Payload field carrying the idempotency key, for clients that cannot set headers.
+ */
+export const IDEMPOTENCY_KEY_FIELD = 'idempotencyKey';
+
+/**
+ * @const {number} MAX_KEY_LENGTH
+ * @description Longest accepted idempotency key.
+ */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * @class IdempotencyInterceptor
+ * @implements NestInterceptor
+ * @description Replays the stored response when a request repeats an idempotency key with the same payload.
+ * The key is read from the `Idempotency-Key` header or the `idempotencyKey` payload field (removed before
+ * validation). Keys are scoped per tenant and pattern. Failed requests are not stored, so they can be retried.
+ * A request whose response cannot be stored has already committed, so its key is kept in progress rather than
+ * released, and a retry is refused until the lock times out. Requests without a key run as usual.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  /**
+   * @constructor
+   * @param {PrismaIdempotencyStore} store - Injected idempotency store.
+   * @param {RequestContextProvider} requestContext - Injected request context.
+   */
+  constructor(
+    private readonly store: PrismaIdempotencyStore,
+    @Inject(REQUEST_CONTEXT)
+    private readonly requestContext: RequestContextProvider,
+  ) {}
+
+  /**
+   * Claims the key, then runs the handler and stores its response, or replays a stored one.
+   * @async
+   * @param {ExecutionContext} context - The execution context.
+   * @param {CallHandler} next - The handler.
+   * @returns {Promise<Observable<unknown>>} The response stream.
+   */
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    if (context.getType() !== 'rpc') {
+      return next.handle();
+    }
+    const rpc = context.switchToRpc();
+    const payload = rpc.getData();
+    const natsContext = rpc.getContext<NatsContext>();
+    const key = this.extractKey(payload, natsContext);
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    const scope = `${this.requestContext.current().tenantId}:${natsContext.getSubject()}`;
+    const claim = await this.store.claim(scope, key, fingerprintOf(payload));
+    if (claim.replay) {
+      this.logger.log(`Replaying stored response for idempotency key ${key} on ${scope}`);
+      return of(claim.response);
+    }
+
+    return next.handle().pipe(
+      catchError((error) => from(this.store.release(scope, key)).pipe(
+        mergeMap(() => throwError(() => error)),
+      )),
+      mergeMap(async (response) => {
+        try {
+          await this.store.complete(scope, key, response);
+        } catch (error: any) {
+          this.logger.error(`Failed to store the response for idempotency key ${key} on ${scope}: ${error.message}`, error.stack);
+        }
+        return response;
+      }),
+    );
+  }
+
+  /**
+   * Reads the key from the header, falling back to the payload field, and strips the field from the payload.
+   * @private
+   * @param {any} payload - The raw payload.
+   * @param {NatsContext} natsContext - The NATS context.
+   * @returns {string | undefined} The key, or undefined if none was sent.
+   * @throws {RpcException} 400 if the key is not a non-empty string of at most 255 characters.
+   */
+  private extractKey(payload: any, natsContext: NatsContext): string | undefined {
+    let key: unknown = natsContext.getHeaders()?.get?.(IDEMPOTENCY_KEY_HEADER) || undefined;
+    if (payload !== null && typeof payload === 'object' && !Array.isArray(payload) && IDEMPOTENCY_KEY_FIELD in payload) {
+      key ??= payload[IDEMPOTENCY_KEY_FIELD];
+      delete payload[IDEMPOTENCY_KEY_FIELD];
+    }
+    if (key === undefined) {
+      return undefined;
+    }
+    if (typeof key !== 'string' || key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+      throw new RpcException({
+        status: HttpStatus.BAD_REQUEST,
+        message: `${IDEMPOTENCY_KEY_FIELD} must be a non-empty string of at most ${MAX_KEY_LENGTH} characters.`,
+      });
+    }
+    return key;
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * @file Module providing idempotent request handling globally.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { PrismaIdempotencyStore } from './prisma-idempotency.store';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyRecordPurger } from './idempotency-record.purger';
+
+/**
+ * @module IdempotencyModule
+ * @description Provides the store and interceptor behind the `@Idempotent()` decorator, and purges
+ * expired records.
+ */
+@Global()
+@Module({
+  providers: [PrismaIdempotencyStore, IdempotencyInterceptor, IdempotencyRecordPurger],
+  exports: [PrismaIdempotencyStore, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
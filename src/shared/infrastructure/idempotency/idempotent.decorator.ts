@@ -0,0 +1,19 @@
+/**
+ * @file Decorator marking a message pattern as idempotent.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+/**
+ * @function Idempotent
+ * @description Lets callers of the pattern send an idempotency key; repeats with the same key and payload
+ * get the first response back instead of running the command again.
+ * @returns {MethodDecorator} The decorator.
+ */
+export function Idempotent(): MethodDecorator & ClassDecorator {
+  return applyDecorators(UseInterceptors(IdempotencyInterceptor));
+}
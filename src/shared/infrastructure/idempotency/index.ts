@@ -0,0 +1,4 @@
+export * from './idempotency.module';
+export * from './idempotency.interceptor';
+export * from './idempotent.decorator';
+export * from './prisma-idempotency.store';
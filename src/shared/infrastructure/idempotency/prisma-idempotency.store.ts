@@ -0,0 +1,137 @@
+/**
+ * @file Prisma-backed store of idempotency keys and their responses.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { PrismaService } from '../prisma/prisma.service';
+import { envs } from '../../../config';
+
+/**
+ * @type IdempotencyClaim
+ * @description Outcome of claiming a key: either the caller runs the request, or the stored response is replayed.
+ */
+export type IdempotencyClaim =
+  | { replay: false }
+  | { replay: true; response: unknown };
+
+/**
+ * @class PrismaIdempotencyStore
+ * @description Keeps one record per (pattern, key). A record is IN_PROGRESS while the first request runs, and
+ * holds the JSON response once it completed. In-progress records expire after IDEMPOTENCY_LOCK_TIMEOUT_SECONDS
+ * so a crashed request does not block its key; completed ones after IDEMPOTENCY_KEY_TTL_SECONDS.
+ */
+@Injectable()
+export class PrismaIdempotencyStore {
+  private readonly logger = new Logger(PrismaIdempotencyStore.name);
+
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Claims a key for a request, or returns the response stored for it.
+   * @async
+   * @param {string} scope - The pattern the key belongs to.
+   * @param {string} key - The idempotency key.
+   * @param {string} fingerprint - Fingerprint of the request payload.
+   * @returns {Promise<IdempotencyClaim>} Whether to run the request or replay.
+   * @throws {RpcException} 422 if the key was used with a different payload, 409 if its first request is still running.
+   */
+  async claim(scope: string, key: string, fingerprint: string): Promise<IdempotencyClaim> {
+    const now = new Date();
+    try {
+      return await this.prisma.transaction(async (tx) => {
+        const existing = await tx.idempotencyRecord.findUnique({ where: { scope_key: { scope, key } } });
+        if (existing && existing.expiresAt > now) {
+          if (existing.fingerprint !== fingerprint) {
+            throw new RpcException({
+              status: HttpStatus.UNPROCESSABLE_ENTITY,
+              message: `Idempotency key "${key}" was already used with a different payload.`,
+            });
+          }
+          if (existing.status !== 'COMPLETED') {
+            throw new RpcException({
+              status: HttpStatus.CONFLICT,
+              message: `A request with idempotency key "${key}" is still in progress.`,
+            });
+          }
+          return { replay: true, response: JSON.parse(existing.response) };
+        }
+
+        if (existing) {
+          await tx.idempotencyRecord.delete({ where: { scope_key: { scope, key } } });
+        }
+        await tx.idempotencyRecord.create({
+          data: {
+            scope,
+            key,
+            fingerprint,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + envs.idempotencyLockTimeoutSeconds * 1000),
+          },
+        });
+        return { replay: false };
+      });
+    } catch (error: any) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error.code === 'P2002') { // A concurrent request claimed the key first
+        throw new RpcException({
+          status: HttpStatus.CONFLICT,
+          message: `A request with idempotency key "${key}" is still in progress.`,
+        });
+      }
+      this.logger.error(`Error claiming idempotency key ${key} for ${scope}: ${error.message}`, error.stack);
+      throw new RpcException({ status: 500, message: 'Database error checking idempotency key.' });
+    }
+  }
+
+  /**
+   * Stores the response of a claimed key and keeps it for the retention window.
+   * @async
+   * @param {string} scope - The pattern the key belongs to.
+   * @param {string} key - The idempotency key.
+   * @param {unknown} response - The handler's response.
+   * @returns {Promise<void>}
+   */
+  async complete(scope: string, key: string, response: unknown): Promise<void> {
+    const now = new Date();
+    await this.prisma.idempotencyRecord.update({
+      where: { scope_key: { scope, key } },
+      data: {
+        status: 'COMPLETED',
+        response: JSON.stringify(response ?? null),
+        expiresAt: new Date(now.getTime() + envs.idempotencyKeyTtlSeconds * 1000),
+      },
+    });
+  }
+
+  /**
+   * Releases a claimed key after a failed request, so a retry runs it again.
+   * @async
+   * @param {string} scope - The pattern the key belongs to.
+   * @param {string} key - The idempotency key.
+   * @returns {Promise<void>}
+   */
+  async release(scope: string, key: string): Promise<void> {
+    await this.prisma.idempotencyRecord.deleteMany({ where: { scope, key, status: 'IN_PROGRESS' } });
+  }
+
+  /**
+   * Deletes expired records.
+   * @async
+   * @param {Date} now - Reference time.
+   * @returns {Promise<number>} The number of records deleted.
+   */
+  async purgeExpired(now: Date): Promise<number> {
+    const { count } = await this.prisma.idempotencyRecord.deleteMany({ where: { expiresAt: { lte: now } } });
+    return count;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * @file Computes a stable fingerprint of a request payload.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that key order does not change the result.
+ * @param {unknown} value - The value to serialize.
+ * @returns {string} Canonical JSON.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprints a request payload.
+ * @param {unknown} payload - The payload as received.
+ * @returns {string} Hex-encoded SHA-256 of its canonical JSON.
+ */
+export function fingerprintOf(payload: unknown): string {
+  return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
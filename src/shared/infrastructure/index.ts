@@ -2,3 +2,7 @@ export * from './filters';
 export * from './interceptors';
 export * from './prisma';
 
+export * from './idempotency';
+export * from './request-context';
+export * from './json-schema';
+export * from './auth';
@@ -0,0 +1,81 @@
+/**
+ * @file Ajv adapter implementing the JsonSchemaValidator port.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable } from '@nestjs/common';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { JsonSchema, JsonSchemaValidator } from '../../application/json-schema-validator';
+
+/**
+ * @class AjvJsonSchemaValidator
+ * @implements JsonSchemaValidator
+ * @description Validates with Ajv (JSON Schema draft-07) in strict mode, so misspelt keywords are reported
+ * instead of silently ignored. Compiled schemas are cached by their JSON text.
+ */
+@Injectable()
+export class AjvJsonSchemaValidator implements JsonSchemaValidator {
+  private readonly ajv = new Ajv({ allErrors: true });
+  private readonly compiled = new Map<string, ValidateFunction>();
+
+  /**
+   * Checks that a schema compiles.
+   * @param {JsonSchema} schema - The schema.
+   * @returns {string[]} What is wrong with the schema; empty if it is valid.
+   */
+  schemaErrors(schema: JsonSchema): string[] {
+    try {
+      this.compile(schema);
+      return [];
+    } catch (error: any) {
+      return [error.message];
+    }
+  }
+
+  /**
+   * Checks a value against a schema.
+   * @param {JsonSchema} schema - A valid schema.
+   * @param {unknown} value - The value to check.
+   * @param {string} [name='value'] - How the value is named in the messages.
+   * @returns {string[]} Every rule the value breaks.
+   */
+  validate(schema: JsonSchema, value: unknown, name: string = 'value'): string[] {
+    const validateFn = this.compile(schema);
+    if (validateFn(value)) {
+      return [];
+    }
+    return (validateFn.errors ?? []).map(error => this.describe(error, name));
+  }
+
+  /**
+   * Compiles a schema once and reuses it afterwards.
+   * @private
+   * @param {JsonSchema} schema - The schema.
+   * @returns {ValidateFunction} The compiled validator.
+   * @throws {Error} If the schema is invalid.
+   */
+  private compile(schema: JsonSchema): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validateFn = this.compiled.get(key);
+    if (!validateFn) {
+      validateFn = this.ajv.compile(schema);
+      this.compiled.set(key, validateFn);
+    }
+    return validateFn;
+  }
+
+  /**
+   * Turns an Ajv error into a sentence naming the offending property.
+   * @private
+   * @param {ErrorObject} error - The Ajv error.
+   * @param {string} name - The name of the validated value.
+   * @returns {string} e.g. "attributes.brand must be string".
+   */
+  private describe(error: ErrorObject, name: string): string {
+    const path = error.instancePath.split('/').slice(1).map(segment => `.${segment}`).join('');
+    const extra = error.params?.additionalProperty ? ` (${error.params.additionalProperty})` : '';
+    return `${name}${path} ${error.message}${extra}`;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './ajv-json-schema.validator';
+export * from './json-schema.module';
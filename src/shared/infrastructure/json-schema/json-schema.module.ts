@@ -0,0 +1,21 @@
+/**
+ * @file Module providing the JsonSchemaValidator globally.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { JSON_SCHEMA_VALIDATOR } from '../../application/json-schema-validator';
+import { AjvJsonSchemaValidator } from './ajv-json-schema.validator';
+
+/**
+ * @module JsonSchemaModule
+ * @description Provides and exports the JsonSchemaValidator for global use.
+ */
+@Global()
+@Module({
+  providers: [{ provide: JSON_SCHEMA_VALIDATOR, useClass: AjvJsonSchemaValidator }],
+  exports: [JSON_SCHEMA_VALIDATOR],
+})
+export class JsonSchemaModule {}
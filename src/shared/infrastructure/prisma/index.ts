@@ -1,2 +1,3 @@
 export * from './prisma.service';
+export * from './prisma-unit-of-work';
 export * from './prisma.module';
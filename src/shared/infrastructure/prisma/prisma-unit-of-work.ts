@@ -0,0 +1,43 @@
+/**
+ * @file Prisma implementation of the UnitOfWork port.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable } from '@nestjs/common';
+import { UnitOfWork } from '../../application/unit-of-work';
+import { PrismaService } from './prisma.service';
+
+/**
+ * @class PrismaUnitOfWork
+ * @implements UnitOfWork
+ * @description Runs work inside one Prisma interactive transaction shared by every adapter that uses
+ * `PrismaService.client` or `PrismaService.transaction()`.
+ */
+@Injectable()
+export class PrismaUnitOfWork implements UnitOfWork {
+  /**
+   * @constructor
+   * @param {PrismaService} prisma - Injected PrismaService instance.
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Runs the work in a transaction.
+   * @async
+   * @param {() => Promise<T>} work - Repository calls to run together.
+   * @returns {Promise<T>} The work's result, once committed.
+   */
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return this.prisma.transaction(() => work());
+  }
+
+  /**
+   * Schedules a callback for when the current transaction commits.
+   * @param {() => void} callback - The callback.
+   */
+  afterCommit(callback: () => void): void {
+    this.prisma.afterCommit(callback);
+  }
+}
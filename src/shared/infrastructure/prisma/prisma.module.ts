@@ -6,14 +6,16 @@
  */
 import { Global, Module } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { PrismaUnitOfWork } from './prisma-unit-of-work';
+import { UNIT_OF_WORK } from '../../application/unit-of-work';
 
 /**
  * @module PrismaModule
- * @description Provides and exports the PrismaService for global use.
+ * @description Provides and exports the PrismaService and the UnitOfWork for global use.
  */
 @Global()
 @Module({
-  providers: [PrismaService],
-  exports: [PrismaService],
+  providers: [PrismaService, { provide: UNIT_OF_WORK, useClass: PrismaUnitOfWork }],
+  exports: [PrismaService, UNIT_OF_WORK],
 })
-export class PrismaModule {}
\ No newline at end of file
+export class PrismaModule {}
@@ -6,7 +6,17 @@
  */
 
 import { Injectable, OnModuleInit, Logger, OnModuleDestroy } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * @interface ActiveTransaction
+ * @description The transaction client of a running unit of work and the callbacks to run once it commits.
+ */
+interface ActiveTransaction {
+  tx: Prisma.TransactionClient;
+  afterCommit: (() => void)[];
+}
 
 /**
  * @class PrismaService
@@ -14,11 +24,72 @@ import { PrismaClient } from '@prisma/client';
  * @implements OnModuleInit
  * @implements OnModuleDestroy
  * @description Manages the Prisma client lifecycle (connection/disconnection) for SQLite.
- * Can be injected into repository adapters.
+ * Can be injected into repository adapters. Adapters that should take part in a unit of work
+ * use `client` and `transaction()` instead of the root client.
  */
 @Injectable()
 export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(PrismaService.name);
+  private readonly transactionContext = new AsyncLocalStorage<ActiveTransaction>();
+
+  /**
+   * @property {Prisma.TransactionClient} client - The transaction client of the current unit of work,
+   * or the root client outside of one.
+   */
+  get client(): Prisma.TransactionClient {
+    return this.transactionContext.getStore()?.tx ?? this;
+  }
+
+  /**
+   * @async
+   * @method transaction
+   * @description Runs work in an interactive transaction. Inside a running transaction the work joins it
+   * instead of opening a nested one, so everything commits or rolls back together.
+   * @param {(tx: Prisma.TransactionClient) => Promise<T>} work - The transactional work.
+   * @returns {Promise<T>} The work's result.
+   */
+  async transaction<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    const active = this.transactionContext.getStore();
+    if (active) {
+      return work(active.tx);
+    }
+    const afterCommit: (() => void)[] = [];
+    const result = await this.$transaction(
+      (tx: Prisma.TransactionClient) => this.transactionContext.run({ tx, afterCommit }, () => work(tx)),
+    );
+    afterCommit.forEach(callback => this.runCommitted(callback));
+    return result;
+  }
+
+  /**
+   * @method afterCommit
+   * @description Schedules a callback for when the running transaction commits; it is dropped on rollback.
+   * Outside of a transaction the callback runs at once. A failing callback is logged and does not affect
+   * the committed work.
+   * @param {() => void} callback - The callback.
+   */
+  afterCommit(callback: () => void): void {
+    const active = this.transactionContext.getStore();
+    if (active) {
+      active.afterCommit.push(callback);
+    } else {
+      this.runCommitted(callback);
+    }
+  }
+
+  /**
+   * @private
+   * @method runCommitted
+   * @description Runs an after-commit callback, logging its failure.
+   * @param {() => void} callback - The callback.
+   */
+  private runCommitted(callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      this.logger.error('An after-commit callback failed', error);
+    }
+  }
 
   /**
    * @async
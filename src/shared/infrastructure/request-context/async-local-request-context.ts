@@ -0,0 +1,45 @@
+/**
+ * @file AsyncLocalStorage implementation of the RequestContextProvider port.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext, RequestContextProvider } from '../../application/request-context';
+
+/**
+ * @const {RequestContext} EMPTY_CONTEXT
+ * @description Context reported outside of any request.
+ */
+const EMPTY_CONTEXT: RequestContext = Object.freeze({ actor: null, correlationId: null, tenantId: null, roles: null });
+
+/**
+ * @class AsyncLocalRequestContext
+ * @implements RequestContextProvider
+ * @description Keeps the request context in AsyncLocalStorage, so it follows the request through
+ * the command and query buses without being passed around.
+ */
+@Injectable()
+export class AsyncLocalRequestContext implements RequestContextProvider {
+  private readonly storage = new AsyncLocalStorage<RequestContext>();
+
+  /**
+   * Returns the context of the current request.
+   * @returns {RequestContext} The current context, or an empty one.
+   */
+  current(): RequestContext {
+    return this.storage.getStore() ?? EMPTY_CONTEXT;
+  }
+
+  /**
+   * Runs work with a request context.
+   * @param {RequestContext} context - The context.
+   * @param {() => T} work - The work.
+   * @returns {T} The work's result.
+   */
+  run<T>(context: RequestContext, work: () => T): T {
+    return this.storage.run(context, work);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @file Hands the caller of a verified token from the AuthGuard to the RequestContextInterceptor.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+/**
+ * @interface AuthenticatedCaller
+ * @description What a verified token says about its caller: its `sub` claim (null if it has none) and roles.
+ */
+export interface AuthenticatedCaller {
+  actor: string | null;
+  roles: string[];
+}
+
+/**
+ * @const {WeakMap<object, AuthenticatedCaller>} authenticatedCallers
+ * @description Token callers by message context. Guards run before interceptors and both receive the same
+ * context object, which is dropped with the message.
+ */
+const authenticatedCallers = new WeakMap<object, AuthenticatedCaller>();
+
+/**
+ * Records the caller of the token a message was authenticated with.
+ * @param {object} messageContext - The transport context of the message, e.g. its NatsContext.
+ * @param {AuthenticatedCaller} caller - The token's subject and roles.
+ */
+export function recordAuthenticatedCaller(messageContext: object, caller: AuthenticatedCaller): void {
+  authenticatedCallers.set(messageContext, caller);
+}
+
+/**
+ * Returns the caller of the token a message was authenticated with.
+ * @param {object} messageContext - The transport context of the message.
+ * @returns {AuthenticatedCaller | undefined} The caller, or undefined if no token was verified for the message.
+ */
+export function authenticatedCaller(messageContext: object): AuthenticatedCaller | undefined {
+  return authenticatedCallers.get(messageContext);
+}
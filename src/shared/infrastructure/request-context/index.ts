@@ -0,0 +1,5 @@
+export * from './request-context.module';
+export * from './async-local-request-context';
+export * from './request-context.interceptor';
+export * from './authenticated-caller';
+export * from './tenant-scope';
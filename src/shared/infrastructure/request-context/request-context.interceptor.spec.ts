@@ -0,0 +1,58 @@
+/**
+ * @file Tests of RequestContextInterceptor.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { NatsContext } from '@nestjs/microservices';
+import { lastValueFrom, of } from 'rxjs';
+import { AsyncLocalRequestContext } from './async-local-request-context';
+import { recordAuthenticatedCaller } from './authenticated-caller';
+import { RequestContextInterceptor } from './request-context.interceptor';
+
+describe('RequestContextInterceptor', () => {
+  const requestContext = new AsyncLocalRequestContext();
+  const interceptor = new RequestContextInterceptor(requestContext);
+
+  /**
+   * Runs the interceptor on a message and returns the request context its handler saw.
+   * @param {NatsContext} natsContext - The message context.
+   * @returns {Promise<any>} The handler's request context.
+   */
+  function contextSeenBy(natsContext: NatsContext): Promise<any> {
+    const executionContext = new ExecutionContextHost([{ id: 1 }, natsContext]);
+    executionContext.setType('rpc');
+    return lastValueFrom(interceptor.intercept(executionContext, { handle: () => of(requestContext.current()) }));
+  }
+
+  /**
+   * Builds the context of a message with the given headers.
+   * @param {Record<string, string>} values - Header values by name.
+   * @returns {NatsContext} The message context.
+   */
+  function natsContextWith(values: Record<string, string>): NatsContext {
+    return new NatsContext(['get_product', { get: (name: string) => values[name] } as any]);
+  }
+
+  it('takes the actor from the verified token rather than the Actor-Id header', async () => {
+    const natsContext = natsContextWith({ 'Tenant-Id': 'acme', 'Actor-Id': 'admin' });
+    recordAuthenticatedCaller(natsContext, { actor: 'svc-storefront', roles: ['catalog:read'] });
+
+    expect(await contextSeenBy(natsContext)).toMatchObject({ actor: 'svc-storefront', tenantId: 'acme', roles: ['catalog:read'] });
+  });
+
+  it('ignores the Actor-Id header when the verified token has no subject', async () => {
+    const natsContext = natsContextWith({ 'Tenant-Id': 'acme', 'Actor-Id': 'admin' });
+    recordAuthenticatedCaller(natsContext, { actor: null, roles: [] });
+
+    expect((await contextSeenBy(natsContext)).actor).toBeNull();
+  });
+
+  it('falls back to the Actor-Id header when no token was verified', async () => {
+    const natsContext = natsContextWith({ 'Tenant-Id': 'acme', 'Actor-Id': ' worker-7 ', 'Correlation-Id': 'c-1' });
+
+    expect(await contextSeenBy(natsContext)).toEqual({ actor: 'worker-7', correlationId: 'c-1', tenantId: 'acme', roles: [] });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @file Interceptor that establishes the request context from NATS headers.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { CallHandler, ExecutionContext, HttpStatus, Injectable, NestInterceptor } from '@nestjs/common';
+import { NatsContext, RpcException } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { Observable } from 'rxjs';
+import { AsyncLocalRequestContext } from './async-local-request-context';
+import { authenticatedCaller } from './authenticated-caller';
+import { TENANT_ID_PATTERN } from './tenant-scope';
+
+/**
+ * @const {string} ACTOR_HEADER
+ * @description NATS header identifying who sent the request, e.g. a user ID or service name. Only used
+ * when no token was verified for the message.
+ */
+export const ACTOR_HEADER = 'Actor-Id';
+
+/**
+ * @const {string} CORRELATION_ID_HEADER
+ * @description NATS header carrying the caller's correlation ID.
+ */
+export const CORRELATION_ID_HEADER = 'Correlation-Id';
+
+/**
+ * @const {string} TENANT_HEADER
+ * @description NATS header naming the tenant (storefront) the request acts for.
+ */
+export const TENANT_HEADER = 'Tenant-Id';
+
+/**
+ * @const {string} TENANT_FIELD
+ * @description Payload field naming the tenant, for clients that cannot set headers.
+ */
+export const TENANT_FIELD = 'tenantId';
+
+/**
+ * @const {number} MAX_HEADER_LENGTH
+ * @description Longer header values are truncated.
+ */
+const MAX_HEADER_LENGTH = 255;
+
+/**
+ * @class RequestContextInterceptor
+ * @implements NestInterceptor
+ * @description Runs each message handler with the actor from the `sub` claim of the token the AuthGuard
+ * verified (or, for messages no token was verified for, from the `Actor-Id` header), the token's roles (none
+ * without a token), the correlation ID
+ * from the `Correlation-Id` header and the tenant from the `Tenant-Id` header or the `tenantId` payload
+ * field (removed before validation). A correlation ID is generated when the caller sends none; a request
+ * without a tenant is rejected.
+ */
+@Injectable()
+export class RequestContextInterceptor implements NestInterceptor {
+  /**
+   * @constructor
+   * @param {AsyncLocalRequestContext} requestContext - Injected request context.
+   */
+  constructor(private readonly requestContext: AsyncLocalRequestContext) {}
+
+  /**
+   * Reads the headers and runs the handler within the resulting context.
+   * @param {ExecutionContext} context - The execution context.
+   * @param {CallHandler} next - The handler.
+   * @returns {Observable<unknown>} The response stream.
+   * @throws {RpcException} 400 if the tenant is missing or malformed.
+   */
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'rpc') {
+      return next.handle();
+    }
+    const rpc = context.switchToRpc();
+    const natsContext = rpc.getContext<NatsContext>();
+    const headers = natsContext.getHeaders();
+    const caller = authenticatedCaller(natsContext);
+    const actor = caller === undefined
+      ? this.headerValue(headers, ACTOR_HEADER)
+      : caller.actor?.slice(0, MAX_HEADER_LENGTH) ?? null;
+    const roles = caller?.roles ?? [];
+    const correlationId = this.headerValue(headers, CORRELATION_ID_HEADER) ?? randomUUID();
+    const tenantId = this.extractTenant(rpc.getData(), headers);
+    // The handler is bound to the async context current when handle() is called
+    return this.requestContext.run({ actor, correlationId, tenantId, roles }, () => next.handle());
+  }
+
+  /**
+   * Reads the tenant from the header, falling back to the payload field, and strips the field from the payload.
+   * @private
+   * @param {any} payload - The raw payload.
+   * @param {any} headers - The NATS message headers, if any.
+   * @returns {string} The tenant ID.
+   * @throws {RpcException} 400 if no tenant was sent or it is not a valid tenant ID.
+   */
+  private extractTenant(payload: any, headers: any): string {
+    let tenantId: unknown = this.headerValue(headers, TENANT_HEADER) ?? undefined;
+    if (payload !== null && typeof payload === 'object' && !Array.isArray(payload) && TENANT_FIELD in payload) {
+      tenantId ??= payload[TENANT_FIELD];
+      delete payload[TENANT_FIELD];
+    }
+    if (tenantId === undefined || tenantId === null) {
+      throw new RpcException({
+        status: HttpStatus.BAD_REQUEST,
+        message: `A tenant is required: send the ${TENANT_HEADER} header or the ${TENANT_FIELD} field.`,
+      });
+    }
+    if (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId)) {
+      throw new RpcException({
+        status: HttpStatus.BAD_REQUEST,
+        message: `${TENANT_FIELD} must be 1 to 64 letters, digits, dots, dashes or underscores.`,
+      });
+    }
+    return tenantId;
+  }
+
+  /**
+   * Reads a trimmed, non-empty header value.
+   * @private
+   * @param {any} headers - The NATS message headers, if any.
+   * @param {string} name - The header name.
+   * @returns {string | null} The value, or null if absent or blank.
+   */
+  private headerValue(headers: any, name: string): string | null {
+    const value: unknown = headers?.get?.(name);
+    if (typeof value !== 'string' || value.trim() === '') {
+      return null;
+    }
+    return value.trim().slice(0, MAX_HEADER_LENGTH);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * @file Module providing the request context globally.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { REQUEST_CONTEXT } from '../../application/request-context';
+import { AsyncLocalRequestContext } from './async-local-request-context';
+import { RequestContextInterceptor } from './request-context.interceptor';
+
+/**
+ * @module RequestContextModule
+ * @description Provides the RequestContextProvider and applies the RequestContextInterceptor to every
+ * message pattern.
+ */
+@Global()
+@Module({
+  providers: [
+    AsyncLocalRequestContext,
+    { provide: REQUEST_CONTEXT, useExisting: AsyncLocalRequestContext },
+    { provide: APP_INTERCEPTOR, useClass: RequestContextInterceptor },
+  ],
+  exports: [AsyncLocalRequestContext, REQUEST_CONTEXT],
+})
+export class RequestContextModule {}
@@ -0,0 +1,48 @@
+/**
+ * @file Helpers that scope persistence to the tenant of the current request.
+ * @author Roberto Morales
+ * @version 1.0.0
+ * @date 2025-05-01
+ */
+
+import { HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { RequestContextProvider } from '../../application/request-context';
+
+/**
+ * @const {RegExp} TENANT_ID_PATTERN
+ * @description Accepted tenant IDs: 1 to 64 letters, digits, dots, dashes or underscores, not starting
+ * with a symbol.
+ */
+export const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/**
+ * @type TenantScope
+ * @description A Prisma `where` fragment restricting rows to the current tenant. Empty outside of a request,
+ * so background workers see every tenant.
+ */
+export type TenantScope = { tenantId?: string };
+
+/**
+ * Builds the filter that restricts a query to the tenant of the current request.
+ * @param {RequestContextProvider} requestContext - The request context.
+ * @returns {TenantScope} The filter.
+ */
+export function tenantScope(requestContext: RequestContextProvider): TenantScope {
+  const { tenantId } = requestContext.current();
+  return tenantId === null ? {} : { tenantId };
+}
+
+/**
+ * Returns the tenant new rows are stored under.
+ * @param {RequestContextProvider} requestContext - The request context.
+ * @returns {string} The tenant of the current request.
+ * @throws {RpcException} 400 if there is no tenant, i.e. the write happens outside of a request.
+ */
+export function requireTenant(requestContext: RequestContextProvider): string {
+  const { tenantId } = requestContext.current();
+  if (tenantId === null) {
+    throw new RpcException({ status: HttpStatus.BAD_REQUEST, message: 'A tenant is required.' });
+  }
+  return tenantId;
+}